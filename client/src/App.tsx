@@ -19,9 +19,12 @@ const AppPage = lazy(() => import("./pages/app"));
 const Favorites = lazy(() => import("./pages/favorites"));
 const Profile = lazy(() => import("./pages/profile"));
 const ManageCompanies = lazy(() => import("./pages/profile/companies"));
+const ManageTeam = lazy(() => import("./pages/profile/team"));
+const ManageHookFormulas = lazy(() => import("./pages/admin/hook-formulas"));
 const Pricing = lazy(() => import("./pages/pricing"));
 const Billing = lazy(() => import("./pages/billing"));
 const History = lazy(() => import("./pages/history"));
+const Batches = lazy(() => import("./pages/batches"));
 
 // Loading component for suspense fallback
 const PageLoader = ({ message = "Loading..." }: { message?: string }) => (
@@ -142,6 +145,15 @@ function AppRouter() {
           </ErrorBoundary>
         </ProtectedRoute>
       )} />
+      <Route path="/batches" component={() => (
+        <ProtectedRoute>
+          <ErrorBoundary>
+            <Suspense fallback={<PageLoader message="Loading batches..." />}>
+              <Batches />
+            </Suspense>
+          </ErrorBoundary>
+        </ProtectedRoute>
+      )} />
       <Route path="/profile" component={() => (
         <ProtectedRoute>
           <ErrorBoundary>
@@ -160,6 +172,24 @@ function AppRouter() {
           </ErrorBoundary>
         </ProtectedRoute>
       )} />
+      <Route path="/profile/team" component={() => (
+        <ProtectedRoute>
+          <ErrorBoundary>
+            <Suspense fallback={<PageLoader message="Loading team..." />}>
+              <ManageTeam />
+            </Suspense>
+          </ErrorBoundary>
+        </ProtectedRoute>
+      )} />
+      <Route path="/admin/hook-formulas" component={() => (
+        <ProtectedRoute>
+          <ErrorBoundary>
+            <Suspense fallback={<PageLoader message="Loading hook formulas..." />}>
+              <ManageHookFormulas />
+            </Suspense>
+          </ErrorBoundary>
+        </ProtectedRoute>
+      )} />
       <Route path="/pricing" component={() => (
         <Suspense fallback={<PageLoader message="Loading pricing..." />}>
           <Pricing />
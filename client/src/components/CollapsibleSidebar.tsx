@@ -7,11 +7,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Wand2, Menu, X, ChevronDown, ChevronUp } from "lucide-react";
-import { SiTiktok, SiInstagram, SiYoutube } from "react-icons/si";
+import { SiTiktok, SiInstagram, SiYoutube, SiLinkedin, SiX } from "react-icons/si";
 import { useIsMobile } from "@/hooks/use-mobile";
-import type { HookGeneration } from "@shared/schema";
+import type { HookGeneration, GenerationPlatform } from "@shared/schema";
 
-type Platform = "tiktok" | "instagram" | "youtube";
+type Platform = GenerationPlatform;
 type Objective = "watch_time" | "shares" | "saves" | "ctr";
 
 interface CollapsibleSidebarProps {
@@ -48,9 +48,31 @@ const platforms = [
     icon: "YouTube",
     color: "bg-red-600",
     textColor: "text-white"
+  },
+  { 
+    value: "linkedin" as Platform, 
+    label: "LinkedIn", 
+    icon: "LinkedIn",
+    color: "bg-[#0A66C2]",
+    textColor: "text-white"
+  },
+  { 
+    value: "twitter" as Platform, 
+    label: "X", 
+    icon: "X",
+    color: "bg-black",
+    textColor: "text-white"
   }
 ];
 
+const platformIcons: Record<Platform, typeof SiTiktok> = {
+  tiktok: SiTiktok,
+  instagram: SiInstagram,
+  youtube: SiYoutube,
+  linkedin: SiLinkedin,
+  twitter: SiX
+};
+
 const objectives = [
   { value: "watch_time" as Objective, label: "Watch time" },
   { value: "shares" as Objective, label: "Shares" },
@@ -90,8 +112,7 @@ export default function CollapsibleSidebar({
         <div className="grid grid-cols-3 gap-2">
           {platforms.map((platform) => {
             const isSelected = selectedPlatform === platform.value;
-            const IconComponent = platform.value === "tiktok" ? SiTiktok : 
-                                 platform.value === "instagram" ? SiInstagram : SiYoutube;
+            const IconComponent = platformIcons[platform.value];
             
             return (
               <Button
@@ -107,8 +128,9 @@ export default function CollapsibleSidebar({
               >
                 <IconComponent className={`text-lg ${
                   isSelected ? platform.textColor : 
-                  platform.value === "tiktok" ? "text-black" :
+                  platform.value === "tiktok" || platform.value === "twitter" ? "text-black" :
                   platform.value === "instagram" ? "text-pink-500" :
+                  platform.value === "linkedin" ? "text-[#0A66C2]" :
                   "text-red-600"
                 }`} />
                 <span className={`text-xs font-medium ${
@@ -10,10 +10,14 @@ import { Reveal } from './Reveal';
 import { OptimizedImage, CriticalImage } from './OptimizedImage';
 import { useReducedMotionSafe } from '../hooks/useReducedMotionSafe';
 import { analytics } from '../lib/analytics';
+import { useABTesting } from '../hooks/useConversionTracking';
 import { memo, type FC, type MouseEventHandler } from 'react';
 import type { StrictComponentProps, ResponsiveValue } from '@/types/utils';
 import type { AnalyticsContext } from '@/types/analytics';
 
+type HeroVariant = 'default' | 'experimental' | 'minimal';
+const HERO_VARIANTS: Record<HeroVariant, Record<string, unknown>> = { default: {}, experimental: {}, minimal: {} };
+
 /**
  * Props for the ConversionHero component with strict typing
  * Optimized for conversion tracking and accessibility
@@ -21,8 +25,8 @@ import type { AnalyticsContext } from '@/types/analytics';
 interface ConversionHeroProps extends StrictComponentProps<{
   /** Callback triggered when the demo modal should be displayed */
   readonly onShowModal: () => void | Promise<void>;
-  /** Optional variant for A/B testing */
-  readonly variant?: 'default' | 'experimental' | 'minimal';
+  /** Fixed variant; when left out the "conversion-hero" A/B test picks one */
+  readonly variant?: HeroVariant;
   /** Custom headline text override */
   readonly customHeadline?: string;
   /** Custom subheadline text override */
@@ -47,7 +51,7 @@ interface ConversionHeroProps extends StrictComponentProps<{
  */
 const ConversionHeroComponent: FC<ConversionHeroProps> = ({ 
   onShowModal,
-  variant = 'default',
+  variant: fixedVariant,
   customHeadline,
   customSubheadline,
   showUrgency = true,
@@ -62,6 +66,9 @@ const ConversionHeroComponent: FC<ConversionHeroProps> = ({
   const prefersReducedMotion = useReducedMotionSafe();
   const [, setLocation] = useLocation();
   const [showDemo, setShowDemo] = useState(false);
+  const heroTest = useABTesting('conversion-hero', HERO_VARIANTS, { fallbackVariant: 'default', enabled: !fixedVariant });
+  const variant = fixedVariant ?? heroTest.variant;
+  const { trackConversion } = heroTest;
 
   const handleCtaClick = useCallback<MouseEventHandler<HTMLButtonElement>>((event) => {
     event.preventDefault();
@@ -79,6 +86,7 @@ const ConversionHeroComponent: FC<ConversionHeroProps> = ({
     };
     
     analytics.trackCtaStartedFree('hero_primary');
+    trackConversion();
     analytics.track('cta_click', {
       component: 'ConversionHero',
       variant,
@@ -87,7 +95,7 @@ const ConversionHeroComponent: FC<ConversionHeroProps> = ({
     });
     
     setLocation('/onboarding');
-  }, [setLocation, variant, ctaText, analyticsContext]);
+  }, [setLocation, variant, ctaText, analyticsContext, trackConversion]);
 
   const handleDemoClick = useCallback<MouseEventHandler<HTMLButtonElement>>((event) => {
     event.preventDefault();
@@ -1,4 +1,4 @@
-import { memo, useState, useCallback } from 'react';
+import { memo, useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -16,9 +16,20 @@ import {
 import { SiTiktok, SiInstagram, SiYoutube } from 'react-icons/si';
 import { useReducedMotionSafe } from '../hooks/useReducedMotionSafe';
 import { analytics } from '../lib/analytics';
+import { useABTesting } from '../hooks/useConversionTracking';
+
+type CTAVariant = 'primary' | 'secondary' | 'platform-specific' | 'urgent' | 'minimal';
+const CTA_VARIANTS: Record<CTAVariant, Record<string, unknown>> = {
+  primary: {},
+  secondary: {},
+  'platform-specific': {},
+  urgent: {},
+  minimal: {}
+};
 
 interface InteractiveCTAProps {
-  variant?: 'primary' | 'secondary' | 'platform-specific' | 'urgent' | 'minimal';
+  variant?: CTAVariant; // Fixed variant; when left out the "interactive-cta" A/B test picks one
+  abTest?: string; // Test to take the variant from, default "interactive-cta"
   platform?: 'tiktok' | 'instagram' | 'youtube' | 'all';
   size?: 'sm' | 'md' | 'lg' | 'xl';
   showUrgency?: boolean;
@@ -62,7 +73,8 @@ const platformConfigs = {
 };
 
 const ButtonStatesComponent = ({ 
-  variant = 'primary',
+  variant: fixedVariant,
+  abTest = 'interactive-cta',
   platform = 'all',
   size = 'lg',
   showUrgency = false,
@@ -75,6 +87,9 @@ const ButtonStatesComponent = ({
   const prefersReducedMotion = useReducedMotionSafe();
   const [buttonState, setButtonState] = useState<'idle' | 'hover' | 'loading' | 'success'>('idle');
   const [urgencyCount, setUrgencyCount] = useState(247);
+  const ctaTest = useABTesting(abTest, CTA_VARIANTS, { fallbackVariant: 'primary', enabled: !fixedVariant });
+  const variant = fixedVariant ?? ctaTest.variant;
+  const { trackConversion } = ctaTest;
 
   const platformConfig = platformConfigs[platform];
 
@@ -97,6 +112,7 @@ const ButtonStatesComponent = ({
     
     // Track analytics
     analytics.trackCtaStartedFree(`interactive_cta_${context}_${platform}`);
+    trackConversion();
     
     // Simulate loading
     await new Promise(resolve => setTimeout(resolve, 800));
@@ -109,7 +125,7 @@ const ButtonStatesComponent = ({
     }
     
     setButtonState('success');
-  }, [buttonState, onAction, context, platform]);
+  }, [buttonState, onAction, context, platform, trackConversion]);
 
   const getSizeClasses = () => {
     switch (size) {
@@ -356,11 +372,18 @@ export const PlatformCTAGroup = memo(({ className = '' }: { className?: string }
 });
 
 // A/B Test CTA variants
+const CTA_GROUP_VARIANTS = { A: {}, B: {} };
+
 export const ABTestCTAGroup = memo(({ className = '' }: { className?: string }) => {
-  const [variant] = useState(() => Math.random() > 0.5 ? 'A' : 'B');
+  const { variant, trackConversion } = useABTesting('cta-group', CTA_GROUP_VARIANTS, { fallbackVariant: 'A' });
   
   return (
-    <div className={className}>
+    <div
+      className={className}
+      onClickCapture={(event) => {
+        if ((event.target as HTMLElement).closest('button')) trackConversion();
+      }}
+    >
       {variant === 'A' ? (
         <ButtonStatesComponent
           variant="primary"
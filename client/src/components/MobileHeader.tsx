@@ -9,6 +9,7 @@ import {
   History, 
   Settings, 
   Building2, 
+  Users,
   LogOut, 
   CreditCard,
   User as UserIcon,
@@ -75,6 +76,14 @@ export function MobileHeader({ user, credits, onNewHook }: MobileHeaderProps) {
         closeMenu();
       }
     },
+    {
+      icon: Users,
+      label: "Team Workspace",
+      action: () => {
+        setLocation("/profile/team");
+        closeMenu();
+      }
+    },
     {
       icon: CreditCard,
       label: "Billing & Plans",
@@ -5,10 +5,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Wand2, X } from 'lucide-react';
-import { SiTiktok, SiInstagram, SiYoutube } from 'react-icons/si';
-import type { HookGeneration } from '@shared/schema';
+import { SiTiktok, SiInstagram, SiYoutube, SiLinkedin, SiX } from 'react-icons/si';
+import { HOOK_LANGUAGE_NAMES, type HookGeneration, type GenerationPlatform } from '@shared/schema';
 
-type Platform = "tiktok" | "instagram" | "youtube";
+type Platform = GenerationPlatform;
 type Objective = "watch_time" | "shares" | "saves" | "ctr";
 
 interface MobileSidebarProps {
@@ -20,6 +20,10 @@ interface MobileSidebarProps {
   setObjective: (objective: Objective) => void;
   topic: string;
   setTopic: (topic: string) => void;
+  outline: string;
+  setOutline: (outline: string) => void;
+  locale: string;
+  setLocale: (locale: string) => void;
   onGenerate: () => void;
   isGenerating: boolean;
   generations?: HookGeneration[];
@@ -36,6 +40,10 @@ export function MobileSidebar({
   setObjective,
   topic,
   setTopic,
+  outline,
+  setOutline,
+  locale,
+  setLocale,
   onGenerate,
   isGenerating,
   generations,
@@ -63,6 +71,20 @@ export function MobileSidebar({
       icon: SiYoutube,
       color: "bg-red-600",
       textColor: "text-white"
+    },
+    { 
+      value: "linkedin" as Platform, 
+      label: "LinkedIn", 
+      icon: SiLinkedin,
+      color: "bg-[#0A66C2]",
+      textColor: "text-white"
+    },
+    { 
+      value: "twitter" as Platform, 
+      label: "X", 
+      icon: SiX,
+      color: "bg-black",
+      textColor: "text-white"
     }
   ];
 
@@ -124,8 +146,9 @@ export function MobileSidebar({
                   >
                     <IconComponent className={`text-xl ${
                       isSelected ? platform.textColor : 
-                      platform.value === "tiktok" ? "text-black" :
+                      platform.value === "tiktok" || platform.value === "twitter" ? "text-black" :
                       platform.value === "instagram" ? "text-pink-500" :
+                      platform.value === "linkedin" ? "text-[#0A66C2]" :
                       "text-red-600"
                     }`} />
                     <span className={`font-medium ${
@@ -158,6 +181,26 @@ export function MobileSidebar({
             </Select>
           </div>
 
+          {/* Language Selection */}
+          <div>
+            <Label htmlFor="locale" className="text-sm font-medium text-slate-700 mb-2 block">
+              Language
+            </Label>
+            <Select value={locale} onValueChange={setLocale}>
+              <SelectTrigger className="h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="brand">Brand default</SelectItem>
+                {Object.entries(HOOK_LANGUAGE_NAMES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Topic Input */}
           <div>
             <Label htmlFor="topic" className="text-sm font-medium text-slate-700 mb-2 block">
@@ -177,6 +220,21 @@ export function MobileSidebar({
             </p>
           </div>
 
+          {/* Outline Input */}
+          <div>
+            <Label htmlFor="outline" className="text-sm font-medium text-slate-700 mb-2 block">
+              Content Outline (optional)
+            </Label>
+            <Textarea
+              id="outline"
+              placeholder="One point per line - hooks that promise more than this get flagged"
+              value={outline}
+              onChange={(e) => setOutline(e.target.value)}
+              className="h-24 resize-none text-sm"
+              aria-label="Video content outline"
+            />
+          </div>
+
           {/* Generate Button */}
           <div>
             <Button 
@@ -70,17 +70,42 @@ const examples: Record<Platform, {
   }
 };
 
+// A hook streamed from /api/generate-hooks/stream, shown in place of the static example
+export interface LiveRailHook {
+  verbalHook: string;
+  visualHook?: string;
+  textualHook?: string;
+  framework: string;
+  score: number;
+}
+
 const TriModalRailComponent = ({
-  onTryIdea
+  onTryIdea,
+  liveHook
 }: {
   onTryIdea?: (platform: Platform) => void;
+  liveHook?: LiveRailHook | null;
 }) => {
   const [platform, setPlatform] = useState<Platform>("tiktok");
   const [topic, setTopic] = useState("7-day sugar-free experiment results");
   const [isAnimating, setIsAnimating] = useState(false);
   const shouldReduceMotion = useReducedMotion();
 
-  const example = useMemo(() => examples[platform], [platform]);
+  const example = useMemo(() => {
+    const base = examples[platform];
+    if (!liveHook) return base;
+    return {
+      ...base,
+      verbal: liveHook.verbalHook,
+      visual: liveHook.visualHook || base.visual,
+      textual: liveHook.textualHook || base.textual,
+      framework: liveHook.framework,
+      score: Math.round(liveHook.score * 10) / 10
+    };
+  }, [platform, liveHook]);
+
+  // Re-key the cards per streamed hook so each arrival animates in
+  const cardKey = liveHook ? `${platform}-${liveHook.verbalHook}` : platform;
 
   const handlePlatformChange = useCallback((newPlatform: Platform) => {
     if (newPlatform === platform || isAnimating) return;
@@ -195,7 +220,7 @@ const TriModalRailComponent = ({
           {/* Verbal Hook Component */}
           <AnimatePresence mode="wait">
             <motion.div 
-              key={`verbal-${platform}`}
+              key={`verbal-${cardKey}`}
               variants={cardVariants}
               initial="initial"
               animate="animate"
@@ -268,7 +293,7 @@ const TriModalRailComponent = ({
           {/* Visual Direction Component */}
           <AnimatePresence mode="wait">
             <motion.div 
-              key={`visual-${platform}`}
+              key={`visual-${cardKey}`}
               variants={cardVariants}
               initial="initial"
               animate="animate"
@@ -339,7 +364,7 @@ const TriModalRailComponent = ({
           {/* Text Overlay Component */}
           <AnimatePresence mode="wait">
             <motion.div 
-              key={`textual-${platform}`}
+              key={`textual-${cardKey}`}
               variants={cardVariants}
               initial="initial"
               animate="animate"
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, Lock } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadExport, type ExportFormatOption } from "@/lib/exports";
+import type { ExportFormat } from "@shared/schema";
+
+interface ExportMenuProps {
+  generationId?: string | undefined;
+  batchId?: string | undefined;
+  disabled?: boolean;
+  onUpgradeRequired?: () => void;
+  size?: "default" | "sm";
+}
+
+export function useExportFormats() {
+  return useQuery<ExportFormatOption[]>({
+    queryKey: ["/api/exports/formats"],
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Export a generation or a batch in any format; formats outside the user's plan are shown locked
+export default function ExportMenu({ generationId, batchId, disabled, onUpgradeRequired, size = "default" }: ExportMenuProps) {
+  const { toast } = useToast();
+  const { data: formats } = useExportFormats();
+  const options = (formats || []).filter(option => !batchId || !option.singleGeneration);
+
+  const exportMutation = useMutation({
+    mutationFn: (format: ExportFormat) => downloadExport({
+      format,
+      ...(generationId ? { generationId } : {}),
+      ...(batchId ? { batchId } : {})
+    }),
+    onSuccess: (_, format) => {
+      const label = options.find(option => option.format === format)?.label ?? format.toUpperCase();
+      toast({ title: "Export ready", description: `Your hooks have been downloaded as ${label}.` });
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith("403:")) {
+        onUpgradeRequired?.();
+      }
+      let description = error.message;
+      try {
+        description = JSON.parse(error.message.replace(/^\d{3}: /, "")).message || description;
+      } catch {}
+      toast({ title: "Export failed", description, variant: "destructive" });
+    }
+  });
+
+  const handleSelect = (option: ExportFormatOption) => {
+    if (!option.allowed) {
+      toast({ title: `${option.label} isn't included in your plan`, description: "Upgrade to unlock more export formats." });
+      onUpgradeRequired?.();
+      return;
+    }
+    exportMutation.mutate(option.format);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled || exportMutation.isPending || (!generationId && !batchId)} className="hover:bg-slate-50">
+          <Download className="w-4 h-4 mr-2" />
+          {exportMutation.isPending ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {options.map(option => (
+          <DropdownMenuItem key={option.format} onClick={() => handleSelect(option)} className={option.allowed ? "" : "text-slate-400"}>
+            {!option.allowed && <Lock className="w-3 h-3 mr-2" />}
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+        {options.length === 0 && <DropdownMenuItem disabled>Loading formats...</DropdownMenuItem>}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
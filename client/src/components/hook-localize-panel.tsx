@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Languages } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { HOOK_LANGUAGE_NAMES, type HookLanguage } from "@shared/schema";
+
+interface HookLocalizePanelProps {
+  generationId: string;
+  hookIndex: number;
+  sourceLocale: string;
+}
+
+interface LocalizedHook {
+  locale: string;
+  verbalHook: string;
+  visualHook?: string;
+  textualHook?: string;
+  adaptationNotes: string;
+}
+
+// Adapt one hook for another language - idioms and references are reworked rather than translated
+export default function HookLocalizePanel({ generationId, hookIndex, sourceLocale }: HookLocalizePanelProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const languages = (Object.keys(HOOK_LANGUAGE_NAMES) as HookLanguage[]).filter(code => code !== sourceLocale.slice(0, 2));
+  const [locale, setLocale] = useState<string>(languages[0] ?? "en");
+  const [localized, setLocalized] = useState<LocalizedHook | null>(null);
+
+  const localizeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/generations/${generationId}/hooks/${hookIndex}/localize`, { locale });
+      return response.json() as Promise<LocalizedHook>;
+    },
+    onSuccess: (result) => setLocalized(result),
+    onError: (error) => {
+      toast({ title: "Couldn't localize hook", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const copyLocalized = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied to clipboard!", variant: "default" });
+    } catch (error) {
+      toast({ title: "Failed to copy", variant: "destructive" });
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" className="mt-3 ml-2" onClick={() => setIsOpen(true)}>
+        <Languages className="w-4 h-4 mr-2" />
+        Localize
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={locale} onValueChange={(value) => { setLocale(value); setLocalized(null); }}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languages.map(code => (
+              <SelectItem key={code} value={code}>{HOOK_LANGUAGE_NAMES[code]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={() => localizeMutation.mutate()} disabled={localizeMutation.isPending}>
+          <Languages className="w-4 h-4 mr-2" />
+          {localizeMutation.isPending ? "Localizing..." : "Localize"}
+        </Button>
+      </div>
+
+      {localized && (
+        <div className="rounded-md bg-white p-3 shadow-sm space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm font-medium text-slate-900">"{localized.verbalHook}"</p>
+            <Button variant="ghost" size="sm" onClick={() => copyLocalized(localized.verbalHook)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          {localized.visualHook && (
+            <p className="text-xs text-slate-600">Visual: {localized.visualHook}</p>
+          )}
+          {localized.textualHook && (
+            <p className="text-xs text-slate-600">On screen: "{localized.textualHook}"</p>
+          )}
+          {localized.adaptationNotes && (
+            <div className="flex items-start gap-2 text-xs text-slate-500">
+              <Badge variant="outline" className="text-xs shrink-0">{localized.locale}</Badge>
+              <span>{localized.adaptationNotes}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BarChart3, Pencil, Trash2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { HookOutcome } from "@shared/schema";
+
+interface HookOutcomeFormProps {
+  generationId: string;
+  hookIndex: number;
+  outcome?: HookOutcome | undefined;
+  canEdit: boolean;
+}
+
+const FIELDS = [
+  { name: "views", label: "Views", step: "1" },
+  { name: "threeSecondRetention", label: "3s retention (%)", step: "0.1" },
+  { name: "avgWatchTimeSeconds", label: "Avg watch time (s)", step: "0.1" },
+  { name: "shares", label: "Shares", step: "1" },
+  { name: "saves", label: "Saves", step: "1" },
+] as const;
+
+type FieldName = typeof FIELDS[number]["name"];
+
+// Real post metrics for one hook: a summary once recorded, or a small form to enter them
+export default function HookOutcomeForm({ generationId, hookIndex, outcome, canEdit }: HookOutcomeFormProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<Record<FieldName, string>>({
+    views: "",
+    threeSecondRetention: "",
+    avgWatchTimeSeconds: "",
+    shares: "",
+    saves: "",
+  });
+  const [postUrl, setPostUrl] = useState("");
+
+  const startEditing = () => {
+    setValues({
+      views: outcome ? String(outcome.views) : "",
+      threeSecondRetention: outcome ? String(outcome.threeSecondRetention) : "",
+      avgWatchTimeSeconds: outcome ? String(outcome.avgWatchTimeSeconds) : "",
+      shares: outcome ? String(outcome.shares) : "",
+      saves: outcome ? String(outcome.saves) : "",
+    });
+    setPostUrl(outcome?.postUrl ?? "");
+    setIsEditing(true);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/generations", generationId, "outcomes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/outcomes/report"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/generations/${generationId}/outcomes/${hookIndex}`, {
+        views: Number(values.views),
+        threeSecondRetention: Number(values.threeSecondRetention),
+        avgWatchTimeSeconds: Number(values.avgWatchTimeSeconds),
+        shares: Number(values.shares || 0),
+        saves: Number(values.saves || 0),
+        postUrl: postUrl.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Results saved",
+        description: "They'll show up in your performance report."
+      });
+      setIsEditing(false);
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save results",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/generations/${generationId}/outcomes/${hookIndex}`);
+      return response.json();
+    },
+    onSuccess: () => invalidate(),
+    onError: (error) => {
+      toast({
+        title: "Couldn't remove results",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isEditing) {
+    const isComplete = values.views !== "" && values.threeSecondRetention !== "" && values.avgWatchTimeSeconds !== "";
+
+    return (
+      <form
+        className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {FIELDS.map(field => (
+            <div key={field.name} className="space-y-1">
+              <Label htmlFor={`${generationId}-${hookIndex}-${field.name}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`${generationId}-${hookIndex}-${field.name}`}
+                type="number"
+                min="0"
+                max={field.name === "threeSecondRetention" ? "100" : undefined}
+                step={field.step}
+                value={values[field.name]}
+                onChange={(e) => setValues(current => ({ ...current, [field.name]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${generationId}-${hookIndex}-postUrl`} className="text-xs">Post URL (optional)</Label>
+          <Input
+            id={`${generationId}-${hookIndex}-postUrl`}
+            type="url"
+            placeholder="https://"
+            value={postUrl}
+            onChange={(e) => setPostUrl(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={!isComplete || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save results"}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!outcome) {
+    return canEdit ? (
+      <Button variant="outline" size="sm" className="mt-3" onClick={startEditing}>
+        <BarChart3 className="w-4 h-4 mr-2" />
+        Record results
+      </Button>
+    ) : null;
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg bg-slate-50 p-2 text-xs text-slate">
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span>{outcome.views.toLocaleString()} views</span>
+        <span>{outcome.threeSecondRetention}% 3s retention</span>
+        <span>{outcome.avgWatchTimeSeconds}s avg watch</span>
+        <span>{outcome.shares.toLocaleString()} shares</span>
+        <span>{outcome.saves.toLocaleString()} saves</span>
+        {outcome.postUrl && (
+          <a href={outcome.postUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+            View post
+          </a>
+        )}
+      </div>
+      {canEdit && (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={startEditing}>
+            <Pencil className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
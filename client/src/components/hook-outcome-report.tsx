@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TrendingUp } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface HookOutcomeReportRow {
+  key: string;
+  outcomes: number;
+  avgAiScore: number;
+  avgViews: number;
+  avgThreeSecondRetention: number;
+  avgWatchTimeSeconds: number;
+  avgShares: number;
+  avgSaves: number;
+  scoreRetentionCorrelation: number | null;
+}
+
+interface HookOutcomeReport {
+  overall: HookOutcomeReportRow;
+  byFramework: HookOutcomeReportRow[];
+  byPsychologicalDriver: HookOutcomeReportRow[];
+}
+
+// How well the AI score predicted retention: Pearson r bucketed into plain words
+const describeCorrelation = (r: number | null) => {
+  if (r === null) return "Not enough data";
+  if (r >= 0.5) return "Strong match";
+  if (r >= 0.2) return "Some match";
+  if (r > -0.2) return "No clear link";
+  return "Inverse";
+};
+
+const formatLabel = (key: string) => key.replace(/[_-]/g, " ");
+
+// AI score vs real post performance, grouped by framework or psychological driver
+export default function HookOutcomeReport() {
+  const [groupBy, setGroupBy] = useState<"framework" | "driver">("framework");
+
+  const { data: report } = useQuery({
+    queryKey: ["/api/outcomes/report"],
+    queryFn: () => apiRequest("GET", "/api/outcomes/report").then(res => res.json()),
+  }) as { data: HookOutcomeReport | undefined };
+
+  if (!report || report.overall.outcomes === 0) {
+    return null;
+  }
+
+  const rows = groupBy === "framework" ? report.byFramework : report.byPsychologicalDriver;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            Performance vs AI Score
+          </CardTitle>
+          <CardDescription>
+            {report.overall.outcomes} posted hook{report.overall.outcomes !== 1 ? "s" : ""} •
+            AI score vs 3s retention: {describeCorrelation(report.overall.scoreRetentionCorrelation)}
+          </CardDescription>
+        </div>
+        <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as "framework" | "driver")}>
+          <TabsList>
+            <TabsTrigger value="framework">Framework</TabsTrigger>
+            <TabsTrigger value="driver">Psychological driver</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{groupBy === "framework" ? "Framework" : "Driver"}</TableHead>
+              <TableHead className="text-right">Posts</TableHead>
+              <TableHead className="text-right">Avg AI score</TableHead>
+              <TableHead className="text-right">Avg views</TableHead>
+              <TableHead className="text-right">3s retention</TableHead>
+              <TableHead className="text-right">Avg watch</TableHead>
+              <TableHead className="text-right">Shares</TableHead>
+              <TableHead className="text-right">Saves</TableHead>
+              <TableHead>Score predicts retention</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium capitalize">{formatLabel(row.key)}</TableCell>
+                <TableCell className="text-right">{row.outcomes}</TableCell>
+                <TableCell className="text-right">{row.avgAiScore.toFixed(1)}/5</TableCell>
+                <TableCell className="text-right">{Math.round(row.avgViews).toLocaleString()}</TableCell>
+                <TableCell className="text-right">{row.avgThreeSecondRetention.toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{row.avgWatchTimeSeconds.toFixed(1)}s</TableCell>
+                <TableCell className="text-right">{row.avgShares.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{row.avgSaves.toFixed(1)}</TableCell>
+                <TableCell className="text-sm text-slate">{describeCorrelation(row.scoreRetentionCorrelation)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
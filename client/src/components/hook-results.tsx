@@ -16,7 +16,7 @@ interface HookResultsProps {
 }
 
 // --- Types that cover both current and new JSON schema ---
-type Platform = "tiktok" | "instagram" | "youtube";
+type Platform = "tiktok" | "instagram" | "youtube" | "linkedin" | "twitter";
 type Framework = "Open Loop" | "PPP" | "4U" | "AIDA" | "PAS" | "Direct";
 
 type PlatformNotesObj =
@@ -129,6 +129,8 @@ const TARGET = {
   tiktok:    { mu: 11, sigma: 2.5 },
   instagram: { mu: 12, sigma: 2.5 },
   youtube:   { mu:  6, sigma: 1.5 },
+  linkedin:  { mu: 16, sigma: 4 },
+  twitter:   { mu: 14, sigma: 4 },
 } as const;
 
 const gaussian = (wc: number, { mu, sigma }: { mu: number; sigma: number }) =>
@@ -534,6 +536,8 @@ function HookResults({ generation, userId }: HookResultsProps) {
     if (platformLower === 'tiktok') return '🎵';
     if (platformLower === 'instagram') return '📸';
     if (platformLower === 'youtube') return '▶️';
+    if (platformLower === 'linkedin') return '💼';
+    if (platformLower === 'twitter') return '𝕏';
     return '📱';
   }, []);
 
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clapperboard, Download, Pencil, RefreshCw } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { HookScript, ScriptBeat, ScriptShot } from "@shared/schema";
+
+interface HookScriptPanelProps {
+  generationId: string;
+  hookIndex: number;
+  canEdit: boolean;
+}
+
+const DURATIONS = [30, 45, 60] as const;
+
+const BEAT_LABELS: Record<ScriptBeat["type"], string> = {
+  hook: "Hook",
+  rehook: "Re-hook",
+  value: "Value",
+  cta: "CTA",
+};
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// The full short-form script built from one hook: build it, edit it (each save is a new version) and download it
+export default function HookScriptPanel({ generationId, hookIndex, canEdit }: HookScriptPanelProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [duration, setDuration] = useState<number>(45);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<{ beats: ScriptBeat[]; shots: ScriptShot[] } | null>(null);
+
+  const scriptsKey = ["/api/generations", generationId, "scripts", hookIndex];
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: scriptsKey,
+    queryFn: () => apiRequest("GET", `/api/generations/${generationId}/scripts/${hookIndex}`).then(res => res.json()),
+    enabled: isOpen,
+  }) as { data: HookScript[] | undefined; isLoading: boolean };
+
+  const script = versions?.find(version => version.version === selectedVersion) ?? versions?.[0];
+
+  const onSaved = (saved: HookScript) => {
+    queryClient.invalidateQueries({ queryKey: scriptsKey });
+    setSelectedVersion(saved.version);
+    setDraft(null);
+  };
+
+  const buildMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/generations/${generationId}/scripts/${hookIndex}`, { durationSeconds: duration });
+      return response.json() as Promise<HookScript>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: "Script ready", description: `A ${saved.durationSeconds}s script was built from this hook.` });
+      onSaved(saved);
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't build script", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/generations/${generationId}/scripts/${hookIndex}`, {
+        durationSeconds: script!.durationSeconds,
+        beats: draft!.beats.map(({ onScreenText, ...beat }) => onScreenText?.trim() ? { ...beat, onScreenText } : beat),
+        shots: draft!.shots,
+      });
+      return response.json() as Promise<HookScript>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: "Script saved", description: `Saved as version ${saved.version}.` });
+      onSaved(saved);
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save script", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "text" | "srt") => {
+      const response = await apiRequest("GET", `/api/generations/${generationId}/scripts/${hookIndex}/export?format=${format}&version=${script!.version}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `script-v${script!.version}.${format === "srt" ? "srt" : "txt"}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      return response;
+    },
+    onError: () => {
+      toast({ title: "Export failed", description: "Please try again.", variant: "destructive" });
+    }
+  });
+
+  const updateBeat = (index: number, changes: Partial<ScriptBeat>) => {
+    setDraft(current => current && {
+      ...current,
+      beats: current.beats.map((beat, i) => i === index ? { ...beat, ...changes } : beat),
+    });
+  };
+
+  const updateShot = (index: number, description: string) => {
+    setDraft(current => current && {
+      ...current,
+      shots: current.shots.map((shot, i) => i === index ? { ...shot, description } : shot),
+    });
+  };
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" className="mt-3 ml-2" onClick={() => setIsOpen(true)}>
+        <Clapperboard className="w-4 h-4 mr-2" />
+        Script
+      </Button>
+    );
+  }
+
+  const buildControls = canEdit && (
+    <div className="flex items-center gap-2">
+      <Select value={String(duration)} onValueChange={(value) => setDuration(Number(value))}>
+        <SelectTrigger className="h-8 w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DURATIONS.map(seconds => (
+            <SelectItem key={seconds} value={String(seconds)}>{seconds}s</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" onClick={() => buildMutation.mutate()} disabled={buildMutation.isPending}>
+        {script ? <RefreshCw className="w-4 h-4 mr-2" /> : <Clapperboard className="w-4 h-4 mr-2" />}
+        {buildMutation.isPending ? "Building..." : script ? "Rebuild" : "Build script"}
+      </Button>
+    </div>
+  );
+
+  if (isLoading) {
+    return <p className="mt-3 text-xs text-slate-500">Loading script...</p>;
+  }
+
+  if (!script) {
+    return (
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-200 bg-slate-50 p-3">
+        <p className="text-xs text-slate-600">
+          {canEdit ? "Turn this hook into a timed script with a shot list and on-screen text." : "No script has been built for this hook yet."}
+        </p>
+        {buildControls}
+      </div>
+    );
+  }
+
+  const beats = draft?.beats ?? script.beats;
+  const shots = draft?.shots ?? script.shots;
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Select value={String(script.version)} onValueChange={(value) => { setSelectedVersion(Number(value)); setDraft(null); }}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions!.map(version => (
+                <SelectItem key={version.version} value={String(version.version)}>
+                  v{version.version} ({version.source})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="outline" className="text-xs">{script.durationSeconds}s</Badge>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {buildControls}
+          <Button variant="ghost" size="sm" onClick={() => exportMutation.mutate("text")} disabled={exportMutation.isPending}>
+            <Download className="w-4 h-4 mr-1" />
+            TXT
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => exportMutation.mutate("srt")} disabled={exportMutation.isPending}>
+            <Download className="w-4 h-4 mr-1" />
+            SRT
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {beats.map((beat, beatIndex) => (
+          <div key={beatIndex} className="rounded-md bg-white p-3 shadow-sm">
+            <div className="mb-2 flex items-center gap-2 text-xs text-slate-500">
+              <Badge variant="secondary" className="text-xs">{BEAT_LABELS[beat.type]}</Badge>
+              <span>{formatSeconds(beat.startSeconds)}-{formatSeconds(beat.endSeconds)}</span>
+            </div>
+            {draft ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={beat.voiceover}
+                  rows={2}
+                  onChange={(e) => updateBeat(beatIndex, { voiceover: e.target.value })}
+                />
+                <Input
+                  placeholder="On-screen text"
+                  value={beat.onScreenText ?? ""}
+                  onChange={(e) => updateBeat(beatIndex, { onScreenText: e.target.value })}
+                />
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-slate-800">{beat.voiceover}</p>
+                {beat.onScreenText && (
+                  <p className="mt-1 text-xs font-medium text-slate-600">On screen: {beat.onScreenText}</p>
+                )}
+              </>
+            )}
+            <ul className="mt-2 space-y-1">
+              {shots.map((shot, shotIndex) => shot.beatIndex === beatIndex && (
+                <li key={shotIndex} className="text-xs text-slate-500">
+                  {draft ? (
+                    <Input
+                      className="h-7 text-xs"
+                      value={shot.description}
+                      onChange={(e) => updateShot(shotIndex, e.target.value)}
+                    />
+                  ) : (
+                    <>🎬 {formatSeconds(shot.startSeconds)} {shot.description}</>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end gap-2">
+          {draft ? (
+            <>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save as new version"}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setDraft({ beats: script.beats, shots: script.shots })}>
+              <Pencil className="w-3 h-3 mr-2" />
+              Edit script
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Check, Star, Zap, Crown } from "lucide-react";
+import { Check, Star, Zap, Crown, ArrowUp, ArrowDown } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useFirebaseAuth } from "@/hooks/use-firebase-auth";
 import { loadStripe } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 
@@ -18,8 +19,167 @@ interface SubscriptionModalProps {
   onClose: () => void;
   showDiscountOffer?: boolean;
   currentCredits?: number;
+  initialPlan?: string | null; // Plan picked on the pricing page - preselected when switching plans
 }
 
+const SWITCHABLE_PLANS = [
+  { key: "starter", name: "Starter", price: 9, summary: "100 Pro generations/month" },
+  { key: "creator", name: "Creator", price: 15, summary: "200 Pro generations/month" },
+  { key: "pro", name: "Pro", price: 24, summary: "400 Pro generations/month" },
+  { key: "teams", name: "Teams", price: 59, summary: "1,500 pooled Pro generations, 3 seats" },
+];
+
+interface PlanChangePreview {
+  currentPlan: string;
+  plan: string;
+  direction: "upgrade" | "downgrade";
+  amountDue: number; // cents
+  prorationAmount: number; // cents
+  currency: string;
+  effectiveAt: string;
+  prorationDate: number;
+}
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+
+// In-place plan switch for existing subscribers: pick a plan, review Stripe's proration preview, confirm
+const SwitchPlanForm = ({ currentPlan, initialPlan, onSuccess }: { currentPlan: string; initialPlan?: string | null | undefined; onSuccess: () => void }) => {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: async (plan: string): Promise<PlanChangePreview> => {
+      const response = await apiRequest("POST", "/api/stripe/change-plan/preview", { plan });
+      return response.json();
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      toast({
+        title: "Couldn't preview plan change",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changePlanMutation = useMutation({
+    mutationFn: async (change: { plan: string; prorationDate: number }) => {
+      const response = await apiRequest("POST", "/api/stripe/change-plan", change);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const planName = SWITCHABLE_PLANS.find(plan => plan.key === data.plan)?.name ?? data.plan;
+      toast({
+        title: data.pending ? `Switching to ${planName}` : `Upgraded to ${planName}`,
+        description: data.direction === "downgrade"
+          ? `Your plan changes on ${new Date(data.effectiveAt).toLocaleDateString()}.`
+          : data.pending
+            ? "Your new limits apply once the prorated payment goes through."
+            : "Your new limits are available now.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stripe/subscription"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/generations/status"] });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to change plan",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (initialPlan && initialPlan !== currentPlan) {
+      previewMutation.mutate(initialPlan);
+    }
+    // Only preview the preselected plan once, when the modal opens
+  }, []);
+
+  if (preview) {
+    const planName = SWITCHABLE_PLANS.find(plan => plan.key === preview.plan)?.name ?? preview.plan;
+    const currentPlanName = SWITCHABLE_PLANS.find(plan => plan.key === preview.currentPlan)?.name ?? preview.currentPlan;
+    const isUpgrade = preview.direction === "upgrade";
+
+    return (
+      <div className="space-y-4">
+        <div className="rounded-lg border border-slate-200 p-4 space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            {isUpgrade ? <ArrowUp className="w-4 h-4 text-green-600" /> : <ArrowDown className="w-4 h-4 text-slate-600" />}
+            {currentPlanName} → {planName}
+          </div>
+          {isUpgrade ? (
+            <>
+              <p className="text-sm text-slate-600">
+                You'll be charged <span className="font-semibold text-slate-900">{formatAmount(preview.amountDue, preview.currency)}</span> today
+                for the rest of this billing period, after credit for unused time on {currentPlanName}.
+              </p>
+              <p className="text-xs text-slate-500">Your new limits apply as soon as the payment goes through.</p>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-slate-600">
+                You'll keep {currentPlanName} until <span className="font-semibold text-slate-900">{new Date(preview.effectiveAt).toLocaleDateString()}</span>,
+                then switch to {planName}.
+              </p>
+              <p className="text-xs text-slate-500">
+                Next invoice: {formatAmount(preview.amountDue, preview.currency)}. No charge today.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" className="flex-1" onClick={() => setPreview(null)} disabled={changePlanMutation.isPending}>
+            Back
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => changePlanMutation.mutate({ plan: preview.plan, prorationDate: preview.prorationDate })}
+            disabled={changePlanMutation.isPending}
+          >
+            {changePlanMutation.isPending ? "Switching..." : isUpgrade ? `Upgrade to ${planName}` : `Schedule switch to ${planName}`}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-3">
+      {SWITCHABLE_PLANS.map(plan => {
+        const isCurrent = plan.key === currentPlan;
+        return (
+          <div
+            key={plan.key}
+            className={`flex items-center justify-between rounded-lg border p-4 ${isCurrent ? "border-primary bg-primary/5" : "border-slate-200"}`}
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{plan.name}</span>
+                {isCurrent && <Badge variant="secondary">Current plan</Badge>}
+              </div>
+              <p className="text-sm text-slate-600">${plan.price}/month • {plan.summary}</p>
+            </div>
+            {!isCurrent && (
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate(plan.key)}
+                disabled={previewMutation.isPending}
+              >
+                {previewMutation.isPending && previewMutation.variables === plan.key ? "Loading..." : "Switch"}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 const CheckoutForm = ({ onSuccess }: { onSuccess: () => void }) => {
   const stripe = useStripe();
   const elements = useElements();
@@ -78,11 +238,13 @@ export default function SubscriptionModal({
   isOpen, 
   onClose, 
   showDiscountOffer = false, 
-  currentCredits = 0 
+  currentCredits = 0,
+  initialPlan
 }: SubscriptionModalProps) {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { backendUser } = useFirebaseAuth();
 
   const createSubscriptionMutation = useMutation({
     mutationFn: async (data: { plan: string; promotionCode?: string }) => {
@@ -126,6 +288,28 @@ export default function SubscriptionModal({
     "Early access to new features"
   ];
 
+  // Existing subscribers switch plans in place instead of starting a second subscription
+  const currentPlan = backendUser?.subscriptionPlan || "free";
+  if (backendUser?.stripeSubscriptionId && currentPlan !== "free") {
+    return (
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Crown className="w-5 h-5 text-primary" />
+              Switch Plan
+            </DialogTitle>
+            <DialogDescription>
+              Upgrades take effect now with a prorated charge. Downgrades take effect at the end of your billing period.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isOpen && <SwitchPlanForm currentPlan={currentPlan} initialPlan={initialPlan} onSuccess={onClose} />}
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   // Payment form view
   if (clientSecret) {
     return (
@@ -4,16 +4,19 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
-import { Heart, Copy, Check, Eye, MessageSquare, Video, Star, TrendingUp, Shield, Zap } from "lucide-react";
+import { Heart, Copy, Check, Eye, MessageSquare, Video, Star, TrendingUp, Shield, Zap, AlertTriangle } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { motion, AnimatePresence } from "framer-motion";
+import HookLocalizePanel from "./hook-localize-panel";
 import type { HookGeneration } from "@shared/schema";
 
 interface TriModalHookResultsProps {
-  generation: HookGeneration;
+  // Accepts an in-progress generation while hooks are still streaming in
+  generation: Pick<HookGeneration, "platform" | "objective" | "topic" | "hooks"> & Partial<Pick<HookGeneration, "id" | "locale" | "filteredHooks">>;
   userId: string;
+  isStreaming?: boolean;
 }
 
 // Enhanced Hook Type for Tri-Modal Display
@@ -35,13 +38,16 @@ interface TriModalHook {
     tiktokColdOpen?: string;
     instagramOverlay?: string;
     youtubeProofCue?: string;
+    linkedinFoldLine?: string;
+    twitterPost?: string;
   };
-  promiseContentMatch: boolean;
-  specificityScore: number;
+  promiseContentMatch: boolean | null; // null when not checked (non-English hooks)
+  promiseIssues: string[];
+  specificityScore: number | null;     // null when not checked (non-English hooks)
   freshnessScore: number;
 }
 
-export default function TriModalHookResults({ generation, userId }: TriModalHookResultsProps) {
+export default function TriModalHookResults({ generation, userId, isStreaming = false }: TriModalHookResultsProps) {
   const [copiedHook, setCopiedHook] = useState<string | null>(null);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const { toast } = useToast();
@@ -67,9 +73,10 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
         platformNotes: hook.platformNotes || "",
         contentTypeStrategy: hook.contentTypeStrategy || "value_hit",
         platformSpecific: hook.platformSpecific,
-        promiseContentMatch: hook.promiseContentMatch !== false,
-        specificityScore: hook.specificityScore || 0.8,
-        freshnessScore: hook.freshnessScore || 0.7,
+        promiseContentMatch: hook["promiseContentMatch"] === null ? null : hook.promiseContentMatch !== false,
+        promiseIssues: (hook["promiseIssues"] as string[] | undefined) ?? [],
+        specificityScore: hook["specificityScore"] === null ? null : hook.specificityScore ?? 0.8,
+        freshnessScore: hook.freshnessScore ?? 0.7,
       };
     });
   }, [generation.hooks]);
@@ -122,6 +129,8 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
     if (platformLower === 'tiktok') return '🎵';
     if (platformLower === 'instagram') return '📸';
     if (platformLower === 'youtube') return '▶️';
+    if (platformLower === 'linkedin') return '💼';
+    if (platformLower === 'twitter') return '𝕏';
     return '📱';
   };
 
@@ -151,7 +160,14 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
     return (
       <Card>
         <CardContent className="p-8 text-center">
-          <p className="text-slate-600">No hooks generated yet.</p>
+          {isStreaming ? (
+            <div className="flex flex-col items-center">
+              <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+              <p className="text-slate-600">Writing your first hook...</p>
+            </div>
+          ) : (
+            <p className="text-slate-600">No hooks generated yet.</p>
+          )}
         </CardContent>
       </Card>
     );
@@ -173,6 +189,11 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
               <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">
                 {generation.objective.replace('_', ' ').toUpperCase()}
               </Badge>
+              {generation.locale && generation.locale !== "en" && (
+                <Badge variant="outline" className="uppercase">
+                  {generation.locale}
+                </Badge>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -181,6 +202,23 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
             <p className="text-sm font-medium text-blue-900 mb-1">Original Topic:</p>
             <p className="text-blue-800">{generation.topic}</p>
           </div>
+
+          {generation.filteredHooks && generation.filteredHooks.length > 0 && (
+            <div className="bg-amber-50 rounded-lg border border-amber-200 p-3 mb-4 text-xs text-amber-800">
+              <p className="font-medium flex items-center mb-1">
+                <Shield className="w-3 h-3 mr-1" />
+                Brand safety: {generation.filteredHooks.filter(hook => hook.action === "repaired").length} rewritten,{" "}
+                {generation.filteredHooks.filter(hook => hook.action === "dropped").length} removed
+              </p>
+              <ul className="space-y-1">
+                {generation.filteredHooks.map((hook, index) => (
+                  <li key={index}>
+                    "{hook.verbalHook}" - {hook.action === "repaired" ? "rewritten" : "removed"}: {hook.reasons.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           
           {bestHook && (
             <motion.div
@@ -313,7 +351,7 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
                   key={index}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: isStreaming ? 0 : index * 0.1 }}
                   className="border rounded-lg p-4 hover:shadow-md transition-shadow"
                 >
                   {/* Hook Header */}
@@ -423,28 +461,62 @@ export default function TriModalHookResults({ generation, userId }: TriModalHook
                         Platform note: {hook.platformNotes}
                       </p>
                     )}
+                    {hook.platformSpecific?.linkedinFoldLine && (
+                      <p className="text-xs text-slate-600 bg-slate-50 p-2 rounded">
+                        Above the fold: {hook.platformSpecific.linkedinFoldLine}
+                      </p>
+                    )}
+                    {hook.platformSpecific?.twitterPost && (
+                      <p className="text-xs text-slate-600 bg-slate-50 p-2 rounded">
+                        Post ({hook.platformSpecific.twitterPost.length}/280): {hook.platformSpecific.twitterPost}
+                      </p>
+                    )}
                     
                     {/* Quality Metrics */}
                     <div className="flex flex-wrap gap-2 pt-2">
-                      <div className="flex items-center text-xs text-slate-500">
-                        <TrendingUp className="w-3 h-3 mr-1" />
-                        Specificity: {Math.round(hook.specificityScore * 100)}%
-                      </div>
+                      {hook.specificityScore !== null && (
+                        <div className="flex items-center text-xs text-slate-500">
+                          <TrendingUp className="w-3 h-3 mr-1" />
+                          Specificity: {Math.round(hook.specificityScore * 100)}%
+                        </div>
+                      )}
                       <div className="flex items-center text-xs text-slate-500">
                         <Zap className="w-3 h-3 mr-1" />
                         Freshness: {Math.round(hook.freshnessScore * 100)}%
                       </div>
-                      {hook.promiseContentMatch && (
+                      {hook.promiseContentMatch === true && (
                         <div className="flex items-center text-xs text-green-600">
                           <Check className="w-3 h-3 mr-1" />
                           Promise-Content Match
                         </div>
                       )}
+                      {hook.promiseContentMatch === false && (
+                        <div className="flex items-center text-xs text-amber-600">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          May overpromise
+                        </div>
+                      )}
                     </div>
+                    {hook.promiseIssues.length > 0 && (
+                      <ul className="text-xs text-amber-700 bg-amber-50 p-2 rounded space-y-1">
+                        {hook.promiseIssues.map(issue => (
+                          <li key={issue}>{issue}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
+                  {generation.id && !isStreaming && (
+                    <HookLocalizePanel generationId={generation.id} hookIndex={index} sourceLocale={generation.locale || "en"} />
+                  )}
                 </motion.div>
               ))}
             </AnimatePresence>
+            {isStreaming && (
+              <div className="flex items-center justify-center border border-dashed rounded-lg p-4 text-sm text-slate-500">
+                <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+                {triModalHooks.length} of 10 hooks ready, more on the way...
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
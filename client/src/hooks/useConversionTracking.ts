@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { analytics } from '@/lib/analytics';
+import { apiRequest } from '@/lib/queryClient';
 import type { 
   UseConversionTrackingReturn,
   UseAnalyticsReturn,
@@ -226,83 +227,107 @@ export function useAnalytics(config?: {
 
 /**
  * Hook for A/B testing with type safety
+ * The variant comes from the server's assignment for the analytics session (see /api/ab-tests);
+ * the fallback variant is shown while loading, when the test isn't running and when the request fails.
  */
 export function useABTesting<T extends string>(
   testId: string,
-  variants: Record<T, any>,
+  variants: Record<T, Record<string, unknown>>,
   config?: {
-    trafficAllocation?: number;
-    persistVariant?: boolean;
+    fallbackVariant?: T;
+    enabled?: boolean;
     debugMode?: boolean;
   }
 ): UseABTestingReturn<T> {
-  const [variant, setVariant] = useState<T>();
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const exposureTracked = useRef<boolean>(false);
-
   const {
-    trafficAllocation = 1.0,
-    persistVariant = true,
+    fallbackVariant = Object.keys(variants)[0] as T,
+    enabled = true,
     debugMode = false
   } = config || {};
 
+  const [assignment, setAssignment] = useState<{ variant: T; config: Record<string, unknown>; inTest: boolean }>();
+  const [isLoading, setIsLoading] = useState<boolean>(enabled);
+  const exposureTracked = useRef<boolean>(false);
+  const conversionTracked = useRef<boolean>(false);
+
   useEffect(() => {
-    // Determine variant
-    const storageKey = `ab_test_${testId}`;
-    let selectedVariant: T;
-
-    if (persistVariant) {
-      const stored = localStorage.getItem(storageKey);
-      if (stored && stored in variants) {
-        selectedVariant = stored as T;
-      } else {
-        selectedVariant = selectVariant();
-        localStorage.setItem(storageKey, selectedVariant);
-      }
-    } else {
-      selectedVariant = selectVariant();
+    if (!enabled) {
+      setIsLoading(false);
+      return;
     }
 
-    setVariant(selectedVariant);
-    setIsLoading(false);
+    let cancelled = false;
+    apiRequest('POST', `/api/ab-tests/${encodeURIComponent(testId)}/assignment`, { sessionId: analytics.getSessionId() })
+      .then(res => res.json())
+      .then((result: { variantId: string | null; config: Record<string, unknown>; reason: string }) => {
+        if (cancelled) return;
+        const assigned = result.variantId && result.variantId in variants ? result.variantId as T : undefined;
+        setAssignment({
+          variant: assigned ?? fallbackVariant,
+          config: assigned ? result.config : {},
+          // Everyone sees a completed test's winner - that's no longer an exposure
+          inTest: !!assigned && result.reason !== 'winner'
+        });
+        if (debugMode) {
+          console.log(`A/B Test ${testId}: variant ${assigned ?? fallbackVariant} (${result.reason})`);
+        }
+      })
+      .catch(() => {
+        // Unknown test or network failure - show the fallback and stay out of the results
+        if (!cancelled) setAssignment({ variant: fallbackVariant, config: {}, inTest: false });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
 
-    if (debugMode) {
-      console.log(`A/B Test ${testId}: variant ${selectedVariant}`);
-    }
-  }, [testId, variants, trafficAllocation, persistVariant, debugMode]);
+    return () => {
+      cancelled = true;
+    };
+  }, [testId, enabled]);
 
-  const selectVariant = useCallback((): T => {
-    const variantKeys = Object.keys(variants) as T[];
-    const randomIndex = Math.floor(Math.random() * variantKeys.length);
-    return variantKeys[randomIndex]!;
-  }, [variants]);
+  const variant = assignment?.variant ?? fallbackVariant;
 
   const trackExposure = useCallback((): void => {
-    if (!exposureTracked.current && variant) {
+    if (!exposureTracked.current && assignment?.inTest) {
       analytics.track('ab_test_exposure', {
         testId,
-        variantId: variant,
-        timestamp: Date.now()
+        variantId: assignment.variant,
+        exposureTime: Date.now(),
+        eligible: true
       });
       exposureTracked.current = true;
     }
-  }, [testId, variant]);
+  }, [testId, assignment]);
+
+  const trackConversion = useCallback((value?: number): void => {
+    if (!conversionTracked.current && assignment?.inTest) {
+      conversionTracked.current = true;
+      apiRequest('POST', `/api/ab-tests/${encodeURIComponent(testId)}/conversions`, {
+        sessionId: analytics.getSessionId(),
+        ...(value !== undefined ? { value } : {})
+      }).catch(() => {
+        // Analytics shouldn't break the app
+      });
+    }
+  }, [testId, assignment]);
 
   const getVariantConfig = useCallback((): Record<string, unknown> => {
-    return variant ? variants[variant] : {};
-  }, [variant, variants]);
+    return { ...variants[variant], ...assignment?.config };
+  }, [variant, variants, assignment]);
 
   // Auto-track exposure when variant is determined
   useEffect(() => {
-    if (variant && !isLoading) {
+    if (assignment && !isLoading) {
       trackExposure();
     }
-  }, [variant, isLoading, trackExposure]);
+  }, [assignment, isLoading, trackExposure]);
 
   return {
-    variant: variant!,
+    variant,
     isLoading,
+    inTest: assignment?.inTest ?? false,
     trackExposure,
+    trackConversion,
     getVariantConfig
   };
 }
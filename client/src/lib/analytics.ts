@@ -31,7 +31,7 @@ class Analytics {
   private enabled = process.env.NODE_ENV === 'production';
   private userId?: string;
   private userTraits?: UserTraits;
-  private sessionId: string = this.generateSessionId();
+  private sessionId: string = this.restoreSessionId();
   private config: Partial<AnalyticsConfig> = {
     batchSize: 10,
     flushInterval: 5000,
@@ -59,6 +59,7 @@ class Analytics {
     const processEvent = () => {
       const analyticsEvent: AnalyticsEvent = this.isTypedEvent(event) ? {
         eventType: event,
+        eventId: crypto.randomUUID(),
         timestamp: Date.now(),
         sessionId: this.sessionId,
         userId: this.userId,
@@ -123,6 +124,7 @@ class Analytics {
     this.userId = undefined;
     this.userTraits = undefined;
     this.sessionId = this.generateSessionId();
+    this.storeSessionId();
     
     this.track('session_reset', {
       timestamp: Date.now()
@@ -140,17 +142,35 @@ class Analytics {
 
     if (this.enabled) {
       // In production, send to analytics service
+      const typedEvents = eventsToSend.filter(event => !this.isLegacyEvent(event));
+      if (typedEvents.length === 0) return;
+
       try {
-        // TODO: Implement actual analytics service integration
-        console.log('[Analytics] Flushing events:', eventsToSend);
+        const response = await fetch('/api/analytics/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ events: typedEvents, timestamp: Date.now() }),
+          keepalive: true
+        });
+        // A 4xx won't succeed on retry; anything else is worth another try
+        if (response.status >= 500) {
+          throw new Error(`Analytics batch failed with ${response.status}`);
+        }
       } catch (error) {
         console.error('[Analytics] Failed to flush events:', error);
-        // Re-add events for retry
-        this.events.unshift(...eventsToSend);
+        // Re-add events for retry - the server drops any it already stored
+        this.events.unshift(...typedEvents);
       }
     }
   }
 
+  /**
+   * Session the events are grouped under; A/B test assignments are keyed on it too
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
   /**
    * Configure analytics settings
    */
@@ -200,6 +220,16 @@ class Analytics {
     });
   }
 
+  // Signup funnel steps (landing, onboarding, first generation) - the server matches them as "funnel_step:<stepName>"
+  trackFunnelStep(stepName: string, stepIndex: number, funnelId: string = 'signup'): void {
+    this.track('funnel_step', {
+      funnelId,
+      stepIndex,
+      stepName,
+      abandoned: false
+    });
+  }
+
   /**
    * Get comprehensive analytics summary for honest claims
    * Includes conversion rates, user behavior, and performance metrics
@@ -297,6 +327,27 @@ class Analytics {
     return crypto.randomUUID();
   }
 
+  // Keep the session across reloads in the same tab, so a visitor stays in the same A/B test variant
+  private restoreSessionId(): string {
+    try {
+      const stored = sessionStorage.getItem('hls_session_id');
+      if (stored) return stored;
+    } catch {
+      // Storage unavailable - fall through to a fresh session
+    }
+    this.sessionId = this.generateSessionId();
+    this.storeSessionId();
+    return this.sessionId;
+  }
+
+  private storeSessionId(): void {
+    try {
+      sessionStorage.setItem('hls_session_id', this.sessionId);
+    } catch {
+      // Storage unavailable - the session just won't survive a reload
+    }
+  }
+
   private isTypedEvent(event: string | ConversionEventType): event is ConversionEventType {
     const typedEvents: ConversionEventType[] = [
       'cta_click', 'cta_view', 'trust_signal_view', 'urgency_indicator_view',
@@ -458,13 +509,16 @@ class Analytics {
       if (this.events.length > 0) {
         // Use sendBeacon for reliable event sending on page unload
         if ('sendBeacon' in navigator) {
-          const eventsToSend = [...this.events];
+          // Only typed events are stored server-side; legacy ones stay in localStorage for getSummary
+          const eventsToSend = this.events.filter(event => !this.isLegacyEvent(event));
           this.events = [];
           
-          navigator.sendBeacon('/api/analytics/batch', JSON.stringify({
-            events: eventsToSend,
-            timestamp: Date.now()
-          }));
+          if (eventsToSend.length > 0) {
+            navigator.sendBeacon('/api/analytics/batch', new Blob([JSON.stringify({
+              events: eventsToSend,
+              timestamp: Date.now()
+            })], { type: 'application/json' }));
+          }
         }
       }
     });
@@ -0,0 +1,23 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { CreateExport, ExportFormat } from "@shared/schema";
+
+export interface ExportFormatOption {
+  format: ExportFormat;
+  label: string;
+  allowed: boolean; // Included in the user's plan
+  singleGeneration: boolean; // Captions only make sense for one video
+}
+
+// Request an export and save it under the server's file name; rejects like apiRequest ("403: {...}" when the plan lacks the format)
+export async function downloadExport(request: CreateExport): Promise<void> {
+  const response = await apiRequest("POST", "/api/exports", request);
+  const blob = await response.blob();
+  const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `hooks.${request.format}`;
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,62 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { GenerationJobStatus, HookGeneration } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_POLL_FAILURES = 5; // Consecutive network or server errors before giving up on a job
+
+// Where the job being generated is remembered, so a reload picks it back up
+export const PENDING_GENERATION_JOB_KEY = "pending_generation_job";
+
+export interface GenerationJobProgress {
+  id: string;
+  status: GenerationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  request: Pick<HookGeneration, "platform" | "objective" | "topic">;
+  hooks: HookGeneration["hooks"]; // Scored so far by the attempt in progress
+  generation: HookGeneration | null; // Set once succeeded
+}
+
+export interface HookJobHandlers {
+  onProgress?: (job: GenerationJobProgress) => void;
+}
+
+/**
+ * Poll a queued generation until it's done, reporting each update while it's queued or running.
+ * Resolves with the saved generation; rejects with the job's error once it has failed its last attempt.
+ * Brief network errors are retried, so a flaky connection doesn't lose track of the job.
+ */
+export async function waitForHookGenerationJob(jobId: string, handlers: HookJobHandlers = {}): Promise<HookGeneration> {
+  let failures = 0;
+
+  while (true) {
+    let job: GenerationJobProgress;
+    try {
+      const response = await apiRequest("GET", `/api/generation-jobs/${jobId}`);
+      job = await response.json();
+      failures = 0;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      // 4xx means the job is gone or not ours - no point asking again
+      if (/^4\d\d:/.test(message) || ++failures >= MAX_POLL_FAILURES) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    if (job.status === "succeeded") {
+      if (!job.generation) {
+        throw new Error("The generation was saved but can no longer be found");
+      }
+      return job.generation;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "Failed to generate hooks");
+    }
+
+    handlers.onProgress?.(job);
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,101 @@
+import { apiRequest } from "@/lib/queryClient";
+import { waitForHookGenerationJob } from "@/lib/hook-jobs";
+import type { HookGeneration } from "@shared/schema";
+
+type StreamedHook = HookGeneration["hooks"][number];
+type TopThreeVariants = NonNullable<HookGeneration["topThreeVariants"]>;
+
+export interface HookStreamHandlers {
+  onJob?: (jobId: string) => void;
+  onHook?: (hook: StreamedHook, index: number) => void;
+  onTopThree?: (topThreeVariants: TopThreeVariants) => void;
+}
+
+// An "error" event: the generation itself failed, as opposed to the connection
+class HookStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HookStreamError";
+  }
+}
+
+// Parse one Server-Sent Events block ("event: x\ndata: {...}") into its name and JSON payload
+function parseEventBlock(block: string): { event: string; data: any } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+/**
+ * POST a generation request to the streaming endpoint and report the queued job and its hooks as they arrive.
+ * Resolves with the saved generation; rejects on HTTP errors (same message format as apiRequest)
+ * or when the server sends an "error" event. If the connection drops, the job is followed by polling instead.
+ */
+export async function streamHookGeneration(request: unknown, handlers: HookStreamHandlers = {}): Promise<HookGeneration> {
+  const response = await apiRequest("POST", "/api/generate-hooks/stream", request);
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let jobId: string | null = null;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+
+      while (boundary !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        if (!parsed) continue;
+
+        switch (parsed.event) {
+          case "job":
+            jobId = parsed.data.jobId as string;
+            handlers.onJob?.(jobId);
+            break;
+          case "hook":
+            handlers.onHook?.(parsed.data.hook, parsed.data.index);
+            break;
+          case "topThree":
+            handlers.onTopThree?.(parsed.data.topThreeVariants);
+            break;
+          case "generation":
+            return parsed.data as HookGeneration;
+          case "error":
+            throw new HookStreamError(parsed.data.error || parsed.data.message || "Failed to generate hooks");
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof HookStreamError || !jobId) {
+      throw error;
+    }
+  }
+
+  if (!jobId) {
+    throw new Error("Hook stream ended before the generation was queued");
+  }
+  // The job keeps running on the server - pick it up where the stream left off
+  return waitForHookGenerationJob(jobId, {
+    onProgress: (job) => job.hooks.forEach((hook, index) => handlers.onHook?.(hook, index))
+  });
+}
@@ -565,7 +565,7 @@ export class PerformanceBudgetMonitor {
   private async reportViolation(violation: PerformanceViolation): Promise<void> {
     try {
       if ('sendBeacon' in navigator) {
-        navigator.sendBeacon('/api/analytics/performance-violation', JSON.stringify(violation));
+        navigator.sendBeacon('/api/analytics/performance-violation', new Blob([JSON.stringify(violation)], { type: 'application/json' }));
       } else {
         fetch('/api/analytics/performance-violation', {
           method: 'POST',
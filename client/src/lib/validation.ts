@@ -10,7 +10,7 @@ import { z } from 'zod';
  */
 
 // Platform validation
-export const platformSchema = z.enum(['tiktok', 'instagram', 'youtube', 'all']);
+export const platformSchema = z.enum(['tiktok', 'instagram', 'youtube', 'linkedin', 'twitter', 'all']);
 
 // CTA variant validation
 export const ctaVariantSchema = z.enum(['primary', 'secondary', 'platform-specific', 'urgent', 'minimal']);
@@ -0,0 +1,435 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, BookOpen, Plus, Edit, Archive, ArchiveRestore } from "lucide-react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { HOOK_CONTENT_TYPES, type HookContentType, type HookFormula, type HookTaxonomyVersion } from "@shared/schema";
+
+interface FormulasResponse {
+  version: number | null;
+  formulas: HookFormula[];
+}
+
+interface FormulaForm {
+  id: string;
+  category: string;
+  formula: string;
+  driver: string;
+  template: string;
+  risk: string;
+  examples: string;
+  contentTypes: HookContentType[];
+  sortOrder: string;
+  changeNote: string;
+}
+
+const emptyFormulaForm: FormulaForm = {
+  id: "",
+  category: "",
+  formula: "",
+  driver: "",
+  template: "",
+  risk: "low",
+  examples: "",
+  contentTypes: ["mixed"],
+  sortOrder: "100",
+  changeNote: ""
+};
+
+const toFormulaForm = (formula: HookFormula): FormulaForm => ({
+  id: formula.id,
+  category: formula.category,
+  formula: formula.formula,
+  driver: formula.driver,
+  template: formula.template,
+  risk: formula.risk,
+  examples: formula.examples.join("\n"),
+  contentTypes: formula.contentTypes,
+  sortOrder: String(formula.sortOrder),
+  changeNote: ""
+});
+
+const toFormulaPayload = (form: FormulaForm) => ({
+  category: form.category.trim(),
+  formula: form.formula.trim(),
+  driver: form.driver.trim(),
+  template: form.template.trim(),
+  risk: form.risk,
+  examples: form.examples.split("\n").map(example => example.trim()).filter(Boolean),
+  contentTypes: form.contentTypes,
+  sortOrder: Number(form.sortOrder) || 0,
+  ...(form.changeNote.trim() ? { changeNote: form.changeNote.trim() } : {})
+});
+
+const CONTENT_TYPE_LABELS: Record<HookContentType, string> = {
+  educational: "Educational",
+  storytelling: "Storytelling",
+  mixed: "Mixed",
+};
+
+// Strategist tools for the hook taxonomy: add, edit and retire formulas, and see the versions each change published
+export default function ManageHookFormulas() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingFormulaId, setEditingFormulaId] = useState<string | null>(null);
+  const [formulaForm, setFormulaForm] = useState<FormulaForm>(emptyFormulaForm);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/admin/hook-formulas"],
+    queryFn: () => apiRequest("GET", "/api/admin/hook-formulas").then(res => res.json()),
+    retry: false,
+  }) as { data: FormulasResponse | undefined; isLoading: boolean; error: Error | null };
+
+  const { data: versions } = useQuery({
+    queryKey: ["/api/admin/hook-taxonomy/versions"],
+    queryFn: () => apiRequest("GET", "/api/admin/hook-taxonomy/versions").then(res => res.json()),
+    enabled: !!data,
+  }) as { data: Omit<HookTaxonomyVersion, "formulas">[] | undefined };
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/hook-formulas"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/hook-taxonomy/versions"] });
+  };
+
+  const saveFormulaMutation = useMutation({
+    mutationFn: async ({ id, form }: { id: string | null; form: FormulaForm }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/admin/hook-formulas/${id}`, toFormulaPayload(form))
+        : await apiRequest("POST", "/api/admin/hook-formulas", { ...toFormulaPayload(form), id: form.id.trim().toUpperCase() });
+      return response.json() as Promise<{ formula: HookFormula; version: number }>;
+    },
+    onSuccess: (result, { id }) => {
+      onSaved();
+      setIsDialogOpen(false);
+      setEditingFormulaId(null);
+      setFormulaForm(emptyFormulaForm);
+      toast({
+        title: id ? "Formula updated" : "Formula added",
+        description: `Published as taxonomy version ${result.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "active" | "retired" }) => {
+      const response = await apiRequest("PUT", `/api/admin/hook-formulas/${id}`, { status });
+      return response.json() as Promise<{ formula: HookFormula; version: number }>;
+    },
+    onSuccess: (result) => {
+      onSaved();
+      toast({
+        title: result.formula.status === "retired" ? "Formula retired" : "Formula restored",
+        description: `Published as taxonomy version ${result.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const openAddDialog = () => {
+    setEditingFormulaId(null);
+    setFormulaForm(emptyFormulaForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (formula: HookFormula) => {
+    setEditingFormulaId(formula.id);
+    setFormulaForm(toFormulaForm(formula));
+    setIsDialogOpen(true);
+  };
+
+  const toggleContentType = (contentType: HookContentType, checked: boolean) => {
+    setFormulaForm(prev => ({
+      ...prev,
+      contentTypes: checked
+        ? [...prev.contentTypes, contentType]
+        : prev.contentTypes.filter(type => type !== contentType)
+    }));
+  };
+
+  const handleSaveFormula = () => {
+    if (!formulaForm.category.trim() || !formulaForm.formula.trim() || !formulaForm.template.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Category, formula name and template are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    saveFormulaMutation.mutate({ id: editingFormulaId, form: formulaForm });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading hook formulas...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <p className="text-slate-600">
+          {error?.message.startsWith("403") ? "Only admins can manage the hook taxonomy." : "Couldn't load hook formulas."}
+        </p>
+      </div>
+    );
+  }
+
+  const categories = Array.from(new Set(data.formulas.map(formula => formula.category)));
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLocation("/app")}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to App</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <BookOpen className="w-6 h-6 text-slate-600" />
+            <h1 className="text-xl font-semibold text-slate-900">Hook Taxonomy</h1>
+            {data.version !== null && <Badge variant="secondary">Version {data.version}</Badge>}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="mb-6">
+          <p className="text-slate-600 mb-4">
+            The formulas offered to the model when generating hooks. Every change publishes a new taxonomy version, and each generation records the version and formula IDs it used.
+          </p>
+
+          <Button className="flex items-center space-x-2" onClick={openAddDialog}>
+            <Plus className="w-4 h-4" />
+            <span>Add Formula</span>
+          </Button>
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editingFormulaId ? `Edit ${editingFormulaId}` : "Add Hook Formula"}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="formula-id">Formula ID *</Label>
+                    <Input
+                      id="formula-id"
+                      value={formulaForm.id}
+                      disabled={!!editingFormulaId}
+                      onChange={(e) => setFormulaForm(prev => ({ ...prev, id: e.target.value }))}
+                      placeholder="MB-01"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="formula-category">Category *</Label>
+                    <Input
+                      id="formula-category"
+                      list="formula-categories"
+                      value={formulaForm.category}
+                      onChange={(e) => setFormulaForm(prev => ({ ...prev, category: e.target.value }))}
+                      placeholder="Statement-Based"
+                    />
+                    <datalist id="formula-categories">
+                      {categories.map(category => <option key={category} value={category} />)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <Label htmlFor="formula-name">Formula *</Label>
+                    <Input
+                      id="formula-name"
+                      value={formulaForm.formula}
+                      onChange={(e) => setFormulaForm(prev => ({ ...prev, formula: e.target.value }))}
+                      placeholder="Myth Bust"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="formula-template">Template *</Label>
+                  <Input
+                    id="formula-template"
+                    value={formulaForm.template}
+                    onChange={(e) => setFormulaForm(prev => ({ ...prev, template: e.target.value }))}
+                    placeholder="Everyone says {common_belief}. It's a myth."
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="formula-driver">Driver</Label>
+                    <Input
+                      id="formula-driver"
+                      value={formulaForm.driver}
+                      onChange={(e) => setFormulaForm(prev => ({ ...prev, driver: e.target.value }))}
+                      placeholder="Surprise / Authority"
+                    />
+                  </div>
+                  <div>
+                    <Label>Risk</Label>
+                    <Select
+                      value={formulaForm.risk}
+                      onValueChange={(value) => setFormulaForm(prev => ({ ...prev, risk: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="formula-sort-order">Sort Order</Label>
+                    <Input
+                      id="formula-sort-order"
+                      type="number"
+                      value={formulaForm.sortOrder}
+                      onChange={(e) => setFormulaForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label>Offered For</Label>
+                  <div className="flex gap-4 mt-2">
+                    {HOOK_CONTENT_TYPES.map(contentType => (
+                      <label key={contentType} className="flex items-center gap-2 text-sm text-slate-700">
+                        <Checkbox
+                          checked={formulaForm.contentTypes.includes(contentType)}
+                          onCheckedChange={(checked) => toggleContentType(contentType, checked === true)}
+                        />
+                        {CONTENT_TYPE_LABELS[contentType]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="formula-examples">Example Hooks</Label>
+                  <Textarea
+                    id="formula-examples"
+                    value={formulaForm.examples}
+                    onChange={(e) => setFormulaForm(prev => ({ ...prev, examples: e.target.value }))}
+                    placeholder="One example per line"
+                    className="h-20"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="formula-change-note">Change Note</Label>
+                  <Input
+                    id="formula-change-note"
+                    value={formulaForm.changeNote}
+                    onChange={(e) => setFormulaForm(prev => ({ ...prev, changeNote: e.target.value }))}
+                    placeholder="Why this change - shown in the version history"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-4 pt-4">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveFormula} disabled={saveFormulaMutation.isPending}>
+                    {saveFormulaMutation.isPending ? "Saving..." : editingFormulaId ? "Save Changes" : "Add Formula"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="space-y-6">
+          {categories.map(category => (
+            <Card key={category}>
+              <CardHeader>
+                <CardTitle className="text-lg">{category}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {data.formulas.filter(formula => formula.category === category).map(formula => (
+                  <div key={formula.id} className={`flex items-start justify-between gap-4 rounded-lg border p-3 ${formula.status === "retired" ? "opacity-60" : ""}`}>
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{formula.id}</Badge>
+                        <span className="font-medium text-slate-900">{formula.formula}</span>
+                        <Badge variant="secondary" className="capitalize">{formula.risk} risk</Badge>
+                        {formula.status === "retired" && <Badge variant="destructive">Retired</Badge>}
+                      </div>
+                      <p className="text-sm text-slate-700">{formula.template}</p>
+                      <p className="text-xs text-slate-500">
+                        {formula.driver} · {formula.contentTypes.map(type => CONTENT_TYPE_LABELS[type]).join(", ")} · Sort {formula.sortOrder} · {formula.examples.length} examples
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(formula)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setStatusMutation.mutate({ id: formula.id, status: formula.status === "retired" ? "active" : "retired" })}
+                        disabled={setStatusMutation.isPending}
+                        aria-label={formula.status === "retired" ? "Restore formula" : "Retire formula"}
+                      >
+                        {formula.status === "retired" ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          {versions && versions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Version History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  {versions.map(version => (
+                    <li key={version.version} className="flex items-center gap-3">
+                      <Badge variant="outline">v{version.version}</Badge>
+                      <span className="text-slate-700">{version.changeNote}</span>
+                      <span className="text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Suspense, lazy, useState, useCallback } from "react";
+import { Suspense, lazy, useState, useCallback, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,15 +9,20 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Video, History, Heart, User as UserIcon, Wand2, Download, RotateCcw, Copy, Settings, Building2, LogOut, ChevronDown, CreditCard, Plus, Menu } from "lucide-react";
-import { SiTiktok, SiInstagram, SiYoutube } from "react-icons/si";
+import { Video, History, Heart, User as UserIcon, Wand2, RotateCcw, Copy, Settings, Building2, Users, LogOut, ChevronDown, CreditCard, Plus, Menu, Layers } from "lucide-react";
+import { SiTiktok, SiInstagram, SiYoutube, SiLinkedin, SiX } from "react-icons/si";
 import { useLocation, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { waitForHookGenerationJob, PENDING_GENERATION_JOB_KEY } from "@/lib/hook-jobs";
+import { streamHookGeneration } from "@/lib/hook-stream";
 import { useToast } from "@/hooks/use-toast";
 import { useFirebaseAuth } from "@/hooks/use-firebase-auth";
 import { useIsMobile } from "@/hooks/use-mobile";
 import UpgradeModal from "../components/upgrade-modal";
+import ExportMenu, { useExportFormats } from "../components/export-menu";
+import { downloadExport } from "@/lib/exports";
+import { analytics } from "@/lib/analytics";
 import { MobileHeader } from "../components/MobileHeader";
 import { MobileBottomBar } from "../components/MobileBottomBar";
 import { MobileSidebar } from "../components/MobileSidebar";
@@ -29,14 +34,32 @@ import ErrorBoundary from "../components/error-boundary";
 const HookResults = lazy(() => import("../components/hook-results"));
 const TriModalHookResults = lazy(() => import("../components/trimodal-hook-results"));
 // Define types locally since they're not exported from lib/types
-type Platform = "tiktok" | "instagram" | "youtube";
+type Platform = "tiktok" | "instagram" | "youtube" | "linkedin" | "twitter";
 type Objective = "watch_time" | "shares" | "saves" | "ctr";
 interface GenerationRequest {
   platform: Platform;
   objective: Objective;
   topic: string;
+  outline?: string;
+  locale?: string;
 }
-import type { User, HookGeneration } from "@shared/schema";
+
+// A queued generation to pick back up after a reload
+interface ResumeGeneration {
+  jobId: string;
+}
+import { HOOK_LANGUAGE_NAMES, type User, type HookGeneration } from "@shared/schema";
+
+// Hooks scored so far by the generation job, before the generation is saved
+type StreamingPreview = Pick<HookGeneration, "platform" | "objective" | "topic" | "hooks">;
+const platformIcons: Record<Platform, typeof SiTiktok> = {
+  tiktok: SiTiktok,
+  instagram: SiInstagram,
+  youtube: SiYoutube,
+  linkedin: SiLinkedin,
+  twitter: SiX
+};
+
 // Logo from public directory
 const logoUrl = "/assets/logo.png";
 
@@ -47,10 +70,14 @@ export default function App() {
   const [selectedPlatform, setSelectedPlatform] = useState<Platform>("tiktok");
   const [objective, setObjective] = useState<Objective>("watch_time");
   const [topic, setTopic] = useState("");
+  const [outline, setOutline] = useState("");
+  const [locale, setLocale] = useState("brand"); // "brand" writes in the brand profile's language
   const [currentGeneration, setCurrentGeneration] = useState<HookGeneration | null>(null);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [creditInfo, setCreditInfo] = useState<{ remainingCredits: number; isAtLimit: boolean } | undefined>(undefined);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingPreview, setStreamingPreview] = useState<StreamingPreview | null>(null);
+  const displayedGeneration = streamingPreview ?? currentGeneration;
   const [useTriModalView, setUseTriModalView] = useState(true);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const isMobile = useIsMobile();
@@ -85,41 +112,54 @@ export default function App() {
   }, [generations, currentGeneration]);
 
   const generateHooksMutation = useMutation({
-    mutationFn: async (request: GenerationRequest) => {
+    mutationFn: async (input: GenerationRequest | ResumeGeneration) => {
       setIsGenerating(true);
       
       try {
-        const response = await apiRequest("POST", "/api/generate-hooks", request);
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          if (response.status === 403 && errorData.error === "Credit limit reached") {
-            setCreditInfo({ 
-              remainingCredits: errorData.remainingCredits || 0, 
-              isAtLimit: true 
-            });
-            setShowUpgradeModal(true);
-            throw new Error("Credit limit reached");
-          }
-          throw new Error(errorData.message || "Failed to generate hooks");
+        let result: HookGeneration;
+        if ("jobId" in input) {
+          result = await waitForHookGenerationJob(input.jobId, {
+            onProgress: (job) => setStreamingPreview({ ...job.request, hooks: job.hooks })
+          });
+        } else {
+          setStreamingPreview({ ...input, hooks: [] });
+          result = await streamHookGeneration(input, {
+            onJob: (jobId) => localStorage.setItem(PENDING_GENERATION_JOB_KEY, jobId),
+            // Index-based so a retried attempt replaces the hooks it re-scores rather than appending them
+            onHook: (hook, index) => setStreamingPreview(prev => {
+              if (!prev) return prev;
+              const hooks = [...prev.hooks];
+              hooks[index] = hook;
+              return { ...prev, hooks };
+            })
+          });
         }
-        
-        const result = await response.json();
+        localStorage.removeItem(PENDING_GENERATION_JOB_KEY);
         setIsGenerating(false);
         return result;
       } catch (error) {
+        localStorage.removeItem(PENDING_GENERATION_JOB_KEY);
         setIsGenerating(false);
+        setStreamingPreview(null);
+        const message = error instanceof Error ? error.message : "";
+        if (message.startsWith("403:")) {
+          setCreditInfo({ remainingCredits: 0, isAtLimit: true });
+          setShowUpgradeModal(true);
+          throw new Error("Credit limit reached");
+        }
         throw error;
       }
     },
     onSuccess: (generation: HookGeneration) => {
       setCurrentGeneration(generation);
+      setStreamingPreview(null);
       // Only invalidate generations when we actually generate new hooks
       queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/credits/check"] });
+      analytics.trackFunnelStep('hook_generated', 3);
       toast({
         title: "Hooks generated successfully!",
-        description: `Generated ${generation.hooks?.length || 0} hooks for ${selectedPlatform}`,
+        description: `Generated ${generation.hooks?.length || 0} hooks for ${generation.platform}`,
       });
     },
     onError: (error: unknown) => {
@@ -134,21 +174,32 @@ export default function App() {
     }
   });
 
-  const exportCsvMutation = useMutation({
-    mutationFn: async (generationId: string) => {
-      const response = await apiRequest("POST", "/api/export-csv", { generationId });
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `hooks-${selectedPlatform}-${Date.now()}.csv`;
-      a.click();
-      window.URL.revokeObjectURL(url);
+  // Resume a generation that was still running when the page was closed or reloaded
+  const resumedPendingJob = useRef(false);
+  useEffect(() => {
+    if (!backendUser?.id || resumedPendingJob.current) return;
+    resumedPendingJob.current = true;
+    const pendingJobId = localStorage.getItem(PENDING_GENERATION_JOB_KEY);
+    if (pendingJobId) {
+      generateHooksMutation.mutate({ jobId: pendingJobId });
+    }
+  }, [backendUser?.id, generateHooksMutation]);
+
+  // The mobile bar has a single export button - it downloads the first format the plan includes
+  const { data: exportFormats } = useExportFormats();
+  const exportMutation = useMutation({
+    mutationFn: (generationId: string) => {
+      const format = exportFormats?.find(option => option.allowed)?.format;
+      if (!format) {
+        setShowUpgradeModal(true);
+        throw new Error("Exports aren't included in your plan");
+      }
+      return downloadExport({ format, generationId });
     },
     onSuccess: () => {
       toast({
-        title: "CSV exported successfully!",
-        description: "Your hooks have been downloaded as a CSV file.",
+        title: "Export ready",
+        description: "Your hooks have been downloaded.",
       });
     },
     onError: (error: unknown) => {
@@ -183,13 +234,15 @@ export default function App() {
     generateHooksMutation.mutate({
       platform: selectedPlatform,
       objective,
-      topic: topic.trim()
+      topic: topic.trim(),
+      ...(outline.trim() ? { outline: outline.trim() } : {}),
+      ...(locale !== "brand" ? { locale } : {})
     });
-  }, [backendUser?.id, topic, selectedPlatform, objective, generateHooksMutation, toast]);
+  }, [backendUser?.id, topic, outline, locale, selectedPlatform, objective, generateHooksMutation, toast]);
 
-  const handleExportCsv = () => {
+  const handleExport = () => {
     if (currentGeneration?.id) {
-      exportCsvMutation.mutate(currentGeneration.id);
+      exportMutation.mutate(currentGeneration.id);
     }
   };
 
@@ -218,6 +271,20 @@ export default function App() {
       icon: "YouTube",
       color: "bg-red-600",
       textColor: "text-white"
+    },
+    { 
+      value: "linkedin" as Platform, 
+      label: "LinkedIn", 
+      icon: "LinkedIn",
+      color: "bg-[#0A66C2]",
+      textColor: "text-white"
+    },
+    { 
+      value: "twitter" as Platform, 
+      label: "X", 
+      icon: "X",
+      color: "bg-black",
+      textColor: "text-white"
     }
   ], []);
 
@@ -325,6 +392,17 @@ export default function App() {
                   <span className="ml-1 text-xs">History</span>
                 </Button>
 
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  title="Batch Generation" 
+                  className="p-2"
+                  onClick={() => setLocation("/batches")}
+                >
+                  <Layers className="w-4 h-4" />
+                  <span className="ml-1 text-xs">Batch</span>
+                </Button>
+
                 {/* Profile Dropdown */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -355,6 +433,10 @@ export default function App() {
                       <Building2 className="mr-2 h-4 w-4" />
                       <span>Manage Companies</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLocation("/profile/team")}>
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>Team Workspace</span>
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => setLocation("/billing")}>
                       <CreditCard className="mr-2 h-4 w-4" />
                       <span>Billing & Plans</span>
@@ -382,6 +464,10 @@ export default function App() {
           setObjective={setObjective}
           topic={topic}
           setTopic={setTopic}
+          outline={outline}
+          setOutline={setOutline}
+          locale={locale}
+          setLocale={setLocale}
           onGenerate={handleGenerate}
           isGenerating={isGenerating}
           generations={generations}
@@ -403,8 +489,7 @@ export default function App() {
                     <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Select content platform">
                       {platforms.map((platform) => {
                         const isSelected = selectedPlatform === platform.value;
-                        const IconComponent = platform.value === "tiktok" ? SiTiktok : 
-                                             platform.value === "instagram" ? SiInstagram : SiYoutube;
+                        const IconComponent = platformIcons[platform.value as Platform];
                         
                         return (
                           <Button
@@ -424,8 +509,9 @@ export default function App() {
                             <IconComponent 
                               className={`text-sm sm:text-lg ${
                                 isSelected ? platform.textColor : 
-                                platform.value === "tiktok" ? "text-black" :
+                                platform.value === "tiktok" || platform.value === "twitter" ? "text-black" :
                                 platform.value === "instagram" ? "text-pink-500" :
+                                platform.value === "linkedin" ? "text-[#0A66C2]" :
                                 "text-red-600"
                               }`} 
                               aria-hidden="true"
@@ -458,6 +544,24 @@ export default function App() {
                     </Select>
                   </div>
 
+                  {/* Language Selection */}
+                  <div className="mb-4 sm:mb-6">
+                    <Label htmlFor="locale" className="text-sm font-medium text-slate-700 mb-2 block">Language</Label>
+                    <Select value={locale} onValueChange={setLocale}>
+                      <SelectTrigger id="locale" className="h-10 sm:h-11 focus-visible" aria-label="Select hook language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="brand">Brand default</SelectItem>
+                        {Object.entries(HOOK_LANGUAGE_NAMES).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Topic Input */}
                   <div className="mb-4 sm:mb-6">
                     <Label htmlFor="topic" className="text-sm font-medium text-slate-700 mb-2 block">Video Topic</Label>
@@ -473,6 +577,19 @@ export default function App() {
                     <p id="topic-description" className="text-xs text-slate-500 mt-1">Be specific about what your video will cover</p>
                   </div>
 
+                  {/* Outline Input */}
+                  <div className="mb-4 sm:mb-6">
+                    <Label htmlFor="outline" className="text-sm font-medium text-slate-700 mb-2 block">Content Outline (optional)</Label>
+                    <Textarea
+                      id="outline"
+                      placeholder="One point per line - hooks that promise more than this get flagged"
+                      value={outline}
+                      onChange={(e) => setOutline(e.target.value)}
+                      className="h-20 sm:h-24 resize-none text-sm focus-visible"
+                      aria-label="Video content outline"
+                    />
+                  </div>
+
                   {/* Generate Button */}
                   <div className="space-y-3">
                     <Button 
@@ -527,7 +644,7 @@ export default function App() {
 
           {/* Results Panel - Mobile/Desktop responsive */}
           <section className={`flex-1 flex flex-col bg-slate-50 overflow-hidden ${isMobile ? 'pb-20' : ''}`} aria-label="Generated hooks results">
-            {currentGeneration ? (
+            {displayedGeneration ? (
               <>
                 {/* Enhanced Header Section - Hidden on mobile */}
                 {!isMobile && (
@@ -540,18 +657,24 @@ export default function App() {
                           {/* Platform & Objective Pills */}
                           <div className="flex items-center gap-3">
                             <div className="flex items-center gap-2 px-3 py-1 bg-slate-100 rounded-full text-sm">
-                              {currentGeneration.platform === 'tiktok' && (
+                              {displayedGeneration.platform === 'tiktok' && (
                                 <><SiTiktok className="h-4 w-4 text-black" /> <span className="font-medium">TikTok</span></>
                               )}
-                              {currentGeneration.platform === 'instagram' && (
+                              {displayedGeneration.platform === 'instagram' && (
                                 <><SiInstagram className="h-4 w-4 text-pink-500" /> <span className="font-medium">Instagram</span></>
                               )}
-                              {currentGeneration.platform === 'youtube' && (
+                              {displayedGeneration.platform === 'youtube' && (
                                 <><SiYoutube className="h-4 w-4 text-red-500" /> <span className="font-medium">YouTube</span></>
                               )}
+                              {displayedGeneration.platform === 'linkedin' && (
+                                <><SiLinkedin className="h-4 w-4 text-[#0A66C2]" /> <span className="font-medium">LinkedIn</span></>
+                              )}
+                              {displayedGeneration.platform === 'twitter' && (
+                                <><SiX className="h-4 w-4 text-black" /> <span className="font-medium">X</span></>
+                              )}
                             </div>
                             <div className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">
-                              {currentGeneration.objective.replace('_', ' ').charAt(0).toUpperCase() + currentGeneration.objective.replace('_', ' ').slice(1)}
+                              {displayedGeneration.objective.replace('_', ' ').charAt(0).toUpperCase() + displayedGeneration.objective.replace('_', ' ').slice(1)}
                             </div>
                           </div>
 
@@ -559,26 +682,24 @@ export default function App() {
                           <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 max-w-2xl">
                             <div className="text-xs font-medium text-blue-700 mb-1">ORIGINAL TOPIC</div>
                             <div className="text-sm text-blue-900 font-medium">
-                              "{currentGeneration.topic}"
+                              "{displayedGeneration.topic}"
                             </div>
                           </div>
                           
                           <p className="text-sm text-slate-600">
-                            {currentGeneration.hooks?.length || 0} hooks generated • Click to copy or save favorites
+                            {streamingPreview
+                              ? `${streamingPreview.hooks.length} hooks so far • Generating...`
+                              : `${displayedGeneration.hooks?.length || 0} hooks generated • Click to copy or save favorites`}
                           </p>
                         </div>
                         
                         {/* Action Buttons */}
                         <div className="flex flex-col sm:flex-row gap-3">
-                          <Button 
-                            variant="outline" 
-                            onClick={handleExportCsv}
-                            disabled={exportCsvMutation.isPending}
-                            className="hover:bg-slate-50"
-                          >
-                            <Download className="w-4 h-4 mr-2" />
-                            {exportCsvMutation.isPending ? "Exporting..." : "Export CSV"}
-                          </Button>
+                          <ExportMenu
+                            generationId={currentGeneration?.id}
+                            disabled={!!streamingPreview}
+                            onUpgradeRequired={() => setShowUpgradeModal(true)}
+                          />
                           <Button 
                             className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
                             onClick={handleTryMore}
@@ -637,22 +758,28 @@ export default function App() {
                     {/* Platform & Topic info */}
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
-                        {currentGeneration.platform === 'tiktok' && (
+                        {displayedGeneration.platform === 'tiktok' && (
                           <><SiTiktok className="h-4 w-4 text-black" /> <span className="text-sm font-medium">TikTok</span></>
                         )}
-                        {currentGeneration.platform === 'instagram' && (
+                        {displayedGeneration.platform === 'instagram' && (
                           <><SiInstagram className="h-4 w-4 text-pink-500" /> <span className="text-sm font-medium">Instagram</span></>
                         )}
-                        {currentGeneration.platform === 'youtube' && (
+                        {displayedGeneration.platform === 'youtube' && (
                           <><SiYoutube className="h-4 w-4 text-red-500" /> <span className="text-sm font-medium">YouTube</span></>
                         )}
+                        {displayedGeneration.platform === 'linkedin' && (
+                          <><SiLinkedin className="h-4 w-4 text-[#0A66C2]" /> <span className="text-sm font-medium">LinkedIn</span></>
+                        )}
+                        {displayedGeneration.platform === 'twitter' && (
+                          <><SiX className="h-4 w-4 text-black" /> <span className="text-sm font-medium">X</span></>
+                        )}
                         <span className="text-xs text-slate-500">•</span>
                         <span className="text-xs text-slate-600">
-                          {currentGeneration.objective.replace('_', ' ')}
+                          {displayedGeneration.objective.replace('_', ' ')}
                         </span>
                       </div>
                       <p className="text-sm text-slate-600 line-clamp-2">
-                        "{currentGeneration.topic}"
+                        "{displayedGeneration.topic}"
                       </p>
                     </div>
                   </div>
@@ -672,7 +799,9 @@ export default function App() {
                       </div>
                     )
                   }>
-                    {isMobile ? (
+                    {streamingPreview ? (
+                      <TriModalHookResults generation={streamingPreview} userId={backendUser?.id || ""} isStreaming />
+                    ) : !currentGeneration ? null : isMobile ? (
                       <MobileHookViewer 
                         generation={currentGeneration} 
                         userId={backendUser?.id || ""}
@@ -729,11 +858,11 @@ export default function App() {
         {/* Mobile Bottom Bar */}
         {isMobile && (
           <MobileBottomBar
-            onExport={handleExportCsv}
+            onExport={handleExport}
             onGenerateMore={handleTryMore}
             onNewHook={() => setIsSidebarOpen(true)}
             onToggleView={() => setUseTriModalView(!useTriModalView)}
-            isExporting={exportCsvMutation.isPending}
+            isExporting={exportMutation.isPending}
             isGenerating={isGenerating}
             useTriModalView={useTriModalView}
             hasHooks={!!currentGeneration}
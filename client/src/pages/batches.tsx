@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Layers, Upload, Wand2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ExportMenu from "@/components/export-menu";
+import {
+  GENERATION_BATCH_MAX_ROWS,
+  GENERATION_PLATFORMS,
+  HOOK_LANGUAGE_NAMES,
+  type BrandProfile,
+  type GenerationBatchRow,
+  type GenerationJobStatus,
+  type GenerationPlatform,
+  type HookGeneration
+} from "@shared/schema";
+
+type BatchSource = "paste" | "csv";
+type RowStatus = GenerationJobStatus | "rejected";
+
+interface BatchSummary {
+  id: string;
+  name: string;
+  source: BatchSource;
+  locale: string | null;
+  createdAt: string;
+  status: "running" | "completed";
+  counts: Record<RowStatus, number>;
+}
+
+interface BatchRowStatus extends GenerationBatchRow {
+  row: number;
+  status: RowStatus;
+  attempts: number;
+  generationId: string | null;
+}
+
+interface BatchDetail extends BatchSummary {
+  rows: BatchRowStatus[];
+  generations: HookGeneration[];
+}
+
+const platformNames: Record<GenerationPlatform, string> = {
+  tiktok: "TikTok",
+  instagram: "Instagram",
+  youtube: "YouTube",
+  linkedin: "LinkedIn",
+  twitter: "X / Twitter"
+};
+
+const objectiveNames = {
+  watch_time: "Watch time",
+  shares: "Shares",
+  saves: "Saves",
+  ctr: "Click-through"
+} as const;
+
+const statusStyles: Record<RowStatus, string> = {
+  queued: "bg-slate-100 text-slate-700",
+  running: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  rejected: "bg-amber-100 text-amber-800"
+};
+
+const CSV_EXAMPLE = "topic,platform,objective,brand\n\"Meal prep on a budget\",tiktok,watch_time,\nProtein myths,instagram,saves,Acme Fitness";
+
+// apiRequest errors read "400: {json}" - surface the server's message and the first few row errors
+const describeBatchError = (error: Error): string => {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d{3}: /, ""));
+    const rowErrors = (body.errors || []).slice(0, 5).map((issue: { field: string; message: string }) => `${issue.field}: ${issue.message}`);
+    return [body.message || body.error, ...rowErrors].filter(Boolean).join("\n");
+  } catch {
+    return error.message;
+  }
+};
+
+const finishedRows = (batch: BatchSummary) =>
+  batch.counts.succeeded + batch.counts.failed + batch.counts.rejected;
+
+const totalRows = (batch: BatchSummary) =>
+  finishedRows(batch) + batch.counts.queued + batch.counts.running;
+
+// Plan a run of content at once: paste topics or upload a CSV, then review and export the whole batch
+export default function Batches() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [source, setSource] = useState<BatchSource>("paste");
+  const [content, setContent] = useState("");
+  const [name, setName] = useState("");
+  const [platform, setPlatform] = useState<GenerationPlatform>("tiktok");
+  const [objective, setObjective] = useState<keyof typeof objectiveNames>("watch_time");
+  const [brandId, setBrandId] = useState("active");
+  const [locale, setLocale] = useState("brand");
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+
+  const { data: brandsData } = useQuery({
+    queryKey: ["/api/brands"],
+    queryFn: () => apiRequest("GET", "/api/brands").then(res => res.json()),
+  }) as { data: { brands: BrandProfile[] } | undefined };
+
+  const { data: batches, isLoading } = useQuery({
+    queryKey: ["/api/batches"],
+    queryFn: () => apiRequest("GET", "/api/batches").then(res => res.json()),
+    refetchInterval: (query) => (query.state.data as BatchSummary[] | undefined)?.some(batch => batch.status === "running") ? 5000 : false,
+  }) as { data: BatchSummary[] | undefined; isLoading: boolean };
+
+  const { data: selectedBatch } = useQuery({
+    queryKey: ["/api/batches", selectedBatchId],
+    queryFn: () => apiRequest("GET", `/api/batches/${selectedBatchId}`).then(res => res.json()),
+    enabled: !!selectedBatchId,
+    refetchInterval: (query) => (query.state.data as BatchDetail | undefined)?.status === "running" ? 3000 : false,
+  }) as { data: BatchDetail | undefined };
+
+  const createBatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/batches", {
+        source,
+        content,
+        platform,
+        objective,
+        ...(name.trim() ? { name: name.trim() } : {}),
+        ...(brandId !== "active" ? { brandId } : {}),
+        ...(locale !== "brand" ? { locale } : {})
+      });
+      return response.json() as Promise<BatchDetail>;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits/check"] });
+      setSelectedBatchId(batch.id);
+      setContent("");
+      setName("");
+      toast({
+        title: "Batch queued",
+        description: batch.counts.rejected > 0
+          ? `${totalRows(batch) - batch.counts.rejected} topics queued, ${batch.counts.rejected} over your generation limit`
+          : `${totalRows(batch)} topics queued`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create batch", description: describeBatchError(error), variant: "destructive" });
+    }
+  });
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    setContent(await file.text());
+    if (!name.trim()) {
+      setName(file.name.replace(/\.csv$/i, ""));
+    }
+  };
+
+  const topicCount = source === "paste"
+    ? content.split("\n").filter(line => line.trim()).length
+    : Math.max(content.split("\n").filter(line => line.trim()).length - (/^\s*"?topic"?\s*(,|$)/i.test(content) ? 1 : 0), 0);
+  const generationsById = new Map((selectedBatch?.generations || []).map(generation => [generation.id, generation]));
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLocation("/app")}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to Generator</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <Layers className="w-6 h-6 text-slate-600" />
+            <h1 className="text-xl font-semibold text-slate-900">Batch Generation</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>New batch</CardTitle>
+            <CardDescription>
+              Up to {GENERATION_BATCH_MAX_ROWS} topics at once. Each topic uses one generation from your plan.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={source} onValueChange={(value) => { setSource(value as BatchSource); setContent(""); }}>
+              <TabsList>
+                <TabsTrigger value="paste">Paste a list</TabsTrigger>
+                <TabsTrigger value="csv">Upload CSV</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {source === "csv" && (
+              <div className="space-y-2">
+                <Label htmlFor="batch-csv" className="flex items-center space-x-2 text-sm text-slate-700">
+                  <Upload className="w-4 h-4" />
+                  <span>Columns: topic, platform, objective, brand - only topic is required</span>
+                </Label>
+                <Input id="batch-csv" type="file" accept=".csv,text/csv" onChange={(e) => handleCsvFile(e.target.files?.[0])} />
+              </div>
+            )}
+
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={source === "paste" ? "One video topic per line" : CSV_EXAMPLE}
+              className="min-h-40 font-mono text-sm"
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Batch name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. November content" maxLength={120} />
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Platform</Label>
+                <Select value={platform} onValueChange={(value) => setPlatform(value as GenerationPlatform)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {GENERATION_PLATFORMS.map(code => (
+                      <SelectItem key={code} value={code}>{platformNames[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Objective</Label>
+                <Select value={objective} onValueChange={(value) => setObjective(value as keyof typeof objectiveNames)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(objectiveNames).map(([code, label]) => (
+                      <SelectItem key={code} value={code}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Brand</Label>
+                <Select value={brandId} onValueChange={setBrandId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active brand</SelectItem>
+                    {(brandsData?.brands || []).map(brand => (
+                      <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Language</Label>
+                <Select value={locale} onValueChange={setLocale}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="brand">Brand default</SelectItem>
+                    {Object.entries(HOOK_LANGUAGE_NAMES).map(([code, languageName]) => (
+                      <SelectItem key={code} value={code}>{languageName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">Platform, objective and brand apply to rows that don't set their own.</p>
+
+            <Button
+              onClick={() => createBatchMutation.mutate()}
+              disabled={!content.trim() || topicCount > GENERATION_BATCH_MAX_ROWS || createBatchMutation.isPending}
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              {createBatchMutation.isPending
+                ? "Queuing..."
+                : `Generate ${topicCount} topic${topicCount === 1 ? "" : "s"}`}
+            </Button>
+            {topicCount > GENERATION_BATCH_MAX_ROWS && (
+              <p className="text-sm text-red-600">Split this into batches of {GENERATION_BATCH_MAX_ROWS} topics or fewer.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Batch list */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Your batches</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading && <p className="text-sm text-slate-500">Loading batches...</p>}
+              {!isLoading && !batches?.length && <p className="text-sm text-slate-500">No batches yet.</p>}
+              {batches?.map(batch => (
+                <button
+                  key={batch.id}
+                  onClick={() => setSelectedBatchId(batch.id)}
+                  className={`w-full text-left rounded-lg border p-3 transition-colors ${selectedBatchId === batch.id ? "border-primary bg-primary/5" : "border-slate-200 hover:bg-slate-50"}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900 truncate">{batch.name}</span>
+                    <Badge variant={batch.status === "running" ? "default" : "secondary"}>{batch.status}</Badge>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {batch.counts.succeeded} of {totalRows(batch)} done • {new Date(batch.createdAt).toLocaleDateString()}
+                  </p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Batch review */}
+          <Card className="lg:col-span-2">
+            {!selectedBatch ? (
+              <CardContent className="py-12 text-center text-slate-500">
+                Pick a batch to review its hooks.
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle>{selectedBatch.name}</CardTitle>
+                      <CardDescription>
+                        {selectedBatch.counts.succeeded} succeeded • {selectedBatch.counts.queued + selectedBatch.counts.running} in progress
+                        {selectedBatch.counts.failed > 0 && ` • ${selectedBatch.counts.failed} failed`}
+                        {selectedBatch.counts.rejected > 0 && ` • ${selectedBatch.counts.rejected} rejected`}
+                      </CardDescription>
+                    </div>
+                    <ExportMenu
+                      batchId={selectedBatch.id}
+                      size="sm"
+                      disabled={selectedBatch.counts.succeeded === 0}
+                      onUpgradeRequired={() => setLocation("/pricing")}
+                    />
+                  </div>
+                  {selectedBatch.status === "running" && (
+                    <Progress value={(finishedRows(selectedBatch) / Math.max(totalRows(selectedBatch), 1)) * 100} className="mt-3" />
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {selectedBatch.rows.map(row => {
+                    const generation = row.generationId ? generationsById.get(row.generationId) : undefined;
+                    const topHook = generation?.hooks[0];
+                    return (
+                      <div key={row.row} className="rounded-lg border border-slate-200 bg-white p-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-slate-900">{row.row}. {row.topic}</p>
+                            <p className="text-xs text-slate-500">{platformNames[row.platform]} • {row.objective.replace(/_/g, " ")}</p>
+                          </div>
+                          <span className={`shrink-0 rounded px-2 py-0.5 text-xs font-medium ${statusStyles[row.status]}`}>
+                            {row.status === "running" && row.attempts > 1 ? `retry ${row.attempts - 1}` : row.status}
+                          </span>
+                        </div>
+                        {topHook && (
+                          <div className="mt-2 rounded-md bg-slate-50 p-2">
+                            <p className="text-sm text-slate-800">"{topHook.verbalHook}"</p>
+                            <p className="text-xs text-slate-500 mt-1">
+                              {topHook.framework} • score {topHook.score} • {generation.hooks.length} hooks in total
+                            </p>
+                          </div>
+                        )}
+                        {row.error && row.status !== "succeeded" && (
+                          <p className="mt-2 text-xs text-red-600">{row.error}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Crown, CreditCard, ExternalLink, Calendar, AlertTriangle } from "lucide-react";
+import { Crown, CreditCard, ExternalLink, Calendar, AlertTriangle, TrendingUp } from "lucide-react";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useFirebaseAuth } from "@/hooks/use-firebase-auth";
 import { useToast } from "@/hooks/use-toast";
@@ -15,6 +18,7 @@ export default function BillingPage() {
   const { backendUser } = useFirebaseAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [overageCapInput, setOverageCapInput] = useState<string | null>(null);
   
   // Get backend user data with subscription info
   const { data: user } = useQuery({
@@ -58,6 +62,57 @@ export default function BillingPage() {
     },
   });
 
+  // Pro quota status carries the overage accrued this billing period
+  const { data: proStatus } = useQuery({
+    queryKey: ["/api/generations/status", "gpt-4o"],
+    queryFn: async () => {
+      const response = await fetch("/api/generations/status?modelType=gpt-4o", {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('firebase_token')}`
+        }
+      });
+      if (!response.ok) return null;
+      return response.json();
+    },
+    enabled: !!user && user.subscriptionPlan !== 'free',
+  });
+
+  const overageMutation = useMutation({
+    mutationFn: async (settings: { enabled: boolean; capCents: number }) => {
+      const response = await fetch("/api/billing/overage", {
+        method: "PUT",
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('firebase_token')}`
+        },
+        body: JSON.stringify(settings)
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.errors?.[0]?.message || error?.message || 'Failed to update overage settings');
+      }
+      return response.json();
+    },
+    onSuccess: (_status, settings) => {
+      setOverageCapInput(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/generations/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      toast({
+        title: settings.enabled ? "Overage enabled" : "Overage disabled",
+        description: settings.enabled
+          ? `Extra Pro generations will be billed up to $${(settings.capCents / 100).toFixed(2)} per period.`
+          : "Pro generations will stop at your plan limit.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update overage",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const portalMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/stripe/portal", {
@@ -110,6 +165,33 @@ export default function BillingPage() {
     },
   });
 
+  const cancelPlanChangeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/stripe/change-plan", {
+        method: "DELETE",
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('firebase_token')}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to cancel plan change');
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Plan change canceled",
+        description: "You'll stay on your current plan.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stripe/subscription"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel plan change",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleManageBilling = () => {
     setIsLoading(true);
     portalMutation.mutate();
@@ -141,6 +223,21 @@ export default function BillingPage() {
 
   const currentPlan = user?.subscriptionPlan || 'free';
   const planData = plans?.plans?.[currentPlan.toUpperCase()];
+  const overage = proStatus?.overage;
+  const overageCapDollars = overageCapInput ?? ((user?.overageCapCents ?? 2000) / 100).toString();
+  const overageCapCents = Math.round(parseFloat(overageCapDollars) * 100);
+
+  const saveOverage = (enabled: boolean) => {
+    if (!Number.isFinite(overageCapCents)) {
+      toast({
+        title: "Invalid spending cap",
+        description: "Enter a dollar amount for your spending cap.",
+        variant: "destructive",
+      });
+      return;
+    }
+    overageMutation.mutate({ enabled, capCents: overageCapCents });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-white">
@@ -221,6 +318,26 @@ export default function BillingPage() {
                       </div>
                     )}
                   </div>
+
+                  {subscription.scheduledChange && (
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+                      <div className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4 text-slate-500" />
+                        <p className="text-sm text-slate-700">
+                          Switching to <span className="font-medium capitalize">{subscription.scheduledChange.plan}</span> on{" "}
+                          {new Date(subscription.scheduledChange.effectiveAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelPlanChangeMutation.mutate()}
+                        disabled={cancelPlanChangeMutation.isPending}
+                      >
+                        {cancelPlanChangeMutation.isPending ? "Updating..." : "Keep current plan"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -317,6 +434,78 @@ export default function BillingPage() {
             </CardContent>
           </Card>
 
+          {/* Pro Overage */}
+          {currentPlan !== 'free' && overage && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <TrendingUp className="w-6 h-6 text-primary" />
+                    <div>
+                      <CardTitle className="text-xl">Pro Overage</CardTitle>
+                      <CardDescription>
+                        Keep generating past your plan limit at {overage.unitCents}¢ per extra Pro generation
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={!!user?.overageEnabled}
+                    onCheckedChange={(checked) => saveOverage(checked)}
+                    disabled={overageMutation.isPending || !user?.stripeSubscriptionId}
+                    aria-label="Enable overage billing"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-600">Accrued this period</span>
+                  <span className="font-medium">
+                    ${(overage.accruedCents / 100).toFixed(2)}
+                    {overage.capCents !== null && ` / $${(overage.capCents / 100).toFixed(2)} cap`}
+                  </span>
+                </div>
+                {overage.capCents !== null && overage.capCents > 0 && (
+                  <div className="w-full bg-slate-200 rounded-full h-2">
+                    <div
+                      className="bg-primary h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${Math.min(100, (overage.accruedCents / overage.capCents) * 100)}%` }}
+                    />
+                  </div>
+                )}
+                <p className="text-sm text-slate-600">
+                  {overage.units} extra Pro generation{overage.units === 1 ? '' : 's'} this period
+                  {proStatus?.periodEnd && `, resets ${new Date(proStatus.periodEnd).toLocaleDateString()}`}
+                </p>
+                <Separator />
+                <div className="flex items-end gap-3">
+                  <div>
+                    <Label htmlFor="overage-cap">Monthly spending cap ($)</Label>
+                    <Input
+                      id="overage-cap"
+                      type="number"
+                      min="1"
+                      max="1000"
+                      step="1"
+                      value={overageCapDollars}
+                      onChange={(e) => setOverageCapInput(e.target.value)}
+                      className="w-32"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => saveOverage(!!user?.overageEnabled)}
+                    disabled={overageMutation.isPending || overageCapInput === null}
+                  >
+                    Save Cap
+                  </Button>
+                </div>
+                {!user?.stripeSubscriptionId && (
+                  <p className="text-sm text-orange-600">Overage billing needs an active subscription.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Billing History */}
           <Card>
             <CardHeader>
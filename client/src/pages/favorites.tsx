@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Copy, Trash2, ArrowLeft, Heart, Search, Filter } from "lucide-react";
-import { SiTiktok, SiInstagram, SiYoutube } from "react-icons/si";
+import { SiTiktok, SiInstagram, SiYoutube, SiLinkedin, SiX } from "react-icons/si";
 import { useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -91,6 +91,8 @@ export default function Favorites() {
       case "tiktok": return <SiTiktok className="w-4 h-4" />;
       case "instagram": return <SiInstagram className="w-4 h-4" />;
       case "youtube": return <SiYoutube className="w-4 h-4" />;
+      case "linkedin": return <SiLinkedin className="w-4 h-4" />;
+      case "twitter": return <SiX className="w-4 h-4" />;
       default: return null;
     }
   };
@@ -99,7 +101,9 @@ export default function Favorites() {
     const colorMap: Record<string, string> = {
       "tiktok": "bg-black text-white",
       "instagram": "bg-gradient-to-r from-purple-500 to-pink-500 text-white",
-      "youtube": "bg-red-600 text-white"
+      "youtube": "bg-red-600 text-white",
+      "linkedin": "bg-[#0A66C2] text-white",
+      "twitter": "bg-black text-white"
     };
     return colorMap[platform?.toLowerCase()] || "bg-gray-100 text-gray-800";
   };
@@ -246,6 +250,8 @@ export default function Favorites() {
                           {platform === 'tiktok' && <SiTiktok className="w-4 h-4" />}
                           {platform === 'instagram' && <SiInstagram className="w-4 h-4 text-pink-500" />}
                           {platform === 'youtube' && <SiYoutube className="w-4 h-4 text-red-600" />}
+                          {platform === 'linkedin' && <SiLinkedin className="w-4 h-4 text-[#0A66C2]" />}
+                          {platform === 'twitter' && <SiX className="w-4 h-4" />}
                           <span className="capitalize">{platform}</span>
                         </div>
                       </DropdownMenuItem>
@@ -317,6 +323,8 @@ export default function Favorites() {
                               {favorite.platform === 'tiktok' && <SiTiktok className="w-3 h-3" />}
                               {favorite.platform === 'instagram' && <SiInstagram className="w-3 h-3 text-pink-500" />}
                               {favorite.platform === 'youtube' && <SiYoutube className="w-3 h-3 text-red-600" />}
+                              {favorite.platform === 'linkedin' && <SiLinkedin className="w-3 h-3 text-[#0A66C2]" />}
+                              {favorite.platform === 'twitter' && <SiX className="w-3 h-3" />}
                               <span className="capitalize font-medium">
                                 {favorite.platform}
                               </span>
@@ -6,13 +6,19 @@ import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { ArrowLeft, Search, Filter, Download, Calendar, Eye, Heart, Copy, MoreVertical, Trash2 } from "lucide-react";
-import { SiTiktok, SiInstagram, SiYoutube } from "react-icons/si";
+import { SiTiktok, SiInstagram, SiYoutube, SiLinkedin, SiX } from "react-icons/si";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
-import type { HookGeneration } from "@shared/schema";
+import type { HookGeneration, HookOutcome } from "@shared/schema";
 import HookResults from "../components/hook-results";
+import HookOutcomeForm from "@/components/hook-outcome-form";
+import HookScriptPanel from "@/components/hook-script-panel";
+import HookLocalizePanel from "@/components/hook-localize-panel";
+import HookOutcomeReport from "@/components/hook-outcome-report";
+import ExportMenu, { useExportFormats } from "@/components/export-menu";
+import { downloadExport } from "@/lib/exports";
 
 export default function History() {
   const [, setLocation] = useLocation();
@@ -31,6 +37,22 @@ export default function History() {
     queryFn: () => apiRequest("GET", "/api/generations").then(res => res.json()),
   }) as { data: HookGeneration[] | undefined; isLoading: boolean };
 
+  const { data: workspaceData } = useQuery({
+    queryKey: ["/api/workspace"],
+    queryFn: () => apiRequest("GET", "/api/workspace").then(res => res.json()),
+  }) as { data: { workspace: { id: string } | null; role?: string } | undefined };
+
+  const { data: outcomes } = useQuery({
+    queryKey: ["/api/generations", selectedGeneration?.id, "outcomes"],
+    queryFn: () => apiRequest("GET", `/api/generations/${selectedGeneration!.id}/outcomes`).then(res => res.json()),
+    enabled: !!selectedGeneration,
+  }) as { data: HookOutcome[] | undefined };
+
+  // Authors record results for their own generations; workspace editors and owners for shared ones too
+  const canRecordOutcomes = (generation: HookGeneration) =>
+    generation.userId === user?.id ||
+    (!!generation.workspaceId && generation.workspaceId === workspaceData?.workspace?.id && workspaceData?.role !== "viewer");
+
   const saveFavoriteMutation = useMutation({
     mutationFn: async ({ generationId, hookIndex }: { generationId: string; hookIndex: number }) => {
       const response = await apiRequest("POST", "/api/favorites", {
@@ -93,31 +115,26 @@ export default function History() {
     }
   };
 
-  const exportCsvMutation = useMutation({
-    mutationFn: async (generationId: string) => {
-      const response = await apiRequest("POST", "/api/export-csv", { generationId });
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `hooks-${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      return response;
+  // Quick export from the list uses the first format the plan includes; the detail view offers them all
+  const { data: exportFormats } = useExportFormats();
+  const exportMutation = useMutation({
+    mutationFn: (generationId: string) => {
+      const format = exportFormats?.find(option => option.allowed)?.format;
+      if (!format) {
+        throw new Error("Exports aren't included in your plan.");
+      }
+      return downloadExport({ format, generationId });
     },
     onSuccess: () => {
       toast({
-        title: "CSV exported!",
+        title: "Export ready",
         description: "Your hooks have been downloaded."
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Export failed",
-        description: "Please try again.",
+        description: error.message.startsWith("403:") ? "This format isn't included in your plan." : error.message,
         variant: "destructive"
       });
     }
@@ -143,6 +160,10 @@ export default function History() {
         return <SiInstagram className="w-4 h-4 text-pink-500" />;
       case 'youtube':
         return <SiYoutube className="w-4 h-4 text-red-600" />;
+      case 'linkedin':
+        return <SiLinkedin className="w-4 h-4 text-[#0A66C2]" />;
+      case 'twitter':
+        return <SiX className="w-4 h-4" />;
       default:
         return null;
     }
@@ -186,14 +207,7 @@ export default function History() {
                   <span className="capitalize">{selectedGeneration.objective?.replace('_', ' ')}</span>
                 </div>
               </div>
-              <Button
-                variant="outline"
-                onClick={() => exportCsvMutation.mutate(selectedGeneration.id)}
-                disabled={exportCsvMutation.isPending}
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <ExportMenu generationId={selectedGeneration.id} onUpgradeRequired={() => setLocation("/pricing")} />
             </div>
           </div>
 
@@ -246,6 +260,22 @@ export default function History() {
                   <span>Score: {hook.score}/5</span>
                   <span>{hook.wordCount} words</span>
                 </div>
+                <HookOutcomeForm
+                  generationId={selectedGeneration.id}
+                  hookIndex={index}
+                  outcome={outcomes?.find(outcome => outcome.hookIndex === index)}
+                  canEdit={canRecordOutcomes(selectedGeneration)}
+                />
+                <HookScriptPanel
+                  generationId={selectedGeneration.id}
+                  hookIndex={index}
+                  canEdit={canRecordOutcomes(selectedGeneration)}
+                />
+                <HookLocalizePanel
+                  generationId={selectedGeneration.id}
+                  hookIndex={index}
+                  sourceLocale={selectedGeneration.locale}
+                />
               </Card>
             ))}
           </div>
@@ -310,12 +340,22 @@ export default function History() {
                     <SiYoutube className="w-4 h-4 mr-2 text-red-600" />
                     YouTube
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setSelectedPlatform("linkedin")}>
+                    <SiLinkedin className="w-4 h-4 mr-2 text-[#0A66C2]" />
+                    LinkedIn
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setSelectedPlatform("twitter")}>
+                    <SiX className="w-4 h-4 mr-2" />
+                    X
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
           </div>
         </div>
 
+        <HookOutcomeReport />
+
         {/* Generation List */}
         {isLoading ? (
           <div className="space-y-4">
@@ -367,6 +407,11 @@ export default function History() {
                         <Badge variant="outline" className="capitalize">
                           {generation.objective?.replace('_', ' ')}
                         </Badge>
+                        {generation.locale && generation.locale !== "en" && (
+                          <Badge variant="outline" className="uppercase">
+                            {generation.locale}
+                          </Badge>
+                        )}
                         <span className="text-sm text-slate">
                           {formatDate(generation.createdAt)}
                         </span>
@@ -411,9 +456,9 @@ export default function History() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => exportCsvMutation.mutate(generation.id)}>
+                          <DropdownMenuItem onClick={() => exportMutation.mutate(generation.id)}>
                             <Download className="w-4 h-4 mr-2" />
-                            Export CSV
+                            Export
                           </DropdownMenuItem>
                           <DropdownMenuItem 
                             onClick={() => deleteGenerationMutation.mutate(generation.id)}
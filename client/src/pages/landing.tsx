@@ -6,7 +6,7 @@
 // - Adds accessible markup and clear secondary CTAs
 // - Keeps the traditional craft tone while nudging to onboarding
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { analytics } from '../lib/analytics';
 import { NavBar } from '../components/NavBar';
@@ -28,6 +28,10 @@ export default function Landing() {
   const [, setLocation] = useLocation();
   const [showFrameworkDetails, setShowFrameworkDetails] = useState(false);
   // Removed showAdvancedPricing for simplified 2-tier structure
+
+  useEffect(() => {
+    analytics.trackFunnelStep('landing_viewed', 0);
+  }, []);
   
   const handleShowModal = (source: string = 'unknown') => {
     analytics.trackCtaStartedFree(source);
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -12,6 +12,7 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useFirebaseAuth } from "@/hooks/use-firebase-auth";
+import { analytics } from "@/lib/analytics";
 import type { OnboardingData } from "@/lib/types";
 
 const TOTAL_STEPS = 3;
@@ -35,6 +36,10 @@ export default function Onboarding() {
     examples: ""
   });
 
+  useEffect(() => {
+    analytics.trackFunnelStep('onboarding_started', 1);
+  }, []);
+
   const createUserMutation = useMutation({
     mutationFn: async (userData: OnboardingData) => {
       const response = await apiRequest("POST", "/api/users", userData);
@@ -45,6 +50,7 @@ export default function Onboarding() {
       return response.json();
     },
     onSuccess: async (data) => {
+      analytics.trackFunnelStep('onboarding_completed', 2);
       toast({
         title: "Profile created successfully!",
         description: "You're ready to start generating hooks.",
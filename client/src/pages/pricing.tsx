@@ -247,6 +247,7 @@ export default function PricingPage() {
         isOpen={showSubscriptionModal}
         onClose={() => setShowSubscriptionModal(false)}
         showDiscountOffer={false}
+        initialPlan={selectedPlan}
       />
     </div>
   );
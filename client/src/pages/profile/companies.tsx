@@ -5,82 +5,115 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ArrowLeft, Building2, Plus, Edit, Trash2, Check } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from "@shared/schema";
+import { HOOK_LANGUAGE_NAMES, type BrandProfile } from "@shared/schema";
 
-interface CompanyProfile {
-  id?: string;
-  company: string;
+interface BrandsResponse {
+  brands: BrandProfile[];
+  activeBrandId: string | null;
+}
+
+interface BrandForm {
+  name: string;
   industry: string;
   role: string;
   audience: string;
   voice: string;
   safety: string;
-  bannedTerms: string[];
-  isActive?: boolean;
+  locale: string;
+  bannedTerms: string;
 }
 
+const emptyBrandForm: BrandForm = {
+  name: "",
+  industry: "",
+  role: "",
+  audience: "",
+  voice: "friendly",
+  safety: "standard",
+  locale: "en",
+  bannedTerms: ""
+};
+
+const toBrandForm = (brand: BrandProfile): BrandForm => ({
+  name: brand.name,
+  industry: brand.industry || "",
+  role: brand.role || "",
+  audience: brand.audience || "",
+  voice: brand.voice || "friendly",
+  safety: brand.safety || "standard",
+  locale: brand.locale || "en",
+  bannedTerms: (brand.bannedTerms || []).join(", ")
+});
+
+const toBrandPayload = (form: BrandForm) => ({
+  name: form.name.trim(),
+  industry: form.industry || null,
+  role: form.role || null,
+  audience: form.audience || null,
+  voice: form.voice || null,
+  safety: form.safety,
+  locale: form.locale,
+  bannedTerms: form.bannedTerms.split(",").map(term => term.trim()).filter(Boolean)
+});
+
 export default function ManageCompanies() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [isAddingCompany, setIsAddingCompany] = useState(false);
-  const [editingCompany, setEditingCompany] = useState<CompanyProfile | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBrandId, setEditingBrandId] = useState<string | null>(null);
+  const [brandForm, setBrandForm] = useState<BrandForm>(emptyBrandForm);
 
-  const { data: user, isLoading } = useQuery({
-    queryKey: ["/api/users/me"],
-    queryFn: () => apiRequest("GET", "/api/users/me").then(res => res.json()),
-  }) as { data: User | undefined; isLoading: boolean };
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/brands"],
+    queryFn: () => apiRequest("GET", "/api/brands").then(res => res.json()),
+  }) as { data: BrandsResponse | undefined; isLoading: boolean };
 
-  // Mock companies for now - in real implementation this would come from API
-  const [companies, setCompanies] = useState<CompanyProfile[]>([
-    {
-      id: "1",
-      company: user?.company || "Current Company",
-      industry: user?.industry || "Technology",
-      role: user?.role || "Creator",
-      audience: user?.audience || "General audience",
-      voice: user?.voice || "Friendly",
-      safety: user?.safety || "standard",
-      bannedTerms: user?.bannedTerms || [],
-      isActive: true
-    }
-  ]);
+  const brands = data?.brands || [];
+  const activeBrandId = data?.activeBrandId ?? null;
 
-  const [newCompany, setNewCompany] = useState<CompanyProfile>({
-    company: "",
-    industry: "",
-    role: "",
-    audience: "",
-    voice: "friendly",
-    safety: "standard",
-    bannedTerms: []
+  const saveBrandMutation = useMutation({
+    mutationFn: async ({ id, form }: { id: string | null; form: BrandForm }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/brands/${id}`, toBrandPayload(form))
+        : await apiRequest("POST", "/api/brands", toBrandPayload(form));
+      return response.json();
+    },
+    onSuccess: (_brand, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      setIsDialogOpen(false);
+      setEditingBrandId(null);
+      setBrandForm(emptyBrandForm);
+      toast({
+        title: id ? "Company updated" : "Company added",
+        description: id ? "Company profile has been saved." : "New company profile has been created.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   });
 
   const switchToCompanyMutation = useMutation({
-    mutationFn: async (companyProfile: CompanyProfile) => {
-      const response = await apiRequest("PUT", "/api/users/me", {
-        company: companyProfile.company,
-        industry: companyProfile.industry,
-        role: companyProfile.role,
-        audience: companyProfile.audience,
-        voice: companyProfile.voice,
-        safety: companyProfile.safety,
-        bannedTerms: companyProfile.bannedTerms
-      });
+    mutationFn: async (brandId: string) => {
+      const response = await apiRequest("PUT", "/api/brands/active", { brandId });
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
-      // Update active company in local state
-      setCompanies(prev => prev.map(c => ({ ...c, isActive: c.id === editingCompany?.id })));
       toast({
         title: "Company switched",
-        description: "Your active company profile has been updated.",
+        description: "New hooks will use this company profile.",
       });
     },
     onError: (error) => {
@@ -92,12 +125,42 @@ export default function ManageCompanies() {
     }
   });
 
-  const handleSwitchCompany = (company: CompanyProfile) => {
-    switchToCompanyMutation.mutate(company);
+  const deleteBrandMutation = useMutation({
+    mutationFn: async (brandId: string) => {
+      const response = await apiRequest("DELETE", `/api/brands/${brandId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      toast({
+        title: "Company deleted",
+        description: "Company profile has been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openAddDialog = () => {
+    setEditingBrandId(null);
+    setBrandForm(emptyBrandForm);
+    setIsDialogOpen(true);
   };
 
-  const handleAddCompany = () => {
-    if (!newCompany.company.trim()) {
+  const openEditDialog = (brand: BrandProfile) => {
+    setEditingBrandId(brand.id);
+    setBrandForm(toBrandForm(brand));
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveCompany = () => {
+    if (!brandForm.name.trim()) {
       toast({
         title: "Company name required",
         description: "Please enter a company name.",
@@ -106,36 +169,7 @@ export default function ManageCompanies() {
       return;
     }
 
-    const company: CompanyProfile = {
-      ...newCompany,
-      id: Date.now().toString(),
-      isActive: false
-    };
-
-    setCompanies(prev => [...prev, company]);
-    setNewCompany({
-      company: "",
-      industry: "",
-      role: "",
-      audience: "",
-      voice: "friendly",
-      safety: "standard",
-      bannedTerms: []
-    });
-    setIsAddingCompany(false);
-    
-    toast({
-      title: "Company added",
-      description: "New company profile has been created.",
-    });
-  };
-
-  const handleDeleteCompany = (companyId: string) => {
-    setCompanies(prev => prev.filter(c => c.id !== companyId));
-    toast({
-      title: "Company deleted",
-      description: "Company profile has been removed.",
-    });
+    saveBrandMutation.mutate({ id: editingBrandId, form: brandForm });
   };
 
   if (isLoading) {
@@ -177,44 +211,43 @@ export default function ManageCompanies() {
             Manage multiple company profiles to switch between different brand contexts when generating hooks.
           </p>
           
-          <Dialog open={isAddingCompany} onOpenChange={setIsAddingCompany}>
-            <DialogTrigger asChild>
-              <Button className="flex items-center space-x-2">
-                <Plus className="w-4 h-4" />
-                <span>Add Company</span>
-              </Button>
-            </DialogTrigger>
+          <Button className="flex items-center space-x-2" onClick={openAddDialog}>
+            <Plus className="w-4 h-4" />
+            <span>Add Company</span>
+          </Button>
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>Add New Company Profile</DialogTitle>
+                <DialogTitle>{editingBrandId ? "Edit Company Profile" : "Add New Company Profile"}</DialogTitle>
               </DialogHeader>
               <div className="space-y-4 mt-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="new-company">Company Name *</Label>
+                    <Label htmlFor="brand-name">Company Name *</Label>
                     <Input
-                      id="new-company"
-                      value={newCompany.company}
-                      onChange={(e) => setNewCompany(prev => ({ ...prev, company: e.target.value }))}
+                      id="brand-name"
+                      value={brandForm.name}
+                      onChange={(e) => setBrandForm(prev => ({ ...prev, name: e.target.value }))}
                       placeholder="Company name"
                     />
                   </div>
                   <div>
-                    <Label htmlFor="new-role">Your Role</Label>
+                    <Label htmlFor="brand-role">Your Role</Label>
                     <Input
-                      id="new-role"
-                      value={newCompany.role}
-                      onChange={(e) => setNewCompany(prev => ({ ...prev, role: e.target.value }))}
+                      id="brand-role"
+                      value={brandForm.role}
+                      onChange={(e) => setBrandForm(prev => ({ ...prev, role: e.target.value }))}
                       placeholder="Your role at this company"
                     />
                   </div>
                 </div>
 
                 <div>
-                  <Label htmlFor="new-industry">Industry</Label>
+                  <Label htmlFor="brand-industry">Industry</Label>
                   <Select 
-                    value={newCompany.industry} 
-                    onValueChange={(value) => setNewCompany(prev => ({ ...prev, industry: value }))}
+                    value={brandForm.industry} 
+                    onValueChange={(value) => setBrandForm(prev => ({ ...prev, industry: value }))}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select industry" />
@@ -235,11 +268,11 @@ export default function ManageCompanies() {
                 </div>
 
                 <div>
-                  <Label htmlFor="new-audience">Target Audience</Label>
+                  <Label htmlFor="brand-audience">Target Audience</Label>
                   <Textarea
-                    id="new-audience"
-                    value={newCompany.audience}
-                    onChange={(e) => setNewCompany(prev => ({ ...prev, audience: e.target.value }))}
+                    id="brand-audience"
+                    value={brandForm.audience}
+                    onChange={(e) => setBrandForm(prev => ({ ...prev, audience: e.target.value }))}
                     placeholder="Describe the target audience for this company"
                     className="h-20"
                   />
@@ -249,8 +282,8 @@ export default function ManageCompanies() {
                   <div>
                     <Label>Brand Voice</Label>
                     <Select 
-                      value={newCompany.voice} 
-                      onValueChange={(value) => setNewCompany(prev => ({ ...prev, voice: value }))}
+                      value={brandForm.voice} 
+                      onValueChange={(value) => setBrandForm(prev => ({ ...prev, voice: value }))}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -269,8 +302,8 @@ export default function ManageCompanies() {
                   <div>
                     <Label>Content Safety</Label>
                     <Select 
-                      value={newCompany.safety} 
-                      onValueChange={(value) => setNewCompany(prev => ({ ...prev, safety: value }))}
+                      value={brandForm.safety} 
+                      onValueChange={(value) => setBrandForm(prev => ({ ...prev, safety: value }))}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -284,12 +317,43 @@ export default function ManageCompanies() {
                   </div>
                 </div>
 
+                <div>
+                  <Label>Language</Label>
+                  <Select 
+                    value={brandForm.locale} 
+                    onValueChange={(value) => setBrandForm(prev => ({ ...prev, locale: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(HOOK_LANGUAGE_NAMES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>{name}</SelectItem>
+                      ))}
+                      {!(brandForm.locale in HOOK_LANGUAGE_NAMES) && (
+                        <SelectItem value={brandForm.locale}>{brandForm.locale}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate-500 mt-1">Hooks for this company are written in this language unless you pick another when generating</p>
+                </div>
+
+                <div>
+                  <Label htmlFor="brand-banned-terms">Banned Terms</Label>
+                  <Input
+                    id="brand-banned-terms"
+                    value={brandForm.bannedTerms}
+                    onChange={(e) => setBrandForm(prev => ({ ...prev, bannedTerms: e.target.value }))}
+                    placeholder="Comma-separated words this brand never uses"
+                  />
+                </div>
+
                 <div className="flex justify-end space-x-4 pt-4">
-                  <Button variant="outline" onClick={() => setIsAddingCompany(false)}>
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={handleAddCompany}>
-                    Add Company
+                  <Button onClick={handleSaveCompany} disabled={saveBrandMutation.isPending}>
+                    {editingBrandId ? "Save Changes" : "Add Company"}
                   </Button>
                 </div>
               </div>
@@ -298,73 +362,83 @@ export default function ManageCompanies() {
         </div>
 
         {/* Companies Grid */}
-        <div className="grid gap-4">
-          {companies.map((company) => (
-            <Card key={company.id} className={`${company.isActive ? 'ring-2 ring-primary' : ''}`}>
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <Building2 className="w-5 h-5 text-slate-600" />
-                    <div>
-                      <CardTitle className="text-lg">{company.company}</CardTitle>
-                      <p className="text-sm text-slate-500">{company.role} • {company.industry}</p>
+        {brands.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center text-slate-600">
+              No company profiles yet. Hooks use the details from your main profile until you add one.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {brands.map((brand) => {
+              const isActive = brand.id === activeBrandId;
+              return (
+                <Card key={brand.id} className={`${isActive ? 'ring-2 ring-primary' : ''}`}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <Building2 className="w-5 h-5 text-slate-600" />
+                        <div>
+                          <CardTitle className="text-lg">{brand.name}</CardTitle>
+                          <p className="text-sm text-slate-500">{brand.role || 'No role'} • {brand.industry || 'No industry'}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {isActive && (
+                          <div className="flex items-center space-x-1 text-green-600 text-sm font-medium">
+                            <Check className="w-4 h-4" />
+                            <span>Active</span>
+                          </div>
+                        )}
+                        {!isActive && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => switchToCompanyMutation.mutate(brand.id)}
+                            disabled={switchToCompanyMutation.isPending}
+                          >
+                            Switch to this
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(brand)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => deleteBrandMutation.mutate(brand.id)}
+                          disabled={deleteBrandMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    {company.isActive && (
-                      <div className="flex items-center space-x-1 text-green-600 text-sm font-medium">
-                        <Check className="w-4 h-4" />
-                        <span>Active</span>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-slate-700">Audience</p>
+                        <p className="text-slate-600">{brand.audience || 'Not specified'}</p>
                       </div>
-                    )}
-                    {!company.isActive && (
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => handleSwitchCompany(company)}
-                        disabled={switchToCompanyMutation.isPending}
-                      >
-                        Switch to this
-                      </Button>
-                    )}
-                    <Button variant="ghost" size="sm">
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    {companies.length > 1 && (
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => handleDeleteCompany(company.id!)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    )}
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                  <div>
-                    <p className="font-medium text-slate-700">Audience</p>
-                    <p className="text-slate-600">{company.audience || 'Not specified'}</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-slate-700">Voice</p>
-                    <p className="text-slate-600 capitalize">{company.voice}</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-slate-700">Safety</p>
-                    <p className="text-slate-600 capitalize">{company.safety}</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-slate-700">Banned Terms</p>
-                    <p className="text-slate-600">{company.bannedTerms.length} terms</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+                      <div>
+                        <p className="font-medium text-slate-700">Voice</p>
+                        <p className="text-slate-600 capitalize">{brand.voice || 'Not specified'}</p>
+                      </div>
+                      <div>
+                        <p className="font-medium text-slate-700">Safety</p>
+                        <p className="text-slate-600 capitalize">{brand.safety || 'standard'}</p>
+                      </div>
+                      <div>
+                        <p className="font-medium text-slate-700">Banned Terms</p>
+                        <p className="text-slate-600">{(brand.bannedTerms || []).length} terms</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
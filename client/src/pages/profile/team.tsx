@@ -0,0 +1,475 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Users, UserPlus, Trash2, Mail, Copy, Crown, LogOut } from "lucide-react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { User, Workspace, WorkspaceMember, WorkspaceRole } from "@shared/schema";
+
+interface WorkspaceMemberWithUser extends WorkspaceMember {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName" | "profileImageUrl">;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+type WorkspaceResponse =
+  | { workspace: null }
+  | {
+      workspace: Workspace;
+      role: WorkspaceRole;
+      isPooled: boolean;
+      members: WorkspaceMemberWithUser[];
+      invitations: PendingInvitation[];
+      seats: { used: number; limit: number };
+    };
+
+interface CreatedInvitation extends PendingInvitation {
+  emailSent: boolean;
+  inviteUrl: string;
+}
+
+const memberName = (member: WorkspaceMemberWithUser) =>
+  [member.user.firstName, member.user.lastName].filter(Boolean).join(" ") || member.user.email;
+
+export default function ManageTeam() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"editor" | "viewer">("editor");
+  const [manualInviteUrl, setManualInviteUrl] = useState<string | null>(null);
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/workspace"],
+    queryFn: () => apiRequest("GET", "/api/workspace").then(res => res.json()),
+  }) as { data: WorkspaceResponse | undefined; isLoading: boolean };
+
+  const { data: user } = useQuery({
+    queryKey: ["/api/users/me"],
+    queryFn: () => apiRequest("GET", "/api/users/me").then(res => res.json()),
+  }) as { data: User | undefined };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  // Quota and history both depend on workspace membership
+  const invalidateWorkspace = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workspace"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/generations/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/generations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+  };
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/workspace", { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWorkspace();
+      setWorkspaceName("");
+      toast({
+        title: "Workspace created",
+        description: "Invite your teammates to share your Teams quota.",
+      });
+    },
+    onError: onMutationError("Create failed")
+  });
+
+  const acceptInvitationMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await apiRequest("POST", `/api/workspace/invitations/${token}/accept`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWorkspace();
+      setLocation("/profile/team");
+      toast({
+        title: "Invitation accepted",
+        description: "You're now part of the workspace.",
+      });
+    },
+    onError: onMutationError("Couldn't accept invitation")
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: "editor" | "viewer" }) => {
+      const response = await apiRequest("POST", "/api/workspace/invitations", { email, role });
+      return response.json() as Promise<CreatedInvitation>;
+    },
+    onSuccess: (invitation) => {
+      invalidateWorkspace();
+      setInviteEmail("");
+      setManualInviteUrl(invitation.emailSent ? null : invitation.inviteUrl);
+      toast({
+        title: "Invitation created",
+        description: invitation.emailSent
+          ? `We've emailed an invitation to ${invitation.email}.`
+          : "Email isn't configured - share the invite link below.",
+      });
+    },
+    onError: onMutationError("Invite failed")
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await apiRequest("DELETE", `/api/workspace/invitations/${invitationId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWorkspace();
+      toast({ title: "Invitation revoked" });
+    },
+    onError: onMutationError("Revoke failed")
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: "editor" | "viewer" }) => {
+      const response = await apiRequest("PUT", `/api/workspace/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWorkspace();
+      toast({ title: "Role updated" });
+    },
+    onError: onMutationError("Update failed")
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `/api/workspace/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: (_result, userId) => {
+      invalidateWorkspace();
+      toast({ title: userId === user?.id ? "You left the workspace" : "Member removed" });
+    },
+    onError: onMutationError("Remove failed")
+  });
+
+  const deleteWorkspaceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/workspace");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWorkspace();
+      toast({ title: "Workspace deleted" });
+    },
+    onError: onMutationError("Delete failed")
+  });
+
+  const copyInviteUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Invite link copied" });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading team...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const team = data?.workspace ? data : null;
+  const isOwner = team?.role === "owner";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLocation("/profile")}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to Profile</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <Users className="w-6 h-6 text-slate-600" />
+            <h1 className="text-xl font-semibold text-slate-900">Team Workspace</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {inviteToken && !team && (
+          <Card className="ring-2 ring-primary">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Mail className="w-5 h-5" />
+                <span>You've been invited to a workspace</span>
+              </CardTitle>
+              <CardDescription>
+                Join to share the team's generation quota, history and favorites.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={() => acceptInvitationMutation.mutate(inviteToken)}
+                disabled={acceptInvitationMutation.isPending}
+              >
+                Accept Invitation
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {!team && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Create a workspace</CardTitle>
+              <CardDescription>
+                Teams workspaces pool 1,500 Pro generations per month across 3 seats, with shared history and favorites.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {user?.subscriptionPlan === "teams" ? (
+                <div className="flex items-end space-x-3 max-w-lg">
+                  <div className="flex-1">
+                    <Label htmlFor="workspace-name">Workspace Name</Label>
+                    <Input
+                      id="workspace-name"
+                      value={workspaceName}
+                      onChange={(e) => setWorkspaceName(e.target.value)}
+                      placeholder="e.g. Acme Social Team"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => createWorkspaceMutation.mutate(workspaceName.trim())}
+                    disabled={!workspaceName.trim() || createWorkspaceMutation.isPending}
+                  >
+                    Create Workspace
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <p className="text-slate-600">Workspaces are part of the Teams plan.</p>
+                  <Button variant="outline" onClick={() => setLocation("/billing")}>
+                    <Crown className="w-4 h-4 mr-2" />
+                    Upgrade to Teams
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {team && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{team.workspace.name}</CardTitle>
+                    <CardDescription className="capitalize">Your role: {team.role}</CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">{team.seats.used} / {team.seats.limit} seats</Badge>
+                    {team.isPooled ? (
+                      <Badge className="bg-green-100 text-green-700">Pooled quota active</Badge>
+                    ) : (
+                      <Badge variant="destructive">Teams plan inactive</Badge>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              {!team.isPooled && (
+                <CardContent>
+                  <p className="text-sm text-slate-600">
+                    The workspace owner's Teams subscription isn't active, so members are using their own plans.
+                    Shared history and favorites are still available.
+                  </p>
+                </CardContent>
+              )}
+            </Card>
+
+            {/* Members */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Members</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {team.members.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between border-b border-slate-100 pb-3 last:border-0 last:pb-0">
+                    <div>
+                      <p className="font-medium text-slate-900">{memberName(member)}</p>
+                      <p className="text-sm text-slate-500">{member.user.email}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isOwner && member.role !== "owner" ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as "editor" | "viewer" })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="editor">Editor</SelectItem>
+                            <SelectItem value="viewer">Viewer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                      )}
+                      {isOwner && member.role !== "owner" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMemberMutation.mutate(member.userId)}
+                          disabled={removeMemberMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Invitations */}
+            {isOwner && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Invite a teammate</CardTitle>
+                  <CardDescription>
+                    Editors can generate with the shared quota. Viewers can browse shared history and favorites.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-end space-x-3">
+                    <div className="flex-1">
+                      <Label htmlFor="invite-email">Email</Label>
+                      <Input
+                        id="invite-email"
+                        type="email"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="teammate@company.com"
+                      />
+                    </div>
+                    <div>
+                      <Label>Role</Label>
+                      <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as "editor" | "viewer")}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      onClick={() => inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole })}
+                      disabled={!inviteEmail.trim() || inviteMutation.isPending || team.seats.used >= team.seats.limit}
+                    >
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      Invite
+                    </Button>
+                  </div>
+
+                  {manualInviteUrl && (
+                    <div className="flex items-center space-x-2 bg-slate-100 rounded p-3">
+                      <p className="text-sm text-slate-700 truncate flex-1">{manualInviteUrl}</p>
+                      <Button variant="outline" size="sm" onClick={() => copyInviteUrl(manualInviteUrl)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+
+                  {team.invitations.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-slate-700">Pending invitations</p>
+                      {team.invitations.map((invitation) => (
+                        <div key={invitation.id} className="flex items-center justify-between text-sm">
+                          <span className="text-slate-600">
+                            {invitation.email} • <span className="capitalize">{invitation.role}</span> • expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                            disabled={revokeInvitationMutation.isPending}
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Leave / delete */}
+            <div className="flex justify-end">
+              {isOwner ? (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="text-red-600">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Workspace
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this workspace?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Members lose access to the pooled quota and shared history. Each member keeps the hooks they generated.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteWorkspaceMutation.mutate()}>
+                        Delete Workspace
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => user && removeMemberMutation.mutate(user.id)}
+                  disabled={!user || removeMemberMutation.isPending}
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Leave Workspace
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
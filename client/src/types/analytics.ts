@@ -8,6 +8,7 @@
  */
 export interface BaseAnalyticsEvent {
   readonly eventType: string;
+  readonly eventId?: string; // Lets the server drop events it has already stored
   readonly timestamp: number;
   readonly sessionId: string;
   readonly userId?: string;
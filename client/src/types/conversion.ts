@@ -359,7 +359,9 @@ export interface VariantPerformance {
 export interface UseABTestingReturn<T extends string> {
   readonly variant: T;
   readonly isLoading: boolean;
+  readonly inTest: boolean; // Assigned by a running test, so exposures and conversions are recorded
   readonly trackExposure: () => void;
+  readonly trackConversion: (value?: number) => void;
   readonly getVariantConfig: () => Record<string, unknown>;
 }
 
@@ -167,7 +167,7 @@ export {
 /**
  * Common constants and defaults
  */
-export const SUPPORTED_PLATFORMS = ['tiktok', 'instagram', 'youtube', 'all'] as const;
+export const SUPPORTED_PLATFORMS = ['tiktok', 'instagram', 'youtube', 'linkedin', 'twitter', 'all'] as const;
 export const CTA_VARIANTS = ['primary', 'secondary', 'platform-specific', 'urgent', 'minimal'] as const;
 export const COMPONENT_SIZES = ['xs', 'sm', 'md', 'lg', 'xl', '2xl'] as const;
 export const COLOR_VARIANTS = ['primary', 'secondary', 'success', 'warning', 'error', 'neutral', 'accent'] as const;
@@ -180,6 +180,8 @@ export const PLATFORM_COLORS = {
   tiktok: '#000000',
   instagram: '#E4405F', 
   youtube: '#FF0000',
+  linkedin: '#0A66C2',
+  twitter: '#000000',
   all: '#1E40AF'
 } as const;
 
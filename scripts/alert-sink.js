@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Local HTTP sink for monitoring alerts
+ * Prints every request it receives, so webhook and Slack alert delivery can be tried without real endpoints:
+ *
+ *   node scripts/alert-sink.js 4000
+ *   ALERT_WEBHOOK_URL=http://localhost:4000/webhook ALERT_SLACK_WEBHOOK_URL=http://localhost:4000/slack npm run dev
+ *
+ * then POST /api/admin/alerts/test as an admin. SINK_STATUS=500 makes it fail deliveries on purpose.
+ */
+
+import { createServer } from 'http';
+import { createHmac } from 'crypto';
+
+const PORT = parseInt(process.argv[2] || process.env.SINK_PORT || '4000');
+const STATUS = parseInt(process.env.SINK_STATUS || '200');
+const SECRET = process.env.ALERT_WEBHOOK_SECRET;
+
+const server = createServer((req, res) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    console.log(`\n📨 ${new Date().toISOString()} ${req.method} ${req.url}`);
+
+    const signature = req.headers['x-alert-signature'];
+    if (signature && SECRET) {
+      const expected = `sha256=${createHmac('sha256', SECRET).update(body).digest('hex')}`;
+      console.log(signature === expected ? '✅ Signature valid' : '❌ Signature mismatch');
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    res.writeHead(STATUS, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: STATUS < 400 }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🔔 Alert sink listening on http://localhost:${PORT} (answering ${STATUS})`);
+});
+
+process.on('SIGINT', () => server.close(() => process.exit(0)));
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ALERT_CHANNELS, ALERT_TYPES, type AlertChannel, type AlertType } from "@shared/schema";
 
 // Environment variable validation schema
 const envSchema = z.object({
@@ -15,9 +16,45 @@ const envSchema = z.object({
   FIREBASE_PRIVATE_KEY: z.string().min(1, "FIREBASE_PRIVATE_KEY is required"),
   
   // Third-party services
-  OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
+  OPENAI_API_KEY: z.string().min(1).optional(), // Required when LLM_PROVIDER is "openai" (checked below)
   STRIPE_SECRET_KEY: z.string().min(1, "STRIPE_SECRET_KEY is required"),
   STRIPE_WEBHOOK_SECRET: z.string().min(1, "STRIPE_WEBHOOK_SECRET is required"),
+  STRIPE_API_URL: z.string().url("STRIPE_API_URL must be a valid URL").optional(), // stripe-mock or a test server; api.stripe.com when unset
+
+  // LLM provider selection (see server/services/llm-provider.ts)
+  LLM_PROVIDER: z.enum(["openai", "openai-compatible", "fixture"]).default("openai"),
+  LLM_BASE_URL: z.string().url("LLM_BASE_URL must be a valid URL").optional(),
+  LLM_API_KEY: z.string().optional(),
+  LLM_MODEL_PRO: z.string().optional(),
+  LLM_MODEL_DRAFT: z.string().optional(),
+
+  // Comma-separated emails allowed to manage the hook taxonomy (/api/admin)
+  ADMIN_EMAILS: z.string().optional(),
+
+  // Background worker that runs queued hook generations - turn off on instances that should only serve the API
+  GENERATION_WORKER: z.enum(["on", "off"]).default("on"),
+  GENERATION_WORKER_CONCURRENCY: z.string().transform(Number).pipe(z.number().int().min(1).max(20)).default("3"),
+
+  // Background processor that maps analytics events onto conversion funnel steps - run it on one instance only
+  FUNNEL_PROCESSOR: z.enum(["on", "off"]).default("on"),
+
+  // Transactional email (workspace invitations) - emails are skipped when unset
+  SENDGRID_API_KEY: z.string().optional(),
+  EMAIL_FROM: z.string().optional(),
+
+  // Monitoring alert delivery - a channel is on once its settings are present
+  ALERT_WEBHOOK_URL: z.string().url("ALERT_WEBHOOK_URL must be a valid URL").optional(),
+  ALERT_WEBHOOK_SECRET: z.string().optional(), // Signs webhook bodies: X-Alert-Signature: sha256=<hex HMAC>
+  ALERT_SLACK_WEBHOOK_URL: z.string().url("ALERT_SLACK_WEBHOOK_URL must be a valid URL").optional(),
+  ALERT_EMAIL_TO: z.string().optional(), // Comma-separated recipients, sent through SMTP_HOST
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).pipe(z.number().int().min(1).max(65535)).default("587"),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"), // true for implicit TLS (port 465); otherwise STARTTLS when offered, and required once SMTP_USER is set
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  // Alert types per channel, e.g. "error=slack,email;performance=slack;*=webhook" - unset sends every type to every channel
+  ALERT_ROUTES: z.string().optional().transform((value, ctx) => parseAlertRoutes(value, ctx)),
+  ALERT_COOLDOWN_MINUTES: z.string().transform(Number).pipe(z.number().min(0)).default("60"), // Repeats of an alert within this window aren't delivered again
   
   // Analytics and Conversion Tracking Configuration
   ANALYTICS_ENABLED: z.string().transform(Boolean).default("true"),
@@ -40,6 +77,7 @@ const envSchema = z.object({
   CCPA_COMPLIANCE_ENABLED: z.string().transform(Boolean).default("true"),
   ANONYMIZE_IPS: z.string().transform(Boolean).default("true"),
   DATA_RETENTION_DAYS: z.string().transform(Number).pipe(z.number().min(30).max(2555)).default("730"),
+  PRIVACY_DELETION_GRACE_DAYS: z.string().transform(Number).pipe(z.number().int().min(0).max(90)).default("14"), // Requested account deletions can be cancelled for this long
   
   // Performance Optimization
   ENABLE_COMPRESSION: z.string().transform(Boolean).default("true"),
@@ -69,10 +107,39 @@ const envSchema = z.object({
   // Logging and monitoring
   LOG_LEVEL: z.enum(["error", "warn", "info", "debug"]).default("info"),
   ENABLE_REQUEST_LOGGING: z.string().transform(Boolean).default("true"),
+}).superRefine((env, ctx) => {
+  if (env.LLM_PROVIDER === "openai" && !env.OPENAI_API_KEY && !process.env["API_KEY"]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["OPENAI_API_KEY"], message: "OPENAI_API_KEY is required when LLM_PROVIDER is openai" });
+  }
+  if (env.LLM_PROVIDER === "openai-compatible" && !env.LLM_BASE_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["LLM_BASE_URL"], message: "LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible" });
+  }
 });
 
 export type AppEnv = z.infer<typeof envSchema>;
 
+function parseAlertRoutes(value: string | undefined, ctx: z.RefinementCtx): Partial<Record<AlertType | "*", AlertChannel[]>> | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const routes: Partial<Record<AlertType | "*", AlertChannel[]>> = {};
+  for (const entry of value.split(";").map(part => part.trim()).filter(Boolean)) {
+    const [type, channels = ""] = entry.split("=").map(part => part.trim());
+    if (type !== "*" && !(ALERT_TYPES as readonly string[]).includes(type!)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown alert type "${type}" - use one of ${ALERT_TYPES.join(", ")} or *` });
+      continue;
+    }
+    const names = channels.split(",").map(name => name.trim()).filter(Boolean);
+    const unknown = names.filter(name => !(ALERT_CHANNELS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown alert channel "${unknown[0]}" - use ${ALERT_CHANNELS.join(", ")}` });
+      continue;
+    }
+    routes[type as AlertType | "*"] = names as AlertChannel[];
+  }
+  return routes;
+}
+
 let validatedEnv: AppEnv;
 
 export function validateEnvironment(): AppEnv {
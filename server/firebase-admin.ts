@@ -71,4 +71,22 @@ export async function getFirebaseUser(uid: string) {
     console.error('Error getting Firebase user:', error);
     throw new Error('User not found');
   }
-}
\ No newline at end of file
+}
+
+// Delete a Firebase user - false when there was no such user any more
+export async function deleteFirebaseUser(uid: string): Promise<boolean> {
+  if (!adminAuth) {
+    throw new Error('Firebase not configured');
+  }
+
+  try {
+    await adminAuth.deleteUser(uid);
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'auth/user-not-found') {
+      return false;
+    }
+    console.error('Error deleting Firebase user:', error);
+    throw error;
+  }
+}
@@ -100,6 +100,21 @@ export async function firebaseAuthMiddleware(
   }
 }
 
+// Admins are listed by email in ADMIN_EMAILS (comma-separated). Use after firebaseAuthMiddleware;
+// the email must be verified so an unverified sign-up with an admin's address gets nowhere
+export function requireAdmin(req: FirebaseRequest, res: Response, next: NextFunction) {
+  const adminEmails = (process.env["ADMIN_EMAILS"] || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  const email = req.firebaseUser?.email?.toLowerCase();
+  if (!email || req.firebaseUser?.email_verified !== true || !adminEmails.includes(email)) {
+    res.status(403).json({ message: "Admin access required" });
+    return;
+  }
+  next();
+}
+
 export async function optionalFirebaseAuth(
   req: FirebaseRequest,
   _res: Response,
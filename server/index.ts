@@ -5,6 +5,10 @@ import { productionSecurityHeaders, forceHTTPS } from "./middleware/security-hea
 import { validateEnvironment, isProduction, getEnv } from "./config/env-validation";
 import { logger } from "./config/logger";
 import { pool } from "./db";
+import { startGenerationWorker, type GenerationWorker } from "./services/generation-jobs";
+import { startFunnelProcessor, type FunnelProcessor } from "./services/funnels";
+import { startPrivacyRequestProcessor } from "./services/privacy";
+import { conversionMonitoring } from "./services/conversion-monitoring";
 import history from "connect-history-api-fallback";
 
 // Validate environment variables before starting server
@@ -239,17 +243,32 @@ app.use((req, res, next) => {
       });
     });
 
+    // Run queued hook generations in this process unless the worker is switched off here
+    const generationWorker: GenerationWorker | null = env.GENERATION_WORKER === "on" ? startGenerationWorker(env.GENERATION_WORKER_CONCURRENCY) : null;
+
+    // Map incoming analytics events onto conversion funnel steps
+    const funnelProcessor: FunnelProcessor | null = env.FUNNEL_PROCESSOR === "on" ? startFunnelProcessor() : null;
+
+    // Carry out account deletions once their grace period ends
+    const privacyRequestProcessor = startPrivacyRequestProcessor();
+
     // Graceful shutdown handling for production and Railway deployments
     const gracefulShutdown = (signal: string) => {
       logger.warn(`Received ${signal}. Starting graceful shutdown...`);
       
-      httpServer.close((err) => {
+      httpServer.close(async (err) => {
         if (err) {
           logger.error("Error during server shutdown", err);
           process.exit(1);
         }
         
         logger.info("Server closed successfully");
+
+        // Let the generation in progress finish - an unfinished one is picked up again once its lease runs out
+        await generationWorker?.stop();
+        await funnelProcessor?.stop();
+        await privacyRequestProcessor.stop();
+        conversionMonitoring.stopMonitoring();
         
         // Close database connections
         if (typeof pool?.end === 'function') {
@@ -1,10 +1,24 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertHookGenerationSchema, insertFavoriteHookSchema, registerSchema, loginSchema } from "@shared/schema";
-import { generateTriModalHooks as generateHooks } from "./services/openai-trimodal";
-import { firebaseAuthMiddleware, FirebaseRequest } from "./firebase-auth";
+import { randomBytes } from "crypto";
+import { storage, isPooledWorkspace } from "./storage";
+import { insertUserSchema, insertHookGenerationSchema, insertFavoriteHookSchema, insertBrandProfileSchema, updateBrandProfileSchema, insertWorkspaceSchema, insertWorkspaceInvitationSchema, updateWorkspaceMemberSchema, updateOverageSettingsSchema, changePlanSchema, recordHookOutcomeSchema, buildHookScriptSchema, saveHookScriptSchema, localizeHookSchema, insertHookFormulaSchema, createGenerationBatchSchema, createExportSchema, analyticsBatchSchema, performanceViolationSchema, createAbTestSchema, updateAbTestSchema, abTestAssignmentSchema, abTestConversionSchema, createConversionFunnelSchema, updateConversionFunnelSchema, funnelReportQuerySchema, monitoringAlertQuerySchema, ALERT_CHANNELS, recordConsentSchema, withdrawConsentSchema, requestAccountDeletionSchema, type CreateExport, updateHookFormulaSchema, registerSchema, loginSchema } from "@shared/schema";
+import { prepareHookGeneration, HookGenerationError } from "./services/hook-generation";
+import { enqueueHookGeneration, followGenerationJob } from "./services/generation-jobs";
+import { createGenerationBatch, getBatchRowStatuses, summarizeGenerationBatch, GenerationBatchError } from "./services/generation-batches";
+import { renderExport, getExportFormats, ExportError, type ExportSource } from "./services/exports";
+import { ingestAnalyticsBatch, recordPerformanceViolation } from "./services/analytics-ingestion";
+import { assignAbTestVariant, recordAbTestConversion, createAbTest, updateAbTest, getAbTestResults, deviceTypeFromUserAgent, AbTestError } from "./services/ab-testing";
+import { createConversionFunnel, updateConversionFunnel, getFunnelReport, FunnelError } from "./services/funnels";
+import { acknowledgeAlert, resolveAlert, sendTestAlert, AlertError } from "./services/alerts";
+import { recordUserConsent, withdrawUserConsent, buildDataExport, requestAccountDeletion, cancelAccountDeletion, PrivacyError, type PrivacyRequestContext } from "./services/privacy";
+import { gdprCompliance } from "./services/gdpr-compliance";
+import { buildHookScript, formatHookScript, ScriptGenerationError } from "./services/script-generation";
+import { localizeHook, HookLocalizationError } from "./services/localization";
+import { getHookTaxonomy, invalidateHookTaxonomy } from "./services/hook-formulas";
+import { resolveBrandContext, BrandNotFoundError } from "./services/brand-context";
+import { firebaseAuthMiddleware, optionalFirebaseAuth, requireAdmin, FirebaseRequest } from "./firebase-auth";
 import { 
   apiLimiter, 
   generateHooksLimiter, 
@@ -12,14 +26,23 @@ import {
   securityHeaders, 
   validateRequestSize 
 } from "./middleware/security";
+import { analyticsMiddlewareStack } from "./middleware/analytics-security";
+import { getEnv } from "./config/env-validation";
 import { 
   createSubscription, 
   createBillingPortalSession, 
   getSubscriptionStatus,
   cancelSubscription,
+  previewPlanChange,
+  changeSubscriptionPlan,
+  cancelScheduledPlanChange,
+  PlanChangeError,
+  ensureOverageSubscriptionItem,
   handleStripeWebhook,
-  SUBSCRIPTION_PLANS
+  SUBSCRIPTION_PLANS,
+  type PaidPlanKey
 } from "./services/stripe";
+import { sendWorkspaceInvitationEmail } from "./services/email";
 import Stripe from "stripe";
 import { adminAuth } from "./firebase-admin";
 
@@ -27,6 +50,66 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-06-30.basil",
 });
 
+const WORKSPACE_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A generation the user authored or that's shared with their workspace; writing also rules out workspace viewers
+async function findAccessibleGeneration(userId: string, generationId: string, access: "read" | "write") {
+  const generation = await storage.getHookGeneration(generationId);
+  if (!generation) {
+    return undefined;
+  }
+  if (generation.userId === userId) {
+    return generation;
+  }
+
+  const membership = await storage.getWorkspaceMembership(userId);
+  if (!membership || generation.workspaceId !== membership.workspace.id) {
+    return undefined;
+  }
+  return access === "write" && membership.role === "viewer" ? undefined : generation;
+}
+
+// What an export covers: a generation the user can read, or the finished rows of one of their batches
+async function loadExportSource(userId: string, request: Omit<CreateExport, "format">): Promise<ExportSource | undefined> {
+  if (request.generationId) {
+    const generation = await findAccessibleGeneration(userId, request.generationId, "read");
+    if (!generation) {
+      return undefined;
+    }
+    return {
+      title: generation.topic,
+      items: [{ generation }],
+      ...(request.hookIndex !== undefined ? { hookIndex: request.hookIndex } : {})
+    };
+  }
+
+  const batch = request.batchId ? await storage.getGenerationBatch(request.batchId) : undefined;
+  if (!batch || batch.userId !== userId) {
+    return undefined;
+  }
+  const [jobs, generations] = await Promise.all([
+    storage.getGenerationJobsByBatches([batch.id]),
+    storage.getHookGenerationsByBatch(batch.id)
+  ]);
+  const generationsById = new Map(generations.map(generation => [generation.id, generation]));
+  return {
+    title: batch.name,
+    items: getBatchRowStatuses(batch, jobs).flatMap(row => {
+      const generation = row.generationId ? generationsById.get(row.generationId) : undefined;
+      return generation ? [{ generation, row: row.row }] : [];
+    })
+  };
+}
+
+// The address stored with analytics data: the anonymized one when ANONYMIZE_IPS is on, never the raw one
+function analyticsIpAddress(req: Request): string | null {
+  return getEnv().ANONYMIZE_IPS ? req.anonymizedIp ?? null : req.ip ?? null;
+}
+
+function privacyRequestContext(req: Request): PrivacyRequestContext {
+  return { ipAddress: req.ip ?? null, userAgent: req.get("user-agent") || "" };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Trust proxy for Replit environment (fixes X-Forwarded-For header warnings)
   app.set('trust proxy', 1);
@@ -351,396 +434,1900 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Check credits endpoint (legacy)
-  app.get("/api/credits/check", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  // Brand profile routes - multiple brand contexts per account (agencies, multi-brand creators)
+  app.get("/api/brands", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const creditStatus = await storage.checkUserCanGenerate(userId);
-      res.json(creditStatus);
-    } catch (error: any) {
-      console.error("Error checking credits:", error);
-      res.status(500).json({ error: "Failed to check credits" });
+
+      const [brands, user] = await Promise.all([
+        storage.getBrandProfilesByUser(userId),
+        storage.getUser(userId)
+      ]);
+      return res.json({ brands, activeBrandId: user?.activeBrandId ?? null });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch brand profiles", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // New generation status endpoint
-  app.get("/api/generations/status", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.post("/api/brands", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      
-      const modelType = req.query.modelType as "gpt-4o" | "gpt-4o-mini" || "gpt-4o";
-      const generationStatus = await storage.checkUserCanGenerateWithModel(userId, modelType);
-      res.json(generationStatus);
-    } catch (error: any) {
-      console.error("Error checking generation status:", error);
-      res.status(500).json({ error: "Failed to check generation status" });
+
+      const validation = insertBrandProfileSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid brand data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const brand = await storage.createBrandProfile(userId, validation.data);
+
+      // The first brand a user creates becomes the active one
+      const user = await storage.getUser(userId);
+      if (user && !user.activeBrandId) {
+        await storage.setActiveBrand(userId, brand.id);
+      }
+
+      return res.status(201).json(brand);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to create brand profile", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Protected Hook generation routes with strict rate limiting
-  app.post("/api/generate-hooks", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  // Registered before /api/brands/:id so "active" is never treated as a brand id
+  app.put("/api/brands/active", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      let { platform, objective, topic, modelType } = req.body;
-      
-      if (!platform || !objective || !topic) {
-        return res.status(400).json({ message: "Missing required fields: platform, objective, topic" });
-      }
 
-      // Get user profile first to determine appropriate model
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { brandId } = req.body;
+      if (brandId !== null && typeof brandId !== "string") {
+        return res.status(400).json({ message: "brandId must be a string or null" });
       }
 
-      // Determine model type based on subscription plan if not explicitly provided
-      if (!modelType) {
-        const plan = user.subscriptionPlan || "free";
-        if (plan === "free") {
-          modelType = "gpt-4o-mini"; // Free users always get mini model
-        } else {
-          // Paid users can choose, but default to full model
-          modelType = "gpt-4o";
+      if (brandId) {
+        const brand = await storage.getBrandProfile(brandId, userId);
+        if (!brand) {
+          return res.status(404).json({ message: "Brand profile not found" });
         }
       }
 
-      // Validate model type
-      if (!["gpt-4o", "gpt-4o-mini"].includes(modelType)) {
-        return res.status(400).json({ message: "Invalid model type. Must be 'gpt-4o' or 'gpt-4o-mini'" });
+      const user = await storage.setActiveBrand(userId, brandId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+      return res.json({ activeBrandId: user.activeBrandId });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to set active brand", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
 
-      // For free users, enforce mini model only
-      if ((user.subscriptionPlan || "free") === "free" && modelType === "gpt-4o") {
-        modelType = "gpt-4o-mini";
-        console.log("Free user attempted to use gpt-4o, automatically switched to gpt-4o-mini");
+  app.put("/api/brands/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      console.log(`Final model selection: ${modelType} for user plan: ${user.subscriptionPlan || "free"}`);
-
-      // Check if user can generate hooks with the requested model type
-      const generationStatus = await storage.checkUserCanGenerateWithModel(userId, modelType);
-      if (!generationStatus.canGenerate) {
-        return res.status(403).json({ 
-          error: generationStatus.reason || "Generation limit reached",
-          remainingProGenerations: generationStatus.remainingProGenerations,
-          remainingDraftGenerations: generationStatus.remainingDraftGenerations,
-          isAtLimit: true
+      const validation = updateBrandProfileSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid brand data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
         });
       }
 
-      // User profile already retrieved above for model determination
-
-      // Generate tri-modal hooks using enhanced OpenAI system
-      console.log(`Generating tri-modal hooks for ${platform} with topic: "${topic}"`);
-      console.log(`User profile: ${user.company} (${user.industry}, ${user.role})`);
-      console.log(`Audience: ${user.audience?.substring(0, 100)}...`);
-      
-      const result = await generateHooks({
-        topic,
-        platform,
-        objective,
-        modelType, // Pass the determined model type to the AI service
-        company: user.company || "Unknown Company",
-        role: user.role || "Creator",
-        industry: user.industry || "General",
-        audience: user.audience || "General Audience",
-        voice: user.voice || "Friendly",
-        bannedTerms: user.bannedTerms || [],
-        safety: "standard"
-      });
-
-      // Save generation to storage
-      const generation = await storage.createHookGeneration({
-        userId,
-        platform,
-        objective,
-        topic,
-        modelType,
-        hooks: result.hooks,
-        topThreeVariants: result.topThreeVariants
-      });
-
-      // Increment user's generation count for the specific model type
-      await storage.incrementUserGenerations(userId, modelType);
-
-      res.json(generation);
+      const brand = await storage.updateBrandProfile(req.params["id"]!, userId, validation.data);
+      if (!brand) {
+        return res.status(404).json({ message: "Brand profile not found" });
+      }
+      return res.json(brand);
     } catch (error) {
-      console.error("Hook generation error:", error);
-      res.status(500).json({ message: "Failed to generate hooks", error: error instanceof Error ? error.message : "Unknown error" });
+      return res.status(500).json({ message: "Failed to update brand profile", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/generations", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.delete("/api/brands/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const generations = await storage.getHookGenerationsByUser(userId);
-      res.json(generations);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch generations", error: error instanceof Error ? error.message : "Unknown error" });
-    }
-  });
 
-  app.get("/api/generation/:id", async (req, res) => {
-    try {
-      const generation = await storage.getHookGeneration(req.params.id);
-      if (!generation) {
-        return res.status(404).json({ message: "Generation not found" });
+      const deleted = await storage.deleteBrandProfile(req.params["id"]!, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Brand profile not found" });
       }
-      res.json(generation);
+      return res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch generation", error: error instanceof Error ? error.message : "Unknown error" });
+      return res.status(500).json({ message: "Failed to delete brand profile", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Protected Favorite hooks routes
-  app.post("/api/favorites", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  // Team workspace routes - a Teams subscriber shares pooled quota, history and favorites with invited members
+  app.get("/api/workspace", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      console.log('Received favorite data:', req.body);
-      const favoriteData = insertFavoriteHookSchema.parse({
-        ...req.body,
-        userId
-      });
-      console.log('Parsed favorite data:', favoriteData);
-      const favorite = await storage.createFavoriteHook(favoriteData);
-      
-      // Track recent hook for novelty checking
-      if (favoriteData.hook) {
-        await storage.addRecentHook({
-          userId,
-          hook: favoriteData.hook
-        });
+
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (!membership) {
+        return res.json({ workspace: null });
       }
-      
-      res.json(favorite);
+
+      const { workspace, role } = membership;
+      const [members, invitations, seatsUsed] = await Promise.all([
+        storage.getWorkspaceMembers(workspace.id),
+        role === "owner" ? storage.getPendingWorkspaceInvitations(workspace.id) : Promise.resolve([]),
+        storage.countWorkspaceSeats(workspace.id)
+      ]);
+
+      return res.json({
+        workspace,
+        role,
+        isPooled: isPooledWorkspace(membership),
+        members,
+        // Tokens are only ever handed out when an invitation is created
+        invitations: invitations.map(invitation => ({
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+          createdAt: invitation.createdAt
+        })),
+        seats: { used: seatsUsed, limit: SUBSCRIPTION_PLANS.TEAMS.limits.teamSeats }
+      });
     } catch (error) {
-      console.error('Favorite creation error:', error);
-      res.status(400).json({ message: "Invalid favorite data", error: error instanceof Error ? error.message : "Unknown error" });
+      return res.status(500).json({ message: "Failed to fetch workspace", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/favorites", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.post("/api/workspace", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const favorites = await storage.getFavoriteHooksByUser(userId);
-      res.json(favorites);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch favorites", error: error instanceof Error ? error.message : "Unknown error" });
-    }
-  });
 
-  app.delete("/api/favorites/:id", firebaseAuthMiddleware, async (req, res) => {
-    try {
-      const deleted = await storage.deleteFavoriteHook(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Favorite not found" });
+      const validation = insertWorkspaceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid workspace data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const [user, membership] = await Promise.all([
+        storage.getUser(userId),
+        storage.getWorkspaceMembership(userId)
+      ]);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.subscriptionPlan !== "teams") {
+        return res.status(403).json({ message: "Workspaces require the Teams plan" });
+      }
+      if (membership) {
+        return res.status(409).json({ message: "You already belong to a workspace" });
       }
-      res.json({ message: "Favorite deleted successfully" });
+
+      const workspace = await storage.createWorkspace(userId, validation.data);
+      return res.status(201).json(workspace);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete favorite", error: error instanceof Error ? error.message : "Unknown error" });
+      return res.status(500).json({ message: "Failed to create workspace", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Protected Export to CSV route
-  app.post("/api/export-csv", firebaseAuthMiddleware, async (req, res) => {
+  app.put("/api/workspace", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
-      const { generationId } = req.body;
-      
-      if (!generationId) {
-        return res.status(400).json({ message: "Generation ID is required" });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      const generation = await storage.getHookGeneration(generationId);
-      if (!generation) {
-        return res.status(404).json({ message: "Generation not found" });
+      const validation = insertWorkspaceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid workspace data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
       }
 
-      // Create CSV content
-      const headers = "Hook,Framework,Rationale,Platform Notes,Score,Word Count\n";
-      const rows = generation.hooks.map(hook => 
-        `"${hook.verbalHook}","${hook.framework}","${hook.rationale}","${hook.platformNotes}",${hook.score},${hook.wordCount}`
-      ).join("\n");
-      
-      const csv = headers + rows;
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
+      }
 
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="hooks-${generation.platform}-${Date.now()}.csv"`);
-      res.send(csv);
+      const workspace = await storage.updateWorkspace(membership.workspace.id, validation.data);
+      return res.json(workspace);
     } catch (error) {
-      res.status(500).json({ message: "Failed to export CSV", error: error instanceof Error ? error.message : "Unknown error" });
+      return res.status(500).json({ message: "Failed to update workspace", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Delete a generation
-  app.delete("/api/generations/:generationId", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.delete("/api/workspace", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
-      const { generationId } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      
-      // Verify the generation belongs to the user
-      const generation = await storage.getGenerationById(generationId);
-      if (!generation || generation.userId !== userId) {
-        return res.status(404).json({ message: "Generation not found" });
+
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
       }
 
-      await storage.deleteGeneration(generationId);
-      res.json({ message: "Generation deleted successfully" });
-    } catch (error: any) {
-      console.error("Error deleting generation:", error);
-      res.status(500).json({ message: "Failed to delete generation" });
+      await storage.deleteWorkspace(membership.workspace.id);
+      return res.json({ success: true });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to delete workspace", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Stripe Payment Routes
-  
-  // Get subscription plans
-  app.get("/api/stripe/plans", (req, res) => {
-    res.json({
-      plans: SUBSCRIPTION_PLANS
-    });
-  });
-
-  // Create subscription for Pro or Teams plan
-  app.post("/api/stripe/create-subscription", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.post("/api/workspace/invitations", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const user = await storage.getUser(userId);
-      
-      if (!user?.email) {
-        return res.status(400).json({ message: "User email not found" });
+
+      const validation = insertWorkspaceInvitationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid invitation data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
       }
 
-      const { plan, promotionCode } = req.body;
-      
-      // Validate plan
-      if (!plan || !['starter', 'creator', 'pro', 'teams'].includes(plan.toLowerCase())) {
-        return res.status(400).json({ message: "Invalid plan. Must be 'starter', 'creator', 'pro', or 'teams'" });
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
+      }
+      if (!isPooledWorkspace(membership)) {
+        return res.status(403).json({ message: "Inviting members requires an active Teams plan" });
       }
 
-      const planKey = plan.toUpperCase() as 'STARTER' | 'CREATOR' | 'PRO' | 'TEAMS';
-      const priceId = SUBSCRIPTION_PLANS[planKey].priceId;
-      
-      if (!priceId) {
-        return res.status(400).json({ message: "Price ID not configured for this plan" });
+      const { workspace, owner } = membership;
+      const { email, role } = validation.data;
+
+      const [members, pendingInvitations, seatsUsed] = await Promise.all([
+        storage.getWorkspaceMembers(workspace.id),
+        storage.getPendingWorkspaceInvitations(workspace.id),
+        storage.countWorkspaceSeats(workspace.id)
+      ]);
+      if (members.some(member => member.user.email.toLowerCase() === email)) {
+        return res.status(409).json({ message: "This person is already a member" });
+      }
+      if (pendingInvitations.some(invitation => invitation.email === email)) {
+        return res.status(409).json({ message: "An invitation is already pending for this email" });
+      }
+      const seatLimit = SUBSCRIPTION_PLANS.TEAMS.limits.teamSeats;
+      if (seatsUsed >= seatLimit) {
+        return res.status(403).json({ message: `All ${seatLimit} seats are in use. Remove a member or revoke an invitation first.` });
       }
-      
-      const subscription = await createSubscription(
-        userId,
-        user.email,
-        priceId,
-        promotionCode
-      );
 
-      // Update user's plan in database
-      await storage.updateUser(userId, {
-        subscriptionPlan: plan.toLowerCase(),
-        subscriptionStatus: 'trialing'
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId: workspace.id,
+        email,
+        role,
+        token: randomBytes(32).toString("hex"),
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + WORKSPACE_INVITATION_TTL_MS)
       });
 
-      res.json(subscription);
-    } catch (error) {
-      console.error("Error creating subscription:", error);
-      res.status(500).json({ 
-        message: "Failed to create subscription", 
-        error: error instanceof Error ? error.message : "Unknown error" 
+      const inviteUrl = `${req.protocol}://${req.get('host')}/profile/team?invite=${invitation.token}`;
+      let emailSent = false;
+      try {
+        emailSent = await sendWorkspaceInvitationEmail({
+          to: email,
+          workspaceName: workspace.name,
+          inviterName: [owner.firstName, owner.lastName].filter(Boolean).join(" ") || owner.email,
+          role,
+          acceptUrl: inviteUrl
+        });
+      } catch (emailError) {
+        // The invitation stays valid - the owner can share the link by hand
+        console.error("Failed to send workspace invitation email:", emailError);
+      }
+
+      return res.status(201).json({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        emailSent,
+        inviteUrl
       });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to create invitation", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Get existing subscription
-  app.get("/api/stripe/subscription", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.delete("/api/workspace/invitations/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const user = await storage.getUser(userId);
-      
-      if (!user?.stripeSubscriptionId) {
-        return res.status(404).json({ message: "No subscription found" });
+
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
       }
 
-      const subscription = await getSubscriptionStatus(user.stripeSubscriptionId);
-      res.json(subscription);
+      const revoked = await storage.revokeWorkspaceInvitation(req.params["id"]!, membership.workspace.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      return res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching subscription:", error);
-      res.status(500).json({ 
-        message: "Failed to fetch subscription", 
-        error: error instanceof Error ? error.message : "Unknown error" 
-      });
+      return res.status(500).json({ message: "Failed to revoke invitation", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Create customer portal session
-  app.post("/api/stripe/portal", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.post("/api/workspace/invitations/:token/accept", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const user = await storage.getUser(userId);
-      const { returnUrl } = req.body;
-      
-      if (!user?.stripeCustomerId) {
-        return res.status(400).json({ message: "No Stripe customer found" });
+
+      const [user, invitation, membership] = await Promise.all([
+        storage.getUser(userId),
+        storage.getWorkspaceInvitationByToken(req.params["token"]!),
+        storage.getWorkspaceMembership(userId)
+      ]);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!invitation || invitation.status !== "pending" || invitation.expiresAt <= new Date()) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      if (invitation.email !== user.email.toLowerCase()) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.` });
+      }
+      if (membership) {
+        return res.status(409).json({ message: "You already belong to a workspace. Leave it before joining another." });
       }
-      
-      const portalUrl = await createBillingPortalSession(
-        user.stripeCustomerId, 
-        returnUrl || `${req.protocol}://${req.get('host')}/app`
-      );
 
-      res.json({ url: portalUrl });
+      const member = await storage.acceptWorkspaceInvitation(invitation, userId);
+      if (!member) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      return res.json(member);
     } catch (error) {
-      console.error("Error creating portal session:", error);
-      res.status(500).json({ 
-        message: "Failed to create portal session", 
-        error: error instanceof Error ? error.message : "Unknown error" 
-      });
+      return res.status(500).json({ message: "Failed to accept invitation", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Cancel subscription
-  app.post("/api/stripe/cancel", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+  app.put("/api/workspace/members/:userId", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      const user = await storage.getUser(userId);
-      
-      if (!user?.stripeSubscriptionId) {
-        return res.status(404).json({ message: "No active subscription found" });
+
+      const validation = updateWorkspaceMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid member data", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
       }
-      
-      await cancelSubscription(user.stripeSubscriptionId);
-      
-      // Update user's plan to cancel at period end
-      await storage.updateUser(userId, {
+
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
+      }
+
+      const member = await storage.updateWorkspaceMemberRole(membership.workspace.id, req.params["userId"]!, validation.data.role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      return res.json(member);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to update member", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Owners remove members; members remove themselves to leave
+  app.delete("/api/workspace/members/:userId", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const targetUserId = req.params["userId"]!;
+      const membership = await storage.getWorkspaceMembership(userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (targetUserId === userId && membership.role === "owner") {
+        return res.status(400).json({ message: "The owner can't leave the workspace. Delete it instead." });
+      }
+      if (targetUserId !== userId && membership.role !== "owner") {
+        return res.status(403).json({ message: "Only the workspace owner can do this" });
+      }
+
+      const removed = await storage.removeWorkspaceMember(membership.workspace.id, targetUserId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to remove member", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Check credits endpoint (legacy)
+  app.get("/api/credits/check", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const creditStatus = await storage.checkUserCanGenerate(userId);
+      res.json(creditStatus);
+    } catch (error: any) {
+      console.error("Error checking credits:", error);
+      res.status(500).json({ error: "Failed to check credits" });
+    }
+  });
+
+  // New generation status endpoint
+  app.get("/api/generations/status", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const modelType = req.query.modelType as "gpt-4o" | "gpt-4o-mini" || "gpt-4o";
+      const generationStatus = await storage.checkUserCanGenerateWithModel(userId, modelType);
+      res.json(generationStatus);
+    } catch (error: any) {
+      console.error("Error checking generation status:", error);
+      res.status(500).json({ error: "Failed to check generation status" });
+    }
+  });
+
+  // Opt-in overage - Pro generations past the plan limit are billed as metered usage up to a spending cap
+  app.put("/api/billing/overage", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = updateOverageSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid overage settings", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const [user, membership] = await Promise.all([
+        storage.getUser(userId),
+        storage.getWorkspaceMembership(userId)
+      ]);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isPooledWorkspace(membership) && membership.role !== "owner") {
+        return res.status(403).json({ message: "Overage for this workspace is managed by its owner" });
+      }
+
+      const plan = SUBSCRIPTION_PLANS[(user.subscriptionPlan || "free").toUpperCase() as keyof typeof SUBSCRIPTION_PLANS];
+      if (!plan?.overagePriceId) {
+        return res.status(400).json({ message: "Your plan doesn't include overage billing" });
+      }
+
+      const { enabled, capCents } = validation.data;
+      if (enabled) {
+        if (!user.stripeSubscriptionId) {
+          return res.status(400).json({ message: "An active subscription is required for overage billing" });
+        }
+        await ensureOverageSubscriptionItem(user.stripeSubscriptionId, plan.overagePriceId);
+      }
+
+      await storage.updateUser(userId, { overageEnabled: enabled, overageCapCents: capCents });
+      const generationStatus = await storage.checkUserCanGenerateWithModel(userId, "gpt-4o");
+      return res.json(generationStatus);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to update overage settings", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Protected Hook generation routes with strict rate limiting
+  // Validation and quota are checked straight away; the generation itself is queued for the worker
+  // and answered with a job ID to poll at /api/generation-jobs/:id
+  app.post("/api/generate-hooks", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const prepared = await prepareHookGeneration(userId, req.body);
+      const job = await enqueueHookGeneration(prepared);
+
+      return res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      if (error instanceof HookGenerationError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Hook generation error:", error);
+      return res.status(500).json({ message: "Failed to generate hooks", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Streaming variant: queued the same way, then the job's progress is sent as Server-Sent Events - "job" with its ID
+  // (to poll if the stream drops), one "hook" event per scored hook, then "topThree" and "generation" with the saved record (or "error")
+  app.post("/api/generate-hooks/stream", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    // Validation and quota failures are answered as plain JSON before the stream opens
+    let job;
+    try {
+      const prepared = await prepareHookGeneration(userId, req.body);
+      job = await enqueueHookGeneration(prepared);
+    } catch (error) {
+      if (error instanceof HookGenerationError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Hook generation error:", error);
+      return res.status(500).json({ message: "Failed to generate hooks", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+
+    // The job keeps running if the client goes away, so the result still lands in history
+    const clientGone = new AbortController();
+    req.on("close", () => clientGone.abort());
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (clientGone.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    // A comment line now and then keeps proxies from closing the stream while the job waits in the queue
+    const keepAlive = setInterval(() => {
+      if (!clientGone.signal.aborted) res.write(": keep-alive\n\n");
+    }, 15_000);
+
+    sendEvent("job", { jobId: job.id });
+    try {
+      const generation = await followGenerationJob(job.id, {
+        onHook: (hook, index) => sendEvent("hook", { index, hook }),
+        onTopThree: (topThreeVariants) => sendEvent("topThree", { topThreeVariants })
+      }, clientGone.signal);
+      sendEvent("generation", generation);
+    } catch (error) {
+      if (!clientGone.signal.aborted) {
+        console.error("Streaming hook generation error:", error);
+      }
+      sendEvent("error", { message: "Failed to generate hooks", error: error instanceof Error ? error.message : "Unknown error" });
+    } finally {
+      clearInterval(keepAlive);
+    }
+
+    return res.end();
+  });
+
+  // Progress of a queued generation: hooks scored so far while running, the saved generation once succeeded
+  app.get("/api/generation-jobs/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const job = await storage.getGenerationJob(req.params["id"]!);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Generation job not found" });
+      }
+
+      const generation = job.status === "succeeded" && job.generationId
+        ? await storage.getHookGeneration(job.generationId)
+        : undefined;
+      const { platform, objective, topic } = job.input;
+      return res.json({
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.error,
+        request: { platform, objective, topic },
+        hooks: job.hooks,
+        generation: generation ?? null,
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch generation job", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Batch generation: a CSV or pasted list of topics, each row queued as its own generation job
+  app.post("/api/batches", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = createGenerationBatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid batch",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join("."), message: issue.message }))
+        });
+      }
+
+      const batch = await createGenerationBatch(userId, validation.data);
+      const jobs = await storage.getGenerationJobsByBatches([batch.id]);
+      const rows = getBatchRowStatuses(batch, jobs);
+      return res.status(201).json({ ...summarizeGenerationBatch(batch, rows), rows });
+    } catch (error) {
+      if (error instanceof GenerationBatchError || error instanceof HookGenerationError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Batch generation error:", error);
+      return res.status(500).json({ message: "Failed to create batch", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/batches", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const batches = await storage.getGenerationBatchesByUser(userId);
+      const jobs = await storage.getGenerationJobsByBatches(batches.map(batch => batch.id));
+      return res.json(batches.map(batch => summarizeGenerationBatch(batch, getBatchRowStatuses(batch, jobs))));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch batches", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // One batch with every row's progress and the generations finished so far, for review
+  app.get("/api/batches/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const batch = await storage.getGenerationBatch(req.params["id"]!);
+      if (!batch || batch.userId !== userId) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const [jobs, generations] = await Promise.all([
+        storage.getGenerationJobsByBatches([batch.id]),
+        storage.getHookGenerationsByBatch(batch.id)
+      ]);
+      const rows = getBatchRowStatuses(batch, jobs);
+      return res.json({ ...summarizeGenerationBatch(batch, rows), rows, generations });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch batch", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/generations", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const generations = await storage.getHookGenerationsByUser(userId);
+      res.json(generations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch generations", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/generation/:id", async (req, res) => {
+    try {
+      const generation = await storage.getHookGeneration(req.params.id);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      res.json(generation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch generation", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Protected Favorite hooks routes
+  app.post("/api/favorites", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      console.log('Received favorite data:', req.body);
+      // Editors and owners share favorites with their workspace; viewers keep them personal
+      const membership = await storage.getWorkspaceMembership(userId);
+      const favoriteData = insertFavoriteHookSchema.parse({
+        ...req.body,
+        userId,
+        workspaceId: membership && membership.role !== "viewer" ? membership.workspace.id : null
+      });
+      console.log('Parsed favorite data:', favoriteData);
+      const favorite = await storage.createFavoriteHook(favoriteData);
+      
+      // Track recent hook for novelty checking
+      const recentHook = favoriteData.hook || favoriteData.hookData?.verbalHook;
+      if (recentHook) {
+        await storage.addRecentHook({
+          userId,
+          hook: recentHook
+        });
+      }
+      
+      res.json(favorite);
+    } catch (error) {
+      console.error('Favorite creation error:', error);
+      res.status(400).json({ message: "Invalid favorite data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/favorites", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const favorites = await storage.getFavoriteHooksByUser(userId);
+      res.json(favorites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch favorites", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/favorites/:id", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      // Authors can delete their favorites; workspace owners can also delete shared ones
+      const favorite = await storage.getFavoriteHook(req.params["id"]!);
+      if (!favorite) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      if (favorite.userId !== userId) {
+        const membership = await storage.getWorkspaceMembership(userId);
+        if (membership?.role !== "owner" || favorite.workspaceId !== membership.workspace.id) {
+          return res.status(404).json({ message: "Favorite not found" });
+        }
+      }
+
+      const deleted = await storage.deleteFavoriteHook(favorite.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      return res.json({ message: "Favorite deleted successfully" });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to delete favorite", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Download a generation or a batch in any format the user's plan includes
+  const handleExport = async (req: FirebaseRequest, res: Response) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = createExportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid export request",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join("."), message: issue.message }))
+        });
+      }
+
+      const { format, ...request } = validation.data;
+      const source = await loadExportSource(userId, request);
+      if (!source) {
+        return res.status(404).json({ message: request.generationId ? "Generation not found" : "Batch not found" });
+      }
+      if (source.items.length === 0) {
+        return res.status(400).json({ message: "None of the batch's topics have finished yet" });
+      }
+      if (request.hookIndex !== undefined && !source.items[0]!.generation.hooks[request.hookIndex]) {
+        return res.status(400).json({ message: "Hook not found" });
+      }
+
+      const file = await renderExport(userId, format, source);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      return res.send(file.body);
+    } catch (error) {
+      if (error instanceof ExportError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to export", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  };
+
+  app.post("/api/exports", firebaseAuthMiddleware, handleExport);
+
+  // Formats with whether the user's plan includes each, so clients can show what's locked
+  app.get("/api/exports/formats", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json(await getExportFormats(userId));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch export formats", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Older clients - the same as POST /api/exports with the CSV format
+  app.post("/api/export-csv", firebaseAuthMiddleware, (req: FirebaseRequest, res) => {
+    req.body = { format: "csv", generationId: req.body?.generationId };
+    return handleExport(req, res);
+  });
+
+  // Delete a generation
+  app.delete("/api/generations/:generationId", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const { generationId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      // Verify the generation belongs to the user, or is shared with a workspace they own
+      const generation = await storage.getGenerationById(generationId);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== userId) {
+        const membership = await storage.getWorkspaceMembership(userId);
+        if (membership?.role !== "owner" || generation.workspaceId !== membership.workspace.id) {
+          return res.status(404).json({ message: "Generation not found" });
+        }
+      }
+
+      await storage.deleteGeneration(generationId);
+      res.json({ message: "Generation deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting generation:", error);
+      res.status(500).json({ message: "Failed to delete generation" });
+    }
+  });
+
+  // Hook outcomes - real post metrics per hook, entered after publishing
+  app.get("/api/generations/:generationId/outcomes", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "read");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const outcomes = await storage.getHookOutcomesByGeneration(generation.id);
+      return res.json(outcomes);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch hook outcomes", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/generations/:generationId/outcomes/:hookIndex", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = recordHookOutcomeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid hook outcome", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "write");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const hookIndex = Number(req.params["hookIndex"]);
+      const hook = Number.isInteger(hookIndex) ? generation.hooks[hookIndex] : undefined;
+      if (!hook) {
+        return res.status(404).json({ message: "Hook not found in this generation" });
+      }
+
+      const { postUrl, postedAt, ...metrics } = validation.data;
+      const outcome = await storage.upsertHookOutcome({
+        generationId: generation.id,
+        hookIndex,
+        userId,
+        framework: hook.framework || "unknown",
+        psychologicalDriver: hook.psychologicalDriver || "unknown",
+        aiScore: hook.score ?? 0,
+        scoreComponents: hook.scoreComponents ?? null,
+        ...metrics,
+        postUrl: postUrl ?? null,
+        postedAt: postedAt ?? null
+      });
+      return res.json(outcome);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to record hook outcome", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/generations/:generationId/outcomes/:hookIndex", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "write");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const deleted = await storage.deleteHookOutcome(generation.id, Number(req.params["hookIndex"]));
+      if (!deleted) {
+        return res.status(404).json({ message: "Hook outcome not found" });
+      }
+      return res.json({ message: "Hook outcome deleted" });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to delete hook outcome", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Hook scripts - a full short-form script built out from a chosen hook, versioned on every edit
+  app.get("/api/generations/:generationId/scripts/:hookIndex", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "read");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const versions = await storage.getHookScriptVersions(generation.id, Number(req.params["hookIndex"]));
+      return res.json(versions);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch hook scripts", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/generations/:generationId/scripts/:hookIndex", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = buildHookScriptSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid script request", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "write");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const hookIndex = Number(req.params["hookIndex"]);
+      if (!Number.isInteger(hookIndex) || !generation.hooks[hookIndex]) {
+        return res.status(404).json({ message: "Hook not found in this generation" });
+      }
+
+      // Scripts keep the brand the hooks were generated for, whoever in the workspace builds them
+      const author = await storage.getUser(generation.userId);
+      if (!author) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      const brand = await resolveBrandContext(author, generation.brandId).catch(error => {
+        if (error instanceof BrandNotFoundError) {
+          return resolveBrandContext(author);
+        }
+        throw error;
+      });
+
+      const draft = await buildHookScript({ generation, hookIndex, durationSeconds: validation.data.durationSeconds, brand });
+      const script = await storage.createHookScriptVersion({
+        generationId: generation.id,
+        hookIndex,
+        userId,
+        source: "generated",
+        ...draft
+      });
+      return res.status(201).json(script);
+    } catch (error) {
+      if (error instanceof ScriptGenerationError) {
+        return res.status(502).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Failed to build script", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/generations/:generationId/scripts/:hookIndex", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = saveHookScriptSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid script", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "write");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      // Edits build on a generated script rather than starting one from scratch
+      const hookIndex = Number(req.params["hookIndex"]);
+      const latest = Number.isInteger(hookIndex) ? await storage.getHookScript(generation.id, hookIndex) : undefined;
+      if (!latest) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const { durationSeconds, beats, shots } = validation.data;
+      const script = await storage.createHookScriptVersion({
+        generationId: generation.id,
+        hookIndex,
+        userId,
+        source: "edited",
+        durationSeconds,
+        beats: beats.map(({ onScreenText, ...beat }) => onScreenText ? { ...beat, onScreenText } : beat),
+        shots
+      });
+      return res.status(201).json(script);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to save script", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/generations/:generationId/scripts/:hookIndex/export", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const format = req.query["format"] === "srt" ? "srt" : "text";
+      const version = req.query["version"] !== undefined ? Number(req.query["version"]) : undefined;
+      if (version !== undefined && !Number.isInteger(version)) {
+        return res.status(400).json({ message: "Version must be a whole number" });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "read");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const script = await storage.getHookScript(generation.id, Number(req.params["hookIndex"]), version);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      res.setHeader('Content-Type', format === "srt" ? 'application/x-subrip' : 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="script-${generation.platform}-v${script.version}.${format === "srt" ? "srt" : "txt"}"`);
+      return res.send(formatHookScript(script, format));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to export script", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Adapt a hook for another language and market - returned for review, not saved
+  app.post("/api/generations/:generationId/hooks/:hookIndex/localize", generateHooksLimiter, firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = localizeHookSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid localization request", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const generation = await findAccessibleGeneration(userId, req.params["generationId"]!, "read");
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+
+      const hookIndex = Number(req.params["hookIndex"]);
+      if (!Number.isInteger(hookIndex) || !generation.hooks[hookIndex]) {
+        return res.status(404).json({ message: "Hook not found in this generation" });
+      }
+
+      // The localized hook follows the safety policy of the brand the hooks were generated for
+      const author = await storage.getUser(generation.userId);
+      if (!author) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      const brand = await resolveBrandContext(author, generation.brandId).catch(error => {
+        if (error instanceof BrandNotFoundError) {
+          return resolveBrandContext(author);
+        }
+        throw error;
+      });
+
+      const localized = await localizeHook(generation, hookIndex, validation.data.locale, brand);
+      return res.json(localized);
+    } catch (error) {
+      if (error instanceof HookLocalizationError) {
+        return res.status(502).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Failed to localize hook", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Hook taxonomy administration - every change publishes a new taxonomy version that later generations record
+  app.get("/api/admin/hook-formulas", firebaseAuthMiddleware, requireAdmin, async (_req: FirebaseRequest, res) => {
+    try {
+      // Loading the taxonomy publishes the built-in formulas first if nothing has been published yet
+      const taxonomy = await getHookTaxonomy();
+      const formulas = await storage.getHookFormulas();
+      return res.json({ version: taxonomy.version, formulas });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch hook formulas", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/hook-formulas", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = insertHookFormulaSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid hook formula", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      await getHookTaxonomy();
+      const { changeNote, ...formula } = validation.data;
+      const result = await storage.createHookFormula(
+        { ...formula, updatedBy: userId },
+        changeNote || `Added ${formula.id} "${formula.formula}"`
+      );
+      if (!result) {
+        return res.status(409).json({ message: `Formula ${formula.id} already exists` });
+      }
+      invalidateHookTaxonomy();
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to create hook formula", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/admin/hook-formulas/:id", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = updateHookFormulaSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid hook formula", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const { changeNote, ...changes } = validation.data;
+      const changedFields = Object.keys(changes);
+      if (changedFields.length === 0) {
+        return res.status(400).json({ message: "No changes given" });
+      }
+
+      const id = req.params["id"]!;
+      const defaultNote = changes.status === "retired" ? `Retired ${id}`
+        : changes.status === "active" ? `Restored ${id}`
+        : `Updated ${id} (${changedFields.join(", ")})`;
+      const result = await storage.updateHookFormula(id, { ...changes, updatedBy: userId }, changeNote || defaultNote);
+      if (!result) {
+        return res.status(404).json({ message: "Hook formula not found" });
+      }
+      invalidateHookTaxonomy();
+      return res.json(result);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to update hook formula", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Formulas are retired rather than deleted, so the IDs older generations recorded stay meaningful
+  app.delete("/api/admin/hook-formulas/:id", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const id = req.params["id"]!;
+      const result = await storage.updateHookFormula(id, { status: "retired", updatedBy: userId }, `Retired ${id}`);
+      if (!result) {
+        return res.status(404).json({ message: "Hook formula not found" });
+      }
+      invalidateHookTaxonomy();
+      return res.json(result);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to retire hook formula", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/hook-taxonomy/versions", firebaseAuthMiddleware, requireAdmin, async (_req: FirebaseRequest, res) => {
+    try {
+      const versions = await storage.getHookTaxonomyVersions();
+      return res.json(versions);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch taxonomy versions", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/hook-taxonomy/versions/:version", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const version = Number(req.params["version"]);
+      if (!Number.isInteger(version)) {
+        return res.status(400).json({ message: "Version must be a whole number" });
+      }
+
+      const taxonomy = await storage.getHookTaxonomyVersion(version);
+      if (!taxonomy) {
+        return res.status(404).json({ message: "Taxonomy version not found" });
+      }
+      return res.json(taxonomy);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch taxonomy version", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // A/B tests: admins create and run them; results test every variant against the control
+  app.get("/api/admin/ab-tests", firebaseAuthMiddleware, requireAdmin, async (_req: FirebaseRequest, res) => {
+    try {
+      return res.json(await storage.getAbTests());
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch A/B tests", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/ab-tests", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = createAbTestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid A/B test",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.status(201).json(await createAbTest(validation.data, userId));
+    } catch (error) {
+      if (error instanceof AbTestError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to create A/B test", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.patch("/api/admin/ab-tests/:id", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const validation = updateAbTestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid A/B test",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.json(await updateAbTest(req.params["id"]!, validation.data));
+    } catch (error) {
+      if (error instanceof AbTestError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to update A/B test", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/ab-tests/:id/results", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const test = await storage.getAbTest(req.params["id"]!);
+      if (!test) {
+        return res.status(404).json({ message: "A/B test not found" });
+      }
+      return res.json(await getAbTestResults(test));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to compute A/B test results", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Conversion funnels: steps are matched against stored analytics events by the funnel processor
+  app.get("/api/admin/funnels", firebaseAuthMiddleware, requireAdmin, async (_req: FirebaseRequest, res) => {
+    try {
+      return res.json(await storage.getConversionFunnels());
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch funnels", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/funnels", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = createConversionFunnelSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid funnel",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.status(201).json(await createConversionFunnel(validation.data, userId));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to create funnel", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.patch("/api/admin/funnels/:id", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const validation = updateConversionFunnelSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid funnel",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.json(await updateConversionFunnel(req.params["id"]!, validation.data));
+    } catch (error) {
+      if (error instanceof FunnelError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to update funnel", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/admin/funnels/:id", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const deleted = await storage.deleteConversionFunnel(req.params["id"]!);
+      if (!deleted) {
+        return res.status(404).json({ message: "Funnel not found" });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to delete funnel", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/admin/funnels/:id/report", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const validation = funnelReportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid report range",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const funnel = await storage.getConversionFunnel(req.params["id"]!);
+      if (!funnel) {
+        return res.status(404).json({ message: "Funnel not found" });
+      }
+      return res.json(await getFunnelReport(funnel, validation.data));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to build funnel report", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Monitoring alerts raised by the conversion monitor, newest first
+  app.get("/api/admin/alerts", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const validation = monitoringAlertQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid alert filter",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+      return res.json(await storage.getMonitoringAlerts(validation.data));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch alerts", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Acknowledging mutes repeat deliveries until the alert escalates; resolving closes it
+  app.post("/api/admin/alerts/:id/acknowledge", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json(await acknowledgeAlert(req.params["id"]!, userId));
+    } catch (error) {
+      if (error instanceof AlertError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to acknowledge alert", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/admin/alerts/:id/resolve", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json(await resolveAlert(req.params["id"]!, userId));
+    } catch (error) {
+      if (error instanceof AlertError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to resolve alert", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Send a test alert through one channel ({ "channel": "slack" }) or all configured ones
+  app.post("/api/admin/alerts/test", firebaseAuthMiddleware, requireAdmin, async (req: FirebaseRequest, res) => {
+    try {
+      const channel = req.body?.channel;
+      if (channel !== undefined && !(ALERT_CHANNELS as readonly string[]).includes(channel)) {
+        return res.status(400).json({ message: `Unknown channel - use one of: ${ALERT_CHANNELS.join(", ")}` });
+      }
+      return res.json({ deliveries: await sendTestAlert(channel) });
+    } catch (error) {
+      if (error instanceof AlertError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to send test alert", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Consent, export and deletion counts for the privacy dashboard
+  app.get("/api/admin/privacy/metrics", firebaseAuthMiddleware, requireAdmin, async (_req: FirebaseRequest, res) => {
+    try {
+      return res.json(await gdprCompliance.getPrivacyMetrics());
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch privacy metrics", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // AI score vs real performance, per framework and psychological driver
+  app.get("/api/outcomes/report", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const report = await storage.getHookOutcomeReport(userId);
+      return res.json(report);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to build outcome report", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Privacy - consent, "download my data" and account deletion; every request is kept in privacy_requests
+
+  app.get("/api/privacy/consent", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json({ consent: await storage.getUserConsent(userId) ?? null });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch consent", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/privacy/consent", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = recordConsentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid consent",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.json({ consent: await recordUserConsent(userId, validation.data, privacyRequestContext(req)) ?? null });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to record consent", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/privacy/consent/withdraw", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = withdrawConsentSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid consent withdrawal",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.json({ consent: await withdrawUserConsent(userId, validation.data.sessionId, privacyRequestContext(req)) ?? null });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to withdraw consent", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Everything stored about the user as a ZIP of JSON files
+  app.post("/api/privacy/export", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const file = await buildDataExport(userId, privacyRequestContext(req));
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      return res.send(file.data);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to export data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/privacy/requests", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json(await storage.getPrivacyRequestsByUser(userId));
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch privacy requests", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Schedules deletion after the grace period - { "confirmEmail": "<the account's email>" }
+  app.post("/api/privacy/deletion", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = requestAccountDeletionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid deletion request",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      return res.status(202).json(await requestAccountDeletion(user, validation.data.confirmEmail, privacyRequestContext(req)));
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to schedule account deletion", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/privacy/deletion/cancel", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      return res.json(await cancelAccountDeletion(userId));
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        return res.status(error.status).json(error.body);
+      }
+      return res.status(500).json({ message: "Failed to cancel account deletion", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Stripe Payment Routes
+  
+  // Get subscription plans
+  app.get("/api/stripe/plans", (req, res) => {
+    res.json({
+      plans: SUBSCRIPTION_PLANS
+    });
+  });
+
+  // Create subscription for Pro or Teams plan
+  app.post("/api/stripe/create-subscription", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(userId);
+      
+      if (!user?.email) {
+        return res.status(400).json({ message: "User email not found" });
+      }
+
+      const { plan, promotionCode } = req.body;
+      
+      // Validate plan
+      if (!plan || !['starter', 'creator', 'pro', 'teams'].includes(plan.toLowerCase())) {
+        return res.status(400).json({ message: "Invalid plan. Must be 'starter', 'creator', 'pro', or 'teams'" });
+      }
+
+      const planKey = plan.toUpperCase() as 'STARTER' | 'CREATOR' | 'PRO' | 'TEAMS';
+      const priceId = SUBSCRIPTION_PLANS[planKey].priceId;
+      
+      if (!priceId) {
+        return res.status(400).json({ message: "Price ID not configured for this plan" });
+      }
+      
+      const subscription = await createSubscription(
+        userId,
+        user.email,
+        priceId,
+        promotionCode
+      );
+
+      // Update user's plan in database
+      await storage.updateUser(userId, {
+        subscriptionPlan: plan.toLowerCase(),
+        subscriptionStatus: 'trialing'
+      });
+
+      res.json(subscription);
+    } catch (error) {
+      console.error("Error creating subscription:", error);
+      res.status(500).json({ 
+        message: "Failed to create subscription", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Get existing subscription
+  app.get("/api/stripe/subscription", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(userId);
+      
+      if (!user?.stripeSubscriptionId) {
+        return res.status(404).json({ message: "No subscription found" });
+      }
+
+      const subscription = await getSubscriptionStatus(user.stripeSubscriptionId);
+      res.json(subscription);
+    } catch (error) {
+      console.error("Error fetching subscription:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch subscription", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Preview switching an existing subscription to another plan - prorated charge for upgrades,
+  // the next invoice for downgrades (which wait for the period end)
+  app.post("/api/stripe/change-plan/preview", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = changePlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid plan change", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user?.stripeSubscriptionId) {
+        return res.status(404).json({ message: "No active subscription found" });
+      }
+
+      const preview = await previewPlanChange(user.stripeSubscriptionId, validation.data.plan.toUpperCase() as PaidPlanKey);
+      return res.json(preview);
+    } catch (error) {
+      if (error instanceof PlanChangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ 
+        message: "Failed to preview plan change", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Switch an existing subscription to another plan in place
+  app.post("/api/stripe/change-plan", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const validation = changePlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid plan change", 
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user?.stripeSubscriptionId) {
+        return res.status(404).json({ message: "No active subscription found" });
+      }
+
+      const { plan, prorationDate } = validation.data;
+      const change = await changeSubscriptionPlan(user.stripeSubscriptionId, plan.toUpperCase() as PaidPlanKey, prorationDate);
+
+      // Paid upgrades apply now; downgrades and unpaid upgrades are picked up by the subscription webhook later
+      if (!change.pending) {
+        await storage.updateUser(userId, { subscriptionPlan: plan, cancelAtPeriodEnd: false });
+      }
+      return res.json(change);
+    } catch (error) {
+      if (error instanceof PlanChangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ 
+        message: "Failed to change plan", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Keep the current plan instead of a scheduled downgrade
+  app.delete("/api/stripe/change-plan", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user?.stripeSubscriptionId) {
+        return res.status(404).json({ message: "No active subscription found" });
+      }
+
+      const canceled = await cancelScheduledPlanChange(user.stripeSubscriptionId);
+      if (!canceled) {
+        return res.status(404).json({ message: "No scheduled plan change found" });
+      }
+      return res.json({ message: "Scheduled plan change canceled" });
+    } catch (error) {
+      return res.status(500).json({ 
+        message: "Failed to cancel scheduled plan change", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Create customer portal session
+  app.post("/api/stripe/portal", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(userId);
+      const { returnUrl } = req.body;
+      
+      if (!user?.stripeCustomerId) {
+        return res.status(400).json({ message: "No Stripe customer found" });
+      }
+      
+      const portalUrl = await createBillingPortalSession(
+        user.stripeCustomerId, 
+        returnUrl || `${req.protocol}://${req.get('host')}/app`
+      );
+
+      res.json({ url: portalUrl });
+    } catch (error) {
+      console.error("Error creating portal session:", error);
+      res.status(500).json({ 
+        message: "Failed to create portal session", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Cancel subscription
+  app.post("/api/stripe/cancel", firebaseAuthMiddleware, async (req: FirebaseRequest, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(userId);
+      
+      if (!user?.stripeSubscriptionId) {
+        return res.status(404).json({ message: "No active subscription found" });
+      }
+      
+      await cancelSubscription(user.stripeSubscriptionId);
+      
+      // Update user's plan to cancel at period end
+      await storage.updateUser(userId, {
         cancelAtPeriodEnd: true
       });
       res.json({ message: "Subscription will be canceled at the end of the billing period" });
@@ -797,33 +2384,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ingestion endpoints are hit by sendBeacon, so they don't require auth; consent is checked per session instead
+  app.all(["/api/analytics/batch", "/api/analytics/performance-violation"], ...analyticsMiddlewareStack());
+
   app.post("/api/analytics/performance-violation", async (req, res) => {
     try {
-      // In a real implementation, this would store violations in a database
-      console.log("Performance violation reported:", req.body);
-      
-      // For now, just acknowledge receipt
-      res.json({ received: true, timestamp: Date.now() });
+      const validation = performanceViolationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid performance violation",
+          errors: validation.error.errors.map(err => ({ field: err.path.join("."), message: err.message }))
+        });
+      }
+
+      await recordPerformanceViolation(validation.data, { ipAddress: analyticsIpAddress(req) });
+      return res.json({ received: true, timestamp: Date.now() });
     } catch (error) {
       console.error("Error recording performance violation:", error);
-      res.status(500).json({ message: "Failed to record violation" });
+      return res.status(500).json({ message: "Failed to record violation" });
     }
   });
 
   app.post("/api/analytics/batch", async (req, res) => {
     try {
-      // In a real implementation, this would batch process analytics events
-      console.log("Analytics batch received:", req.body);
-      
-      // For now, just acknowledge receipt
-      res.json({ 
-        received: true, 
-        processed: req.body?.events?.length || 0,
-        timestamp: Date.now() 
-      });
+      const validation = analyticsBatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid analytics batch",
+          errors: validation.error.errors.map(err => ({ field: err.path.join("."), message: err.message }))
+        });
+      }
+
+      const result = await ingestAnalyticsBatch(validation.data.events, { ipAddress: analyticsIpAddress(req) });
+      return res.json({ ...result, timestamp: Date.now() });
     } catch (error) {
       console.error("Error processing analytics batch:", error);
-      res.status(500).json({ message: "Failed to process analytics batch" });
+      return res.status(500).json({ message: "Failed to process analytics batch" });
+    }
+  });
+
+  // Variant assignment for landing pages; signed-out visitors are bucketed by their analytics session
+  app.post("/api/ab-tests/:name/assignment", optionalFirebaseAuth, async (req: FirebaseRequest, res) => {
+    try {
+      const validation = abTestAssignmentSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid assignment request",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      const user = req.firebaseUser ? await storage.getUserByFirebaseUid(req.firebaseUser.uid) : undefined;
+      const country = req.get("cf-ipcountry")?.toUpperCase();
+      const assignment = await assignAbTestVariant(req.params["name"]!, {
+        sessionId: validation.data.sessionId,
+        userId: user?.id ?? null,
+        segments: user ? ["signed_in", `plan:${user.subscriptionPlan || "free"}`] : ["anonymous"],
+        deviceType: validation.data.deviceType ?? deviceTypeFromUserAgent(req.get("user-agent")),
+        country: country && /^[A-Z]{2}$/.test(country) ? country : null,
+        attributes: validation.data.attributes ?? {}
+      });
+      return res.json(assignment);
+    } catch (error) {
+      if (error instanceof AbTestError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Error assigning A/B test variant:", error);
+      return res.status(500).json({ message: "Failed to assign variant" });
+    }
+  });
+
+  app.post("/api/ab-tests/:name/conversions", async (req, res) => {
+    try {
+      const validation = abTestConversionSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid conversion",
+          errors: validation.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        });
+      }
+
+      return res.json(await recordAbTestConversion(req.params["name"]!, validation.data.sessionId, validation.data.value));
+    } catch (error) {
+      if (error instanceof AbTestError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Error recording A/B test conversion:", error);
+      return res.status(500).json({ message: "Failed to record conversion" });
     }
   });
 
@@ -0,0 +1,329 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { AbTest, CreateAbTest, UpdateAbTest } from "@shared/schema";
+
+const CONTROL_VARIANT = "control";
+
+type DeviceType = "mobile" | "tablet" | "desktop";
+
+// Who is asking for a variant; segments come from the signed-in user, e.g. "signed_in", "plan:pro"
+export interface AbTestSubject {
+  sessionId: string;
+  userId: string | null;
+  segments: string[];
+  deviceType: DeviceType;
+  country: string | null; // ISO 3166 alpha-2 from the edge, when the host provides it
+  attributes: Record<string, string | number | boolean>;
+}
+
+export interface AbTestAssignment {
+  testId: string;
+  testName: string;
+  variantId: string | null; // null means the subject isn't in the test - show the default experience
+  config: Record<string, unknown>;
+  reason: "assigned" | "returning" | "winner" | "not_running" | "not_targeted" | "not_sampled";
+}
+
+export interface AbTestVariantResult {
+  variantId: string;
+  weight: number;
+  participants: number;
+  conversions: number;
+  conversionRate: number;
+  confidenceInterval: [number, number]; // Wilson interval at the test's significance level
+  conversionValue: number;
+}
+
+export interface AbTestComparison {
+  variantId: string; // Compared against the control
+  absoluteDifference: number;
+  relativeLift: number | null; // null while the control has no conversions
+  zScore: number;
+  pValue: number; // Two-sided, two-proportion z-test
+  significant: boolean; // p below 1 - significance level, with both arms at the minimum sample size
+}
+
+export interface AbTestResults {
+  testId: string;
+  testName: string;
+  status: string;
+  significanceLevel: number;
+  minSampleSize: number;
+  controlVariant: string;
+  variants: AbTestVariantResult[];
+  comparisons: AbTestComparison[];
+  recommendedWinner: string | null; // The best significant improvement on the control, if any
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class AbTestError extends Error {
+  constructor(public status: number, public body: { message: string }) {
+    super(body.message);
+    this.name = "AbTestError";
+  }
+}
+
+/**
+ * Assign a subject to a variant of the named test. Buckets are a hash of the test and the user
+ * (or the session when signed out), so the same visitor always lands in the same variant without any state,
+ * and a session keeps the variant it was first shown even if the weights change later.
+ * Records the exposure the first time a session is assigned. Throws AbTestError(404) for an unknown test.
+ */
+export async function assignAbTestVariant(testName: string, subject: AbTestSubject): Promise<AbTestAssignment> {
+  const test = await storage.getAbTestByName(testName);
+  if (!test) {
+    throw new AbTestError(404, { message: `No A/B test named "${testName}"` });
+  }
+
+  const outcome = (variantId: string | null, reason: AbTestAssignment["reason"]): AbTestAssignment => ({
+    testId: test.id,
+    testName: test.testName,
+    variantId,
+    config: variantId ? test.variants[variantId]?.config ?? {} : {},
+    reason
+  });
+
+  if (test.status === "completed" && test.winnerVariant && test.variants[test.winnerVariant]) {
+    return outcome(test.winnerVariant, "winner");
+  }
+  if (!isRunning(test, new Date())) {
+    return outcome(null, "not_running");
+  }
+
+  const existing = await storage.getAbTestParticipant(test.id, subject.sessionId);
+  if (existing) {
+    return outcome(existing.variantId, "returning");
+  }
+  if (!matchesTargeting(test, subject)) {
+    return outcome(null, "not_targeted");
+  }
+
+  const unit = subject.userId ? `user:${subject.userId}` : `session:${subject.sessionId}`;
+  if (bucketOf(test.id, "traffic", unit) * 100 >= test.trafficAllocation) {
+    return outcome(null, "not_sampled");
+  }
+
+  const variantId = pickVariant(test, bucketOf(test.id, "variant", unit));
+  if (!variantId) {
+    return outcome(null, "not_running");
+  }
+  const participant = await storage.recordAbTestExposure({ testId: test.id, sessionId: subject.sessionId, userId: subject.userId, variantId });
+  return outcome(participant.variantId, "assigned");
+}
+
+// Record a session's conversion; only its first conversion counts. Throws AbTestError(404) if the session wasn't in the test
+export async function recordAbTestConversion(testName: string, sessionId: string, value = 0): Promise<{ recorded: boolean; variantId: string }> {
+  const test = await storage.getAbTestByName(testName);
+  if (!test) {
+    throw new AbTestError(404, { message: `No A/B test named "${testName}"` });
+  }
+  const participant = await storage.getAbTestParticipant(test.id, sessionId);
+  if (!participant) {
+    throw new AbTestError(404, { message: "This session isn't taking part in the test" });
+  }
+  if (test.status !== "running") {
+    return { recorded: false, variantId: participant.variantId };
+  }
+  const converted = await storage.recordAbTestConversion(test.id, sessionId, value);
+  return { recorded: !!converted, variantId: participant.variantId };
+}
+
+export async function createAbTest(input: CreateAbTest, createdBy: string): Promise<AbTest> {
+  const existing = await storage.getAbTestByName(input.testName);
+  if (existing) {
+    throw new AbTestError(409, { message: `A test named "${input.testName}" already exists - archive it to reuse the name` });
+  }
+  return storage.createAbTest({
+    testName: input.testName,
+    testDescription: input.testDescription ?? null,
+    status: "draft",
+    variants: withVariantIds(input.variants),
+    trafficAllocation: input.trafficAllocation,
+    targetingRules: input.targetingRules ? withoutUndefined(input.targetingRules) : null,
+    minSampleSize: input.minSampleSize,
+    significanceLevel: input.significanceLevel,
+    primaryMetric: input.primaryMetric ?? "conversion_rate",
+    startDate: input.startDate ?? null,
+    endDate: input.endDate ?? null,
+    createdBy
+  });
+}
+
+/**
+ * Apply an admin's changes. Variants can't change once a test has started - participants keep the variant
+ * they were shown, so renaming or removing one would orphan them. Starting a test stamps its start date.
+ */
+export async function updateAbTest(id: string, changes: UpdateAbTest): Promise<AbTest> {
+  const test = await storage.getAbTest(id);
+  if (!test) {
+    throw new AbTestError(404, { message: "A/B test not found" });
+  }
+  if (changes.variants && test.status !== "draft") {
+    throw new AbTestError(409, { message: "Variants can only be changed while the test is a draft" });
+  }
+  const { variants: newVariants, status, targetingRules, ...rest } = changes;
+  const variants = newVariants ? withVariantIds(newVariants) : test.variants;
+  if (changes.winnerVariant && !variants[changes.winnerVariant]) {
+    throw new AbTestError(400, { message: `The test has no variant "${changes.winnerVariant}"` });
+  }
+
+  const updated = await storage.updateAbTest(id, {
+    ...withoutUndefined(rest),
+    ...(targetingRules !== undefined ? { targetingRules: targetingRules && withoutUndefined(targetingRules) } : {}),
+    ...(newVariants ? { variants } : {}),
+    ...(status ? { status } : {}),
+    ...(status === "running" && !test.startDate ? { startDate: new Date() } : {}),
+    ...(status === "completed" && !test.endDate ? { endDate: new Date() } : {})
+  });
+  return updated!;
+}
+
+/**
+ * Per-variant conversion rates with Wilson confidence intervals, and each variant tested against the control
+ * with a two-proportion z-test at the test's significance level. The control is the "control" variant,
+ * else the first one. Nothing is called significant until both arms reach the minimum sample size.
+ */
+export async function getAbTestResults(test: AbTest): Promise<AbTestResults> {
+  const stats = new Map((await storage.getAbTestVariantStats(test.id)).map(row => [row.variantId, row]));
+  const level = (test.significanceLevel ?? 95) / 100;
+  const minSampleSize = test.minSampleSize ?? 100;
+  const z = inverseNormalCdf(1 - (1 - level) / 2);
+
+  const variantIds = Object.keys(test.variants);
+  const controlVariant = test.variants[CONTROL_VARIANT] ? CONTROL_VARIANT : variantIds[0]!;
+  const variants: AbTestVariantResult[] = variantIds.map(variantId => {
+    const row = stats.get(variantId);
+    const participants = row?.participants ?? 0;
+    const conversions = row?.conversions ?? 0;
+    return {
+      variantId,
+      weight: test.variants[variantId]!.weight,
+      participants,
+      conversions,
+      conversionRate: participants > 0 ? conversions / participants : 0,
+      confidenceInterval: wilsonInterval(conversions, participants, z),
+      conversionValue: row?.conversionValue ?? 0
+    };
+  });
+
+  const control = variants.find(variant => variant.variantId === controlVariant)!;
+  const comparisons = variants
+    .filter(variant => variant !== control)
+    .map(variant => {
+      const { zScore, pValue } = twoProportionZTest(control, variant);
+      return {
+        variantId: variant.variantId,
+        absoluteDifference: variant.conversionRate - control.conversionRate,
+        relativeLift: control.conversionRate > 0 ? (variant.conversionRate - control.conversionRate) / control.conversionRate : null,
+        zScore,
+        pValue,
+        significant: pValue < 1 - level && control.participants >= minSampleSize && variant.participants >= minSampleSize
+      };
+    });
+
+  const improvements = comparisons.filter(comparison => comparison.significant && comparison.absoluteDifference > 0);
+  const recommendedWinner = improvements.sort((a, b) => b.absoluteDifference - a.absoluteDifference)[0]?.variantId ?? null;
+
+  return {
+    testId: test.id,
+    testName: test.testName,
+    status: test.status,
+    significanceLevel: test.significanceLevel ?? 95,
+    minSampleSize,
+    controlVariant,
+    variants,
+    comparisons,
+    recommendedWinner
+  };
+}
+
+// Best guess from the user agent when the client doesn't say
+export function deviceTypeFromUserAgent(userAgent: string | undefined): DeviceType {
+  if (!userAgent) return "desktop";
+  if (/tablet|ipad|playbook|silk/i.test(userAgent)) return "tablet";
+  if (/mobile|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+// A uniform number in [0, 1) from the test, the purpose and the unit - independent across tests and purposes
+function bucketOf(testId: string, purpose: string, unit: string): number {
+  const digest = createHash("sha256").update(`${testId}:${purpose}:${unit}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+function pickVariant(test: AbTest, bucket: number): string | null {
+  const entries = Object.entries(test.variants).filter(([, variant]) => variant.weight > 0);
+  const total = entries.reduce((sum, [, variant]) => sum + variant.weight, 0);
+  let threshold = bucket * total;
+  for (const [variantId, variant] of entries) {
+    threshold -= variant.weight;
+    if (threshold < 0) {
+      return variantId;
+    }
+  }
+  return entries[entries.length - 1]?.[0] ?? null;
+}
+
+function isRunning(test: AbTest, now: Date): boolean {
+  return test.status === "running"
+    && (!test.startDate || test.startDate <= now)
+    && (!test.endDate || test.endDate > now);
+}
+
+// Every rule that's set must match; a geo-targeted test leaves out subjects whose country is unknown
+function matchesTargeting(test: AbTest, subject: AbTestSubject): boolean {
+  const rules = test.targetingRules;
+  if (!rules) return true;
+  if (rules.deviceTypes?.length && !rules.deviceTypes.includes(subject.deviceType)) return false;
+  if (rules.geoTargeting?.length && (!subject.country || !rules.geoTargeting.includes(subject.country))) return false;
+  if (rules.userSegments?.length && !rules.userSegments.some(segment => subject.segments.includes(segment))) return false;
+  for (const [key, expected] of Object.entries(rules.customRules ?? {})) {
+    const actual = subject.attributes[key];
+    if (Array.isArray(expected) ? !expected.includes(actual) : actual !== expected) return false;
+  }
+  return true;
+}
+
+function withVariantIds(variants: CreateAbTest["variants"]): AbTest["variants"] {
+  return Object.fromEntries(Object.entries(variants).map(([id, variant]) => [id, { id, weight: variant.weight, config: variant.config }]));
+}
+
+// Drop keys the client left out; the columns' JSON types don't allow explicit undefined
+function withoutUndefined<T extends object>(value: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function wilsonInterval(conversions: number, participants: number, z: number): [number, number] {
+  if (participants === 0) return [0, 0];
+  const p = conversions / participants;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * participants)) / (1 + z2 / participants);
+  const margin = (z / (1 + z2 / participants)) * Math.sqrt(p * (1 - p) / participants + z2 / (4 * participants * participants));
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+function twoProportionZTest(a: AbTestVariantResult, b: AbTestVariantResult): { zScore: number; pValue: number } {
+  if (a.participants === 0 || b.participants === 0) return { zScore: 0, pValue: 1 };
+  const pooled = (a.conversions + b.conversions) / (a.participants + b.participants);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.participants + 1 / b.participants));
+  if (standardError === 0) return { zScore: 0, pValue: 1 };
+  const zScore = (b.conversionRate - a.conversionRate) / standardError;
+  return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+}
+
+// Abramowitz and Stegun 7.1.26 - accurate to about 1e-7, plenty for a p-value
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function inverseNormalCdf(p: number): number {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid; else high = mid;
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,138 @@
+import { createHmac } from "crypto";
+import { getEnv } from "../config/env-validation";
+import { sendSmtpMail } from "./smtp";
+import type { AlertChannel, AlertSeverity, AlertType, MonitoringAlert } from "@shared/schema";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DEFAULT_FROM = "Hook Line Studio <noreply@hooklinestudio.com>";
+const SLACK_COLORS: Record<AlertSeverity, string> = { low: "#439fe0", medium: "#daa038", high: "#e8912d", critical: "#d00000" };
+
+// Why a notification is being sent: a new alert, a repeat after the cool-down, a repeat at a higher severity, or a test
+export type AlertEvent = "triggered" | "repeated" | "escalated" | "test";
+
+// What every channel is given - the generic webhook posts exactly this as JSON
+export interface AlertNotification {
+  event: AlertEvent;
+  alert: Pick<MonitoringAlert, "id" | "type" | "severity" | "message" | "threshold" | "currentValue" | "status" | "occurrences" | "createdAt" | "lastTriggeredAt">;
+}
+
+export interface AlertSender {
+  channel: AlertChannel;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+// Every channel with its settings present in the environment
+export function configuredAlertSenders(): AlertSender[] {
+  const env = getEnv();
+  const senders: AlertSender[] = [];
+  if (env.ALERT_WEBHOOK_URL) {
+    senders.push(webhookSender(env.ALERT_WEBHOOK_URL, env.ALERT_WEBHOOK_SECRET));
+  }
+  if (env.ALERT_SLACK_WEBHOOK_URL) {
+    senders.push(slackSender(env.ALERT_SLACK_WEBHOOK_URL));
+  }
+  const recipients = env.ALERT_EMAIL_TO?.split(",").map(address => address.trim()).filter(Boolean) ?? [];
+  if (env.SMTP_HOST && recipients.length > 0) {
+    senders.push(emailSender(recipients));
+  }
+  return senders;
+}
+
+// The configured channels ALERT_ROUTES sends this alert type to - a type without a route of its own follows "*"
+export function alertSendersFor(type: AlertType): AlertSender[] {
+  const routes = getEnv().ALERT_ROUTES;
+  const senders = configuredAlertSenders();
+  if (!routes) {
+    return senders;
+  }
+  const channels = routes[type] ?? routes["*"] ?? [];
+  return senders.filter(sender => channels.includes(sender.channel));
+}
+
+function webhookSender(url: string, secret: string | undefined): AlertSender {
+  return {
+    channel: "webhook",
+    async send(notification) {
+      const body = JSON.stringify(notification);
+      await post(url, body, secret ? { "X-Alert-Signature": `sha256=${createHmac("sha256", secret).update(body).digest("hex")}` } : {});
+    }
+  };
+}
+
+// Incoming-webhook format shared by Slack, Mattermost and Rocket.Chat
+function slackSender(url: string): AlertSender {
+  return {
+    channel: "slack",
+    async send({ event, alert }) {
+      await post(url, JSON.stringify({
+        text: `${headline(event, alert)}: ${alert.message}`,
+        attachments: [{
+          color: SLACK_COLORS[alert.severity as AlertSeverity] ?? SLACK_COLORS.medium,
+          title: alert.message,
+          fields: [
+            { title: "Type", value: alert.type, short: true },
+            { title: "Severity", value: alert.severity, short: true },
+            { title: "Current value", value: String(alert.currentValue), short: true },
+            { title: "Threshold", value: String(alert.threshold), short: true },
+            { title: "Occurrences", value: String(alert.occurrences), short: true },
+            { title: "Alert ID", value: alert.id, short: true }
+          ],
+          ts: Math.floor((alert.lastTriggeredAt ?? new Date()).getTime() / 1000)
+        }]
+      }));
+    }
+  };
+}
+
+function emailSender(recipients: string[]): AlertSender {
+  return {
+    channel: "email",
+    async send({ event, alert }) {
+      const env = getEnv();
+      await sendSmtpMail(
+        {
+          host: env.SMTP_HOST!,
+          port: env.SMTP_PORT,
+          secure: env.SMTP_SECURE === "true",
+          user: env.SMTP_USER,
+          password: env.SMTP_PASSWORD
+        },
+        {
+          from: env.EMAIL_FROM || DEFAULT_FROM,
+          to: recipients,
+          subject: `${headline(event, alert)}: ${alert.message}`,
+          text: [
+            alert.message,
+            "",
+            `Type: ${alert.type}`,
+            `Severity: ${alert.severity}`,
+            `Current value: ${alert.currentValue}`,
+            `Threshold: ${alert.threshold}`,
+            `Occurrences: ${alert.occurrences}`,
+            `First triggered: ${alert.createdAt?.toISOString() ?? "now"}`,
+            `Alert ID: ${alert.id}`,
+            "",
+            "Acknowledge or resolve it with POST /api/admin/alerts/<id>/acknowledge or /resolve."
+          ].join("\n")
+        }
+      );
+    }
+  };
+}
+
+function headline(event: AlertEvent, alert: AlertNotification["alert"]): string {
+  const prefix = { triggered: "", repeated: "Still firing - ", escalated: "Escalated - ", test: "Test - " }[event];
+  return `${prefix}[${alert.severity.toUpperCase()}] ${alert.type} alert`;
+}
+
+async function post(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "User-Agent": "HookLineStudio-Alerts/1.0", ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} answered ${response.status} ${response.statusText}`.trim());
+  }
+}
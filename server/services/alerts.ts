@@ -0,0 +1,131 @@
+import { storage } from "../storage";
+import { getEnv } from "../config/env-validation";
+import { logger } from "../config/logger";
+import { alertSendersFor, configuredAlertSenders, type AlertEvent, type AlertNotification, type AlertSender } from "./alert-channels";
+import { ALERT_SEVERITIES, type AlertChannel, type AlertDelivery, type AlertSeverity, type AlertType, type MonitoringAlert } from "@shared/schema";
+
+export interface RaiseAlertInput {
+  type: AlertType;
+  severity: AlertSeverity;
+  key: string; // What the alert is about within its type, e.g. "p95" or "<testId>:<variantId>" - repeats share it
+  message: string;
+  threshold: number;
+  currentValue: number;
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class AlertError extends Error {
+  constructor(public status: number, public body: { message: string }) {
+    super(body.message);
+    this.name = "AlertError";
+  }
+}
+
+/**
+ * Open an alert, or fold a repeat into the unresolved alert with the same key, and deliver it through
+ * the channels its type is routed to. Repeats are only delivered again once the cool-down has passed since
+ * the last delivery, and not at all while acknowledged - unless the severity went up.
+ * A recurrence soon after an alert was resolved opens a new alert but stays quiet for the rest of the cool-down.
+ */
+export async function raiseAlert(input: RaiseAlertInput): Promise<MonitoringAlert> {
+  const dedupeKey = `${input.type}:${input.key}`;
+  const details = { severity: input.severity, message: input.message, threshold: input.threshold, currentValue: input.currentValue };
+  const latest = await storage.getLatestMonitoringAlert(dedupeKey);
+
+  if (!latest || latest.status === "resolved") {
+    const created = await storage.createMonitoringAlert({ type: input.type, dedupeKey, ...details });
+    if (created) {
+      logger.warn("Monitoring alert opened", { id: created.id, type: created.type, severity: created.severity, message: created.message });
+      const quiet = latest && coolingDown(latest) && !isHigher(input.severity, latest.severity);
+      return quiet ? created : deliverAlert(created, "triggered");
+    }
+  }
+
+  // An unresolved alert exists - possibly opened by another instance a moment ago
+  const open = latest && latest.status !== "resolved" ? latest : await storage.getLatestMonitoringAlert(dedupeKey);
+  if (!open || open.status === "resolved") {
+    throw new Error(`Monitoring alert ${dedupeKey} could not be opened`);
+  }
+  const escalated = isHigher(input.severity, open.severity);
+  const repeated = await storage.recordMonitoringAlertRepeat(open.id, { ...details, severity: escalated ? input.severity : open.severity });
+  if (!repeated) {
+    return open; // Resolved in the meantime
+  }
+  if (escalated) {
+    return deliverAlert(repeated, "escalated");
+  }
+  if (repeated.status === "open" && !coolingDown(repeated)) {
+    return deliverAlert(repeated, "repeated");
+  }
+  return repeated;
+}
+
+export async function acknowledgeAlert(id: string, userId: string): Promise<MonitoringAlert> {
+  const acknowledged = await storage.acknowledgeMonitoringAlert(id, userId);
+  if (acknowledged) {
+    return acknowledged;
+  }
+  throw await alertStateError(id, "Only open alerts can be acknowledged");
+}
+
+export async function resolveAlert(id: string, userId: string | null): Promise<MonitoringAlert> {
+  const resolved = await storage.resolveMonitoringAlert(id, userId);
+  if (resolved) {
+    logger.info("Monitoring alert resolved", { id, resolvedBy: userId });
+    return resolved;
+  }
+  throw await alertStateError(id, "The alert is already resolved");
+}
+
+/**
+ * Send a made-up alert through one channel, or every configured one, without storing it -
+ * for checking channel settings, e.g. against the local sink in scripts/alert-sink.js.
+ */
+export async function sendTestAlert(channel?: AlertChannel): Promise<AlertDelivery[]> {
+  const senders = configuredAlertSenders().filter(sender => !channel || sender.channel === channel);
+  if (senders.length === 0) {
+    throw new AlertError(400, { message: channel ? `The ${channel} channel isn't configured` : "No alert channels are configured" });
+  }
+  const now = new Date();
+  return sendToChannels(senders, {
+    event: "test",
+    alert: { id: "test", type: "performance", severity: "low", message: "Test alert from Hook Line Studio", threshold: 0, currentValue: 0, status: "open", occurrences: 1, createdAt: now, lastTriggeredAt: now }
+  });
+}
+
+async function deliverAlert(alert: MonitoringAlert, event: AlertEvent): Promise<MonitoringAlert> {
+  const senders = alertSendersFor(alert.type as AlertType);
+  if (senders.length === 0) {
+    return alert;
+  }
+  const deliveries = await sendToChannels(senders, { event, alert });
+  return (await storage.recordMonitoringAlertDeliveries(alert.id, deliveries, new Date())) ?? alert;
+}
+
+// One channel failing doesn't stop the others; every attempt is reported
+async function sendToChannels(senders: AlertSender[], notification: AlertNotification): Promise<AlertDelivery[]> {
+  return Promise.all(senders.map(async (sender): Promise<AlertDelivery> => {
+    try {
+      await sender.send(notification);
+      return { channel: sender.channel, status: "sent", error: null, attemptedAt: new Date().toISOString() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Alert ${notification.alert.id} couldn't be delivered through ${sender.channel}: ${message}`);
+      return { channel: sender.channel, status: "failed", error: message, attemptedAt: new Date().toISOString() };
+    }
+  }));
+}
+
+async function alertStateError(id: string, conflict: string): Promise<AlertError> {
+  return await storage.getMonitoringAlert(id)
+    ? new AlertError(409, { message: conflict })
+    : new AlertError(404, { message: "Alert not found" });
+}
+
+function coolingDown(alert: MonitoringAlert): boolean {
+  return !!alert.lastNotifiedAt && Date.now() - alert.lastNotifiedAt.getTime() < getEnv().ALERT_COOLDOWN_MINUTES * 60_000;
+}
+
+function isHigher(severity: string, than: string): boolean {
+  return ALERT_SEVERITIES.indexOf(severity as AlertSeverity) > ALERT_SEVERITIES.indexOf(than as AlertSeverity);
+}
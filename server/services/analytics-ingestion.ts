@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { getEnv } from "../config/env-validation";
+import { gdprCompliance } from "./gdpr-compliance";
+import {
+  analyticsEventSchema,
+  type analyticsEvents,
+  type ReportPerformanceViolation,
+  type TrackedAnalyticsEvent
+} from "@shared/schema";
+
+// Client clocks drift; timestamps further out than this are replaced by the time the event was received
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Properties lifted into analytics_events.event_data's own keys; the full properties are kept under metadata
+const EVENT_DATA_FIELDS = ["ctaId", "ctaText", "ctaPosition", "platform", "testVariant", "conversionValue", "viewDuration", "scrollDepth"] as const;
+
+export interface AnalyticsBatchResult {
+  received: number;
+  stored: number;
+  duplicates: number;
+  withoutConsent: number;
+  rejected: { index: number; errors: string[] }[];
+}
+
+export interface IngestionContext {
+  ipAddress: string | null; // Already anonymized by analyticsPrivacyCompliance when ANONYMIZE_IPS is on
+}
+
+/**
+ * Validate, consent-check and store a batch of client analytics events.
+ * Each event is validated on its own so one malformed event doesn't drop the rest; events from sessions
+ * without analytics consent are dropped, and events already stored (same session and event ID) are skipped.
+ */
+export async function ingestAnalyticsBatch(events: unknown[], context: IngestionContext): Promise<AnalyticsBatchResult> {
+  const maxEvents = getEnv().ANALYTICS_BATCH_SIZE;
+  const result: AnalyticsBatchResult = { received: events.length, stored: 0, duplicates: 0, withoutConsent: 0, rejected: [] };
+
+  const valid: TrackedAnalyticsEvent[] = [];
+  events.forEach((event, index) => {
+    if (index >= maxEvents) {
+      result.rejected.push({ index, errors: [`A batch can have at most ${maxEvents} events`] });
+      return;
+    }
+    const validation = analyticsEventSchema.safeParse(event);
+    if (validation.success) {
+      valid.push(validation.data);
+    } else {
+      result.rejected.push({ index, errors: validation.error.errors.map(err => `${err.path.join(".") || "event"}: ${err.message}`) });
+    }
+  });
+
+  // One consent lookup per session and user in the batch
+  const consent = new Map<string, Promise<boolean>>();
+  const consented: TrackedAnalyticsEvent[] = [];
+  for (const event of valid) {
+    const key = `${event.sessionId}\u0000${event.userId ?? ""}`;
+    if (!consent.has(key)) {
+      consent.set(key, gdprCompliance.validateAnalyticsEvent(event.sessionId, event.userId));
+    }
+    if (await consent.get(key)) {
+      consented.push(event);
+    } else {
+      result.withoutConsent++;
+    }
+  }
+
+  // The user ID is client-supplied - keep it only if it's a real user, otherwise the whole insert would fail
+  const knownUsers = await storage.getExistingUserIds(Array.from(new Set(consented.flatMap(event => event.userId ? [event.userId] : []))));
+
+  const now = Date.now();
+  const rows = new Map<string, typeof analyticsEvents.$inferInsert>();
+  for (const event of consented) {
+    const dedupeKey = analyticsDedupeKey(event);
+    if (rows.has(dedupeKey)) {
+      result.duplicates++;
+      continue;
+    }
+    rows.set(dedupeKey, {
+      sessionId: event.sessionId,
+      userId: event.userId && knownUsers.has(event.userId) ? event.userId : null,
+      eventType: event.eventType,
+      eventData: toEventData(event),
+      deviceInfo: {
+        userAgent: event.deviceInfo.userAgent,
+        platform: event.deviceInfo.platform,
+        screenResolution: event.deviceInfo.screenResolution,
+        timezone: event.deviceInfo.timezone,
+        language: event.deviceInfo.language
+      },
+      pageInfo: event.pageInfo,
+      ipAddress: context.ipAddress,
+      userConsent: true,
+      dedupeKey,
+      createdAt: clampTimestamp(event.timestamp, now)
+    });
+  }
+
+  result.stored = await storage.insertAnalyticsEvents(Array.from(rows.values()));
+  result.duplicates += rows.size - result.stored;
+  return result;
+}
+
+export async function recordPerformanceViolation(violation: ReportPerformanceViolation, context: IngestionContext): Promise<void> {
+  await storage.createPerformanceViolation({
+    metric: violation.metric,
+    value: violation.value,
+    threshold: violation.threshold,
+    severity: violation.severity,
+    url: violation.url,
+    userAgent: violation.userAgent ?? null,
+    connectionType: violation.connectionType ?? null,
+    context: violation.context ?? {},
+    ipAddress: context.ipAddress,
+    occurredAt: clampTimestamp(violation.timestamp, Date.now())
+  });
+}
+
+// Events without a client event ID are keyed on their content, so an identical resend is still caught
+function analyticsDedupeKey(event: TrackedAnalyticsEvent): string {
+  const identity = event.eventId ?? JSON.stringify([event.eventType, event.timestamp, event.properties]);
+  return createHash("sha256").update(`${event.sessionId}\u0000${identity}`).digest("hex");
+}
+
+function toEventData(event: TrackedAnalyticsEvent): NonNullable<(typeof analyticsEvents.$inferInsert)["eventData"]> {
+  const properties: Record<string, unknown> = event.properties;
+  const lifted = Object.fromEntries(EVENT_DATA_FIELDS.filter(field => properties[field] !== undefined).map(field => [field, properties[field]]));
+  const variant = properties["ctaVariant"] ?? properties["variantId"];
+  const component = properties["componentName"];
+  return {
+    ...lifted,
+    ...(typeof variant === "string" ? { variant } : {}),
+    ...(typeof component === "string" ? { component } : {}),
+    metadata: properties
+  };
+}
+
+function clampTimestamp(timestamp: number, now: number): Date {
+  return timestamp > now + MAX_CLOCK_SKEW_MS || timestamp < now - MAX_EVENT_AGE_MS ? new Date(now) : new Date(timestamp);
+}
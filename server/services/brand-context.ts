@@ -0,0 +1,61 @@
+import { storage } from "../storage";
+import type { User, BrandProfile } from "@shared/schema";
+
+export interface BrandContext {
+  brandId: string | null;
+  company: string;
+  industry: string;
+  role: string;
+  audience: string;
+  voice: string;
+  bannedTerms: string[];
+  safety: "family-friendly" | "standard" | "edgy";
+  locale: string; // Language hooks are written in by default
+}
+
+export class BrandNotFoundError extends Error {
+  constructor(brandId: string) {
+    super(`Brand profile not found: ${brandId}`);
+    this.name = "BrandNotFoundError";
+  }
+}
+
+function normalizeSafety(safety: string | null): BrandContext["safety"] {
+  return safety === "family-friendly" || safety === "edgy" ? safety : "standard";
+}
+
+/**
+ * Resolve the brand context a generation should use.
+ * An explicit brandId wins, then the user's active brand, then the legacy profile fields on the user row.
+ * Throws BrandNotFoundError when an explicit brandId doesn't belong to the user.
+ */
+export async function resolveBrandContext(user: User, brandId?: string | null): Promise<BrandContext> {
+  let brand: BrandProfile | undefined;
+
+  if (brandId) {
+    brand = await storage.getBrandProfile(brandId, user.id);
+    if (!brand) {
+      throw new BrandNotFoundError(brandId);
+    }
+  } else if (user.activeBrandId) {
+    // A stale active brand (e.g. deleted concurrently) silently falls back to the user profile
+    brand = await storage.getBrandProfile(user.activeBrandId, user.id);
+  }
+
+  const source = brand
+    ? { ...brand, company: brand.name }
+    : user;
+
+  return {
+    brandId: brand?.id ?? null,
+    company: source.company || "Unknown Company",
+    industry: source.industry || "General",
+    role: source.role || "Creator",
+    audience: source.audience || "General Audience",
+    voice: source.voice || "Friendly",
+    bannedTerms: source.bannedTerms || [],
+    safety: normalizeSafety(source.safety),
+    // The legacy user profile has no language setting
+    locale: brand?.locale || "en",
+  };
+}
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildSafetyPolicy, checkHookSafety } from "./brand-safety";
+
+const familyFriendly = buildSafetyPolicy([], "family-friendly");
+
+function flaggedTerms(verbalHook: string, policy = familyFriendly): string[] {
+  return checkHookSafety({ verbalHook }, policy).terms;
+}
+
+test("words that only share a stem with a lexicon term pass", () => {
+  assert.deepEqual(flaggedTerms("As a class, we skipped the hello"), []);
+  assert.deepEqual(flaggedTerms("Skipping stones and assessing the assets"), []);
+  assert.deepEqual(flaggedTerms("The skill behind every ding"), []);
+});
+
+test("lexicon terms are caught as written and inflected", () => {
+  assert.deepEqual(flaggedTerms("Don't be an ass about it"), ["ass"]);
+  assert.deepEqual(flaggedTerms("Got stoned before the gym"), ["stoned"]);
+  assert.deepEqual(flaggedTerms("This will kill your gains"), ["kill"]);
+  assert.deepEqual(flaggedTerms("It killed my progress"), ["kill"]);
+  assert.deepEqual(flaggedTerms("I nearly died doing this"), ["die"]);
+  assert.deepEqual(flaggedTerms("The crappy truth about cardio"), ["crap"]);
+});
+
+test("banned terms match their inflections", () => {
+  const policy = buildSafetyPolicy(["scam", "cheat code"], "edgy");
+  assert.deepEqual(flaggedTerms("Three scams to avoid", policy), ["scam"]);
+  assert.deepEqual(flaggedTerms("Every scammer does this", policy), ["scam"]);
+  assert.deepEqual(flaggedTerms("Stop scamming yourself", policy), ["scam"]);
+  assert.deepEqual(flaggedTerms("The cheat codes nobody shares", policy), ["cheat code"]);
+  assert.deepEqual(flaggedTerms("Scampi night, no cheating", policy), []);
+});
+
+test("safety levels only enforce their own and stricter-level terms", () => {
+  assert.deepEqual(flaggedTerms("Damn, that worked", buildSafetyPolicy([], "standard")), []);
+  assert.deepEqual(flaggedTerms("Damn, that worked"), ["damn"]);
+});
+
+test("a high-risk hook fails family-friendly mode and can't be reworded", () => {
+  const check = checkHookSafety({ verbalHook: "Five quick tips", riskFactor: "high" }, familyFriendly);
+  assert.equal(check.safe, false);
+  assert.equal(check.repairable, false);
+});
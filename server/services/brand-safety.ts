@@ -0,0 +1,187 @@
+import { readFileSync } from "fs";
+import type { BrandContext } from "./brand-context";
+
+export type SafetyLevel = BrandContext["safety"];
+
+export interface SafetyPolicy {
+  safety: SafetyLevel;
+  bannedTerms: string[]; // The brand's own banned terms
+  lexicon: string[];     // Terms the safety level rules out
+}
+
+export interface SafetyCheck {
+  safe: boolean;
+  repairable: boolean; // False when rewording can't help, e.g. a high-risk hook in family-friendly mode
+  reasons: string[];
+  terms: string[];     // Offending terms as they appear in the policy, for the repair prompt
+}
+
+// The text fields of a generated hook the gate looks at
+export interface SafetyCheckedHook {
+  verbalHook?: string;
+  visualHook?: string;
+  textualHook?: string;
+  platformSpecific?: Record<string, string | undefined>;
+  riskFactor?: string;
+}
+
+// Terms each level rules out on top of the levels above it (edgy < standard < family-friendly)
+const DEFAULT_SAFETY_LEXICON: Record<SafetyLevel, string[]> = {
+  "edgy": [
+    "kill yourself", "kys", "retard", "retarded", "rape"
+  ],
+  "standard": [
+    "fuck", "motherfucker", "shit", "bullshit", "bitch", "bastard", "cunt", "dick", "cock", "pussy", "whore",
+    "slut", "porn", "nsfw", "nudes"
+  ],
+  "family-friendly": [
+    "damn", "hell", "crap", "ass", "badass", "sexy", "sex", "hooker", "drunk", "booze", "weed", "stoned",
+    "kill", "murder", "bloody", "naked", "gambling", "suicide", "die", "dying"
+  ]
+};
+
+// Levels each level enforces, strictest last
+const LEVEL_INCLUDES: Record<SafetyLevel, SafetyLevel[]> = {
+  "edgy": ["edgy"],
+  "standard": ["edgy", "standard"],
+  "family-friendly": ["edgy", "standard", "family-friendly"]
+};
+
+let safetyLexicon: Record<SafetyLevel, string[]> | undefined;
+
+/**
+ * The per-level lexicon. SAFETY_LEXICON_FILE may point to a JSON file mapping levels to term lists;
+ * levels it lists replace the defaults, the others keep them.
+ */
+function getSafetyLexicon(): Record<SafetyLevel, string[]> {
+  if (safetyLexicon) {
+    return safetyLexicon;
+  }
+
+  safetyLexicon = { ...DEFAULT_SAFETY_LEXICON };
+  const lexiconFile = process.env["SAFETY_LEXICON_FILE"];
+  if (lexiconFile) {
+    try {
+      const overrides = JSON.parse(readFileSync(lexiconFile, "utf8")) as Partial<Record<SafetyLevel, unknown>>;
+      for (const level of Object.keys(DEFAULT_SAFETY_LEXICON) as SafetyLevel[]) {
+        const terms = overrides[level];
+        if (Array.isArray(terms)) {
+          safetyLexicon[level] = terms.filter((term): term is string => typeof term === "string");
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load safety lexicon from ${lexiconFile}, using defaults:`, error);
+    }
+  }
+  return safetyLexicon;
+}
+
+export function buildSafetyPolicy(bannedTerms: string[], safety: SafetyLevel): SafetyPolicy {
+  const lexicon = getSafetyLexicon();
+  return {
+    safety,
+    bannedTerms: bannedTerms.map(term => term.trim()).filter(Boolean),
+    lexicon: LEVEL_INCLUDES[safety].flatMap(level => lexicon[level])
+  };
+}
+
+// Lowercase, accents stripped, split into words
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Endings a term may take, so "scams", "scammer" and "scamming" all match a banned "scam"
+const INFLECTIONS = ["s", "es", "ed", "er", "ers", "ing", "ings", "y", "ies"];
+const VOWEL_INFLECTIONS = ["ed", "er", "ers", "ing", "ings", "y", "ies"];
+
+/**
+ * The word and its inflected forms. Forms are built from the term rather than stems from the text,
+ * so a short term never matches a different word that stems the same way ("ass" vs "as", "stoned" vs "stones").
+ * Covers a doubled final consonant ("scamming"), a dropped final e ("boozing") and y to i ("bloodied").
+ */
+function inflect(word: string): Set<string> {
+  const forms = new Set([word, ...INFLECTIONS.map(ending => word + ending)]);
+  if (/[^aeiou][aeiou][b-df-hj-np-tvz]$/.test(word)) {
+    VOWEL_INFLECTIONS.forEach(ending => forms.add(word + word.slice(-1) + ending));
+  }
+  if (word.endsWith("e")) {
+    ["d", "r", "rs"].forEach(ending => forms.add(word + ending));
+    // Not for short words, where what's left is often a word of its own ("die" would match "ding")
+    if (word.length > 3) {
+      VOWEL_INFLECTIONS.forEach(ending => forms.add(word.slice(0, -1) + ending));
+    }
+  }
+  if (/[^aeiou]y$/.test(word)) {
+    ["ies", "ied", "ier", "iest"].forEach(ending => forms.add(word.slice(0, -1) + ending));
+  }
+  return forms;
+}
+
+// Whether the term appears in the text as a whole word (or run of words), its last word in any inflected form
+function containsTerm(textWords: string[], term: string): boolean {
+  const termWords = tokenize(term);
+  const lastWord = termWords.pop();
+  if (lastWord === undefined) {
+    return false;
+  }
+  const lastForms = inflect(lastWord);
+  for (let i = 0; i + termWords.length < textWords.length; i++) {
+    if (termWords.every((termWord, j) => textWords[i + j] === termWord) && lastForms.has(textWords[i + termWords.length]!)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check every text field of a hook (including platform-specific text) against the brand's banned terms and the safety level's lexicon.
+ * In family-friendly mode a hook the model rated high risk fails outright.
+ */
+export function checkHookSafety(hook: SafetyCheckedHook, policy: SafetyPolicy): SafetyCheck {
+  const platformTexts = Object.values(hook.platformSpecific || {}).filter((text): text is string => typeof text === "string");
+  const textWords = tokenize([hook.verbalHook, hook.visualHook, hook.textualHook, ...platformTexts].filter(Boolean).join(" "));
+  const reasons: string[] = [];
+  const terms: string[] = [];
+
+  for (const term of policy.bannedTerms) {
+    if (containsTerm(textWords, term)) {
+      reasons.push(`Banned term "${term}"`);
+      terms.push(term);
+    }
+  }
+  for (const term of policy.lexicon) {
+    if (!terms.includes(term) && containsTerm(textWords, term)) {
+      reasons.push(`"${term}" isn't allowed at the ${policy.safety} safety level`);
+      terms.push(term);
+    }
+  }
+
+  const highRisk = policy.safety === "family-friendly" && hook.riskFactor === "high";
+  if (highRisk) {
+    reasons.push("High-risk hook in family-friendly mode");
+  }
+
+  return {
+    safe: reasons.length === 0,
+    repairable: !highRisk,
+    reasons,
+    terms
+  };
+}
+
+// Prompt lines telling the model what to avoid up front, so fewer hooks need repairing
+export function describeSafetyPolicy(policy: SafetyPolicy): string {
+  const levelGuidance: Record<SafetyLevel, string> = {
+    "family-friendly": "Family-friendly: no profanity, innuendo, violence, substances or shock tactics.",
+    "standard": "Standard: no profanity or explicit content.",
+    "edgy": "Edgy: bold and provocative is fine, but no slurs or self-harm references."
+  };
+  const banned = policy.bannedTerms.length > 0
+    ? `\nNever use these terms or variants of them: ${policy.bannedTerms.join(", ")}`
+    : "";
+  return `${levelGuidance[policy.safety]}${banned}`;
+}
@@ -1,6 +1,9 @@
 import { pool } from '../db';
 import { getEnv } from '../config/env-validation';
 import { logger } from '../config/logger';
+import { storage } from '../storage';
+import { raiseAlert, resolveAlert, type RaiseAlertInput } from './alerts';
+import type { MonitoringAlert } from '@shared/schema';
 
 /**
  * Conversion metrics monitoring and alerting service
@@ -16,7 +19,7 @@ export interface ConversionMetrics {
   performanceP95: number;
   activeABTests: number;
   topPerformingVariants: VariantMetrics[];
-  alertsTriggered: Alert[];
+  alertsTriggered: MonitoringAlert[];
 }
 
 export interface VariantMetrics {
@@ -28,19 +31,7 @@ export interface VariantMetrics {
   isSignificant: boolean;
 }
 
-export interface Alert {
-  id: string;
-  type: 'performance' | 'conversion' | 'error' | 'ab_test';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  message: string;
-  threshold: number;
-  currentValue: number;
-  timestamp: Date;
-  resolved: boolean;
-}
-
 export class ConversionMonitoringService {
-  private alerts: Alert[] = [];
   private monitoringInterval: NodeJS.Timeout | null = null;
   private readonly env = getEnv();
 
@@ -173,7 +164,7 @@ export class ConversionMonitoringService {
         performanceP95: parseInt(analytics.p95_response_time) || 0,
         activeABTests,
         topPerformingVariants,
-        alertsTriggered: this.alerts.filter(alert => !alert.resolved)
+        alertsTriggered: await this.getActiveAlerts()
       };
 
     } catch (error) {
@@ -234,6 +225,7 @@ export class ConversionMonitoringService {
     if (metrics.performanceP95 > threshold) {
       await this.triggerAlert({
         type: 'performance',
+        key: 'p95',
         severity: metrics.performanceP95 > threshold * 2 ? 'critical' : 'high',
         message: `Performance degraded: P95 response time is ${metrics.performanceP95}ms`,
         threshold,
@@ -252,6 +244,7 @@ export class ConversionMonitoringService {
     if (metrics.conversionRate < threshold && metrics.totalEvents > 100) {
       await this.triggerAlert({
         type: 'conversion',
+        key: 'cta_rate',
         severity: 'high',
         message: `Conversion rate dropped to ${metrics.conversionRate.toFixed(2)}%`,
         threshold,
@@ -269,6 +262,7 @@ export class ConversionMonitoringService {
     if (metrics.errorRate > threshold) {
       await this.triggerAlert({
         type: 'error',
+        key: 'rate',
         severity: metrics.errorRate > threshold * 2 ? 'critical' : 'high',
         message: `Error rate elevated: ${metrics.errorRate.toFixed(2)}%`,
         threshold,
@@ -285,6 +279,7 @@ export class ConversionMonitoringService {
       if (variant.isSignificant && variant.sampleSize >= this.env.AB_TESTING_MIN_SAMPLE_SIZE) {
         await this.triggerAlert({
           type: 'ab_test',
+          key: `${variant.testId}:${variant.variantId}`,
           severity: 'medium',
           message: `A/B test ${variant.testId} variant ${variant.variantId} reached significance`,
           threshold: 95,
@@ -295,76 +290,29 @@ export class ConversionMonitoringService {
   }
 
   /**
-   * Trigger an alert
+   * Trigger an alert - stored, de-duplicated against the open alert with the same key, and delivered
+   * through the channels configured for its type (see services/alerts.ts)
    */
-  private async triggerAlert(alertData: Omit<Alert, 'id' | 'timestamp' | 'resolved'>): Promise<void> {
-    const alert: Alert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date(),
-      resolved: false,
-      ...alertData
-    };
-
-    // Check if similar alert already exists
-    const existingAlert = this.alerts.find(a => 
-      !a.resolved && 
-      a.type === alert.type && 
-      a.message === alert.message
-    );
-
-    if (existingAlert) {
-      logger.debug('Similar alert already exists, skipping', { alertType: alert.type });
-      return;
-    }
-
-    this.alerts.push(alert);
-    
-    // Log the alert
-    logger.warn('Conversion alert triggered', {
-      id: alert.id,
-      type: alert.type,
-      severity: alert.severity,
-      message: alert.message,
-      threshold: alert.threshold,
-      currentValue: alert.currentValue
-    });
-
-    // In production, you could integrate with external alerting services
-    if (this.env.NODE_ENV === 'production') {
-      await this.sendExternalAlert(alert);
+  private async triggerAlert(alertData: RaiseAlertInput): Promise<void> {
+    try {
+      await raiseAlert(alertData);
+    } catch (error) {
+      logger.error('Failed to raise conversion alert', error instanceof Error ? error : undefined, { type: alertData.type, key: alertData.key });
     }
   }
 
-  /**
-   * Send alert to external services (Slack, email, etc.)
-   */
-  private async sendExternalAlert(alert: Alert): Promise<void> {
-    // TODO: Integrate with external alerting services
-    // Examples: Slack webhooks, email notifications, PagerDuty, etc.
-    
-    logger.info('External alert would be sent', {
-      alertId: alert.id,
-      type: alert.type,
-      severity: alert.severity
-    });
-  }
-
   /**
    * Resolve an alert
    */
-  public resolveAlert(alertId: string): void {
-    const alert = this.alerts.find(a => a.id === alertId);
-    if (alert) {
-      alert.resolved = true;
-      logger.info('Alert resolved', { alertId });
-    }
+  public async resolveAlert(alertId: string): Promise<void> {
+    await resolveAlert(alertId, null);
   }
 
   /**
    * Get active alerts
    */
-  public getActiveAlerts(): Alert[] {
-    return this.alerts.filter(alert => !alert.resolved);
+  public async getActiveAlerts(): Promise<MonitoringAlert[]> {
+    return storage.getMonitoringAlerts({ status: 'open', limit: 50 });
   }
 
   /**
@@ -373,16 +321,6 @@ export class ConversionMonitoringService {
   public async getMetricsForAPI(): Promise<ConversionMetrics> {
     return this.getConversionMetrics();
   }
-
-  /**
-   * Clean up old resolved alerts
-   */
-  private cleanupOldAlerts(): void {
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    this.alerts = this.alerts.filter(alert => 
-      !alert.resolved || alert.timestamp > oneDayAgo
-    );
-  }
 }
 
 // Singleton instance
@@ -0,0 +1,63 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+/**
+ * Parse RFC 4180 CSV into rows of cells. Quoted fields may hold commas, line breaks and doubled quotes;
+ * CRLF and LF line endings are both accepted, a leading byte order mark is dropped and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0]!.trim() !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// Quote a cell only when it has to be: commas, quotes, line breaks, or edge whitespace a reader would trim
+function formatCell(cell: CsvCell): string {
+  const value = cell === null || cell === undefined ? "" : String(cell);
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Rows as RFC 4180 CSV with CRLF line endings
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map(row => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
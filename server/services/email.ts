@@ -0,0 +1,71 @@
+import sgMail from "@sendgrid/mail";
+
+const DEFAULT_FROM = "Hook Line Studio <noreply@hooklinestudio.com>";
+
+let apiKeyConfigured = false;
+
+interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Send a transactional email through SendGrid.
+ * Returns false without throwing when SENDGRID_API_KEY isn't set (local development),
+ * so callers can fall back to showing the link in the UI.
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const apiKey = process.env["SENDGRID_API_KEY"];
+  if (!apiKey) {
+    console.log(`SENDGRID_API_KEY not set - skipping email "${message.subject}" to ${message.to}`);
+    return false;
+  }
+
+  if (!apiKeyConfigured) {
+    sgMail.setApiKey(apiKey);
+    apiKeyConfigured = true;
+  }
+
+  await sgMail.send({
+    from: process.env["EMAIL_FROM"] || DEFAULT_FROM,
+    ...message
+  });
+  return true;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendWorkspaceInvitationEmail(invitation: {
+  to: string;
+  workspaceName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+}): Promise<boolean> {
+  const { to, workspaceName, inviterName, role, acceptUrl } = invitation;
+
+  return sendEmail({
+    to,
+    subject: `${inviterName} invited you to ${workspaceName} on Hook Line Studio`,
+    text: [
+      `${inviterName} invited you to join the ${workspaceName} workspace on Hook Line Studio as ${role === "viewer" ? "a viewer" : "an editor"}.`,
+      "",
+      `Accept the invitation: ${acceptUrl}`,
+      "",
+      "This invitation expires in 7 days. Sign in with this email address to accept it."
+    ].join("\n"),
+    html: `
+      <p>${escapeHtml(inviterName)} invited you to join the <strong>${escapeHtml(workspaceName)}</strong> workspace on Hook Line Studio as ${role === "viewer" ? "a viewer" : "an editor"}.</p>
+      <p><a href="${escapeHtml(acceptUrl)}">Accept the invitation</a></p>
+      <p>This invitation expires in 7 days. Sign in with this email address to accept it.</p>
+    `
+  });
+}
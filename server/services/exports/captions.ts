@@ -0,0 +1,53 @@
+import type { ExportFormatPlugin, ExportSource } from "./index";
+
+export const COLD_OPEN_SECONDS = 3;
+
+// "00:00:03,000" for SRT, "00:00:03.000" for WebVTT
+export function formatCaptionTimestamp(seconds: number, format: "srt" | "vtt"): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${format === "srt" ? "," : "."}${pad(ms % 1000, 3)}`;
+}
+
+// The chosen hook's on-screen text (its verbal hook if it has none), shown for the cold open
+function coldOpenText(source: ExportSource): string {
+  const generation = source.items[0]!.generation;
+  const topPick = generation.topThreeVariants?.[0];
+  const hook = source.hookIndex !== undefined
+    ? generation.hooks[source.hookIndex]
+    : generation.hooks.find(candidate => candidate.verbalHook === topPick?.verbalHook) ?? generation.hooks[0];
+  return hook?.textualHook || hook?.verbalHook || topPick?.textualHook || topPick?.verbalHook || "";
+}
+
+// WebVTT cue text is markup: escape it, and keep "-->" from reading as a timing line
+const escapeVttText = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;");
+
+function renderCaption(source: ExportSource, format: "srt" | "vtt"): string {
+  const timing = `${formatCaptionTimestamp(0, format)} --> ${formatCaptionTimestamp(COLD_OPEN_SECONDS, format)}`;
+  return format === "srt"
+    ? `1\n${timing}\n${coldOpenText(source)}\n`
+    : `WEBVTT\n\n${timing}\n${escapeVttText(coldOpenText(source))}\n`;
+}
+
+export const srtExport: ExportFormatPlugin = {
+  format: "srt",
+  label: "SRT captions",
+  extension: "srt",
+  contentType: "application/x-subrip; charset=utf-8",
+  feature: "coldOpenExports",
+  singleGeneration: true,
+  render: (source) => renderCaption(source, "srt")
+};
+
+export const vttExport: ExportFormatPlugin = {
+  format: "vtt",
+  label: "WebVTT captions",
+  extension: "vtt",
+  contentType: "text/vtt; charset=utf-8",
+  feature: "coldOpenExports",
+  singleGeneration: true,
+  render: (source) => renderCaption(source, "vtt")
+};
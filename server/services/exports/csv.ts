@@ -0,0 +1,13 @@
+import { toCsv } from "../csv";
+import { hookTable } from "./hook-table";
+import type { ExportFormatPlugin } from "./index";
+
+// RFC 4180, with a byte order mark so Excel reads non-English hooks as UTF-8
+export const csvExport: ExportFormatPlugin = {
+  format: "csv",
+  label: "CSV",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  feature: "sheetsExport",
+  render: (source) => "﻿" + toCsv(hookTable(source))
+};
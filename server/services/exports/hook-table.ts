@@ -0,0 +1,82 @@
+import type { CsvCell } from "../csv";
+import type { ExportSource } from "./index";
+
+const HOOK_COLUMNS = [
+  "Row", "Topic", "Platform", "Objective", "Language", "Rank", "Top Three",
+  "Verbal Hook", "Visual Hook", "On-screen Text", "Variants",
+  "Framework", "Category", "Formula", "Psychological Driver", "Risk", "Score", "Word Count",
+  "Rationale", "Platform Notes",
+  "TikTok Cold Open", "Instagram Overlay", "YouTube Proof Cue", "LinkedIn Fold Line", "X Post",
+  "Re-hook Strategy"
+];
+
+const TOP_THREE_COLUMNS = [
+  "Row", "Topic", "Platform", "Pick", "Verbal Hook", "Visual Hook", "On-screen Text", "Variants",
+  "Framework", "Psychological Driver", "Score", "Score Breakdown", "Re-hook Strategy"
+];
+
+// One line per hook with every tri-modal and platform-specific field; top-three picks carry their variants
+export function hookTable(source: ExportSource): CsvCell[][] {
+  const lines: CsvCell[][] = [HOOK_COLUMNS];
+  for (const { generation, row } of source.items) {
+    const topThree = generation.topThreeVariants ?? [];
+    generation.hooks.forEach((hook, index) => {
+      const pick = topThree.findIndex(variant => variant.verbalHook === hook.verbalHook);
+      const variant = pick >= 0 ? topThree[pick] : undefined;
+      lines.push([
+        row,
+        generation.topic,
+        generation.platform,
+        generation.objective,
+        generation.locale,
+        index + 1,
+        pick >= 0 ? pick + 1 : "",
+        hook.verbalHook,
+        hook.visualHook,
+        hook.textualHook,
+        variant?.variants.join(" | "),
+        hook.framework,
+        hook.hookCategory,
+        hook.formulaId,
+        hook.psychologicalDriver,
+        hook.riskFactor,
+        hook.score,
+        hook.wordCount,
+        hook.rationale,
+        hook.platformNotes,
+        hook.platformSpecific?.tiktokColdOpen,
+        hook.platformSpecific?.instagramOverlay,
+        hook.platformSpecific?.youtubeProofCue,
+        hook.platformSpecific?.linkedinFoldLine,
+        hook.platformSpecific?.twitterPost,
+        variant?.reHookStrategy
+      ]);
+    });
+  }
+  return lines;
+}
+
+// The top three picks of each generation, as they were ranked
+export function topThreeTable(source: ExportSource): CsvCell[][] {
+  const lines: CsvCell[][] = [TOP_THREE_COLUMNS];
+  for (const { generation, row } of source.items) {
+    (generation.topThreeVariants ?? []).forEach((variant, index) => {
+      lines.push([
+        row,
+        generation.topic,
+        generation.platform,
+        index + 1,
+        variant.verbalHook,
+        variant.visualHook,
+        variant.textualHook,
+        variant.variants.join(" | "),
+        variant.framework,
+        variant.psychologicalDriver,
+        variant.score,
+        variant.scoreBreakdown,
+        variant.reHookStrategy
+      ]);
+    });
+  }
+  return lines;
+}
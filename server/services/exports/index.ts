@@ -0,0 +1,105 @@
+import { storage, isPooledWorkspace } from "../../storage";
+import { csvExport } from "./csv";
+import { xlsxExport } from "./xlsx";
+import { jsonExport } from "./json";
+import { markdownExport } from "./markdown";
+import { srtExport, vttExport } from "./captions";
+import type { ExportFormat, HookGeneration } from "@shared/schema";
+
+// Plan limits (SUBSCRIPTION_PLANS[plan].limits) an export format can require
+export type ExportPlanFeature = "exports" | "sheetsExport" | "coldOpenExports";
+
+export interface ExportItem {
+  generation: HookGeneration;
+  row?: number; // Position in the batch, for batch exports
+}
+
+export interface ExportSource {
+  title: string; // The generation's topic or the batch's name
+  items: ExportItem[];
+  hookIndex?: number; // Hook to caption; captions default to the top pick
+}
+
+export interface ExportFormatPlugin {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  contentType: string;
+  feature: ExportPlanFeature;
+  singleGeneration?: boolean; // Only makes sense for one video
+  render(source: ExportSource): string | Buffer;
+}
+
+export const EXPORT_PLUGINS: Record<ExportFormat, ExportFormatPlugin> = {
+  csv: csvExport,
+  xlsx: xlsxExport,
+  json: jsonExport,
+  markdown: markdownExport,
+  srt: srtExport,
+  vtt: vttExport
+};
+
+const FEATURE_NAMES: Record<ExportPlanFeature, string> = {
+  exports: "Exports",
+  sheetsExport: "Sheets/CSV export",
+  coldOpenExports: "Cold-open exports"
+};
+
+// Carries the HTTP status and JSON body the route should answer with
+export class ExportError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>) {
+    super(typeof body["message"] === "string" ? body["message"] : "Export failed");
+    this.name = "ExportError";
+  }
+}
+
+// Every format with whether the user's plan - the workspace owner's for pooled Teams members - includes it
+export async function getExportFormats(userId: string): Promise<{ format: ExportFormat; label: string; allowed: boolean; singleGeneration: boolean }[]> {
+  const limits = await getPlanLimits(userId);
+  return Object.values(EXPORT_PLUGINS).map(plugin => ({
+    format: plugin.format,
+    label: plugin.label,
+    allowed: isFeatureIncluded(limits, plugin.feature),
+    singleGeneration: !!plugin.singleGeneration
+  }));
+}
+
+/**
+ * Render an export once the user's plan is checked. Throws ExportError with 403 when the plan
+ * doesn't include the format, or 400 when a single-video format is asked for a batch.
+ */
+export async function renderExport(userId: string, format: ExportFormat, source: ExportSource): Promise<{ body: string | Buffer; contentType: string; filename: string }> {
+  const plugin = EXPORT_PLUGINS[format];
+  const limits = await getPlanLimits(userId);
+  if (!isFeatureIncluded(limits, plugin.feature)) {
+    throw new ExportError(403, {
+      message: `${plugin.label} export needs a plan with ${FEATURE_NAMES[plugin.feature]}`,
+      feature: plugin.feature,
+      upgradeRequired: true
+    });
+  }
+  if (plugin.singleGeneration && source.items.length !== 1) {
+    throw new ExportError(400, { message: `${plugin.label} is made for one video - export it from a single generation` });
+  }
+
+  const slug = source.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "hooks";
+  return {
+    body: plugin.render(source),
+    contentType: plugin.contentType,
+    filename: `${slug}.${plugin.extension}`
+  };
+}
+
+function isFeatureIncluded(limits: Record<string, unknown> | undefined, feature: ExportPlanFeature): boolean {
+  return limits?.["exports"] === true && limits[feature] === true;
+}
+
+async function getPlanLimits(userId: string): Promise<Record<string, unknown> | undefined> {
+  const [user, membership] = await Promise.all([
+    storage.getUser(userId),
+    storage.getWorkspaceMembership(userId)
+  ]);
+  const plan = (isPooledWorkspace(membership) ? membership.owner.subscriptionPlan : user?.subscriptionPlan) || "free";
+  const { SUBSCRIPTION_PLANS } = await import("../stripe");
+  return SUBSCRIPTION_PLANS[plan.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS]?.limits;
+}
@@ -0,0 +1,27 @@
+import type { ExportFormatPlugin } from "./index";
+
+// Every generation as stored, for scripts and other tools
+export const jsonExport: ExportFormatPlugin = {
+  format: "json",
+  label: "JSON",
+  extension: "json",
+  contentType: "application/json; charset=utf-8",
+  feature: "exports",
+  render: (source) => JSON.stringify({
+    title: source.title,
+    exportedAt: new Date().toISOString(),
+    generations: source.items.map(({ generation, row }) => ({
+      ...(row !== undefined ? { row } : {}),
+      id: generation.id,
+      topic: generation.topic,
+      platform: generation.platform,
+      objective: generation.objective,
+      locale: generation.locale,
+      modelType: generation.modelType,
+      taxonomyVersion: generation.taxonomyVersion,
+      createdAt: generation.createdAt,
+      hooks: generation.hooks,
+      topThreeVariants: generation.topThreeVariants ?? []
+    }))
+  }, null, 2)
+};
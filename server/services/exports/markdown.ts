@@ -0,0 +1,67 @@
+import type { ExportFormatPlugin, ExportSource } from "./index";
+
+const PLATFORM_NAMES: Record<string, string> = {
+  tiktok: "TikTok",
+  instagram: "Instagram",
+  youtube: "YouTube",
+  linkedin: "LinkedIn",
+  twitter: "X / Twitter"
+};
+
+// Pipes and line breaks would break a table row
+const cell = (value: string | number | undefined) => String(value ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+function renderBrief(source: ExportSource): string {
+  const sections = source.items.map(({ generation, row }) => {
+    const topThree = generation.topThreeVariants ?? [];
+    const lines = [
+      `## ${row !== undefined ? `${row}. ` : ""}${generation.topic}`,
+      "",
+      `**Platform:** ${PLATFORM_NAMES[generation.platform] ?? generation.platform} · **Objective:** ${generation.objective.replace(/_/g, " ")} · **Language:** ${generation.locale}`,
+      ""
+    ];
+
+    if (topThree.length > 0) {
+      lines.push("### Top picks", "");
+      topThree.forEach((variant, index) => {
+        lines.push(`${index + 1}. **"${variant.verbalHook}"** - ${variant.framework}, score ${variant.score}`);
+        if (variant.visualHook) lines.push(`   - **Visual:** ${variant.visualHook}`);
+        if (variant.textualHook) lines.push(`   - **On screen:** "${variant.textualHook}"`);
+        if (variant.variants.length > 0) lines.push(`   - **Variants:** ${variant.variants.map(text => `"${text}"`).join(" / ")}`);
+        if (variant.reHookStrategy) lines.push(`   - **Re-hook:** ${variant.reHookStrategy}`);
+        lines.push(`   - **Why it works:** ${variant.scoreBreakdown}`);
+      });
+      lines.push("");
+    }
+
+    lines.push(
+      "### All hooks",
+      "",
+      "| # | Hook | Visual | On screen | Framework | Score |",
+      "|---|------|--------|-----------|-----------|-------|",
+      ...generation.hooks.map((hook, index) =>
+        `| ${index + 1} | ${cell(hook.verbalHook)} | ${cell(hook.visualHook)} | ${cell(hook.textualHook)} | ${cell(hook.framework)} | ${cell(hook.score)} |`
+      )
+    );
+    return lines.join("\n");
+  });
+
+  return [
+    `# Creative brief: ${source.title}`,
+    "",
+    `_${source.items.length} video${source.items.length === 1 ? "" : "s"} · exported ${new Date().toISOString().slice(0, 10)}_`,
+    "",
+    sections.join("\n\n---\n\n"),
+    ""
+  ].join("\n");
+}
+
+// A creative brief that pastes or imports cleanly into Notion, Google Docs and similar editors
+export const markdownExport: ExportFormatPlugin = {
+  format: "markdown",
+  label: "Markdown brief",
+  extension: "md",
+  contentType: "text/markdown; charset=utf-8",
+  feature: "exports",
+  render: renderBrief
+};
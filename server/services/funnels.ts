@@ -0,0 +1,373 @@
+import { storage } from "../storage";
+import type { analyticsEvents, funnelEvents, ConversionFunnel, CreateConversionFunnel, UpdateConversionFunnel } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60_000;
+const INGESTION_LAG_MS = 5_000; // Events still being inserted when a run starts are left for the next one
+const SESSION_BATCH_SIZE = 200;
+const MAX_BATCHES_PER_RUN = 25; // A new funnel backfills over several runs instead of holding one long pass
+const ABANDON_AFTER_MS = 30 * 60 * 1000; // A session idle this long has abandoned the funnel at its furthest step
+const DEFAULT_REPORT_DAYS = 30;
+
+export const FUNNEL_DIMENSIONS = ["device", "platform", "referrer"] as const;
+export type FunnelDimension = typeof FUNNEL_DIMENSIONS[number];
+
+// Which event property the detail in "eventType:detail" is matched against; a detail starting with "/" is always a page path
+const DETAIL_PROPERTIES: Record<string, string> = {
+  funnel_step: "stepName",
+  cta_click: "ctaId",
+  cta_view: "ctaId",
+  ab_test_exposure: "testId",
+  trust_signal_view: "signalType",
+  urgency_indicator_view: "indicatorType",
+  error: "errorType",
+  performance: "metricName"
+};
+
+type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+type FunnelStep = ConversionFunnel["steps"][number];
+
+export interface FunnelStepReport {
+  stepIndex: number;
+  stepName: string;
+  requiredEvent: string;
+  optional: boolean;
+  sessions: number;
+  conversionRate: number; // Of the sessions that entered the funnel
+  stepConversionRate: number | null; // Of the sessions that reached the previous required step; null for the first step
+  dropOff: number; // Sessions that reached the previous required step but not this one
+  abandoned: number; // Sessions that went idle with this as their furthest step
+  medianTimeFromPreviousMs: number | null;
+}
+
+export interface FunnelBreakdownRow {
+  value: string;
+  entered: number;
+  completed: number;
+  conversionRate: number;
+  steps: number[]; // Sessions reaching each step, by step index
+}
+
+export interface FunnelReport {
+  funnelId: string;
+  funnelName: string;
+  from: Date;
+  to: Date;
+  processedThrough: Date | null; // Events received after this aren't in the report yet
+  entered: number;
+  completed: number; // Sessions that reached the last required step
+  conversionRate: number;
+  steps: FunnelStepReport[];
+  breakdown: Record<FunnelDimension, FunnelBreakdownRow[]>;
+}
+
+export interface FunnelProcessor {
+  stop(): Promise<void>;
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class FunnelError extends Error {
+  constructor(public status: number, public body: { message: string }) {
+    super(body.message);
+    this.name = "FunnelError";
+  }
+}
+
+export async function createConversionFunnel(input: CreateConversionFunnel, createdBy: string): Promise<ConversionFunnel> {
+  return storage.createConversionFunnel({
+    funnelName: input.funnelName,
+    funnelDescription: input.funnelDescription ?? null,
+    steps: withStepIndexes(input.steps),
+    isActive: input.isActive,
+    createdBy
+  });
+}
+
+// Changing the steps clears the watermark, so the processor rebuilds the funnel's sessions from all stored events
+export async function updateConversionFunnel(id: string, changes: UpdateConversionFunnel): Promise<ConversionFunnel> {
+  const funnel = await storage.getConversionFunnel(id);
+  if (!funnel) {
+    throw new FunnelError(404, { message: "Funnel not found" });
+  }
+  const { steps, ...rest } = changes;
+  const updated = await storage.updateConversionFunnel(id, {
+    ...withoutUndefined(rest),
+    ...(steps ? { steps: withStepIndexes(steps), processedThrough: null } : {})
+  });
+  return updated!;
+}
+
+/**
+ * Poll active funnels and map newly received analytics_events onto their steps until stopped.
+ * Each run rebuilds the funnel_events of every session with new events since the funnel's watermark,
+ * then flags the sessions that have gone idle short of the end as abandoned.
+ */
+export function startFunnelProcessor(): FunnelProcessor {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let polling: Promise<void> = Promise.resolve();
+
+  const poll = async () => {
+    try {
+      const funnels = (await storage.getConversionFunnels()).filter(funnel => funnel.isActive);
+      for (const funnel of funnels) {
+        if (stopped) break;
+        await processConversionFunnel(funnel, new Date()).catch(error => console.error(`Funnel ${funnel.id} could not be processed:`, error));
+      }
+    } catch (error) {
+      console.error("Funnel processor poll failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(() => { polling = poll(); }, POLL_INTERVAL_MS);
+    }
+  };
+
+  polling = poll();
+  console.log("Funnel processor started");
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      await polling;
+      console.log("Funnel processor stopped");
+    }
+  };
+}
+
+// One processing run for one funnel; returns how many sessions were rebuilt
+export async function processConversionFunnel(funnel: ConversionFunnel, now: Date): Promise<number> {
+  const matchers = funnel.steps.map(step => stepMatcher(step.requiredEvent));
+  const eventTypes = Array.from(new Set(matchers.map(matcher => matcher.eventType)));
+  const until = new Date(now.getTime() - INGESTION_LAG_MS);
+
+  let watermark = funnel.processedThrough;
+  let processed = 0;
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const sessions = await storage.getSessionsWithNewAnalyticsEvents(eventTypes, watermark, until, SESSION_BATCH_SIZE);
+    const exhausted = sessions.length < SESSION_BATCH_SIZE;
+    // The next page starts after the last session's timestamp, so sessions sharing it are left to that page
+    const lastReceivedAt = sessions[sessions.length - 1]?.lastReceivedAt.getTime();
+    const page = exhausted ? sessions : sessions.filter(session => session.lastReceivedAt.getTime() < lastReceivedAt!);
+    const current = page.length > 0 ? page : sessions;
+
+    if (current.length > 0) {
+      const sessionIds = current.map(session => session.sessionId);
+      const bySession = new Map<string, AnalyticsEvent[]>();
+      for (const event of await storage.getAnalyticsEventsForSessions(sessionIds, eventTypes)) {
+        const sessionEvents = bySession.get(event.sessionId);
+        if (sessionEvents) {
+          sessionEvents.push(event);
+        } else {
+          bySession.set(event.sessionId, [event]);
+        }
+      }
+      const rows = sessionIds.flatMap(sessionId => mapSessionToSteps(funnel.steps, matchers, sessionId, bySession.get(sessionId) ?? []));
+      await storage.replaceFunnelEvents(funnel.id, sessionIds, rows);
+      processed += sessionIds.length;
+    }
+
+    watermark = exhausted ? until : current[current.length - 1]!.lastReceivedAt;
+    if (!await storage.setFunnelProcessedThrough(funnel.id, watermark, funnel.updatedAt)) {
+      // Edited mid-run - the next run starts over with the new steps
+      return processed;
+    }
+    if (exhausted) break;
+  }
+
+  await storage.markAbandonedFunnelSessions(funnel.id, new Date(now.getTime() - ABANDON_AFTER_MS));
+  return processed;
+}
+
+/**
+ * Per-step conversion and drop-off for the sessions that entered the funnel between from and to
+ * (the last 30 days by default), with the median time from the previous step and the same counts
+ * broken down by device, operating system and referrer.
+ */
+export async function getFunnelReport(funnel: ConversionFunnel, range: { from?: Date | undefined; to?: Date | undefined }): Promise<FunnelReport> {
+  const to = range.to ?? new Date();
+  const from = range.from ?? new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+
+  const [stats, ...breakdowns] = await Promise.all([
+    storage.getFunnelStepStats(funnel.id, from, to),
+    ...FUNNEL_DIMENSIONS.map(dimension => storage.getFunnelStepBreakdown(funnel.id, dimension, from, to))
+  ]);
+  const byStep = new Map(stats.map(row => [row.stepIndex, row]));
+  const lastRequired = lastRequiredStepIndex(funnel.steps);
+  const entered = byStep.get(0)?.sessions ?? 0;
+  const completed = byStep.get(lastRequired)?.sessions ?? 0;
+
+  let previousRequired: number | null = null;
+  const steps = funnel.steps.map((step): FunnelStepReport => {
+    const row = byStep.get(step.stepIndex);
+    const sessions = row?.sessions ?? 0;
+    const previous = previousRequired;
+    if (!step.optional) {
+      previousRequired = sessions;
+    }
+    return {
+      stepIndex: step.stepIndex,
+      stepName: step.stepName,
+      requiredEvent: step.requiredEvent,
+      optional: step.optional,
+      sessions,
+      conversionRate: rate(sessions, entered),
+      stepConversionRate: previous === null ? null : rate(sessions, previous),
+      dropOff: previous === null ? 0 : Math.max(previous - sessions, 0),
+      abandoned: row?.abandoned ?? 0,
+      medianTimeFromPreviousMs: row?.medianTimeFromPrevious === null || row?.medianTimeFromPrevious === undefined ? null : Math.round(row.medianTimeFromPrevious)
+    };
+  });
+
+  const breakdown = Object.fromEntries(FUNNEL_DIMENSIONS.map((dimension, index) => {
+    const values = new Map<string, number[]>();
+    for (const row of breakdowns[index]!) {
+      const counts = values.get(row.value) ?? funnel.steps.map(() => 0);
+      counts[row.stepIndex] = row.sessions;
+      values.set(row.value, counts);
+    }
+    const rows = Array.from(values, ([value, counts]): FunnelBreakdownRow => ({
+      value,
+      entered: counts[0] ?? 0,
+      completed: counts[lastRequired] ?? 0,
+      conversionRate: rate(counts[lastRequired] ?? 0, counts[0] ?? 0),
+      steps: counts
+    }));
+    return [dimension, rows.sort((a, b) => b.entered - a.entered)];
+  })) as Record<FunnelDimension, FunnelBreakdownRow[]>;
+
+  return {
+    funnelId: funnel.id,
+    funnelName: funnel.funnelName,
+    from,
+    to,
+    processedThrough: funnel.processedThrough,
+    entered,
+    completed,
+    conversionRate: rate(completed, entered),
+    steps,
+    breakdown
+  };
+}
+
+/**
+ * Walk a session's events in time order, taking each step at its first match after the previous step.
+ * A required step the session never reached ends its progress; an optional one is skipped when it's missing
+ * or only happened after the step that follows it.
+ */
+function mapSessionToSteps(
+  steps: FunnelStep[],
+  matchers: StepMatcher[],
+  sessionId: string,
+  events: AnalyticsEvent[]
+): Omit<typeof funnelEvents.$inferInsert, "id" | "funnelId">[] {
+  const reached: { step: FunnelStep; event: AnalyticsEvent }[] = [];
+  let cursor = 0;
+  for (let index = 0; index < steps.length; index++) {
+    const at = events.findIndex((event, position) => position >= cursor && matchers[index]!.matches(event));
+    if (steps[index]!.optional) {
+      const next = matchers[index + 1];
+      const nextAt = next ? events.findIndex((event, position) => position >= cursor && next.matches(event)) : -1;
+      if (at === -1 || (nextAt !== -1 && nextAt < at)) continue;
+    } else if (at === -1) {
+      break;
+    }
+    reached.push({ step: steps[index]!, event: events[at]! });
+    cursor = at + 1;
+  }
+
+  if (reached.length === 0) {
+    return [];
+  }
+  const dimensions = sessionDimensions(reached[0]!.event);
+  const userId = events.reduce<string | null>((found, event) => event.userId ?? found, null); // The latest, once the visitor signs in
+  const lastRequired = lastRequiredStepIndex(steps);
+  const completed = reached.some(({ step }) => step.stepIndex === lastRequired);
+
+  return reached.map(({ step, event }, position) => {
+    const previous = reached[position - 1];
+    const reachedAt = event.createdAt ?? new Date();
+    return {
+      sessionId,
+      userId,
+      stepIndex: step.stepIndex,
+      stepName: step.stepName,
+      previousStep: previous?.step.stepName ?? null,
+      timeFromPrevious: previous ? Math.max(reachedAt.getTime() - (previous.event.createdAt ?? reachedAt).getTime(), 0) : null,
+      abandoned: false,
+      completed: completed && position === reached.length - 1,
+      eventData: dimensions,
+      createdAt: reachedAt
+    };
+  });
+}
+
+interface StepMatcher {
+  eventType: string;
+  matches(event: AnalyticsEvent): boolean;
+}
+
+// "eventType" matches any event of the type; "eventType:detail" narrows it to a step name, CTA ID, test ID or page path
+function stepMatcher(requiredEvent: string): StepMatcher {
+  const separator = requiredEvent.indexOf(":");
+  const eventType = separator === -1 ? requiredEvent : requiredEvent.slice(0, separator);
+  const detail = separator === -1 ? null : requiredEvent.slice(separator + 1);
+  const property = DETAIL_PROPERTIES[eventType];
+
+  return {
+    eventType,
+    matches(event) {
+      if (event.eventType !== eventType) return false;
+      if (detail === null) return true;
+      if (detail.startsWith("/")) return event.pageInfo.path === detail;
+      const properties: Record<string, unknown> = event.eventData.metadata ?? {};
+      return property !== undefined && properties[property] === detail;
+    }
+  };
+}
+
+// Attributes of the event that brought the session into the funnel, used for the report's breakdowns
+function sessionDimensions(entry: AnalyticsEvent): Record<FunnelDimension, string> {
+  return {
+    device: entry.deviceInfo.platform,
+    platform: operatingSystem(entry.deviceInfo.userAgent),
+    referrer: referrerHost(entry.pageInfo.referrer, entry.pageInfo.url)
+  };
+}
+
+function operatingSystem(userAgent: string): string {
+  if (/iphone|ipad|ipod/i.test(userAgent)) return "ios";
+  if (/android/i.test(userAgent)) return "android";
+  if (/windows/i.test(userAgent)) return "windows";
+  if (/cros/i.test(userAgent)) return "chromeos";
+  if (/mac os|macintosh/i.test(userAgent)) return "macos";
+  if (/linux/i.test(userAgent)) return "linux";
+  return "other";
+}
+
+// The referring host without "www.", "internal" for our own pages, or "direct"
+function referrerHost(referrer: string, pageUrl: string): string {
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, "");
+    return host === new URL(pageUrl).hostname.replace(/^www\./, "") ? "internal" : host || "direct";
+  } catch {
+    return "direct";
+  }
+}
+
+function lastRequiredStepIndex(steps: FunnelStep[]): number {
+  return steps.reduce((last, step) => step.optional ? last : step.stepIndex, 0);
+}
+
+function withStepIndexes(steps: CreateConversionFunnel["steps"]): ConversionFunnel["steps"] {
+  return steps.map((step, stepIndex) => ({ stepIndex, ...step }));
+}
+
+function withoutUndefined<T extends object>(value: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
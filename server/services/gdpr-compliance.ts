@@ -1,3 +1,4 @@
+import type { PoolClient } from 'pg';
 import { pool } from '../db';
 import { getEnv } from '../config/env-validation';
 import { logger } from '../config/logger';
@@ -53,11 +54,15 @@ export class GDPRComplianceService {
         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
         ON CONFLICT (session_id) 
         DO UPDATE SET 
+          user_id = COALESCE(EXCLUDED.user_id, user_consent.user_id),
           analytics_consent = EXCLUDED.analytics_consent,
           marketing_consent = EXCLUDED.marketing_consent,
           personalization_consent = EXCLUDED.personalization_consent,
           consent_version = EXCLUDED.consent_version,
           consent_method = EXCLUDED.consent_method,
+          ip_address = EXCLUDED.ip_address,
+          user_agent = EXCLUDED.user_agent,
+          withdrawn_at = NULL,
           updated_at = NOW()
       `;
 
@@ -111,9 +116,9 @@ export class GDPRComplianceService {
   }
 
   /**
-   * Withdraw user consent
+   * Withdraw user consent - for one session, or with a null session ID for every record of the user
    */
-  public async withdrawConsent(sessionId: string, userId?: string): Promise<void> {
+  public async withdrawConsent(sessionId: string | null, userId?: string): Promise<void> {
     try {
       const query = `
         UPDATE user_consent 
@@ -150,8 +155,26 @@ export class GDPRComplianceService {
   public async exportUserData(userId: string): Promise<any> {
     try {
       const userDataQueries = {
-        // User profile data
-        profile: `SELECT * FROM users WHERE id = $1`,
+        // User profile data - everything but the password hash
+        profile: `
+          SELECT id, email, firebase_uid, first_name, last_name, email_verified, profile_image_url,
+                 company, industry, role, audience, voice, banned_terms, safety,
+                 free_credits, used_credits, is_premium, stripe_customer_id, subscription_status,
+                 subscription_plan, current_period_end, cancel_at_period_end, overage_enabled,
+                 overage_cap_cents, active_brand_id, created_at, updated_at
+          FROM users WHERE id = $1
+        `,
+
+        // Brand profiles
+        brands: `SELECT * FROM brand_profiles WHERE user_id = $1 ORDER BY created_at`,
+
+        // Team workspace membership
+        workspaces: `
+          SELECT w.id AS workspace_id, w.name, wm.role, (w.owner_id = wm.user_id) AS is_owner, wm.created_at AS joined_at
+          FROM workspace_members wm
+          JOIN workspaces w ON wm.workspace_id = w.id
+          WHERE wm.user_id = $1
+        `,
         
         // Analytics events
         analytics: `
@@ -163,7 +186,7 @@ export class GDPRComplianceService {
         
         // Hook generations
         hooks: `
-          SELECT platform, objective, topic, model_type, hooks, created_at
+          SELECT id, platform, objective, topic, locale, model_type, hooks, created_at
           FROM hook_generations 
           WHERE user_id = $1 
           ORDER BY created_at DESC
@@ -177,6 +200,26 @@ export class GDPRComplianceService {
           ORDER BY created_at DESC
         `,
         
+        // Post performance recorded against generated hooks
+        outcomes: `SELECT * FROM hook_outcomes WHERE user_id = $1 ORDER BY created_at DESC`,
+
+        // Scripts built from hooks, every saved version
+        scripts: `SELECT * FROM hook_scripts WHERE user_id = $1 ORDER BY created_at DESC`,
+
+        // Batch generation uploads
+        batches: `SELECT * FROM generation_batches WHERE user_id = $1 ORDER BY created_at DESC`,
+
+        // Recent hooks kept for novelty checks
+        recentHooks: `SELECT hook, created_at FROM user_recent_hooks WHERE user_id = $1 ORDER BY created_at DESC`,
+
+        // Generation usage ledger
+        usage: `
+          SELECT model_type, status, quantity, overage, generation_id, refund_reason, created_at, resolved_at
+          FROM usage_events
+          WHERE user_id = $1
+          ORDER BY created_at DESC
+        `,
+
         // A/B test participation
         abTests: `
           SELECT atp.test_id, atp.variant_id, atp.exposure_time, atp.converted, 
@@ -187,6 +230,23 @@ export class GDPRComplianceService {
           ORDER BY atp.exposure_time DESC
         `,
         
+        // Conversion funnel steps reached
+        funnels: `
+          SELECT cf.funnel_name, fe.step_index, fe.step_name, fe.completed, fe.abandoned, fe.created_at
+          FROM funnel_events fe
+          JOIN conversion_funnels cf ON fe.funnel_id = cf.id
+          WHERE fe.user_id = $1
+          ORDER BY fe.created_at DESC
+        `,
+
+        // Privacy requests
+        privacyRequests: `
+          SELECT type, status, details, scheduled_for, completed_at, created_at
+          FROM privacy_requests
+          WHERE user_id = $1
+          ORDER BY created_at DESC
+        `,
+
         // Consent history
         consents: `
           SELECT analytics_consent, marketing_consent, personalization_consent,
@@ -226,12 +286,14 @@ export class GDPRComplianceService {
    * Delete all user data (GDPR Article 17 - Right to Erasure)
    */
   public async deleteUserData(userId: string, keepMinimalData: boolean = false): Promise<void> {
+    // BEGIN and COMMIT only make a transaction on one connection
+    const client = await pool.connect();
     try {
-      await pool.query('BEGIN');
+      await client.query('BEGIN');
 
       if (keepMinimalData) {
         // Anonymize instead of delete (for statistical purposes)
-        await this.anonymizeUserData(userId);
+        await this.anonymizeUserData(client, userId);
       } else {
         // Complete deletion
         const deleteQueries = [
@@ -246,25 +308,27 @@ export class GDPRComplianceService {
         ];
 
         for (const query of deleteQueries) {
-          await pool.query(query, [userId]);
+          await client.query(query, [userId]);
         }
       }
 
-      await pool.query('COMMIT');
+      await client.query('COMMIT');
       
       logger.info('User data deleted', { userId, keepMinimalData });
 
     } catch (error) {
-      await pool.query('ROLLBACK');
+      await client.query('ROLLBACK');
       logger.error('Error deleting user data:', error);
       throw error;
+    } finally {
+      client.release();
     }
   }
 
   /**
    * Anonymize user data while preserving statistical value
    */
-  private async anonymizeUserData(userId: string): Promise<void> {
+  private async anonymizeUserData(client: PoolClient, userId: string): Promise<void> {
     try {
       const anonymizeQueries = [
         // Anonymize user profile
@@ -296,7 +360,7 @@ export class GDPRComplianceService {
       ];
 
       for (const query of anonymizeQueries) {
-        await pool.query(query, [userId]);
+        await client.query(query, [userId]);
       }
 
     } catch (error) {
@@ -308,7 +372,7 @@ export class GDPRComplianceService {
   /**
    * Anonymize IP address for privacy compliance
    */
-  private anonymizeIP(ipAddress?: string): string | null {
+  public anonymizeIP(ipAddress?: string): string | null {
     if (!ipAddress) return null;
 
     // IPv4 anonymization - remove last octet
@@ -384,7 +448,9 @@ export class GDPRComplianceService {
         totalConsents: 'SELECT COUNT(*) FROM user_consent',
         explicitConsents: "SELECT COUNT(*) FROM user_consent WHERE consent_method = 'explicit'",
         withdrawnConsents: 'SELECT COUNT(*) FROM user_consent WHERE withdrawn_at IS NOT NULL',
-        anonymizedRecords: 'SELECT COUNT(*) FROM analytics_events WHERE user_id IS NULL'
+        anonymizedRecords: 'SELECT COUNT(*) FROM analytics_events WHERE user_id IS NULL',
+        dataExportRequests: "SELECT COUNT(*) FROM privacy_requests WHERE type = 'export'",
+        dataDeletionRequests: "SELECT COUNT(*) FROM privacy_requests WHERE type = 'deletion' AND status <> 'cancelled'"
       };
 
       const metrics: Partial<PrivacyMetrics> = {};
@@ -398,8 +464,8 @@ export class GDPRComplianceService {
         totalConsents: metrics.totalConsents || 0,
         explicitConsents: metrics.explicitConsents || 0,
         withdrawnConsents: metrics.withdrawnConsents || 0,
-        dataExportRequests: 0, // TODO: Implement export request tracking
-        dataDeletionRequests: 0, // TODO: Implement deletion request tracking
+        dataExportRequests: metrics.dataExportRequests || 0,
+        dataDeletionRequests: metrics.dataDeletionRequests || 0,
         anonymizedRecords: metrics.anonymizedRecords || 0
       };
 
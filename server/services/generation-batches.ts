@@ -0,0 +1,215 @@
+import { storage } from "../storage";
+import { prepareHookGeneration, HookGenerationError } from "./hook-generation";
+import { enqueueHookGeneration } from "./generation-jobs";
+import { parseCsv } from "./csv";
+import {
+  GENERATION_BATCH_MAX_ROWS,
+  GENERATION_OBJECTIVES,
+  GENERATION_PLATFORMS,
+  type BrandProfile,
+  type CreateGenerationBatch,
+  type GenerationBatch,
+  type GenerationBatchRow,
+  type GenerationJob,
+  type GenerationJobStatus,
+  type GenerationObjective,
+  type GenerationPlatform
+} from "@shared/schema";
+
+const MAX_TOPIC_LENGTH = 500;
+const CSV_COLUMNS = ["topic", "platform", "objective", "brand"] as const;
+const PLATFORM_ALIASES: Record<string, GenerationPlatform> = { x: "twitter" };
+
+type ParsedBatchRow = Omit<GenerationBatchRow, "jobId" | "error">;
+
+export interface GenerationBatchRowStatus extends GenerationBatchRow {
+  row: number; // 1-based, in the order submitted
+  status: GenerationJobStatus | "rejected";
+  attempts: number;
+  generationId: string | null;
+}
+
+export interface GenerationBatchSummary {
+  id: string;
+  name: string;
+  source: string;
+  locale: string | null;
+  createdAt: Date;
+  status: "running" | "completed";
+  counts: Record<GenerationBatchRowStatus["status"], number>;
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class GenerationBatchError extends Error {
+  constructor(public status: number, public body: { message: string; errors?: { field: string; message: string }[] }) {
+    super(body.message);
+    this.name = "GenerationBatchError";
+  }
+}
+
+/**
+ * Read the submitted topics. A CSV may start with a header naming its columns (topic, platform, objective, brand),
+ * otherwise the columns are taken in that order; a pasted list is one topic per line, list markers allowed.
+ * Missing platforms, objectives and brands fall back to the batch's. Brands match by name or ID.
+ */
+export function parseBatchRows(input: CreateGenerationBatch, brands: BrandProfile[]): { rows: ParsedBatchRow[]; errors: { field: string; message: string }[] } {
+  const rows: ParsedBatchRow[] = [];
+  const errors: { field: string; message: string }[] = [];
+
+  let records: { line: number; cells: Partial<Record<typeof CSV_COLUMNS[number], string>> }[];
+  if (input.source === "csv") {
+    const table = parseCsv(input.content);
+    const header = table[0]?.map(cell => cell.trim().toLowerCase());
+    const hasHeader = header?.includes("topic") ?? false;
+    const columns = hasHeader ? header! : [...CSV_COLUMNS];
+    records = table.slice(hasHeader ? 1 : 0).map((cells, index) => ({
+      line: index + (hasHeader ? 2 : 1),
+      cells: Object.fromEntries(CSV_COLUMNS.map(column => [column, cells[columns.indexOf(column)]?.trim() ?? ""]))
+    }));
+  } else {
+    records = input.content.split(/\r?\n/)
+      .map((text, index) => ({ line: index + 1, cells: { topic: text.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim() } }))
+      .filter(record => record.cells.topic);
+  }
+
+  for (const { line, cells } of records) {
+    const field = `row ${line}`;
+    const topic = cells.topic ?? "";
+    if (!topic) {
+      errors.push({ field, message: "Topic is required" });
+      continue;
+    }
+    if (topic.length > MAX_TOPIC_LENGTH) {
+      errors.push({ field, message: `Topic is longer than ${MAX_TOPIC_LENGTH} characters` });
+      continue;
+    }
+
+    const platformValue = cells.platform?.toLowerCase();
+    const platform = platformValue ? PLATFORM_ALIASES[platformValue] ?? platformValue : input.platform;
+    if (!(GENERATION_PLATFORMS as readonly string[]).includes(platform)) {
+      errors.push({ field, message: `Unknown platform "${cells.platform}". Use one of: ${GENERATION_PLATFORMS.join(", ")}` });
+      continue;
+    }
+
+    const objective = cells.objective ? cells.objective.toLowerCase().replace(/[\s-]+/g, "_") : input.objective;
+    if (!(GENERATION_OBJECTIVES as readonly string[]).includes(objective)) {
+      errors.push({ field, message: `Unknown objective "${cells.objective}". Use one of: ${GENERATION_OBJECTIVES.join(", ")}` });
+      continue;
+    }
+
+    let brandId = input.brandId ?? null;
+    if (cells.brand) {
+      const name = cells.brand.toLowerCase();
+      const brand = brands.find(candidate => candidate.id === cells.brand || candidate.name.trim().toLowerCase() === name);
+      if (!brand) {
+        errors.push({ field, message: `No brand profile called "${cells.brand}"` });
+        continue;
+      }
+      brandId = brand.id;
+    }
+
+    rows.push({ topic, platform: platform as GenerationPlatform, objective: objective as GenerationObjective, brandId });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Create a batch and queue one generation job per row. Each row reserves its own quota, in order,
+ * so a batch bigger than the remaining quota queues what fits and records the rest as rejected.
+ * The reservations go on the rows' jobs, so they keep counting against the quota for as long as a row
+ * waits its turn - with BATCH_CONCURRENCY rows running at a time, a large batch takes well past the reservation TTL.
+ * Throws GenerationBatchError for unreadable input, or the quota's HookGenerationError when no row could be queued.
+ */
+export async function createGenerationBatch(userId: string, input: CreateGenerationBatch): Promise<GenerationBatch> {
+  const brands = await storage.getBrandProfilesByUser(userId);
+  if (input.brandId && !brands.some(brand => brand.id === input.brandId)) {
+    throw new GenerationBatchError(404, { message: "Brand profile not found" });
+  }
+
+  const { rows, errors } = parseBatchRows(input, brands);
+  if (errors.length > 0) {
+    throw new GenerationBatchError(400, { message: "Some rows couldn't be read", errors });
+  }
+  if (rows.length === 0) {
+    throw new GenerationBatchError(400, { message: "Add at least one topic" });
+  }
+  if (rows.length > GENERATION_BATCH_MAX_ROWS) {
+    throw new GenerationBatchError(400, { message: `A batch can have at most ${GENERATION_BATCH_MAX_ROWS} topics - this one has ${rows.length}` });
+  }
+
+  const batch = await storage.createGenerationBatch({
+    userId,
+    name: input.name || `${rows.length} topics - ${new Date().toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`,
+    source: input.source,
+    locale: input.locale ?? null,
+    rows: rows.map(row => ({ ...row, jobId: null, error: null }))
+  });
+
+  const queued: GenerationBatchRow[] = [];
+  let quotaError: HookGenerationError | null = null;
+  for (const row of rows) {
+    if (quotaError) {
+      queued.push({ ...row, jobId: null, error: quotaError.message });
+      continue;
+    }
+    try {
+      const prepared = await prepareHookGeneration(userId, {
+        platform: row.platform,
+        objective: row.objective,
+        topic: row.topic,
+        brandId: row.brandId,
+        ...(input.locale ? { locale: input.locale } : {})
+      });
+      const job = await enqueueHookGeneration({ ...prepared, batchId: batch.id });
+      queued.push({ ...row, jobId: job.id, error: null });
+    } catch (error) {
+      if (error instanceof HookGenerationError && error.status === 403) {
+        quotaError = error;
+      } else if (!(error instanceof HookGenerationError)) {
+        console.error(`Failed to queue batch ${batch.id} topic "${row.topic}":`, error);
+      }
+      queued.push({ ...row, jobId: null, error: error instanceof HookGenerationError ? error.message : "Couldn't queue this topic" });
+    }
+  }
+
+  if (!queued.some(row => row.jobId)) {
+    await storage.deleteGenerationBatch(batch.id);
+    throw quotaError ?? new GenerationBatchError(500, { message: "None of the topics could be queued" });
+  }
+
+  const updated = await storage.updateGenerationBatchRows(batch.id, queued);
+  return updated ?? batch;
+}
+
+// Each row with the state of its generation job
+export function getBatchRowStatuses(batch: GenerationBatch, jobs: GenerationJob[]): GenerationBatchRowStatus[] {
+  const jobsById = new Map(jobs.map(job => [job.id, job]));
+  return batch.rows.map((row, index) => {
+    const job = row.jobId ? jobsById.get(row.jobId) : undefined;
+    return {
+      ...row,
+      row: index + 1,
+      status: job ? job.status as GenerationJobStatus : "rejected",
+      attempts: job?.attempts ?? 0,
+      error: row.error ?? job?.error ?? null,
+      generationId: job?.generationId ?? null
+    };
+  });
+}
+
+export function summarizeGenerationBatch(batch: GenerationBatch, rows: GenerationBatchRowStatus[]): GenerationBatchSummary {
+  const counts: GenerationBatchSummary["counts"] = { queued: 0, running: 0, succeeded: 0, failed: 0, rejected: 0 };
+  for (const row of rows) {
+    counts[row.status]++;
+  }
+  return {
+    id: batch.id,
+    name: batch.name,
+    source: batch.source,
+    locale: batch.locale,
+    createdAt: batch.createdAt,
+    status: counts.queued + counts.running > 0 ? "running" : "completed",
+    counts
+  };
+}
@@ -0,0 +1,211 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { storage } from "../storage";
+import { attemptHookGeneration, refundHookGeneration, type PreparedHookGeneration } from "./hook-generation";
+import type { GenerationJob, HookGeneration } from "@shared/schema";
+
+export const MAX_GENERATION_ATTEMPTS = 3;
+const ATTEMPT_TIMEOUT_MS = 120_000; // One attempt, model calls included - retried after this
+const LEASE_MS = 30_000; // A running job whose heartbeat stops for this long is picked up by another worker
+const HEARTBEAT_MS = 10_000;
+const POLL_INTERVAL_MS = 1_000;
+const FOLLOW_INTERVAL_MS = 500; // How often a follower re-reads a job's progress
+const RETRY_DELAYS_MS = [5_000, 30_000]; // Back-off before the second and third attempts
+const BATCH_CONCURRENCY = 2; // Rows of one batch running at once, across all workers
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+export class GenerationJobTimeoutError extends Error {
+  constructor() {
+    super(`Generation attempt timed out after ${ATTEMPT_TIMEOUT_MS / 1000}s`);
+    this.name = "GenerationJobTimeoutError";
+  }
+}
+
+export interface GenerationWorker {
+  stop(): Promise<void>;
+}
+
+export interface GenerationJobFollowCallbacks {
+  onHook?: (hook: HookGeneration["hooks"][number], index: number) => void;
+  onTopThree?: (topThreeVariants: NonNullable<HookGeneration["topThreeVariants"]>) => void;
+}
+
+/**
+ * Queue a prepared generation for the background worker. Its quota reservation stays held (and counted
+ * against the quota however long the job waits) until the job succeeds, or is refunded once the job has failed its last attempt.
+ */
+export async function enqueueHookGeneration(prepared: PreparedHookGeneration): Promise<GenerationJob> {
+  try {
+    return await storage.createGenerationJob({
+      userId: prepared.userId,
+      batchId: prepared.batchId,
+      input: { ...prepared },
+      reservationId: prepared.reservationId,
+      maxAttempts: MAX_GENERATION_ATTEMPTS
+    });
+  } catch (error) {
+    await refundHookGeneration(prepared, "Generation could not be queued");
+    throw error;
+  }
+}
+
+/**
+ * Poll generation_jobs and run up to `concurrency` due jobs at once until stopped. Each attempt holds a lease it renews
+ * while running, so jobs left behind by a crashed or restarted worker are claimed again once their lease runs out.
+ * stop() waits for the attempts in progress to finish.
+ */
+export function startGenerationWorker(concurrency = 1): GenerationWorker {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let polling: Promise<void> = Promise.resolve();
+  const running = new Set<Promise<void>>();
+
+  const poll = async () => {
+    try {
+      await failAbandonedJobs();
+      // Fill the free slots, then wait for the next poll
+      while (!stopped && running.size < concurrency) {
+        const claimToken = `${WORKER_ID}:${randomUUID()}`;
+        const job = await storage.claimGenerationJob(claimToken, LEASE_MS, BATCH_CONCURRENCY);
+        if (!job) break;
+        const run: Promise<void> = runJob(job, claimToken)
+          .catch(error => console.error(`Generation job ${job.id} could not be settled:`, error))
+          .finally(() => running.delete(run));
+        running.add(run);
+      }
+    } catch (error) {
+      console.error("Generation worker poll failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(() => { polling = poll(); }, POLL_INTERVAL_MS);
+    }
+  };
+
+  polling = poll();
+  console.log(`Generation worker ${WORKER_ID} started, running up to ${concurrency} jobs at once`);
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      await polling;
+      await Promise.all(running);
+      console.log(`Generation worker ${WORKER_ID} stopped`);
+    }
+  };
+}
+
+// Run one attempt of a claimed job, then complete it, queue a retry, or fail it for good
+async function runJob(job: GenerationJob, claimToken: string): Promise<void> {
+  const prepared = job.input as unknown as PreparedHookGeneration;
+  console.log(`Running generation job ${job.id} (attempt ${job.attempts} of ${job.maxAttempts})`);
+
+  const controller = new AbortController();
+  let timeout: NodeJS.Timeout | undefined;
+  const heartbeat = setInterval(() => {
+    storage.extendGenerationJobLease(job.id, claimToken, LEASE_MS)
+      .then(held => {
+        if (!held) {
+          controller.abort(); // Another worker took it over - don't save a second generation
+        }
+      })
+      .catch(error => console.error(`Failed to renew lease on generation job ${job.id}:`, error));
+  }, HEARTBEAT_MS);
+
+  // Partial hooks are saved in order, so a slow write never overwrites a later one
+  const hooks: HookGeneration["hooks"] = [];
+  let progress = Promise.resolve();
+  const saveProgress = () => {
+    const snapshot = hooks.filter(Boolean);
+    progress = progress
+      .then(() => storage.updateGenerationJobHooks(job.id, claimToken, snapshot))
+      .catch(error => console.error(`Failed to save progress on generation job ${job.id}:`, error));
+  };
+
+  try {
+    const generation = await Promise.race([
+      attemptHookGeneration(prepared, { jobId: job.id, claimToken }, {
+        onHook: (hook, index) => {
+          hooks[index] = hook;
+          saveProgress();
+        }
+      }, controller.signal),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          controller.abort();
+          reject(new GenerationJobTimeoutError());
+        }, ATTEMPT_TIMEOUT_MS);
+      })
+    ]);
+    await progress;
+    console.log(`Generation job ${job.id} succeeded with generation ${generation.id}`);
+  } catch (error) {
+    await progress;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retryDelay = RETRY_DELAYS_MS[job.attempts - 1];
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + (retryDelay ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1]!)) : null;
+    // Not released when the attempt saved its generation just as it timed out - the job has succeeded after all
+    const released = await storage.releaseGenerationJob(job.id, claimToken, message, retryAt);
+    if (released && !retryAt) {
+      await refundHookGeneration(prepared, message);
+    }
+    console.error(`Generation job ${job.id} attempt ${job.attempts} failed${released ? (retryAt ? ", retrying" : "") : " after it was settled or taken over"}:`, error);
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Follow a job through the progress its worker saves to generation_jobs, whichever process that worker runs in.
+ * Each hook is reported once it's scored, and again if a retry replaces it; once the job succeeds the saved
+ * generation's top three variants are reported and the generation is returned. Rejects with the job's error
+ * once it has failed its last attempt, and stops following when the signal is aborted.
+ */
+export async function followGenerationJob(jobId: string, callbacks: GenerationJobFollowCallbacks = {}, signal?: AbortSignal): Promise<HookGeneration> {
+  const reported: string[] = [];
+
+  while (!signal?.aborted) {
+    const job = await storage.getGenerationJob(jobId);
+    if (!job) {
+      throw new Error("Generation job not found");
+    }
+
+    job.hooks.forEach((hook, index) => {
+      const serialized = JSON.stringify(hook);
+      if (reported[index] !== serialized) {
+        reported[index] = serialized;
+        callbacks.onHook?.(hook, index);
+      }
+    });
+
+    if (job.status === "succeeded") {
+      const generation = job.generationId ? await storage.getHookGeneration(job.generationId) : undefined;
+      if (!generation) {
+        throw new Error("The generation was saved but can no longer be found");
+      }
+      callbacks.onTopThree?.(generation.topThreeVariants ?? []);
+      return generation;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "Failed to generate hooks");
+    }
+
+    await new Promise(resolve => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+  }
+
+  throw new Error("Stopped following the generation job");
+}
+
+// Jobs abandoned on their last attempt can't be retried - fail them and give their quota back
+async function failAbandonedJobs(): Promise<void> {
+  const abandoned = await storage.failAbandonedGenerationJobs();
+  for (const job of abandoned) {
+    const prepared = job.input as unknown as PreparedHookGeneration;
+    await refundHookGeneration(prepared, job.error || "Generation stopped responding");
+    console.warn(`Generation job ${job.id} failed after its worker stopped responding`);
+  }
+}
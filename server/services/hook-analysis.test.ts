@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeSpecificity, analyzePromise, analyzeHook } from "./hook-analysis";
+
+test("numbers and timeframes are found and make a hook more specific", () => {
+  const concrete = analyzeSpecificity("I lost $2,000 of debt in 30 days with one spreadsheet");
+  assert.deepEqual(concrete.numbers, ["$2,000", "30", "one"]);
+  assert.deepEqual(concrete.timelines, ["30 days"]);
+
+  const vague = analyzeSpecificity("How to get out of debt with a spreadsheet");
+  assert.deepEqual(vague.numbers, []);
+  assert.deepEqual(vague.timelines, []);
+  assert.ok(concrete.score > vague.score);
+
+  assert.deepEqual(analyzeSpecificity("Sleep better by Friday, not overnight").timelines, ["by Friday", "overnight"]);
+});
+
+test("named entities skip the sentence's first word and catch acronyms", () => {
+  const analysis = analyzeSpecificity("Why Costco sells rotisserie chicken at a loss. NASA engineers explain");
+  assert.deepEqual(analysis.namedEntities, ["Costco", "NASA"]);
+  assert.ok(!analysis.concreteTerms.includes("costco"));
+
+  assert.deepEqual(analyzeSpecificity("Nobody told me this about sourdough").namedEntities, []);
+});
+
+test("intensifiers and hedges lower specificity", () => {
+  const plain = analyzeSpecificity("This stretch fixes tight hamstrings");
+  const hyped = analyzeSpecificity("This insanely amazing stretch maybe fixes tight hamstrings, kind of");
+  assert.deepEqual(hyped.intensifiers, ["insanely", "amazing"]);
+  assert.deepEqual(hyped.hedges, ["maybe", "kind of"]);
+  assert.ok(hyped.score < plain.score);
+  assert.ok(hyped.score >= 0);
+});
+
+test("a hook that promises more than the outline covers is flagged", () => {
+  const outline = "- Sleep in a cold room\n- No screens after 10pm\n- Same wake-up time every day";
+
+  const overpromise = analyzePromise("7 sleep habits that fix insomnia instantly", "Better sleep habits", outline);
+  assert.equal(overpromise.matches, false);
+  assert.deepEqual(overpromise.issues, [
+    `Promises "instantly", which the topic doesn't back up`,
+    "Promises 7 items but the outline covers 3"
+  ]);
+
+  const fits = analyzePromise("3 sleep habits I wish I'd started sooner", "Better sleep habits", outline);
+  assert.deepEqual(fits.issues, []);
+  assert.equal(fits.matches, true);
+  assert.ok(fits.relevance > 0);
+});
+
+test("figures and timelines must appear in the topic or outline", () => {
+  const claimed = analyzePromise("Double your savings rate in 6 months", "Raising your savings rate");
+  assert.deepEqual(claimed.issues, [`Claims "6 months", which isn't in the topic`]);
+
+  assert.deepEqual(analyzePromise("Double your savings rate in 6 months", "Raising your savings rate over 6 months").issues, []);
+  assert.deepEqual(
+    analyzePromise("Meal prep that keeps your macros on track", "How I plan a week of lunches").issues,
+    ["Talks about something the topic doesn't cover"]
+  );
+});
+
+test("hooks in other languages aren't analyzed", () => {
+  const analysis = analyzeHook("Sieben Fehler beim Kreuzheben", "Kreuzheben lernen", undefined, "de-DE");
+  assert.equal(analysis.specificityScore, null);
+  assert.equal(analysis.promiseContentMatch, null);
+  assert.deepEqual(analysis.promiseIssues, []);
+
+  const english = analyzeHook("7 deadlift mistakes", "Deadlift mistakes", undefined, "en-US");
+  assert.equal(typeof english.specificityScore, "number");
+  assert.equal(english.promiseContentMatch, true);
+});
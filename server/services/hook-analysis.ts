@@ -0,0 +1,256 @@
+import { describeLocale, languageOf } from "./localization";
+
+// Deterministic text analysis of a hook: how concrete its language is and whether the topic backs up its promise.
+// The word lists and patterns are English, so hooks in other languages aren't analyzed (see analyzeHook)
+
+export interface SpecificityAnalysis {
+  score: number; // 0 (vague) to 1 (concrete)
+  numbers: string[];
+  timelines: string[];
+  namedEntities: string[];
+  concreteTerms: string[];
+  intensifiers: string[];
+  hedges: string[];
+}
+
+export interface PromiseAnalysis {
+  matches: boolean; // False when the hook promises something the topic or outline doesn't back up
+  relevance: number; // Share of the hook's content words found in the topic or outline (0-1)
+  issues: string[];
+}
+
+// Analysis as stored on a generated hook - the checks are null where they don't apply
+export interface HookAnalysis {
+  specificityScore: number | null;
+  promiseContentMatch: boolean | null;
+  promiseIssues: string[];
+  summary: string; // For the hook's score breakdown
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "if", "so", "of", "to", "in", "on", "at", "by", "for", "with", "from",
+  "about", "into", "over", "after", "before", "than", "then", "this", "that", "these", "those", "it", "its",
+  "is", "are", "was", "were", "be", "been", "being", "am", "do", "does", "did", "done", "have", "has", "had",
+  "i", "me", "my", "you", "your", "we", "our", "they", "their", "he", "she", "his", "her", "them", "us",
+  "what", "why", "how", "when", "where", "who", "which", "not", "no", "yes", "can", "will", "would", "should",
+  "all", "any", "more", "most", "just", "here", "there", "now", "out", "up", "get", "got", "make", "made"
+]);
+
+// Nouns that sound like a subject but could open a hook about anything
+const GENERIC_NOUNS = new Set([
+  "thing", "things", "stuff", "something", "everything", "anything", "nothing", "way", "ways", "secret",
+  "secrets", "tip", "tips", "trick", "tricks", "hack", "hacks", "mistake", "mistakes", "people", "everyone",
+  "everybody", "nobody", "someone", "life", "result", "results", "success", "lot", "lots", "kind", "type"
+]);
+
+const INTENSIFIERS = new Set([
+  "very", "really", "super", "totally", "literally", "extremely", "absolutely", "insane", "insanely", "crazy",
+  "amazing", "incredible", "unbelievable", "ultimate", "huge", "massive", "epic", "mind-blowing", "game-changing",
+  "game-changer", "perfect", "best", "awesome", "shocking"
+]);
+
+const HEDGES = ["maybe", "might", "could", "perhaps", "possibly", "probably", "kind of", "sort of", "somewhat",
+  "seems", "basically", "arguably", "generally", "usually", "some", "try to", "a bit"];
+
+// Promises that need the content to deliver exactly that
+const ABSOLUTE_CLAIMS = ["guaranteed", "guarantee", "instantly", "overnight", "always", "never fail", "forever",
+  "100%", "everything you need", "once and for all", "in seconds", "effortless", "effortlessly", "no effort"];
+
+const MIN_WORDS_FOR_RELEVANCE = 4;
+
+const TIME_UNITS = "seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?";
+const TIMELINE_PATTERN = new RegExp(
+  `\\b(?:\\d+|one|two|three|four|five|six|seven|eight|nine|ten|twelve|thirty)[\\s-]*(?:${TIME_UNITS})\\b|\\bovernight\\b|\\b(?:this|next|per|a|every) (?:week|month|year|day)\\b|\\bby (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow)\\b`,
+  "gi"
+);
+const NUMBER_PATTERN = /[$£€]?\d[\d,.]*(?:k|m|%|x)?\b|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|twelve|twenty|thirty|fifty|hundred|thousand|million|billion|half|double|triple)\b/gi;
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12
+};
+// "5 ways", "three mistakes": a count of items the content has to list
+const LIST_COUNT_PATTERN = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|twelve)\s+(?:\w+\s+)?(?:ways?|tips?|steps?|mistakes?|reasons?|things?|lessons?|rules?|habits?|tricks?|hacks?|signs?|secrets?|ideas?|tools?|exercises?|foods?|questions?)\b/i;
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? [];
+}
+
+// Crude suffix stripping so "workouts" matches "workout" and "tracking" matches "track"
+function stem(word: string): string {
+  return word
+    .replace(/[’']s$/, "")
+    .replace(/(?:ing|ed|es|s)$/, "")
+    .replace(/(.)\1$/, "$1");
+}
+
+// Hyphenated words are split so "sugar-free" shares "sugar" with the hook
+function contentWords(text: string): string[] {
+  return words(text.replace(/-/g, " ")).filter(word => word.length > 2 && !STOPWORDS.has(word) && !/^\d/.test(word));
+}
+
+function findPhrases(text: string, phrases: string[]): string[] {
+  const lower = text.toLowerCase();
+  return phrases.filter(phrase =>
+    new RegExp(`(?:^|[^\\p{L}])${phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:$|[^\\p{L}])`, "u").test(lower)
+  );
+}
+
+// Capitalised words after the first word of a sentence, and acronyms anywhere
+function findNamedEntities(text: string): string[] {
+  const entities: string[] = [];
+  for (const sentence of text.split(/[.!?:]\s+/)) {
+    const tokens = sentence.trim().split(/\s+/);
+    tokens.forEach((token, i) => {
+      const cleaned = token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+      if (/^[A-Z]{2,}\d*$/.test(cleaned) && cleaned !== "I") {
+        entities.push(cleaned);
+      } else if (i > 0 && /^\p{Lu}\p{Ll}+/u.test(cleaned) && !STOPWORDS.has(cleaned.toLowerCase())) {
+        entities.push(cleaned);
+      }
+    });
+  }
+  return Array.from(new Set(entities));
+}
+
+function countListItems(outline: string): number {
+  const lines = outline.split("\n").map(line => line.trim()).filter(Boolean);
+  const bulleted = lines.filter(line => /^(?:[-*•]|\d+[.)])\s+/.test(line));
+  return bulleted.length > 0 ? bulleted.length : lines.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Specificity from the hook's own wording: numbers, timelines, named entities and concrete terms raise it,
+ * vague intensifiers, hedge words and generic nouns lower it.
+ */
+export function analyzeSpecificity(text: string): SpecificityAnalysis {
+  const timelines = Array.from(text.matchAll(TIMELINE_PATTERN), match => match[0]);
+  const numbers = Array.from(text.matchAll(NUMBER_PATTERN), match => match[0]);
+  const namedEntities = findNamedEntities(text);
+  const allWords = words(text);
+  const intensifiers = allWords.filter(word => INTENSIFIERS.has(word));
+  const hedges = findPhrases(text, HEDGES);
+  const genericNouns = allWords.filter(word => GENERIC_NOUNS.has(word));
+  const entityWords = new Set(namedEntities.map(entity => entity.toLowerCase()));
+  // Without a part-of-speech tagger, content words that aren't generic, intensifiers or hedges stand in for concrete nouns
+  const concreteTerms = Array.from(new Set(contentWords(text).filter(word =>
+    word.length > 3 && !GENERIC_NOUNS.has(word) && !INTENSIFIERS.has(word) && !HEDGES.includes(word) && !entityWords.has(word)
+  )));
+
+  const score = clamp(
+    0.3
+      + (numbers.length > 0 ? 0.2 : 0)
+      + (timelines.length > 0 ? 0.15 : 0)
+      + 0.1 * Math.min(namedEntities.length, 2)
+      + 0.05 * Math.min(concreteTerms.length, 4)
+      - 0.1 * intensifiers.length
+      - 0.1 * hedges.length
+      - 0.05 * genericNouns.length,
+    0,
+    1
+  );
+
+  return {
+    score: Math.round(score * 100) / 100,
+    numbers,
+    timelines,
+    namedEntities,
+    concreteTerms,
+    intensifiers,
+    hedges
+  };
+}
+
+/**
+ * Compare what the hook promises with what the video covers (the topic, plus the outline when there is one).
+ * Flags absolute claims and timelines or figures the source doesn't contain, list counts larger than the outline,
+ * and substantial hooks that share nothing with the topic.
+ */
+export function analyzePromise(text: string, topic: string, outline?: string): PromiseAnalysis {
+  const source = outline ? `${topic}\n${outline}` : topic;
+  const sourceLower = source.toLowerCase();
+  const sourceStems = new Set(contentWords(source).map(stem));
+  const hookWords = Array.from(new Set(contentWords(text).filter(word => !GENERIC_NOUNS.has(word) && !INTENSIFIERS.has(word))));
+  const issues: string[] = [];
+
+  const shared = hookWords.filter(word => sourceStems.has(stem(word)));
+  const relevance = hookWords.length === 0 ? 0 : shared.length / hookWords.length;
+  // Short curiosity openers can stay vague; a hook with this much substance should be about the topic
+  if (hookWords.length >= MIN_WORDS_FOR_RELEVANCE && shared.length === 0) {
+    issues.push("Talks about something the topic doesn't cover");
+  }
+
+  const absoluteClaims = findPhrases(text, ABSOLUTE_CLAIMS);
+  for (const claim of absoluteClaims) {
+    if (!sourceLower.includes(claim)) {
+      issues.push(`Promises "${claim}", which the topic doesn't back up`);
+    }
+  }
+
+  const claimedFigures = [
+    ...Array.from(text.matchAll(TIMELINE_PATTERN), match => match[0]),
+    ...Array.from(text.matchAll(NUMBER_PATTERN), match => match[0]).filter(figure => /[$£€%]|\d[\d,.]*[kmx]$/i.test(figure))
+  ];
+  const figures = new Set(claimedFigures.map(figure => figure.toLowerCase()).filter(figure => !absoluteClaims.includes(figure)));
+  for (const figure of Array.from(figures)) {
+    const digits = figure.match(/\d+/)?.[0];
+    if (!sourceLower.includes(figure) && !(digits && sourceLower.includes(digits))) {
+      issues.push(`Claims "${figure}", which isn't in the topic${outline ? " or outline" : ""}`);
+    }
+  }
+
+  const listCount = text.match(LIST_COUNT_PATTERN);
+  if (outline && listCount) {
+    const promised = NUMBER_WORDS[listCount[1]!.toLowerCase()] ?? Number(listCount[1]);
+    const items = countListItems(outline);
+    if (promised > items) {
+      issues.push(`Promises ${promised} items but the outline covers ${items}`);
+    }
+  }
+
+  return {
+    matches: issues.length === 0,
+    relevance: Math.round(relevance * 100) / 100,
+    issues
+  };
+}
+
+// Short summary for a hook's score breakdown
+export function describeHookAnalysis(specificity: SpecificityAnalysis, promise: PromiseAnalysis): string {
+  const signals = [
+    specificity.numbers.length > 0 && "numbers",
+    specificity.timelines.length > 0 && "timeline",
+    specificity.namedEntities.length > 0 && "named entities",
+    specificity.intensifiers.length > 0 && `${specificity.intensifiers.length} intensifier${specificity.intensifiers.length !== 1 ? "s" : ""}`,
+    specificity.hedges.length > 0 && `${specificity.hedges.length} hedge${specificity.hedges.length !== 1 ? "s" : ""}`
+  ].filter(Boolean);
+  const specificityText = `Specificity: ${specificity.score}${signals.length > 0 ? ` (${signals.join(", ")})` : ""}`;
+  const promiseText = promise.matches ? "Promise: matches topic" : `Promise: overpromises - ${promise.issues.join("; ")}`;
+  return `${specificityText}. ${promiseText}`;
+}
+
+/**
+ * Specificity and promise checks for a hook in the given locale. Outside English, capitalised nouns would pass
+ * for named entities and stopwords for content words, so the checks are reported as not applicable instead.
+ */
+export function analyzeHook(text: string, topic: string, outline: string | undefined, locale: string | undefined): HookAnalysis {
+  if (languageOf(locale) !== "en") {
+    return {
+      specificityScore: null,
+      promiseContentMatch: null,
+      promiseIssues: [],
+      summary: `Specificity and promise checks: not applicable in ${describeLocale(locale)}`
+    };
+  }
+
+  const specificity = analyzeSpecificity(text);
+  const promise = analyzePromise(text, topic, outline);
+  return {
+    specificityScore: specificity.score,
+    promiseContentMatch: promise.matches,
+    promiseIssues: promise.issues,
+    summary: describeHookAnalysis(specificity, promise)
+  };
+}
@@ -0,0 +1,32 @@
+import { storage } from "../storage";
+import { getBuiltInHookFormulas, getBuiltInHookTaxonomy, type HookTaxonomy } from "./hook-taxonomy";
+
+// How long a loaded taxonomy is reused; changes made through this server apply straight away
+const TAXONOMY_CACHE_MS = 60_000;
+
+let cachedTaxonomy: { taxonomy: HookTaxonomy; loadedAt: number } | undefined;
+
+/**
+ * The latest published taxonomy version. The first call on an empty database publishes the built-in formulas as version 1.
+ * If the database can't be read, generation carries on with the built-in formulas and no version.
+ */
+export async function getHookTaxonomy(): Promise<HookTaxonomy> {
+  if (cachedTaxonomy && Date.now() - cachedTaxonomy.loadedAt < TAXONOMY_CACHE_MS) {
+    return cachedTaxonomy.taxonomy;
+  }
+
+  try {
+    const latest = await storage.getLatestHookTaxonomy() ?? await storage.seedHookTaxonomy(getBuiltInHookFormulas());
+    const taxonomy = { version: latest.version, formulas: latest.formulas };
+    cachedTaxonomy = { taxonomy, loadedAt: Date.now() };
+    return taxonomy;
+  } catch (error) {
+    console.error("Failed to load hook taxonomy, using the built-in formulas:", error);
+    return getBuiltInHookTaxonomy();
+  }
+}
+
+// Called after every taxonomy change so the next generation uses the new version
+export function invalidateHookTaxonomy(): void {
+  cachedTaxonomy = undefined;
+}
@@ -0,0 +1,236 @@
+import { storage, isPooledWorkspace } from "../storage";
+import { generateTriModalHooks, type HookProgressCallbacks } from "./openai-trimodal";
+import { resolveBrandContext, BrandNotFoundError, type BrandContext } from "./brand-context";
+import { getScoreCalibration } from "./score-calibration";
+import { loadNoveltyIndex } from "./novelty";
+import { getHookTaxonomy } from "./hook-formulas";
+import { GENERATION_PLATFORMS, localeSchema, type GenerationPlatform, type HookGeneration } from "@shared/schema";
+
+type ModelType = "gpt-4o" | "gpt-4o-mini";
+
+export interface HookGenerationInput {
+  platform?: string;
+  objective?: string;
+  topic?: string;
+  outline?: string | null;
+  locale?: string | null;
+  modelType?: string;
+  brandId?: string | null;
+}
+
+export interface PreparedHookGeneration {
+  userId: string;
+  platform: GenerationPlatform;
+  objective: string;
+  topic: string;
+  outline: string | null; // Optional outline of what the video covers, checked against each hook's promise
+  locale: string; // Language to write the hooks in - the request's, else the brand's
+  modelType: ModelType;
+  brand: BrandContext;
+  reservationId: string; // usage_events row held until the generation is committed or refunded
+  workspaceId: string | null; // Team workspace whose pool paid for the generation - it's shared there
+  batchId: string | null; // Batch the topic was submitted in, if any
+  isOverage: boolean; // Past the plan limit - reported to Stripe as metered usage once committed
+}
+
+// The generation_jobs claim an attempt runs under - its generation is only saved while the claim is held
+export interface GenerationJobClaim {
+  jobId: string;
+  claimToken: string;
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class HookGenerationError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>) {
+    super(typeof body["message"] === "string" ? body["message"] : typeof body["error"] === "string" ? body["error"] : "Hook generation failed");
+    this.name = "HookGenerationError";
+  }
+}
+
+/**
+ * Validate a generation request and resolve everything needed to run it:
+ * the brand context and the model for the user's plan, then reserve one unit of quota.
+ * Throws HookGenerationError for anything the client should be told about.
+ */
+export async function prepareHookGeneration(userId: string, input: HookGenerationInput): Promise<PreparedHookGeneration> {
+  const { platform, objective, topic, outline, locale, brandId } = input;
+  let modelType = input.modelType;
+
+  if (!platform || !objective || !topic) {
+    throw new HookGenerationError(400, { message: "Missing required fields: platform, objective, topic" });
+  }
+  if (!(GENERATION_PLATFORMS as readonly string[]).includes(platform)) {
+    throw new HookGenerationError(400, { message: `Invalid platform. Must be one of: ${GENERATION_PLATFORMS.join(", ")}` });
+  }
+  if (outline !== undefined && outline !== null && typeof outline !== "string") {
+    throw new HookGenerationError(400, { message: "Outline must be text" });
+  }
+  const localeValidation = locale !== undefined && locale !== null ? localeSchema.safeParse(locale) : undefined;
+  if (localeValidation && !localeValidation.success) {
+    throw new HookGenerationError(400, { message: localeValidation.error.issues[0]?.message || "Unsupported locale" });
+  }
+
+  // Get user profile first to determine appropriate model
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new HookGenerationError(404, { message: "User not found" });
+  }
+
+  // Resolve brand context: explicit brandId, then the active brand, then the user profile
+  let brand: BrandContext;
+  try {
+    brand = await resolveBrandContext(user, brandId);
+  } catch (error) {
+    if (error instanceof BrandNotFoundError) {
+      throw new HookGenerationError(404, { message: "Brand profile not found" });
+    }
+    throw error;
+  }
+
+  // Members of a Teams workspace generate on the owner's plan
+  const membership = await storage.getWorkspaceMembership(userId);
+  const plan = (isPooledWorkspace(membership) ? membership.owner.subscriptionPlan : user.subscriptionPlan) || "free";
+
+  // Determine model type based on subscription plan if not explicitly provided
+  if (!modelType) {
+    if (plan === "free") {
+      modelType = "gpt-4o-mini"; // Free users always get mini model
+    } else {
+      // Paid users can choose, but default to full model
+      modelType = "gpt-4o";
+    }
+  }
+
+  // Validate model type
+  if (modelType !== "gpt-4o" && modelType !== "gpt-4o-mini") {
+    throw new HookGenerationError(400, { message: "Invalid model type. Must be 'gpt-4o' or 'gpt-4o-mini'" });
+  }
+
+  // For free users, enforce mini model only
+  let selectedModel: ModelType = modelType;
+  if (plan === "free" && selectedModel === "gpt-4o") {
+    selectedModel = "gpt-4o-mini";
+    console.log("Free user attempted to use gpt-4o, automatically switched to gpt-4o-mini");
+  }
+
+  console.log(`Final model selection: ${selectedModel} for user plan: ${plan}`);
+
+  // Reserve a unit of quota last, once nothing else can reject the request
+  const { status, reservation } = await storage.reserveGeneration(userId, selectedModel);
+  if (!reservation) {
+    throw new HookGenerationError(403, {
+      error: status.reason || "Generation limit reached",
+      remainingProGenerations: status.remainingProGenerations,
+      remainingDraftGenerations: status.remainingDraftGenerations,
+      isAtLimit: true
+    });
+  }
+
+  return {
+    userId,
+    platform: platform as GenerationPlatform,
+    objective,
+    topic,
+    outline: outline?.trim() || null,
+    locale: localeValidation?.data ?? brand.locale,
+    modelType: selectedModel,
+    brand,
+    reservationId: reservation.id,
+    workspaceId: status.workspaceId,
+    batchId: null,
+    isOverage: reservation.overage
+  };
+}
+
+/**
+ * One attempt at a prepared generation: generate it, then save it and complete its job, then settle its quota reservation.
+ * The reservation is committed once the generation is saved, or refunded if every model call failed and only
+ * the static fallback hooks could be returned; committed overage is reported to Stripe straight away.
+ * If the attempt throws, the reservation stays held so a queued job can retry on it and refund it only once it gives up.
+ * Callbacks fire as hooks are scored, before the generation is saved.
+ * Nothing is saved once the signal is aborted or the job's claim is lost - a timed-out attempt can't race its retry.
+ */
+export async function attemptHookGeneration(prepared: PreparedHookGeneration, claim: GenerationJobClaim, callbacks: HookProgressCallbacks = {}, signal?: AbortSignal): Promise<HookGeneration> {
+  const { userId, platform, objective, topic, outline, locale, modelType, brand, reservationId, workspaceId, batchId, isOverage } = prepared;
+
+  // Generate tri-modal hooks using enhanced OpenAI system
+  console.log(`Generating tri-modal hooks for ${platform} in ${locale} with topic: "${topic}"`);
+  console.log(`Brand profile: ${brand.company} (${brand.industry}, ${brand.role})`);
+  console.log(`Audience: ${brand.audience.substring(0, 100)}...`);
+
+  // Scoring weights fitted to the brand's or user's recorded outcomes, once there are enough,
+  // the user's earlier hooks for the novelty check, and the current hook taxonomy
+  const [calibration, novelty, taxonomy] = await Promise.all([
+    getScoreCalibration(userId, brand.brandId),
+    loadNoveltyIndex(userId),
+    getHookTaxonomy()
+  ]);
+  if (calibration) {
+    console.log(`Using ${calibration.scope} score calibration fitted on ${calibration.outcomes} outcomes`);
+  }
+
+  const result = await generateTriModalHooks({
+    topic,
+    ...(outline ? { outline } : {}),
+    locale,
+    platform,
+    objective,
+    user: {
+      company: brand.company,
+      role: brand.role,
+      industry: brand.industry,
+      audience: brand.audience,
+      voice: brand.voice,
+      bannedTerms: brand.bannedTerms,
+      safety: brand.safety
+    },
+    calibration,
+    novelty,
+    taxonomy
+  }, callbacks);
+
+  if (signal?.aborted) {
+    throw new Error("Generation attempt was abandoned before saving");
+  }
+
+  // Save the generation and complete the job together
+  const generation = await storage.completeGenerationJob(claim.jobId, claim.claimToken, {
+    userId,
+    brandId: brand.brandId,
+    workspaceId,
+    batchId,
+    platform,
+    objective,
+    topic,
+    locale,
+    modelType,
+    taxonomyVersion: result.taxonomyVersion,
+    formulaIds: result.formulaIds,
+    hooks: result.hooks,
+    topThreeVariants: result.topThreeVariants,
+    filteredHooks: result.filteredHooks
+  });
+  if (!generation) {
+    throw new Error("Generation job is no longer held by this attempt - nothing was saved");
+  }
+
+  if (result.source === "static") {
+    await storage.refundUsage(reservationId, "Model unavailable - static fallback hooks returned");
+  } else {
+    await storage.commitUsage(reservationId, generation.id);
+    if (isOverage) {
+      // The hooks are already saved - a failed report leaves overage_reported_at empty for reconciliation
+      const { reportOverageUsage } = await import("./stripe");
+      await reportOverageUsage(reservationId)
+        .catch(reportError => console.error("Failed to report overage usage:", reportError));
+    }
+  }
+
+  return generation;
+}
+
+// Give back a reservation that won't be used; a no-op if it was already committed or refunded
+export async function refundHookGeneration(prepared: Pick<PreparedHookGeneration, "reservationId">, reason: string): Promise<void> {
+  await storage.refundUsage(prepared.reservationId, reason)
+    .catch(refundError => console.error("Failed to refund usage reservation:", refundError));
+}
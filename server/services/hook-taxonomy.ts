@@ -0,0 +1,238 @@
+import type { HookContentType, HookFormulaSnapshot } from "@shared/schema";
+
+// Hook Taxonomy Database from Strategic Research - Enhanced with Examples
+export const HOOK_TAXONOMY = {
+  "Question-Based": {
+    "QH-01": { 
+      formula: "Direct Question", 
+      driver: "Curiosity Gap / Engagement", 
+      template: "Did you know that {surprising_fact}?", 
+      risk: "low",
+      examples: ["Did you know that squats can fix back pain?", "Did you know perfect form takes 30 seconds?"]
+    },
+    "QH-02": { 
+      formula: "Rhetorical Question", 
+      driver: "Pain Point / Empathy", 
+      template: "Does your {area_of_life} feel {negative_adjective}?", 
+      risk: "low",
+      examples: ["Does your squat feel unstable?", "Are your workouts feeling ineffective?"]
+    },
+    "QH-03": { 
+      formula: "Hypothetical 'What If'", 
+      driver: "Imagination / Desire", 
+      template: "What if {ideal_scenario}?", 
+      risk: "medium",
+      examples: ["What if perfect form was actually easier?", "What if one cue fixed everything?"]
+    },
+    "QH-04": { 
+      formula: "High-Stakes Question", 
+      driver: "Intrigue / Moral Dilemma", 
+      template: "Would you {action_a} for {benefit} but {consequence}?", 
+      risk: "medium",
+      examples: ["Would you change your form if it prevented injury?", "Would you slow down to speed up progress?"]
+    },
+    "QH-05": {
+      formula: "Challenge Question",
+      driver: "Authority / Knowledge Gap",
+      template: "Why do {authority_figures} still {questionable_action}?",
+      risk: "medium",
+      examples: ["Why do trainers still teach this wrong?", "Why does everyone skip this step?"]
+    }
+  },
+  "Statement-Based": {
+    "ST-01": { 
+      formula: "Direct Promise", 
+      driver: "Value / Instant Gratification", 
+      template: "In this video, I'm going to show/tell you {specific_value}.", 
+      risk: "low",
+      examples: ["I'm going to show you perfect squat form", "I'll teach you the one cue that fixes everything"]
+    },
+    "ST-02": { 
+      formula: "Startling Fact / Statistic", 
+      driver: "Surprise / Authority", 
+      template: "{percentage}% of people {surprising_behavior}.", 
+      risk: "medium",
+      examples: ["90% of people squat with poor form", "Most trainers miss this critical detail"]
+    },
+    "ST-03": { 
+      formula: "Contrarian / Unpopular Opinion", 
+      driver: "Social Proof (Negative) / Intrigue", 
+      template: "{common_belief} is wrong. Here's why.", 
+      risk: "high",
+      examples: ["Deep squats are wrong. Here's why.", "Heavy weight is overrated. Here's why."]
+    },
+    "ST-04": { 
+      formula: "Common Mistake ID", 
+      driver: "Pain Point / Superiority", 
+      template: "You've been doing {common_activity} wrong your entire life.", 
+      risk: "medium",
+      examples: ["You've been squatting wrong your entire life", "Everyone gets this form cue backwards"]
+    },
+    "ST-05": {
+      formula: "Authority Insight",
+      driver: "Credibility / Exclusivity",
+      template: "{expert_type} taught me this {technique}",
+      risk: "low",
+      examples: ["Olympic coaches taught me this squat cue", "Physical therapists use this form check"]
+    }
+  },
+  "Narrative": {
+    "NA-01": { 
+      formula: "In Medias Res", 
+      driver: "Curiosity Gap / Urgency", 
+      template: "Starts mid-action or mid-dialogue at a point of high drama.", 
+      risk: "medium",
+      examples: ["The moment my form clicked...", "Right when I thought I knew squats..."]
+    },
+    "NA-02": { 
+      formula: "Cliffhanger / Open Loop", 
+      driver: "Curiosity Gap", 
+      template: "This {event} ended in the most shocking way. Stay tuned...", 
+      risk: "high",
+      examples: ["This form correction changed everything...", "What happened next surprised even me..."]
+    },
+    "NA-03": { 
+      formula: "Personal Confession / Anecdote", 
+      driver: "Empathy / Relatability", 
+      template: "I used to {old_behavior}, until {catalyst_for_change}.", 
+      risk: "low",
+      examples: ["I used to hate squats, until I learned this", "I thought perfect form was impossible, until..."]
+    },
+    "NA-04": { 
+      formula: "Before & After Teaser", 
+      driver: "Curiosity Gap / Transformation", 
+      template: "This is how I went from {before_state} to {after_state}.", 
+      risk: "low",
+      examples: ["From knee pain to pain-free squats", "From sloppy form to perfect technique"]
+    },
+    "NA-05": {
+      formula: "Timeline Progression",
+      driver: "Journey / Progress",
+      template: "Day {number} of {challenge}",
+      risk: "low",
+      examples: ["Day 7 of fixing my squat form", "30 days of perfect form practice"]
+    }
+  },
+  "Urgency/Exclusivity": {
+    "UE-01": { 
+      formula: "Direct Callout / Targeting", 
+      driver: "Personalization / Relevance", 
+      template: "If you're a {target_audience}, you need to hear this.", 
+      risk: "medium",
+      examples: ["If you squat, you need to hear this", "If you're serious about form, watch this"]
+    },
+    "UE-02": { 
+      formula: "FOMO / Time Pressure", 
+      driver: "Urgency", 
+      template: "This is your last chance to {action} before {consequence}.", 
+      risk: "high",
+      examples: ["Last chance to fix your form before injury", "Don't wait until it's too late"]
+    },
+    "UE-03": { 
+      formula: "The 'Secret' Reveal", 
+      driver: "Curiosity Gap / Exclusivity", 
+      template: "No one is telling you the real reason {common_problem_persists}.", 
+      risk: "medium",
+      examples: ["No one tells you why squats feel awkward", "The real reason your form breaks down"]
+    },
+    "UE-04": { 
+      formula: "Warning / Preemptive Advice", 
+      driver: "Urgency / Pain Avoidance", 
+      template: "Watch this before you {common_action}.", 
+      risk: "medium",
+      examples: ["Watch this before your next squat session", "See this before you add more weight"]
+    },
+    "UE-05": {
+      formula: "Insider Access",
+      driver: "Exclusivity / Authority",
+      template: "What {authority_figures} don't want you to know",
+      risk: "high",
+      examples: ["What trainers don't teach about form", "What gyms don't want you to know"]
+    }
+  },
+  "Efficiency": {
+    "EF-01": { 
+      formula: "Numbered List (Listicle)", 
+      driver: "Value / Structure", 
+      template: "Here are the Top {number} {items} for {goal}.", 
+      risk: "low",
+      examples: ["Top 3 squat cues for perfect form", "5 form checks that prevent injury"]
+    },
+    "EF-02": { 
+      formula: "Quick Solution / 'Hack'", 
+      driver: "Value / Instant Gratification", 
+      template: "How to {achieve_goal} in {short_timeframe}.", 
+      risk: "low",
+      examples: ["Perfect squats in 30 seconds", "Fix your form in one video"]
+    },
+    "EF-03": {
+      formula: "Shortcut Reveal",
+      driver: "Efficiency / Simplification",
+      template: "Skip {complex_method}, do this instead",
+      risk: "medium",
+      examples: ["Skip complex cues, do this instead", "Skip the textbook, watch this"]
+    },
+    "EF-04": {
+      formula: "Elimination Strategy",
+      driver: "Focus / Simplification",
+      template: "Stop {wrong_action}, start {right_action}",
+      risk: "low",
+      examples: ["Stop thinking about depth, focus on this", "Stop following trends, master basics"]
+    }
+  }
+};
+
+export type HookTaxonomyCategory = keyof typeof HOOK_TAXONOMY;
+
+// Content types each built-in category was offered for before the taxonomy moved to the database
+const BUILT_IN_CONTENT_TYPES: Record<HookTaxonomyCategory, HookContentType[]> = {
+  "Question-Based": ["educational", "storytelling", "mixed"],
+  "Statement-Based": ["educational", "mixed"],
+  "Narrative": ["storytelling", "mixed"],
+  "Urgency/Exclusivity": ["storytelling"],
+  "Efficiency": ["educational"]
+};
+
+// The built-in taxonomy as formula rows - published as taxonomy version 1 when the database has none yet
+export function getBuiltInHookFormulas(): HookFormulaSnapshot[] {
+  return Object.entries(HOOK_TAXONOMY).flatMap(([category, formulas]) => Object.entries(formulas).map(
+    ([id, entry]: [string, { formula: string; driver: string; template: string; risk: string; examples: string[] }], index): HookFormulaSnapshot => ({
+      id,
+      category,
+      formula: entry.formula,
+      driver: entry.driver,
+      template: entry.template,
+      risk: entry.risk as HookFormulaSnapshot["risk"],
+      examples: [...entry.examples],
+      contentTypes: BUILT_IN_CONTENT_TYPES[category as HookTaxonomyCategory],
+      sortOrder: (index + 1) * 10,
+      status: "active"
+    })
+  ));
+}
+
+// A published taxonomy version, as used to build a generation's prompt
+export interface HookTaxonomy {
+  version: number | null; // Null when the built-in formulas were used because no version could be loaded
+  formulas: HookFormulaSnapshot[];
+}
+
+// Formulas per category offered to the model in one generation, lowest sort order first
+export const FORMULAS_PER_CATEGORY = 2;
+
+export function getBuiltInHookTaxonomy(): HookTaxonomy {
+  return { version: null, formulas: getBuiltInHookFormulas() };
+}
+
+// Active formulas offered for the content type, capped per category
+export function selectHookFormulas(taxonomy: HookTaxonomy, contentType: HookContentType): HookFormulaSnapshot[] {
+  const perCategory = new Map<string, number>();
+  return taxonomy.formulas
+    .filter(formula => formula.status === "active" && formula.contentTypes.includes(contentType))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id))
+    .filter(formula => {
+      const taken = perCategory.get(formula.category) ?? 0;
+      perCategory.set(formula.category, taken + 1);
+      return taken < FORMULAS_PER_CATEGORY;
+    });
+}
@@ -0,0 +1,138 @@
+import { getLlmProvider } from "./llm-provider";
+import { buildSafetyPolicy, checkHookSafety, describeSafetyPolicy } from "./brand-safety";
+import type { BrandContext } from "./brand-context";
+import { HOOK_LANGUAGE_NAMES, type HookLanguage, type HookGeneration } from "@shared/schema";
+
+export const DEFAULT_LOCALE = "en";
+
+// Languages written without spaces between words - their length is measured in characters
+const CHARS_PER_WORD: Partial<Record<HookLanguage, number>> = {
+  ja: 2.5,
+  zh: 1.7
+};
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+export interface LocalizedHook {
+  locale: string;
+  verbalHook: string;
+  visualHook?: string;
+  textualHook?: string;
+  adaptationNotes: string; // What was adapted rather than translated, and why
+}
+
+export class HookLocalizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HookLocalizationError";
+  }
+}
+
+export function languageOf(locale: string | null | undefined): HookLanguage {
+  const language = (locale || DEFAULT_LOCALE).slice(0, 2) as HookLanguage;
+  return language in HOOK_LANGUAGE_NAMES ? language : "en";
+}
+
+// "Spanish", or "Portuguese (pt-BR)" when a region is given
+export function describeLocale(locale: string | null | undefined): string {
+  const name = HOOK_LANGUAGE_NAMES[languageOf(locale)];
+  return locale && locale.length > 2 ? `${name} (${locale})` : name;
+}
+
+/**
+ * Hook length in words, or word equivalents for Japanese and Chinese, so the per-platform word ranges
+ * and length scoring mean the same thing in every language. Latin-script words mixed into CJK text count as words.
+ */
+export function countWords(text: string, locale?: string | null): number {
+  const charsPerWord = CHARS_PER_WORD[languageOf(locale)];
+  if (!charsPerWord) {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+  }
+
+  const cjkCharacters = text.match(CJK_CHARACTER)?.length ?? 0;
+  const otherWords = text.replace(CJK_CHARACTER, " ").match(/[\p{L}\p{N}]+/gu)?.length ?? 0;
+  return Math.round(cjkCharacters / charsPerWord) + otherWords;
+}
+
+// Prompt line asking for native copy in the target language; empty for English so existing prompts are unchanged
+export function describeLanguageRequirement(locale: string | null | undefined): string {
+  if (languageOf(locale) === "en") {
+    return "";
+  }
+  return `LANGUAGE: Write all hook text in ${describeLocale(locale)}, the way a native ${HOOK_LANGUAGE_NAMES[languageOf(locale)]}-speaking creator in that market would. Use local idioms, references and phrasing - never translate English idioms word for word.${CHARS_PER_WORD[languageOf(locale)] ? " Word counts are approximate for this language; keep hooks as short as a spoken opening line." : ""}`;
+}
+
+/**
+ * Adapt one of a generation's hooks for another locale: same promise and framework, but idioms, references,
+ * wordplay and units reworked for that audience instead of translated literally.
+ * The result is checked against the brand's safety policy; throws HookLocalizationError if it fails or can't be read.
+ */
+export async function localizeHook(generation: HookGeneration, hookIndex: number, locale: string, brand: BrandContext): Promise<LocalizedHook> {
+  const hook = generation.hooks[hookIndex];
+  if (!hook) {
+    throw new HookLocalizationError(`Generation has no hook at index ${hookIndex}`);
+  }
+
+  const policy = buildSafetyPolicy(brand.bannedTerms, brand.safety);
+  const prompt = `Localize this ${generation.platform} hook from ${describeLocale(generation.locale)} into ${describeLocale(locale)}.
+
+Verbal hook: "${hook.verbalHook}"
+Visual: ${hook.visualHook || "none"}
+On-screen text: ${hook.textualHook || "none"}
+Framework: ${hook.framework}
+Topic: "${generation.topic}"
+Audience: ${brand.audience}
+Voice: ${brand.voice}
+
+Rules:
+- Adapt, don't translate: replace idioms, wordplay, cultural references and units with ones that land the same way for a ${describeLocale(locale)} audience
+- Keep the same promise, framework and psychological trigger
+- Keep it about as long as a spoken opening line on ${generation.platform}
+${describeSafetyPolicy(policy)}
+
+Return JSON: {"verbalHook": "...", "visualHook": "...", "textualHook": "...", "adaptationNotes": "What you adapted and why, in English"}`;
+
+  let content: string | null;
+  try {
+    content = await getLlmProvider().complete({
+      task: "localize",
+      model: generation.modelType === "gpt-4o-mini" ? "gpt-4o-mini" : "gpt-4o",
+      messages: [{ role: "user", content: prompt }],
+      json: true,
+      temperature: 0.6,
+      maxTokens: 500,
+      context: {
+        topic: generation.topic,
+        platform: generation.platform,
+        locale,
+        items: [{ index: hookIndex, text: hook.verbalHook }]
+      }
+    });
+  } catch (error) {
+    console.error("Hook localization failed:", error);
+    throw new HookLocalizationError("The model couldn't localize this hook right now");
+  }
+
+  let result: any;
+  try {
+    result = JSON.parse(content || "");
+  } catch {
+    throw new HookLocalizationError("The model returned a localized hook that couldn't be read");
+  }
+  if (typeof result?.verbalHook !== "string" || !result.verbalHook.trim()) {
+    throw new HookLocalizationError("The model returned an empty localized hook");
+  }
+
+  const localized: LocalizedHook = {
+    locale,
+    verbalHook: result.verbalHook.trim(),
+    ...(typeof result.visualHook === "string" && result.visualHook.trim() ? { visualHook: result.visualHook.trim() } : {}),
+    ...(typeof result.textualHook === "string" && result.textualHook.trim() ? { textualHook: result.textualHook.trim() } : {}),
+    adaptationNotes: typeof result.adaptationNotes === "string" ? result.adaptationNotes.trim() : ""
+  };
+
+  const safety = checkHookSafety(localized, policy);
+  if (!safety.safe) {
+    throw new HookLocalizationError(`The localized hook broke the brand safety policy: ${safety.reasons.join("; ")}`);
+  }
+  return localized;
+}
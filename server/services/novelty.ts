@@ -0,0 +1,102 @@
+import { storage } from "../storage";
+
+// Hooks at or above this similarity to an earlier one are regenerated
+export const NOVELTY_SIMILARITY_THRESHOLD = 0.6;
+// How far back a user's generations count as "already used"
+const NOVELTY_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+const SHINGLE_SIZE = 4;
+// Openers carry most of the déjà vu, so matching first words count almost as much as a full match
+const OPENER_WORDS = 4;
+const OPENER_WEIGHT = 0.9;
+
+interface NoveltyEntry {
+  text: string;
+  shingles: Set<string>;
+  opener: Set<string>;
+}
+
+export interface NoveltyIndex {
+  entries: NoveltyEntry[];
+}
+
+export interface NoveltyMatch {
+  similarity: number; // 0 (nothing alike) to 1 (identical)
+  match: string | null; // The closest earlier hook
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Character n-grams over the normalised text, so small rewordings still overlap
+function shingle(text: string): Set<string> {
+  const padded = ` ${text} `;
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= padded.length; i++) {
+    shingles.add(padded.slice(i, i + SHINGLE_SIZE));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(value => {
+    if (b.has(value)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function toEntry(text: string): NoveltyEntry {
+  const normalized = normalize(text);
+  return {
+    text,
+    shingles: shingle(normalized),
+    opener: shingle(normalized.split(" ").slice(0, OPENER_WORDS).join(" "))
+  };
+}
+
+export function buildNoveltyIndex(texts: string[]): NoveltyIndex {
+  return { entries: texts.filter(text => text.trim()).map(toEntry) };
+}
+
+// Later hooks in the same generation are compared against earlier ones too
+export function addToNoveltyIndex(index: NoveltyIndex, text: string): void {
+  if (text.trim()) {
+    index.entries.push(toEntry(text));
+  }
+}
+
+/**
+ * The earlier hook closest to this one: the larger of the full-text shingle overlap
+ * and the (slightly discounted) overlap of the opening words.
+ */
+export function findMostSimilar(index: NoveltyIndex, text: string): NoveltyMatch {
+  const candidate = toEntry(text);
+  let best: NoveltyMatch = { similarity: 0, match: null };
+
+  for (const entry of index.entries) {
+    const similarity = Math.max(
+      jaccard(candidate.shingles, entry.shingles),
+      OPENER_WEIGHT * jaccard(candidate.opener, entry.opener)
+    );
+    if (similarity > best.similarity) {
+      best = { similarity, match: entry.text };
+    }
+  }
+
+  return best;
+}
+
+// Verbal hooks the user has already seen: recent generations, favourites and recently used hooks
+export async function loadNoveltyIndex(userId: string): Promise<NoveltyIndex> {
+  const corpus = await storage.getNoveltyCorpus(userId, new Date(Date.now() - NOVELTY_LOOKBACK_MS));
+  return buildNoveltyIndex(corpus);
+}
@@ -1,46 +1,9 @@
-import OpenAI from "openai";
+import { getLlmProvider } from "./llm-provider";
+import { describeCalibration, NEUTRAL_FRAMEWORK_BONUS, type ScoreCalibration } from "./score-calibration";
+import type { HookScoreComponents } from "@shared/schema";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-// Ensure API key is properly configured - fail fast if missing
-if (!process.env.OPENAI_API_KEY && !process.env.API_KEY) {
-  throw new Error('OPENAI_API_KEY or API_KEY environment variable is required');
-}
-
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.API_KEY
-});
-
-// Hook Taxonomy Database from Strategic Research
-const HOOK_TAXONOMY = {
-  "Question-Based": {
-    "QH-01": { formula: "Direct Question", driver: "Curiosity Gap / Engagement", template: "Did you know that?", risk: "low" },
-    "QH-02": { formula: "Rhetorical Question", driver: "Pain Point / Empathy", template: "Does your [Area of Life] feel [Negative Adjective]?", risk: "low" },
-    "QH-03": { formula: "Hypothetical 'What If'", driver: "Imagination / Desire", template: "What if?", risk: "medium" },
-    "QH-04": { formula: "High-Stakes Question", driver: "Intrigue / Moral Dilemma", template: "Would you [Action A] for but [Consequence C]?", risk: "medium" }
-  },
-  "Statement-Based": {
-    "ST-01": { formula: "Direct Promise", driver: "Value / Instant Gratification", template: "In this video, I'm going to show/tell you.", risk: "low" },
-    "ST-02": { formula: "Startling Fact / Statistic", driver: "Surprise / Authority", template: "% of people.", risk: "medium" },
-    "ST-03": { formula: "Contrarian / Unpopular Opinion", driver: "Social Proof (Negative) / Intrigue", template: "is wrong. Here's why.", risk: "high" },
-    "ST-04": { formula: "Common Mistake ID", driver: "Pain Point / Superiority", template: "You've been doing [Common Activity] wrong your entire life.", risk: "medium" }
-  },
-  "Narrative": {
-    "NA-01": { formula: "In Medias Res", driver: "Curiosity Gap / Urgency", template: "Starts mid-action or mid-dialogue at a point of high drama.", risk: "medium" },
-    "NA-02": { formula: "Cliffhanger / Open Loop", driver: "Curiosity Gap", template: "This [Event] ended in the most shocking way. Stay tuned...", risk: "high" },
-    "NA-03": { formula: "Personal Confession / Anecdote", driver: "Empathy / Relatability", template: "I used to, until [Catalyst for Change].", risk: "low" },
-    "NA-04": { formula: "Before & After Teaser", driver: "Curiosity Gap / Transformation", template: "This is how I went from to.", risk: "low" }
-  },
-  "Urgency/Exclusivity": {
-    "UE-01": { formula: "Direct Callout / Targeting", driver: "Personalization / Relevance", template: "If you're a, you need to hear this.", risk: "medium" },
-    "UE-02": { formula: "FOMO / Time Pressure", driver: "Urgency", template: "This is your last chance to [Action] before.", risk: "high" },
-    "UE-03": { formula: "The 'Secret' Reveal", driver: "Curiosity Gap / Exclusivity", template: "No one is telling you the real reason [Common Problem Persists].", risk: "medium" },
-    "UE-04": { formula: "Warning / Preemptive Advice", driver: "Urgency / Pain Avoidance", template: "Watch this before you [Common Action].", risk: "medium" }
-  },
-  "Efficiency": {
-    "EF-01": { formula: "Numbered List (Listicle)", driver: "Value / Structure", template: "Here are the Top 5 for [Goal].", risk: "low" },
-    "EF-02": { formula: "Quick Solution / 'Hack'", driver: "Value / Instant Gratification", template: "How to [Achieve Goal] in.", risk: "low" }
-  }
-};
+// Model calls go through the configured LlmProvider (see llm-provider.ts)
 
 // Master Prompt Blueprint - Strategic Multi-Modal Hook Generation
 const GENERATOR_SYSTEM_PROMPT = `### BLOCK 1: PERSONA & ROLE DEFINITION ###
@@ -142,7 +105,9 @@ Generate exactly 10 complete tri-modal hook concepts. Return valid JSON only:
       "platformSpecific": {
         "tiktokColdOpen": string,
         "instagramOverlay": string,
-        "youtubeProofCue": string
+        "youtubeProofCue": string,
+        "linkedinFoldLine": string,
+        "twitterPost": string
       },
       "promiseContentMatch": boolean,
       "specificityScore": number,
@@ -240,6 +205,7 @@ interface GenerateHooksParams {
   objective: string;
   topic: string;
   modelType?: "gpt-4o" | "gpt-4o-mini";
+  calibration?: ScoreCalibration | null; // Weights fitted to the user's or brand's recorded outcomes
 }
 
 // Enhanced Tri-Modal Hook Interface
@@ -261,6 +227,8 @@ interface TriModalHookRaw {
     tiktokColdOpen?: string;
     instagramOverlay?: string;
     youtubeProofCue?: string;
+    linkedinFoldLine?: string;
+    twitterPost?: string;
   };
   promiseContentMatch: boolean;
   specificityScore: number;
@@ -325,6 +293,7 @@ interface GeneratedHook {
   score: number;
   wordCount: number;
   scoreBreakdown: string;
+  scoreComponents: HookScoreComponents;
 }
 
 interface TopThreeVariant {
@@ -344,7 +313,9 @@ interface HookGenerationResult {
 const PLATFORM_TARGETS = {
   tiktok: { mu: 11, sigma: 2.5 },
   instagram: { mu: 12, sigma: 2.5 },
-  youtube: { mu: 6, sigma: 1.5 }
+  youtube: { mu: 6, sigma: 1.5 },
+  linkedin: { mu: 16, sigma: 4 },
+  twitter: { mu: 14, sigma: 4 }
 };
 
 // Gaussian word count scoring
@@ -364,13 +335,17 @@ const FRAMEWORK_BONUSES = {
   "Direct": 0.4
 };
 
+// Default composite weights; calibration rescales length/objective/framework and renormalises to the same total
+const COMPOSITE_WEIGHTS = { quality: 0.45, length: 0.2, objective: 0.25, framework: 0.1 };
+
 // Server-side composite scoring
 function calculateCompositeScore(
   hook: GeneratedHookRaw, 
   judgeScore: HookScore, 
   platform: string, 
-  objective: string
-): { score: number; breakdown: string } {
+  objective: string,
+  calibration?: ScoreCalibration | null
+): { score: number; breakdown: string; components: HookScoreComponents } {
   // Apply minimum thresholds to prevent unreasonably low AI scores
   // These are professionally generated hooks, so they should have reasonable baseline quality
   const adjustedCuriosity = Math.max(0.6, judgeScore.curiosity_benefit); // Minimum 0.6 for curiosity
@@ -391,26 +366,53 @@ function calculateCompositeScore(
     objectiveScore = 0.6 * adjustedPlatform + 0.4 * adjustedCuriosity;
   }
   
-  // Framework effectiveness
-  const frameworkBonus = FRAMEWORK_BONUSES[hook.framework as keyof typeof FRAMEWORK_BONUSES] || 0.5;
+  // Framework effectiveness - calibrated bonuses are relative to the user's average, so they're never mixed with the defaults
+  const frameworkBonus = calibration
+    ? calibration.frameworkBonuses[hook.framework] ?? NEUTRAL_FRAMEWORK_BONUS
+    : FRAMEWORK_BONUSES[hook.framework as keyof typeof FRAMEWORK_BONUSES] || 0.5;
+  
+  // Composite weights, rescaled by calibration
+  let weights = COMPOSITE_WEIGHTS;
+  if (calibration) {
+    const { length, objective: objectiveMultiplier, framework } = calibration.weightMultipliers;
+    const scaled = {
+      quality: COMPOSITE_WEIGHTS.quality,
+      length: COMPOSITE_WEIGHTS.length * length,
+      objective: COMPOSITE_WEIGHTS.objective * objectiveMultiplier,
+      framework: COMPOSITE_WEIGHTS.framework * framework
+    };
+    const total = scaled.quality + scaled.length + scaled.objective + scaled.framework;
+    weights = {
+      quality: scaled.quality / total,
+      length: scaled.length / total,
+      objective: scaled.objective / total,
+      framework: scaled.framework / total
+    };
+  }
   
   // Composite calculation
-  const raw = 0.45 * quality + 0.2 * gaussianLength + 0.25 * objectiveScore + 0.1 * frameworkBonus + judgeScore.cliché_penalty;
+  const raw = weights.quality * quality + weights.length * gaussianLength + weights.objective * objectiveScore + weights.framework * frameworkBonus + judgeScore.cliché_penalty;
   const finalScore = 5 * Math.max(0, Math.min(1, raw));
   
   // Create breakdown string
-  const breakdown = `+${(quality * 2.25).toFixed(1)} quality, +${(gaussianLength).toFixed(1)} length, +${(objectiveScore * 1.25).toFixed(1)} objective, +${(frameworkBonus * 0.5).toFixed(1)} framework${judgeScore.cliché_penalty < 0 ? `, ${judgeScore.cliché_penalty.toFixed(1)} cliché penalty` : ''} = ${finalScore.toFixed(1)}/5`;
+  const breakdown = `+${(quality * weights.quality * 5).toFixed(1)} quality, +${(gaussianLength * weights.length * 5).toFixed(1)} length, +${(objectiveScore * weights.objective * 5).toFixed(1)} objective, +${(frameworkBonus * weights.framework * 5).toFixed(1)} framework${judgeScore.cliché_penalty < 0 ? `, ${judgeScore.cliché_penalty.toFixed(1)} cliché penalty` : ''} = ${finalScore.toFixed(1)}/5${calibration ? ` (${describeCalibration(calibration)})` : ''}`;
   
-  return { score: finalScore, breakdown };
+  return { score: finalScore, breakdown, components: { length: gaussianLength, framework: frameworkBonus, objective: objectiveScore } };
 }
 
 // Validation functions to enforce platform rules
 const PLATFORM_WINDOWS = {
   tiktok: [8, 12] as const,
   instagram: [6, 15] as const,  
-  youtube: [4, 8] as const
+  youtube: [4, 8] as const,
+  linkedin: [10, 22] as const,
+  twitter: [8, 25] as const
 };
 
+// LinkedIn shows this many characters before "...see more"; X posts are capped at this many
+const LINKEDIN_FOLD_CHARS = 140;
+const TWITTER_CHAR_BUDGET = 280;
+
 function validateHook(hook: GeneratedHookRaw, platform: string, objective: string): { valid: boolean; issues: string[] } {
   const issues: string[] = [];
   const [minWords, maxWords] = PLATFORM_WINDOWS[platform as keyof typeof PLATFORM_WINDOWS] || [1, 20];
@@ -434,6 +436,12 @@ function validateHook(hook: GeneratedHookRaw, platform: string, objective: strin
   if (platform === 'youtube' && !hook.platform_notes.proof_cue) {
     issues.push('missing proof_cue');
   }
+  if (platform === 'linkedin' && hook.text.length > LINKEDIN_FOLD_CHARS) {
+    issues.push(`runs past the "see more" fold (${hook.text.length}/${LINKEDIN_FOLD_CHARS} chars)`);
+  }
+  if (platform === 'twitter' && hook.text.length > TWITTER_CHAR_BUDGET) {
+    issues.push(`over the X character budget (${hook.text.length}/${TWITTER_CHAR_BUDGET} chars)`);
+  }
   
   // Content specificity validation
   const hasNumber = /\d/.test(hook.text);
@@ -471,6 +479,8 @@ PLATFORM REQUIREMENTS:
 • TikTok (8–12 words): Timeline ("Day N") + action verb + specificity
 • Instagram (6–15 words): Save/share-worthy utility + practical benefit  
 • YouTube (4–8 words): Proof cue (number/stat) + headline brevity
+• LinkedIn (10–22 words): Fits above the "see more" fold (140 chars) + professional stakes
+• X/Twitter (8–25 words): Punchy first line + within the 280-character post budget
 
 OBJECTIVE ALIGNMENT:
 • WATCH_TIME: Cliffhanger endings, timeline progression, "what happened next"
@@ -504,21 +514,28 @@ CRITICAL: Optimize ALL hooks specifically for ${params.objective.toUpperCase()}
   // Retry up to 2 times for generation
   for (let attempt = 1; attempt <= 2; attempt++) {
     try {
-      const response = await openai.chat.completions.create({
+      const content = await getLlmProvider().complete({
+        task: "generate",
         model: params.modelType || "gpt-4o",
         messages: [
           { role: "system", content: GENERATOR_SYSTEM_PROMPT },
           { role: "user", content: userPrompt }
         ],
-        response_format: { type: "json_object" },
+        json: true,
         temperature: 0.7,
-        top_p: 0.9,
-        max_tokens: 1000, // Increased token limit
+        topP: 0.9,
+        maxTokens: 1000, // Increased token limit
+        context: {
+          topic: params.topic,
+          platform: params.platform,
+          objective: params.objective,
+          count: 10,
+          ...(PLATFORM_WINDOWS[params.platform as keyof typeof PLATFORM_WINDOWS] ? { wordRange: PLATFORM_WINDOWS[params.platform as keyof typeof PLATFORM_WINDOWS] } : {})
+        }
       });
 
-      const content = response.choices[0].message.content;
       if (!content) {
-        throw new Error("No content received from OpenAI generator");
+        throw new Error("No content received from generator");
       }
 
       let result: GenerationResponse;
@@ -573,21 +590,22 @@ ${hooksText}`;
   // Retry up to 2 times for scoring
   for (let attempt = 1; attempt <= 2; attempt++) {
     try {
-      const response = await openai.chat.completions.create({
+      const content = await getLlmProvider().complete({
+        task: "score",
         model: "gpt-4o-mini",
         messages: [
           { role: "system", content: SCORING_SYSTEM_PROMPT },
           { role: "user", content: userPrompt }
         ],
-        response_format: { type: "json_object" },
+        json: true,
         temperature: 0.2, // More deterministic for scoring
-        top_p: 0.8,
-        max_tokens: 800,
+        topP: 0.8,
+        maxTokens: 800,
+        context: { platform, count: hooks.length }
       });
 
-      const content = response.choices[0].message.content;
       if (!content) {
-        throw new Error("No content received from OpenAI scorer");
+        throw new Error("No content received from scorer");
       }
 
       let result: ScoringResponse;
@@ -645,19 +663,26 @@ ${refinePrompt}
 CRITICAL: Ensure all rewrites are optimized for ${params.objective.toUpperCase()} objective.`;
 
   try {
-    const response = await openai.chat.completions.create({
+    const content = await getLlmProvider().complete({
+      task: "refine",
       model: "gpt-4o-mini",
       messages: [
         { role: "system", content: REFINE_SYSTEM_PROMPT },
         { role: "user", content: userPrompt }
       ],
-      response_format: { type: "json_object" },
+      json: true,
       temperature: 0.4, // Balanced creativity for improvements
-      top_p: 0.8,
-      max_tokens: 600,
+      topP: 0.8,
+      maxTokens: 600,
+      context: {
+        topic: params.topic,
+        platform,
+        objective: params.objective,
+        ...(PLATFORM_WINDOWS[platform as keyof typeof PLATFORM_WINDOWS] ? { wordRange: PLATFORM_WINDOWS[platform as keyof typeof PLATFORM_WINDOWS] } : {}),
+        items: failedHooks.map(item => ({ index: item.index, text: item.hook.text }))
+      }
     });
 
-    const content = response.choices[0].message.content;
     if (!content) {
       throw new Error("No content received from refiner");
     }
@@ -751,7 +776,7 @@ export async function generateHooks(params: GenerateHooksParams): Promise<HookGe
     // Step 5: Calculate composite scores and create final format
     const processedHooks: GeneratedHook[] = hooks.map((hook, index) => {
       const judgeScore = scoringResult.scores[index];
-      const { score, breakdown } = calculateCompositeScore(hook, judgeScore, params.platform, params.objective);
+      const { score, breakdown, components } = calculateCompositeScore(hook, judgeScore, params.platform, params.objective, params.calibration);
       
       // Convert platform notes to string for backward compatibility
       let platformNotesStr = "";
@@ -770,7 +795,8 @@ export async function generateHooks(params: GenerateHooksParams): Promise<HookGe
         platformNotes: platformNotesStr,
         score: Number(score.toFixed(2)),
         wordCount: hook.word_count,
-        scoreBreakdown: breakdown
+        scoreBreakdown: breakdown,
+        scoreComponents: components
       };
     });
     
@@ -829,18 +855,24 @@ Return valid JSON with this structure:
   "topThreeVariants": []
 }`;
 
-  const response = await openai.chat.completions.create({
+  const content = await getLlmProvider().complete({
+    task: "generate",
     model: params.modelType || "gpt-4o",
     messages: [
       { role: "system", content: "You are a professional copywriter. Return valid JSON only." },
       { role: "user", content: legacyPrompt }
     ],
-    response_format: { type: "json_object" },
+    json: true,
     temperature: 0.6,
-    max_tokens: 1500,
+    maxTokens: 1500,
+    context: {
+      topic: params.topic,
+      platform: params.platform,
+      objective: params.objective,
+      count: 10
+    }
   });
 
-  const content = response.choices[0].message.content;
   if (!content) {
     throw new Error("No content from fallback generation");
   }
@@ -0,0 +1,214 @@
+import { storage } from "../storage";
+import { getEnv } from "../config/env-validation";
+import { logger } from "../config/logger";
+import { adminAuth, deleteFirebaseUser } from "../firebase-admin";
+import { gdprCompliance } from "./gdpr-compliance";
+import { deleteCustomer } from "./stripe";
+import { raiseAlert } from "./alerts";
+import { zip } from "./zip";
+import type { PrivacyRequest, RecordConsent, User, UserConsent } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60_000;
+const DELETION_RETRY_MS = 60 * 60 * 1000;
+const MAX_DELETION_ATTEMPTS = 3;
+const STALE_PROCESSING_MS = 30 * 60 * 1000; // A deletion still "processing" after this was left behind by a stopped instance
+
+export interface PrivacyRequestProcessor {
+  stop(): Promise<void>;
+}
+
+// Where a request came from, kept on its privacy_requests row
+export interface PrivacyRequestContext {
+  ipAddress: string | null; // As received - anonymized before it's stored when ANONYMIZE_IPS is on
+  userAgent: string;
+}
+
+export interface DataExport {
+  filename: string;
+  data: Buffer; // ZIP archive: export.json lists the sections, one JSON file per section
+}
+
+// Carries the HTTP status and JSON body the route should answer with
+export class PrivacyError extends Error {
+  constructor(public status: number, public body: { message: string; request?: PrivacyRequest }) {
+    super(body.message);
+    this.name = "PrivacyError";
+  }
+}
+
+export async function recordUserConsent(userId: string, consent: RecordConsent, context: PrivacyRequestContext): Promise<UserConsent | undefined> {
+  await gdprCompliance.recordConsent({ ...consent, userId, ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}), userAgent: context.userAgent });
+  await storage.createPrivacyRequest({
+    userId,
+    type: "consent",
+    status: "completed",
+    details: { ...consent },
+    ipAddress: storedIpAddress(context),
+    completedAt: new Date()
+  });
+  return storage.getUserConsent(userId);
+}
+
+export async function withdrawUserConsent(userId: string, sessionId: string | undefined, context: PrivacyRequestContext): Promise<UserConsent | undefined> {
+  await gdprCompliance.withdrawConsent(sessionId ?? null, userId);
+  await storage.createPrivacyRequest({
+    userId,
+    type: "consent_withdrawal",
+    status: "completed",
+    details: { sessionId: sessionId ?? null },
+    ipAddress: storedIpAddress(context),
+    completedAt: new Date()
+  });
+  return storage.getUserConsent(userId);
+}
+
+// Everything stored about the user, as a ZIP of JSON files; the request is recorded whether or not it succeeds
+export async function buildDataExport(userId: string, context: PrivacyRequestContext): Promise<DataExport> {
+  const request = await storage.createPrivacyRequest({ userId, type: "export", status: "processing", details: {}, ipAddress: storedIpAddress(context) });
+  try {
+    const exported = await gdprCompliance.exportUserData(userId);
+    const sections = Object.entries(exported.data as Record<string, unknown[]>);
+    const manifest = {
+      exportedAt: exported.exportedAt,
+      userId,
+      sections: Object.fromEntries(sections.map(([name, rows]) => [name, { file: `${name}.json`, records: rows.length }]))
+    };
+
+    const data = zip([
+      { name: "export.json", data: Buffer.from(JSON.stringify(manifest, null, 2), "utf8") },
+      ...sections.map(([name, rows]) => ({ name: `${name}.json`, data: Buffer.from(JSON.stringify(rows, null, 2), "utf8") }))
+    ]);
+
+    if (request) {
+      await storage.updatePrivacyRequest(request.id, { status: "completed", details: { sections: manifest.sections, bytes: data.length }, completedAt: new Date() });
+    }
+    return { filename: `hooklinestudio-data-${exported.exportedAt.slice(0, 10)}.zip`, data };
+  } catch (error) {
+    if (request) {
+      await storage.updatePrivacyRequest(request.id, { status: "failed", error: errorMessage(error) });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Schedule the account for deletion once the grace period ends; until then the user can call it off.
+ * The email address has to be typed again, so a stolen session alone can't wipe an account by accident.
+ */
+export async function requestAccountDeletion(user: User, confirmEmail: string, context: PrivacyRequestContext): Promise<PrivacyRequest> {
+  if (confirmEmail.toLowerCase() !== user.email.toLowerCase()) {
+    throw new PrivacyError(400, { message: "The email address doesn't match your account" });
+  }
+  const graceDays = getEnv().PRIVACY_DELETION_GRACE_DAYS;
+  const scheduledFor = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+  const request = await storage.createPrivacyRequest({
+    userId: user.id,
+    type: "deletion",
+    status: "scheduled",
+    details: { graceDays },
+    ipAddress: storedIpAddress(context),
+    scheduledFor
+  });
+  if (!request) {
+    const pending = await storage.getPendingAccountDeletion(user.id);
+    throw new PrivacyError(409, { message: "Account deletion is already scheduled", ...(pending ? { request: pending } : {}) });
+  }
+  logger.info("Account deletion scheduled", { requestId: request.id, userId: user.id, scheduledFor: scheduledFor.toISOString() });
+  return request;
+}
+
+export async function cancelAccountDeletion(userId: string): Promise<PrivacyRequest> {
+  const cancelled = await storage.cancelAccountDeletion(userId);
+  if (cancelled) {
+    logger.info("Account deletion cancelled", { requestId: cancelled.id, userId });
+    return cancelled;
+  }
+  throw await storage.getPendingAccountDeletion(userId)
+    ? new PrivacyError(409, { message: "Account deletion is already in progress" })
+    : new PrivacyError(404, { message: "No account deletion is scheduled" });
+}
+
+/**
+ * Poll for account deletions whose grace period has ended and carry them out. Deletions are claimed
+ * with a row lock, so the processor can run on every instance.
+ */
+export function startPrivacyRequestProcessor(): PrivacyRequestProcessor {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let polling: Promise<void> = Promise.resolve();
+
+  const poll = async () => {
+    try {
+      let request: PrivacyRequest | undefined;
+      while (!stopped && (request = await storage.claimDueAccountDeletion(STALE_PROCESSING_MS))) {
+        await processAccountDeletion(request);
+      }
+    } catch (error) {
+      console.error("Privacy request processor poll failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(() => { polling = poll(); }, POLL_INTERVAL_MS);
+    }
+  };
+
+  polling = poll();
+  console.log("Privacy request processor started");
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      await polling;
+      console.log("Privacy request processor stopped");
+    }
+  };
+}
+
+/**
+ * Delete the Stripe customer (which cancels any subscription), then the Firebase user, then every row
+ * about the user. Each step is a no-op the second time, so a failed attempt is simply retried later;
+ * after the last attempt the request is marked failed and an alert goes out for manual follow-up.
+ */
+export async function processAccountDeletion(request: PrivacyRequest): Promise<PrivacyRequest | undefined> {
+  const details: Record<string, unknown> = { ...request.details };
+  try {
+    const user = request.userId ? await storage.getUser(request.userId) : undefined;
+    if (user) {
+      if (user.stripeCustomerId) {
+        details["stripeCustomerDeleted"] = await deleteCustomer(user.stripeCustomerId);
+      }
+      if (user.firebaseUid && adminAuth) {
+        details["firebaseUserDeleted"] = await deleteFirebaseUser(user.firebaseUid);
+      }
+      await gdprCompliance.deleteUserData(user.id);
+    }
+    logger.info("Account deleted", { requestId: request.id, userId: request.userId });
+    return storage.updatePrivacyRequest(request.id, { status: "completed", details, error: null, completedAt: new Date() });
+  } catch (error) {
+    const message = errorMessage(error);
+    logger.error(`Account deletion ${request.id} failed (attempt ${request.attempts} of ${MAX_DELETION_ATTEMPTS}): ${message}`);
+    if (request.attempts < MAX_DELETION_ATTEMPTS) {
+      return storage.updatePrivacyRequest(request.id, { status: "scheduled", details, error: message, scheduledFor: new Date(Date.now() + DELETION_RETRY_MS) });
+    }
+    const failed = await storage.updatePrivacyRequest(request.id, { status: "failed", details, error: message });
+    await raiseAlert({
+      type: "error",
+      severity: "high",
+      key: `privacy_deletion:${request.id}`,
+      message: `Account deletion ${request.id} failed after ${request.attempts} attempts: ${message}`,
+      threshold: MAX_DELETION_ATTEMPTS,
+      currentValue: request.attempts
+    }).catch(alertError => console.error("Failed to raise account deletion alert:", alertError));
+    return failed;
+  }
+}
+
+function storedIpAddress(context: PrivacyRequestContext): string | null {
+  return getEnv().ANONYMIZE_IPS ? gdprCompliance.anonymizeIP(context.ipAddress ?? undefined) : context.ipAddress;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,137 @@
+import { storage } from "../storage";
+import type { HookOutcome, HookScoreComponents } from "@shared/schema";
+
+// Calibration is only fitted once this many outcomes have been recorded for the user or brand
+export const MIN_CALIBRATION_OUTCOMES = 10;
+// A framework needs this many outcomes before its bonus is replaced
+const MIN_FRAMEWORK_OUTCOMES = 3;
+// Most recent outcomes considered - older posts say less about what works now
+const MAX_CALIBRATION_OUTCOMES = 500;
+// Pseudo-counts pulling small samples back towards the defaults
+const FRAMEWORK_PRIOR_WEIGHT = 3;
+const WEIGHT_PRIOR_WEIGHT = 20;
+// Bonus of a framework performing at the user's average. Under calibration, frameworks without enough
+// outcomes get this too, rather than the fixed defaults (which aren't relative to the user's own results)
+export const NEUTRAL_FRAMEWORK_BONUS = 0.5;
+
+export type ScoreComponent = keyof HookScoreComponents;
+
+export interface ScoreCalibration {
+  scope: "user" | "brand";
+  outcomes: number; // Outcomes the calibration was fitted on
+  weightMultipliers: Record<ScoreComponent, number>; // Scales each component's default weight (1 = unchanged)
+  frameworkBonuses: Record<string, number>; // 0-1 bonus for frameworks with enough outcomes; others get NEUTRAL_FRAMEWORK_BONUS
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+// z-scores within the sample; a metric without variance says nothing, so it scores 0 everywhere
+function zScores(values: number[]): number[] {
+  const average = mean(values);
+  const deviation = standardDeviation(values);
+  return values.map(value => deviation === 0 ? 0 : (value - average) / deviation);
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const xDeviation = standardDeviation(xs);
+  const yDeviation = standardDeviation(ys);
+  if (xs.length < 2 || xDeviation === 0 || yDeviation === 0) {
+    return 0;
+  }
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  return mean(xs.map((x, i) => (x - xMean) * (ys[i]! - yMean))) / (xDeviation * yDeviation);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Relative performance of each outcome within the set: the mean z-score of 3-second retention,
+ * average watch time, share rate and save rate. Views are left out since reach depends on far more than the hook.
+ */
+export function scoreOutcomePerformance(outcomes: HookOutcome[]): number[] {
+  const metrics = [
+    zScores(outcomes.map(outcome => outcome.threeSecondRetention)),
+    zScores(outcomes.map(outcome => outcome.avgWatchTimeSeconds)),
+    zScores(outcomes.map(outcome => outcome.shares / Math.max(outcome.views, 1))),
+    zScores(outcomes.map(outcome => outcome.saves / Math.max(outcome.views, 1)))
+  ];
+  return outcomes.map((_, i) => mean(metrics.map(metric => metric[i]!)));
+}
+
+/**
+ * Fit weights and framework bonuses to recorded outcomes.
+ * Framework bonuses move from NEUTRAL_FRAMEWORK_BONUS by the framework's mean performance (shrunk towards it on
+ * small samples); component weights scale by how strongly each component tracked performance, shrunk towards 1.
+ * Returns null below MIN_CALIBRATION_OUTCOMES.
+ */
+export function fitScoreCalibration(outcomes: HookOutcome[], scope: ScoreCalibration["scope"]): ScoreCalibration | null {
+  if (outcomes.length < MIN_CALIBRATION_OUTCOMES) {
+    return null;
+  }
+
+  const performance = scoreOutcomePerformance(outcomes);
+
+  const byFramework = new Map<string, number[]>();
+  outcomes.forEach((outcome, i) => {
+    byFramework.set(outcome.framework, [...(byFramework.get(outcome.framework) ?? []), performance[i]!]);
+  });
+
+  const frameworkBonuses: Record<string, number> = {};
+  for (const [framework, scores] of Array.from(byFramework.entries())) {
+    if (scores.length >= MIN_FRAMEWORK_OUTCOMES) {
+      const shrunkMean = mean(scores) * scores.length / (scores.length + FRAMEWORK_PRIOR_WEIGHT);
+      frameworkBonuses[framework] = Number(clamp(NEUTRAL_FRAMEWORK_BONUS + 0.3 * shrunkMean, 0.1, 1).toFixed(2));
+    }
+  }
+
+  // Weights can only be fitted on hooks that recorded their score components
+  const withComponents = outcomes
+    .map((outcome, i) => ({ components: outcome.scoreComponents, performance: performance[i]! }))
+    .filter((entry): entry is { components: HookScoreComponents; performance: number } => !!entry.components);
+
+  const weightMultipliers: Record<ScoreComponent, number> = { length: 1, framework: 1, objective: 1 };
+  if (withComponents.length >= MIN_CALIBRATION_OUTCOMES) {
+    const shrink = withComponents.length / (withComponents.length + WEIGHT_PRIOR_WEIGHT);
+    for (const component of Object.keys(weightMultipliers) as ScoreComponent[]) {
+      const r = correlation(
+        withComponents.map(entry => entry.components[component]),
+        withComponents.map(entry => entry.performance)
+      );
+      weightMultipliers[component] = Number(clamp(1 + r * shrink, 0.25, 2).toFixed(2));
+    }
+  }
+
+  return { scope, outcomes: outcomes.length, weightMultipliers, frameworkBonuses };
+}
+
+/**
+ * Calibration for a generation: the brand's own outcomes when there are enough of them,
+ * otherwise the user's, otherwise null (default weights).
+ */
+export async function getScoreCalibration(userId: string, brandId: string | null): Promise<ScoreCalibration | null> {
+  if (brandId) {
+    const brandOutcomes = await storage.getCalibrationOutcomes({ brandId }, MAX_CALIBRATION_OUTCOMES);
+    const brandCalibration = fitScoreCalibration(brandOutcomes, "brand");
+    if (brandCalibration) {
+      return brandCalibration;
+    }
+  }
+
+  const userOutcomes = await storage.getCalibrationOutcomes({ userId }, MAX_CALIBRATION_OUTCOMES);
+  return fitScoreCalibration(userOutcomes, "user");
+}
+
+// Appended to a score breakdown so users can tell their own results shaped the score
+export function describeCalibration(calibration: ScoreCalibration): string {
+  return `calibrated on ${calibration.outcomes} of your ${calibration.scope === "brand" ? "brand's " : ""}posted hooks`;
+}
@@ -0,0 +1,295 @@
+import { getLlmProvider, type LlmMessage } from "./llm-provider";
+import { buildSafetyPolicy, checkHookSafety, describeSafetyPolicy } from "./brand-safety";
+import { countWords, describeLanguageRequirement } from "./localization";
+import { formatCaptionTimestamp } from "./exports/captions";
+import type { BrandContext } from "./brand-context";
+import type { HookGeneration, HookScript, ScriptBeat, ScriptShot } from "@shared/schema";
+
+// Comfortable speaking pace, used to keep each beat's voiceover sayable in its time
+const WORDS_PER_SECOND = 2.5;
+// The hook has to land within the first few seconds whatever the model suggests
+const MAX_HOOK_SECONDS = 5;
+const ON_SCREEN_TEXT_MAX_WORDS = 8;
+// Scripts that break the brand's safety policy are asked for again this many times before giving up
+const MAX_SAFETY_RETRIES = 1;
+
+// Closing line used when the model's script doesn't end on a call to action
+const OBJECTIVE_CTAS: Record<string, string> = {
+  watch_time: "Follow so you don't miss part two.",
+  shares: "Send this to someone who needs to hear it.",
+  saves: "Save this so it's here when you need it.",
+  ctr: "Tap the link for the full breakdown."
+};
+
+export interface BuildScriptParams {
+  generation: HookGeneration;
+  hookIndex: number;
+  durationSeconds: number;
+  brand: BrandContext;
+}
+
+// A script ready to be saved as a version
+export interface HookScriptDraft {
+  durationSeconds: number;
+  beats: ScriptBeat[];
+  shots: ScriptShot[];
+}
+
+export class ScriptGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptGenerationError";
+  }
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+// The re-hook strategy is only kept on the top three variants, matched back by the verbal hook
+function findReHookStrategy(generation: HookGeneration, verbalHook: string): string | undefined {
+  return generation.topThreeVariants?.find(variant => variant.verbalHook === verbalHook)?.reHookStrategy;
+}
+
+/**
+ * Turn the model's script into one the app can trust: the chosen hook is the first beat, word for word,
+ * a CTA closes it, beats run back to back and fill the target duration (never shorter than their voiceover takes to say),
+ * and every beat has at least one shot - the first being the hook's visual.
+ */
+export function normalizeScript(raw: any, hook: HookGeneration["hooks"][number], objective: string, durationSeconds: number, locale?: string): HookScriptDraft {
+  const beatTypes: ScriptBeat["type"][] = ["hook", "rehook", "value", "cta"];
+  const rawBeats: any[] = Array.isArray(raw?.beats) ? raw.beats : [];
+  const rawShots: any[] = Array.isArray(raw?.shots) ? raw.shots : [];
+
+  const beats = rawBeats
+    .map((beat, index) => ({ beat, index }))
+    .filter(({ beat }) => typeof beat?.voiceover === "string" && beat.voiceover.trim())
+    .map(({ beat, index }) => ({
+      sourceIndex: index,
+      type: (beatTypes.includes(beat.type) ? beat.type : "value") as ScriptBeat["type"],
+      voiceover: beat.voiceover.trim() as string,
+      onScreenText: typeof beat.onScreenText === "string" && beat.onScreenText.trim()
+        ? beat.onScreenText.trim().split(/\s+/).slice(0, ON_SCREEN_TEXT_MAX_WORDS).join(" ")
+        : undefined,
+      seconds: Number(beat.endSeconds) - Number(beat.startSeconds)
+    }));
+
+  // The script continues from the hook that was picked, so the model doesn't get to reword it
+  const hookBeat = {
+    sourceIndex: beats[0]?.type === "hook" ? beats[0].sourceIndex : -1,
+    type: "hook" as const,
+    voiceover: hook.verbalHook,
+    onScreenText: hook.textualHook || (beats[0]?.type === "hook" ? beats[0].onScreenText : undefined),
+    seconds: Math.min(MAX_HOOK_SECONDS, countWords(hook.verbalHook, locale) / WORDS_PER_SECOND + 1)
+  };
+  const body = beats.filter(beat => beat.type !== "hook");
+  if (body.length === 0 || body[body.length - 1]!.type !== "cta") {
+    body.push({
+      sourceIndex: -1,
+      type: "cta",
+      voiceover: OBJECTIVE_CTAS[objective] || OBJECTIVE_CTAS["watch_time"]!,
+      onScreenText: undefined,
+      seconds: NaN
+    });
+  }
+
+  // Body beats share what's left after the hook, in proportion to the model's timings
+  const remaining = durationSeconds - hookBeat.seconds;
+  const weights = body.map(beat => Math.max(
+    Number.isFinite(beat.seconds) && beat.seconds > 0 ? beat.seconds : 0,
+    countWords(beat.voiceover, locale) / WORDS_PER_SECOND,
+    1
+  ));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let cursor = 0;
+  const timed = [hookBeat, ...body].map((beat, index) => {
+    const length = index === 0 ? hookBeat.seconds : remaining * weights[index - 1]! / totalWeight;
+    const startSeconds = roundSeconds(cursor);
+    cursor += length;
+    return { ...beat, startSeconds, endSeconds: index === body.length ? durationSeconds : roundSeconds(cursor) };
+  });
+
+  const finalBeats: ScriptBeat[] = timed.map(beat => ({
+    type: beat.type,
+    startSeconds: beat.startSeconds,
+    endSeconds: beat.endSeconds,
+    voiceover: beat.voiceover,
+    ...(beat.onScreenText ? { onScreenText: beat.onScreenText } : {})
+  }));
+
+  // Shots follow their beat to its new position; shots for beats that were dropped go with them
+  const shots: ScriptShot[] = [];
+  timed.forEach((beat, beatIndex) => {
+    const beatShots = beat.sourceIndex < 0
+      ? []
+      : rawShots.filter(shot => Number(shot?.beatIndex) === beat.sourceIndex && typeof shot?.description === "string" && shot.description.trim());
+    const descriptions: string[] = beatShots.map(shot => shot.description.trim());
+
+    if (beatIndex === 0 && hook.visualHook) {
+      descriptions.splice(0, descriptions.length > 0 ? 1 : 0, hook.visualHook);
+    }
+    if (descriptions.length === 0) {
+      descriptions.push(beat.type === "cta" ? "Direct to camera for the call to action" : `Cut to a shot showing: ${beat.onScreenText || beat.voiceover}`);
+    }
+
+    const spacing = (beat.endSeconds - beat.startSeconds) / descriptions.length;
+    descriptions.forEach((description, shotIndex) => {
+      shots.push({ beatIndex, startSeconds: roundSeconds(beat.startSeconds + shotIndex * spacing), description });
+    });
+  });
+
+  return { durationSeconds, beats: finalBeats, shots };
+}
+
+/**
+ * Build a timed short-form script that continues from one of a generation's hooks:
+ * hook, re-hook, value blocks and a CTA, with a shot list that opens on the hook's visual and on-screen text cues.
+ * A script that breaks the brand's safety policy is asked for again with the reasons spelled out.
+ * Throws ScriptGenerationError when the model returns nothing usable or nothing safe.
+ */
+export async function buildHookScript(params: BuildScriptParams): Promise<HookScriptDraft> {
+  const { generation, hookIndex, durationSeconds, brand } = params;
+  const hook = generation.hooks[hookIndex];
+  if (!hook) {
+    throw new ScriptGenerationError(`Generation has no hook at index ${hookIndex}`);
+  }
+
+  const reHookStrategy = findReHookStrategy(generation, hook.verbalHook);
+  const maxWords = Math.floor(durationSeconds * WORDS_PER_SECOND);
+
+  const systemPrompt = `You are HookBot, an expert short-form video scriptwriter. You write tight, timed ${generation.platform} scripts that pay off the hook they open with.`;
+
+  const userPrompt = `### SCRIPT REQUEST ###
+TOPIC: "${generation.topic}"
+PLATFORM: ${generation.platform}
+OBJECTIVE: ${generation.objective}
+LENGTH: ${durationSeconds} seconds (at most ${maxWords} spoken words in total)
+
+### CHOSEN HOOK ###
+Verbal: "${hook.verbalHook}"
+Visual: ${hook.visualHook || "none given"}
+On-screen text: ${hook.textualHook || "none given"}
+Framework: ${hook.framework}
+${reHookStrategy ? `Re-hook strategy: ${reHookStrategy}\n` : ""}
+### BRAND CONTEXT ###
+Company: ${brand.company}
+Audience: ${brand.audience}
+Voice: ${brand.voice}
+
+### BRAND SAFETY ###
+${describeSafetyPolicy(buildSafetyPolicy(brand.bannedTerms, brand.safety))}
+
+### STRUCTURE ###
+1. hook - the verbal hook above, word for word, within the first ${MAX_HOOK_SECONDS} seconds
+2. rehook - around seconds 5-8, renew the curiosity so viewers stay${reHookStrategy ? " (follow the re-hook strategy)" : ""}
+3. value - two to four blocks that deliver exactly what the hook promised, nothing more
+4. cta - one closing call to action that serves the ${generation.objective} objective
+
+The shot list opens on the hook's visual and gives every beat at least one shot. Keep on-screen text to ${ON_SCREEN_TEXT_MAX_WORDS} words or fewer.
+${generation.locale !== "en" ? `\n${describeLanguageRequirement(generation.locale)} This applies to the voiceover and on-screen text; write shot descriptions in English.\n` : ""}
+### OUTPUT FORMAT ###
+Return exactly this JSON structure:
+{
+  "beats": [
+    { "type": "hook | rehook | value | cta", "startSeconds": 0, "endSeconds": 4, "voiceover": "What's said", "onScreenText": "Text cue on screen" }
+  ],
+  "shots": [
+    { "beatIndex": 0, "startSeconds": 0, "description": "What the camera shows" }
+  ]
+}`;
+
+  const policy = buildSafetyPolicy(brand.bannedTerms, brand.safety);
+  const messages: LlmMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    let content: string | null;
+    try {
+      content = await getLlmProvider().complete({
+        task: "script",
+        model: generation.modelType === "gpt-4o-mini" ? "gpt-4o-mini" : "gpt-4o",
+        messages,
+        json: true,
+        temperature: 0.7,
+        maxTokens: 2000,
+        context: {
+          topic: generation.topic,
+          platform: generation.platform,
+          objective: generation.objective,
+          items: [{ index: hookIndex, text: hook.verbalHook }],
+          durationSeconds,
+          locale: generation.locale
+        }
+      });
+    } catch (error) {
+      console.error("Script generation failed:", error);
+      throw new ScriptGenerationError("The model couldn't build a script right now");
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse((content || "").trim().replace(/^```json\s*/, "").replace(/\s*```$/, "").replace(/,(\s*[}\]])/g, "$1"));
+    } catch {
+      throw new ScriptGenerationError("The model returned a script that couldn't be read");
+    }
+
+    const script = normalizeScript(raw, hook, generation.objective, durationSeconds, generation.locale);
+    // The hook beat already passed the gate at generation time, so only the new beats are checked
+    const reasons = script.beats.slice(1).flatMap(beat =>
+      checkHookSafety({ verbalHook: beat.voiceover, ...(beat.onScreenText ? { textualHook: beat.onScreenText } : {}) }, policy).reasons
+    );
+    if (reasons.length === 0) {
+      return script;
+    }
+    if (attempt >= MAX_SAFETY_RETRIES) {
+      throw new ScriptGenerationError(`The script broke the brand safety policy: ${Array.from(new Set(reasons)).join("; ")}`);
+    }
+    console.log(`Script failed the brand safety gate (${reasons.join(", ")}), asking again`);
+    messages.push(
+      { role: "assistant", content: content || "" },
+      { role: "user", content: `Rewrite the script without these problems: ${Array.from(new Set(reasons)).join("; ")}. Keep the same JSON structure.` }
+    );
+  }
+}
+
+function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+const BEAT_LABELS: Record<ScriptBeat["type"], string> = {
+  hook: "HOOK",
+  rehook: "RE-HOOK",
+  value: "VALUE",
+  cta: "CTA"
+};
+
+/**
+ * Render a saved script for download: "text" is a readable shooting script with voiceover, on-screen text and shots
+ * per beat; "srt" holds the on-screen text cues as captions, ready to drop into an editor.
+ */
+export function formatHookScript(script: HookScript, format: "text" | "srt"): string {
+  if (format === "srt") {
+    return script.beats
+      .filter(beat => beat.onScreenText)
+      .map((beat, index) => `${index + 1}\n${formatCaptionTimestamp(beat.startSeconds, "srt")} --> ${formatCaptionTimestamp(beat.endSeconds, "srt")}\n${beat.onScreenText}\n`)
+      .join("\n");
+  }
+
+  const sections = script.beats.map((beat, beatIndex) => {
+    const shots = script.shots
+      .filter(shot => shot.beatIndex === beatIndex)
+      .map(shot => `  - [${formatTimestamp(shot.startSeconds)}] ${shot.description}`);
+    return [
+      `[${formatTimestamp(beat.startSeconds)}-${formatTimestamp(beat.endSeconds)}] ${BEAT_LABELS[beat.type]}`,
+      `VO: ${beat.voiceover}`,
+      ...(beat.onScreenText ? [`ON SCREEN: ${beat.onScreenText}`] : []),
+      ...(shots.length > 0 ? ["SHOTS:", ...shots] : [])
+    ].join("\n");
+  });
+
+  return `Script v${script.version} (${script.durationSeconds}s)\n\n${sections.join("\n\n")}\n`;
+}
@@ -0,0 +1,90 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:net";
+import type { AddressInfo } from "node:net";
+import { sendSmtpMail, SmtpError, type SmtpConfig } from "./smtp";
+
+// A plain-text SMTP server that never offers STARTTLS, recording the commands and messages it receives
+let commands: string[] = [];
+let messages: string[] = [];
+let rejectRecipients = false;
+
+const server: Server = createServer(socket => {
+  let buffer = "";
+  let inData = false;
+  socket.write("220 smtp.test ESMTP\r\n");
+  socket.on("data", chunk => {
+    buffer += chunk.toString("utf8");
+    if (inData) {
+      const end = buffer.indexOf("\r\n.\r\n");
+      if (end === -1) return;
+      messages.push(buffer.slice(0, end));
+      buffer = buffer.slice(end + 5);
+      inData = false;
+      socket.write("250 Queued\r\n");
+    }
+    let end: number;
+    while (!inData && (end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      commands.push(line.split(" ")[0]!.toUpperCase());
+      if (/^EHLO/i.test(line)) {
+        socket.write("250-smtp.test\r\n250-AUTH PLAIN LOGIN\r\n250 SIZE 1000000\r\n");
+      } else if (/^AUTH/i.test(line)) {
+        socket.write("235 Authenticated\r\n");
+      } else if (/^RCPT/i.test(line)) {
+        socket.write(rejectRecipients ? "550 No such user\r\n" : "250 OK\r\n");
+      } else if (/^DATA/i.test(line)) {
+        inData = true;
+        socket.write("354 Go ahead\r\n");
+      } else if (/^QUIT/i.test(line)) {
+        socket.end("221 Bye\r\n");
+      } else {
+        socket.write("250 OK\r\n");
+      }
+    }
+  });
+  socket.on("error", () => undefined);
+});
+
+let config: SmtpConfig;
+const message = { from: "Alerts <alerts@example.com>", to: ["ops@example.com"], subject: "Error rate above threshold", text: "5xx rate at 12%" };
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  config = { host: "127.0.0.1", port: (server.address() as AddressInfo).port, secure: false };
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  commands = [];
+  messages = [];
+  rejectRecipients = false;
+});
+
+test("sends without credentials over a plain connection", async () => {
+  await sendSmtpMail(config, message);
+
+  assert.equal(messages.length, 1);
+  assert.match(messages[0]!, /^Subject: Error rate above threshold$/m);
+  assert.match(messages[0]!, /^To: ops@example\.com$/m);
+  assert.ok(!commands.includes("AUTH"));
+});
+
+test("refuses to send credentials when the server doesn't offer STARTTLS", async () => {
+  await assert.rejects(sendSmtpMail({ ...config, user: "alerts", password: "secret" }, message), SmtpError);
+
+  assert.ok(!commands.includes("AUTH"));
+  assert.ok(!commands.includes("MAIL"));
+  assert.equal(messages.length, 0);
+});
+
+test("a rejected recipient fails with the server's reply code", async () => {
+  rejectRecipients = true;
+
+  await assert.rejects(sendSmtpMail(config, message), (error: unknown) => error instanceof SmtpError && error.code === 550);
+  assert.equal(messages.length, 0);
+});
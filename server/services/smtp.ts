@@ -0,0 +1,51 @@
+import nodemailer from "nodemailer";
+
+const TIMEOUT_MS = 15_000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS, which is required once credentials are set
+  user?: string | undefined;
+  password?: string | undefined;
+}
+
+export interface SmtpMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+/**
+ * Send a plain-text email over SMTP to all recipients at once. Credentials only ever go over TLS: without
+ * `secure`, a server that doesn't offer STARTTLS is refused before AUTH. Throws SmtpError when delivery fails.
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<void> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && !!config.user,
+    ...(config.user ? { auth: { user: config.user, pass: config.password ?? "" } } : {}),
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS
+  });
+
+  try {
+    await transport.sendMail({ from: message.from, to: message.to, subject: message.subject, text: message.text });
+  } catch (error) {
+    const { message: reason, responseCode } = error as Error & { responseCode?: number };
+    throw new SmtpError(`SMTP delivery failed: ${reason}`, responseCode);
+  } finally {
+    transport.close();
+  }
+}
@@ -1,19 +1,32 @@
 import Stripe from "stripe";
 import { storage } from "../storage";
+import type { InsertUser } from "@shared/schema";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
 }
 
+// STRIPE_API_URL points the client at stripe-mock or a local test server instead of api.stripe.com
+const stripeApiUrl = process.env["STRIPE_API_URL"] ? new URL(process.env["STRIPE_API_URL"]) : null;
+
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-06-30.basil",
+  ...(stripeApiUrl ? {
+    host: stripeApiUrl.hostname,
+    port: stripeApiUrl.port || (stripeApiUrl.protocol === "http:" ? 80 : 443),
+    protocol: stripeApiUrl.protocol === "http:" ? "http" : "https"
+  } : {})
 });
 
+// Billing meter every plan's metered overage price is attached to; one event per overage generation
+const OVERAGE_METER_EVENT_NAME = process.env["STRIPE_OVERAGE_METER_EVENT_NAME"] || "pro_generation_overage";
+
 // Subscription plans - these should match your Stripe product/price IDs
 export const SUBSCRIPTION_PLANS = {
   FREE: {
     name: "Free",
     priceId: null,
+    overagePriceId: null,
     amount: 0,
     currency: "usd",
     interval: "month",
@@ -34,6 +47,7 @@ export const SUBSCRIPTION_PLANS = {
   STARTER: {
     name: "Starter",
     priceId: process.env.STRIPE_STARTER_PRICE_ID || "price_starter_placeholder",
+    overagePriceId: process.env["STRIPE_STARTER_OVERAGE_PRICE_ID"] || "price_starter_overage_placeholder", // Metered price on the overage meter
     amount: 9,
     currency: "usd",
     interval: "month",
@@ -54,6 +68,7 @@ export const SUBSCRIPTION_PLANS = {
   CREATOR: {
     name: "Creator",
     priceId: process.env.STRIPE_CREATOR_PRICE_ID || "price_creator_placeholder",
+    overagePriceId: process.env["STRIPE_CREATOR_OVERAGE_PRICE_ID"] || "price_creator_overage_placeholder", // Metered price on the overage meter
     amount: 15,
     currency: "usd",
     interval: "month",
@@ -75,6 +90,7 @@ export const SUBSCRIPTION_PLANS = {
   PRO: {
     name: "Pro",
     priceId: process.env.STRIPE_PRO_PRICE_ID || "price_pro_placeholder",
+    overagePriceId: process.env["STRIPE_PRO_OVERAGE_PRICE_ID"] || "price_pro_overage_placeholder", // Metered price on the overage meter
     amount: 24,
     currency: "usd",
     interval: "month",
@@ -89,6 +105,7 @@ export const SUBSCRIPTION_PLANS = {
       draftGenerationsPerMonth: -1, // unlimited
       exports: true,
       sheetsExport: true,
+      coldOpenExports: true,
       analytics: true,
       priority: false,
       overageRate: 2.5, // $2.50 per +100 (volume price)
@@ -98,6 +115,7 @@ export const SUBSCRIPTION_PLANS = {
   TEAMS: {
     name: "Teams",
     priceId: process.env.STRIPE_TEAMS_PRICE_ID || "price_teams_placeholder",
+    overagePriceId: process.env["STRIPE_TEAMS_OVERAGE_PRICE_ID"] || "price_teams_overage_placeholder", // Metered price on the overage meter
     amount: 59,
     currency: "usd",
     interval: "month",
@@ -111,6 +129,8 @@ export const SUBSCRIPTION_PLANS = {
       proGenerationsPerMonth: 1500, // pooled across team
       draftGenerationsPerMonth: -1, // unlimited
       exports: true,
+      sheetsExport: true,
+      coldOpenExports: true,
       teamSeats: 3,
       sharedStyleGuide: true,
       priority: true,
@@ -212,6 +232,7 @@ export async function getSubscriptionStatus(subscriptionId: string) {
       currentPeriodEnd: new Date((subscription as any).current_period_end * 1000),
       cancelAtPeriodEnd: (subscription as any).cancel_at_period_end,
       trialEnd: (subscription as any).trial_end,
+      scheduledChange: subscription.schedule ? await getScheduledPlanChange(subscription.schedule) : null,
     };
   } catch (error) {
     console.error("Error getting subscription status:", error);
@@ -232,72 +253,439 @@ export async function cancelSubscription(subscriptionId: string) {
   }
 }
 
-// Handle Stripe webhooks
-export async function handleStripeWebhook(event: any): Promise<void> {
+// Delete a customer, which also cancels their subscriptions at once - false when Stripe no longer has the customer
+export async function deleteCustomer(customerId: string): Promise<boolean> {
   try {
-    switch (event.type) {
-      case 'invoice.payment_succeeded':
-        const invoice = event.data.object;
-        if (invoice.subscription) {
-          const subscription = await stripe.subscriptions.retrieve(invoice.subscription);
-          const customer = await stripe.customers.retrieve(subscription.customer as string) as any;
-          
-          if (customer.metadata?.userId) {
-            await storage.updateUser(customer.metadata.userId, {
-              subscriptionStatus: 'active',
-              currentPeriodEnd: new Date((subscription as any).current_period_end * 1000),
-              cancelAtPeriodEnd: (subscription as any).cancel_at_period_end
-            });
-          }
-        }
-        break;
-
-      case 'invoice.payment_failed':
-        const failedInvoice = event.data.object;
-        if (failedInvoice.subscription) {
-          const subscription = await stripe.subscriptions.retrieve(failedInvoice.subscription);
-          const customer = await stripe.customers.retrieve(subscription.customer as string) as any;
-          
-          if (customer.metadata?.userId) {
-            await storage.updateUser(customer.metadata.userId, {
-              subscriptionStatus: 'past_due'
-            });
-          }
-        }
-        break;
-
-      case 'customer.subscription.deleted':
-        const canceledSubscription = event.data.object;
-        const customer = await stripe.customers.retrieve(canceledSubscription.customer) as any;
-        
-        if (customer.metadata?.userId) {
-          await storage.updateUser(customer.metadata.userId, {
-            subscriptionStatus: 'canceled',
-            subscriptionPlan: 'free',
-            stripeSubscriptionId: null,
-            cancelAtPeriodEnd: false
-          });
-        }
-        break;
-
-      case 'customer.subscription.updated':
-        const updatedSubscription = event.data.object;
-        const subCustomer = await stripe.customers.retrieve(updatedSubscription.customer) as any;
-        
-        if (subCustomer.metadata?.userId) {
-          await storage.updateUser(subCustomer.metadata.userId, {
-            subscriptionStatus: updatedSubscription.status,
-            currentPeriodEnd: new Date(updatedSubscription.current_period_end * 1000),
-            cancelAtPeriodEnd: updatedSubscription.cancel_at_period_end
-          });
+    await stripe.customers.del(customerId);
+    return true;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError && error.code === "resource_missing") {
+      return false;
+    }
+    console.error("Error deleting customer:", error);
+    throw error;
+  }
+}
+
+export type PaidPlanKey = Exclude<keyof typeof SUBSCRIPTION_PLANS, "FREE">;
+
+// Thrown for plan changes that can't be made - routes answer 400 with the message
+export class PlanChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanChangeError";
+  }
+}
+
+function getPriceId(price: string | Stripe.Price | Stripe.DeletedPrice): string {
+  return typeof price === "string" ? price : price.id;
+}
+
+interface PlanChange {
+  subscription: Stripe.Subscription;
+  currentPlan: PaidPlanKey;
+  plan: PaidPlanKey;
+  direction: "upgrade" | "downgrade";
+  priceSwaps: Map<string, string>; // Current plan price ID -> the new plan's equivalent
+  items: Array<{ id: string; price: string }>; // Existing subscription items moved onto the new plan's prices
+}
+
+// Work out how a subscription moves to another plan: a pricier plan is an upgrade, anything else a downgrade
+async function getPlanChange(subscriptionId: string, plan: PaidPlanKey): Promise<PlanChange> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  if (!ENTITLED_SUBSCRIPTION_STATUSES.has(subscription.status)) {
+    throw new PlanChangeError(`Subscription is ${subscription.status} - it can't change plans`);
+  }
+
+  const currentPlanKey = subscription.items.data
+    .map(item => getPlanForPriceId(item.price.id))
+    .find(itemPlan => itemPlan !== null);
+  if (!currentPlanKey) {
+    throw new PlanChangeError("Subscription isn't on a known plan");
+  }
+  const currentPlan = currentPlanKey.toUpperCase() as PaidPlanKey;
+  if (currentPlan === plan) {
+    throw new PlanChangeError(`Already on the ${SUBSCRIPTION_PLANS[plan].name} plan`);
+  }
+
+  // Both the base price and, when overage is on, the metered overage price move to the new plan's
+  const priceSwaps = new Map<string, string>([
+    [SUBSCRIPTION_PLANS[currentPlan].priceId, SUBSCRIPTION_PLANS[plan].priceId],
+    [SUBSCRIPTION_PLANS[currentPlan].overagePriceId, SUBSCRIPTION_PLANS[plan].overagePriceId]
+  ]);
+
+  return {
+    subscription,
+    currentPlan,
+    plan,
+    direction: SUBSCRIPTION_PLANS[plan].amount > SUBSCRIPTION_PLANS[currentPlan].amount ? "upgrade" : "downgrade",
+    priceSwaps,
+    items: subscription.items.data
+      .filter(item => priceSwaps.has(item.price.id))
+      .map(item => ({ id: item.id, price: priceSwaps.get(item.price.id)! }))
+  };
+}
+
+/**
+ * Preview a plan change with Stripe's upcoming-invoice API.
+ * Upgrades are charged the prorated difference straight away, so amountDue is what gets invoiced now;
+ * downgrades wait for the period end, so amountDue is the first invoice on the new plan.
+ * Pass prorationDate back to changeSubscriptionPlan so the charge matches the preview.
+ */
+export async function previewPlanChange(subscriptionId: string, plan: PaidPlanKey) {
+  try {
+    const change = await getPlanChange(subscriptionId, plan);
+    const prorationDate = Math.floor(Date.now() / 1000);
+    const periodEnd = change.subscription.items.data[0]?.current_period_end ?? prorationDate;
+
+    const invoice = await stripe.invoices.createPreview({
+      customer: getCustomerId(change.subscription.customer),
+      subscription: subscriptionId,
+      subscription_details: {
+        items: change.items,
+        proration_behavior: change.direction === "upgrade" ? "always_invoice" : "none",
+        proration_date: prorationDate
+      }
+    });
+
+    const prorationAmount = invoice.lines.data
+      .filter(line => line.parent?.subscription_item_details?.proration)
+      .reduce((total, line) => total + line.amount, 0);
+
+    return {
+      currentPlan: change.currentPlan.toLowerCase(),
+      plan: plan.toLowerCase(),
+      direction: change.direction,
+      amountDue: invoice.amount_due, // cents
+      prorationAmount, // cents, net of the credit for unused time on the current plan
+      currency: invoice.currency,
+      effectiveAt: new Date((change.direction === "upgrade" ? prorationDate : periodEnd) * 1000),
+      prorationDate
+    };
+  } catch (error) {
+    console.error("Error previewing plan change:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move a subscription to another plan in place.
+ * Upgrades apply now and invoice the proration immediately; downgrades are put on a subscription
+ * schedule that switches prices at the end of the current period. Either replaces a pending downgrade.
+ */
+export async function changeSubscriptionPlan(subscriptionId: string, plan: PaidPlanKey, prorationDate?: number) {
+  try {
+    const change = await getPlanChange(subscriptionId, plan);
+    const { subscription } = change;
+
+    if (subscription.schedule) {
+      await stripe.subscriptionSchedules.release(typeof subscription.schedule === "string" ? subscription.schedule : subscription.schedule.id);
+    }
+
+    if (change.direction === "upgrade") {
+      const updated = await stripe.subscriptions.update(subscriptionId, {
+        items: change.items,
+        proration_behavior: "always_invoice",
+        proration_date: prorationDate ?? Math.floor(Date.now() / 1000),
+        payment_behavior: "pending_if_incomplete", // Keep the current plan if the proration can't be paid
+        cancel_at_period_end: false
+      });
+      // A pending update applies once its invoice is paid, and the subscription webhook syncs it then
+      return { direction: change.direction, plan: plan.toLowerCase(), effectiveAt: new Date(), pending: !!updated.pending_update };
+    }
+
+    if (subscription.cancel_at_period_end) {
+      await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+    }
+
+    const schedule = await stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+    const currentPhase = schedule.phases[0];
+    if (!currentPhase) {
+      throw new Error(`Subscription schedule ${schedule.id} has no current phase`);
+    }
+
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: "release",
+      phases: [
+        {
+          items: currentPhase.items.map(item => ({
+            price: getPriceId(item.price),
+            ...(item.quantity !== undefined ? { quantity: item.quantity } : {})
+          })),
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+          ...(currentPhase.trial_end ? { trial_end: currentPhase.trial_end } : {})
+        },
+        {
+          items: currentPhase.items.map(item => ({
+            price: change.priceSwaps.get(getPriceId(item.price)) ?? getPriceId(item.price),
+            ...(item.quantity !== undefined ? { quantity: item.quantity } : {})
+          })),
+          duration: { interval: "month" }
         }
-        break;
+      ]
+    });
+
+    return { direction: change.direction, plan: plan.toLowerCase(), effectiveAt: new Date(currentPhase.end_date * 1000), pending: true };
+  } catch (error) {
+    console.error("Error changing subscription plan:", error);
+    throw error;
+  }
+}
+
+// Cancel a scheduled downgrade, keeping the subscription on its current plan
+export async function cancelScheduledPlanChange(subscriptionId: string): Promise<boolean> {
+  try {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (!subscription.schedule) {
+      return false;
+    }
+    await stripe.subscriptionSchedules.release(typeof subscription.schedule === "string" ? subscription.schedule : subscription.schedule.id);
+    return true;
+  } catch (error) {
+    console.error("Error canceling scheduled plan change:", error);
+    throw error;
+  }
+}
 
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+// The plan a subscription schedule switches to next, if any
+async function getScheduledPlanChange(scheduleRef: string | Stripe.SubscriptionSchedule) {
+  const schedule = typeof scheduleRef === "string" ? await stripe.subscriptionSchedules.retrieve(scheduleRef) : scheduleRef;
+  const now = Math.floor(Date.now() / 1000);
+  const nextPhase = schedule.phases.find(phase => phase.start_date > now);
+  const plan = nextPhase?.items
+    .map(item => getPlanForPriceId(getPriceId(item.price)))
+    .find(itemPlan => itemPlan !== null);
+  return nextPhase && plan ? { plan, effectiveAt: new Date(nextPhase.start_date * 1000) } : null;
+}
+
+// Add the plan's metered overage price to the subscription so reported usage shows up on the next invoice
+export async function ensureOverageSubscriptionItem(subscriptionId: string, overagePriceId: string): Promise<string> {
+  try {
+    const items = await stripe.subscriptionItems.list({ subscription: subscriptionId });
+    const existing = items.data.find(item => item.price.id === overagePriceId);
+    if (existing) {
+      return existing.id;
     }
+
+    const item = await stripe.subscriptionItems.create({
+      subscription: subscriptionId,
+      price: overagePriceId,
+      proration_behavior: "none"
+    });
+    return item.id;
+  } catch (error) {
+    console.error("Error adding overage subscription item:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send a committed overage usage event to Stripe as a meter event, billed to the plan's payer
+ * (the workspace owner for pooled usage). Returns false when there is nothing to report.
+ */
+export async function reportOverageUsage(usageEventId: string): Promise<boolean> {
+  const event = await storage.getUsageEvent(usageEventId);
+  if (!event || !event.overage || event.status !== "committed" || event.overageReportedAt) {
+    return false;
+  }
+
+  const billingUserId = event.workspaceId
+    ? (await storage.getWorkspace(event.workspaceId))?.ownerId
+    : event.userId;
+  const billingUser = billingUserId ? await storage.getUser(billingUserId) : undefined;
+  if (!billingUser?.stripeCustomerId) {
+    console.error(`Cannot report overage for usage event ${event.id}: no Stripe customer for the billing user`);
+    return false;
+  }
+
+  await stripe.billing.meterEvents.create({
+    event_name: OVERAGE_METER_EVENT_NAME,
+    identifier: event.id, // Stripe drops repeats of the same identifier, so a retry can't double-bill
+    timestamp: Math.floor(event.createdAt.getTime() / 1000),
+    payload: {
+      stripe_customer_id: billingUser.stripeCustomerId,
+      value: String(event.quantity)
+    }
+  });
+
+  await storage.markOverageReported(event.id);
+  return true;
+}
+
+// Plan key (as stored in users.subscription_plan) for a plan's base price ID
+export function getPlanForPriceId(priceId: string): string | null {
+  const entry = Object.entries(SUBSCRIPTION_PLANS).find(([, plan]) => plan.priceId === priceId);
+  return entry ? entry[0].toLowerCase() : null;
+}
+
+// Subscription statuses that keep the paid plan - past_due gets the dunning grace period
+const ENTITLED_SUBSCRIPTION_STATUSES = new Set<Stripe.Subscription.Status>(["active", "trialing", "past_due"]);
+
+// Stripe statuses without a users.subscription_status equivalent
+function toSubscriptionStatus(status: Stripe.Subscription.Status): string {
+  switch (status) {
+    case "incomplete":
+    case "paused":
+      return "unpaid";
+    case "incomplete_expired":
+      return "canceled";
+    default:
+      return status;
+  }
+}
+
+function getCustomerId(customer: string | Stripe.Customer | Stripe.DeletedCustomer): string {
+  return typeof customer === "string" ? customer : customer.id;
+}
+
+// Find our user for a Stripe customer, falling back to the userId we put in the customer's metadata
+async function findUserForCustomer(customerId: string, userIdHint?: string | null) {
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  if (user) {
+    return user;
+  }
+
+  let userId = userIdHint;
+  if (!userId) {
+    const customer = await stripe.customers.retrieve(customerId);
+    userId = customer.deleted ? null : customer.metadata["userId"];
+  }
+  return userId ? await storage.getUser(userId) : undefined;
+}
+
+/**
+ * Copy a subscription's plan, status and billing period onto its user.
+ * The plan comes from the subscription item whose price is a plan's base price (the other item is metered overage).
+ * Quota needs nothing else on renewal: usage is counted from the ledger over the period ending at currentPeriodEnd.
+ */
+async function syncSubscription(subscription: Stripe.Subscription, userIdHint?: string | null): Promise<void> {
+  const customerId = getCustomerId(subscription.customer);
+  const user = await findUserForCustomer(customerId, userIdHint);
+  if (!user) {
+    console.warn(`Stripe subscription ${subscription.id}: no user for customer ${customerId}`);
+    return;
+  }
+
+  const entitled = ENTITLED_SUBSCRIPTION_STATUSES.has(subscription.status);
+  // An old subscription winding down mustn't downgrade a user who has since moved to a new one
+  if (!entitled && user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id) {
+    return;
+  }
+
+  let plan: string | null = null;
+  let periodEnd: Date | null = null;
+  for (const item of subscription.items.data) {
+    const itemPlan = getPlanForPriceId(item.price.id);
+    if (itemPlan) {
+      plan = itemPlan;
+      periodEnd = new Date(item.current_period_end * 1000);
+    }
+  }
+
+  const updates: Partial<InsertUser> = {
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscription.id,
+    subscriptionStatus: toSubscriptionStatus(subscription.status),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    isPremium: entitled
+  };
+
+  if (!entitled) {
+    updates.subscriptionPlan = "free";
+  } else if (plan) {
+    updates.subscriptionPlan = plan;
+  } else {
+    console.warn(`Stripe subscription ${subscription.id}: no item matches a plan price, keeping plan ${user.subscriptionPlan}`);
+  }
+
+  if (periodEnd) {
+    updates.currentPeriodEnd = periodEnd;
+  }
+
+  await storage.updateUser(user.id, updates);
+}
+
+// Invoices moved their subscription reference under parent.subscription_details in the basil API
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription;
+  if (!subscription) {
+    return null;
+  }
+  return typeof subscription === "string" ? subscription : subscription.id;
+}
+
+async function applyStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      if (session.mode === 'subscription' && session.subscription) {
+        const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription.id;
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        await syncSubscription(subscription, session.client_reference_id || session.metadata?.["userId"]);
+      }
+      break;
+    }
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated': {
+      // Re-fetch so an out-of-order delivery can't overwrite newer state
+      const subscription = await stripe.subscriptions.retrieve(event.data.object.id);
+      await syncSubscription(subscription);
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      const canceledSubscription = event.data.object;
+      const user = await findUserForCustomer(getCustomerId(canceledSubscription.customer));
+
+      if (user && (!user.stripeSubscriptionId || user.stripeSubscriptionId === canceledSubscription.id)) {
+        await storage.updateUser(user.id, {
+          subscriptionStatus: 'canceled',
+          subscriptionPlan: 'free',
+          stripeSubscriptionId: null,
+          cancelAtPeriodEnd: false,
+          isPremium: false
+        });
+      }
+      break;
+    }
+
+    case 'invoice.payment_succeeded':
+    case 'invoice.payment_failed': {
+      // The subscription carries the resulting status (active / past_due) and, on renewal, the new period
+      const subscriptionId = getInvoiceSubscriptionId(event.data.object);
+      if (subscriptionId) {
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        await syncSubscription(subscription);
+      }
+      break;
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Handle a verified Stripe webhook event exactly once.
+ * Events are recorded in stripe_events first, so redeliveries of a processed event are skipped;
+ * a failed event is marked as such and rethrown so Stripe retries it.
+ */
+export async function handleStripeWebhook(event: Stripe.Event): Promise<void> {
+  const claimed = await storage.claimStripeEvent({ id: event.id, type: event.type, payload: event });
+  if (!claimed) {
+    console.log(`Skipping already handled Stripe event ${event.id} (${event.type})`);
+    return;
+  }
+
+  try {
+    await applyStripeEvent(event);
+    await storage.completeStripeEvent(event.id);
   } catch (error) {
     console.error('Error handling webhook:', error);
+    await storage.completeStripeEvent(event.id, error instanceof Error ? error.message : 'Unknown error')
+      .catch(markError => console.error('Failed to mark Stripe event as failed:', markError));
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,117 @@
-import { users, hookGenerations, favoriteHooks, userRecentHooks, type User, type InsertUser, type UpsertUser, type HookGeneration, type InsertHookGeneration, type FavoriteHook, type InsertFavoriteHook, type UserRecentHook, type InsertUserRecentHook } from "@shared/schema";
+import { users, brandProfiles, workspaces, workspaceMembers, workspaceInvitations, hookGenerations, generationJobs, generationBatches, usageEvents, stripeEvents, favoriteHooks, hookOutcomes, hookScripts, hookFormulas, hookTaxonomyVersions, userRecentHooks, analyticsEvents, performanceViolations, abTests, abTestParticipants, conversionFunnels, funnelEvents, monitoringAlerts, userConsent, privacyRequests, type User, type UsageEvent, type Workspace, type WorkspaceMember, type WorkspaceInvitation, type WorkspaceRole, type InsertWorkspace, type BrandProfile, type InsertBrandProfile, type UpdateBrandProfile, type InsertUser, type UpsertUser, type HookGeneration, type InsertHookGeneration, type GenerationJob, type GenerationBatch, type GenerationBatchRow, type FavoriteHook, type InsertFavoriteHook, type HookOutcome, type HookScript, type HookFormula, type HookFormulaSnapshot, type UpdateHookFormula, type HookTaxonomyVersion, type UserRecentHook, type InsertUserRecentHook, type AbTest, type AbTestParticipant, type ConversionFunnel, type MonitoringAlert, type MonitoringAlertQuery, type AlertDelivery, type UserConsent, type PrivacyRequest } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, inArray, and, gte, lte, sql } from "drizzle-orm";
+import { eq, ne, asc, desc, inArray, and, or, gt, gte, lt, lte, isNull, sql, type SQL } from "drizzle-orm";
+
+type ModelType = "gpt-4o" | "gpt-4o-mini";
+
+export interface GenerationQuotaStatus {
+  canGenerate: boolean;
+  reason?: string;
+  remainingProGenerations: number;
+  remainingDraftGenerations: number;
+  planLimits: any;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  workspaceId: string | null; // Set when usage is drawn from a team workspace pool
+  isOverage: boolean; // The next Pro generation would be billed as overage
+  overage: OverageStatus | null; // Null on plans without overage billing
+}
+
+// Overage for the current period, in cents - overageRate is dollars per 100 generations, i.e. cents per generation
+export interface OverageStatus {
+  enabled: boolean;
+  capCents: number | null;
+  unitCents: number;
+  units: number;
+  accruedCents: number;
+}
+
+export interface WorkspaceMembership {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  owner: User;
+}
+
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName" | "profileImageUrl">;
+};
+
+// Real post performance next to the AI score, for one framework or psychological driver
+export interface HookOutcomeReportRow {
+  key: string;
+  outcomes: number;
+  avgAiScore: number;
+  avgViews: number;
+  avgThreeSecondRetention: number;
+  avgWatchTimeSeconds: number;
+  avgShares: number;
+  avgSaves: number;
+  scoreRetentionCorrelation: number | null; // Pearson r of AI score vs 3s retention; null under 3 outcomes or without variance
+}
+
+export interface HookOutcomeReport {
+  overall: HookOutcomeReportRow;
+  byFramework: HookOutcomeReportRow[];
+  byPsychologicalDriver: HookOutcomeReportRow[];
+}
+
+// A workspace pools quota only while its owner is on the Teams plan
+export function isPooledWorkspace(membership: WorkspaceMembership | undefined): membership is WorkspaceMembership {
+  return !!membership && membership.owner.subscriptionPlan === "teams";
+}
+
+// Reservations still unresolved after this long are treated as abandoned (e.g. the process died mid-generation),
+// unless a queued or running generation job holds them - those can wait in the queue far longer
+const USAGE_RESERVATION_TTL_MS = 10 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const FREE_WEEKLY_DRAFT_LIMIT = 20;
+// Caps on how much history the novelty check compares new hooks against
+const NOVELTY_GENERATION_LIMIT = 50;
+const NOVELTY_FAVORITE_LIMIT = 100;
+// A webhook event stuck in processing this long is assumed to have died with its process and can be retried
+const STRIPE_EVENT_CLAIM_TTL_MS = 5 * 60 * 1000;
+
+// The anchor moved by whole months, the way Stripe bills: the day is kept where the month has it and
+// otherwise clamped to the month's last day (Jan 31 -> Feb 28 -> Mar 31), so short months don't shift later periods
+function addBillingMonths(anchor: Date, months: number): Date {
+  const date = new Date(anchor);
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(anchor.getUTCDate(), daysInMonth));
+  return date;
+}
+
+// Current usage period: weekly windows from sign-up for free users, the Stripe billing period for paid plans
+export function getUsagePeriod(user: User, now: Date = new Date()): { start: Date; end: Date } {
+  const plan = user.subscriptionPlan || "free";
+
+  if (plan === "free") {
+    const anchor = (user.createdAt || now).getTime();
+    const weeks = Math.max(0, Math.floor((now.getTime() - anchor) / WEEK_MS));
+    const start = new Date(anchor + weeks * WEEK_MS);
+    return { start, end: new Date(start.getTime() + WEEK_MS) };
+  }
+
+  if (user.currentPeriodEnd) {
+    // Step by whole months so a late renewal webhook or an annual period end still gives the current month
+    const anchor = user.currentPeriodEnd;
+    let months = 0;
+    while (addBillingMonths(anchor, months).getTime() <= now.getTime()) {
+      months++;
+    }
+    while (addBillingMonths(anchor, months - 1).getTime() > now.getTime()) {
+      months--;
+    }
+    return { start: addBillingMonths(anchor, months - 1), end: addBillingMonths(anchor, months) };
+  }
+
+  // Paid plan without Stripe period data yet - fall back to the calendar month
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+  };
+}
 
 export interface IStorage {
   // User operations
@@ -19,37 +130,152 @@ export interface IStorage {
   checkUserCanGenerate(userId: string): Promise<{ canGenerate: boolean; remainingCredits: number; isAtLimit: boolean }>;
   resetUserCredits(userId: string): Promise<User | undefined>;
   
-  // New generation tracking system
-  incrementUserGenerations(userId: string, modelType: "gpt-4o" | "gpt-4o-mini"): Promise<User | undefined>;
-  checkUserCanGenerateWithModel(userId: string, modelType: "gpt-4o" | "gpt-4o-mini"): Promise<{
-    canGenerate: boolean;
-    reason?: string;
-    remainingProGenerations: number;
-    remainingDraftGenerations: number;
-    planLimits: any;
-  }>;
-  resetUserGenerationCounts(userId: string): Promise<User | undefined>;
+  // Usage ledger - quota is computed per period from usage_events
+  checkUserCanGenerateWithModel(userId: string, modelType: ModelType): Promise<GenerationQuotaStatus>;
+  reserveGeneration(userId: string, modelType: ModelType): Promise<{ status: GenerationQuotaStatus; reservation?: UsageEvent }>;
+  commitUsage(reservationId: string, generationId: string): Promise<boolean>;
+  refundUsage(reservationId: string, reason: string): Promise<boolean>;
+  getUsageEvent(id: string): Promise<UsageEvent | undefined>;
+  markOverageReported(id: string): Promise<void>;
+
+  // Brand profile operations
+  getBrandProfilesByUser(userId: string): Promise<BrandProfile[]>;
+  getBrandProfile(id: string, userId: string): Promise<BrandProfile | undefined>;
+  createBrandProfile(userId: string, brand: InsertBrandProfile): Promise<BrandProfile>;
+  updateBrandProfile(id: string, userId: string, updates: UpdateBrandProfile): Promise<BrandProfile | undefined>;
+  deleteBrandProfile(id: string, userId: string): Promise<boolean>;
+  setActiveBrand(userId: string, brandId: string | null): Promise<User | undefined>;
+
+  // Team workspace operations
+  getWorkspaceMembership(userId: string): Promise<WorkspaceMembership | undefined>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  createWorkspace(ownerId: string, workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: string, updates: InsertWorkspace): Promise<Workspace | undefined>;
+  deleteWorkspace(id: string): Promise<boolean>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: Exclude<WorkspaceRole, "owner">): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+  getPendingWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]>;
+  countWorkspaceSeats(workspaceId: string): Promise<number>;
+  createWorkspaceInvitation(invitation: typeof workspaceInvitations.$inferInsert): Promise<WorkspaceInvitation>;
+  getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined>;
+  revokeWorkspaceInvitation(id: string, workspaceId: string): Promise<boolean>;
+  acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<WorkspaceMember | undefined>;
 
   // Hook generation operations
   createHookGeneration(generation: InsertHookGeneration): Promise<HookGeneration>;
   getHookGenerationsByUser(userId: string): Promise<HookGeneration[]>;
   getHookGeneration(id: string): Promise<HookGeneration | undefined>;
 
+  // Generation jobs - queued generations claimed by the background worker under a renewable lease
+  createGenerationJob(job: Pick<typeof generationJobs.$inferInsert, "userId" | "batchId" | "input" | "reservationId" | "maxAttempts">): Promise<GenerationJob>;
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  getGenerationJobsByBatches(batchIds: string[]): Promise<GenerationJob[]>;
+  claimGenerationJob(claimToken: string, leaseMs: number, batchConcurrency: number): Promise<GenerationJob | undefined>;
+  extendGenerationJobLease(id: string, claimToken: string, leaseMs: number): Promise<boolean>;
+  updateGenerationJobHooks(id: string, claimToken: string, hooks: GenerationJob["hooks"]): Promise<void>;
+  completeGenerationJob(id: string, claimToken: string, generation: InsertHookGeneration): Promise<HookGeneration | undefined>;
+  releaseGenerationJob(id: string, claimToken: string, error: string, retryAt: Date | null): Promise<boolean>;
+  failAbandonedGenerationJobs(): Promise<GenerationJob[]>;
+
+  // Generation batches - topics submitted together, each row queued as its own generation job
+  createGenerationBatch(batch: Omit<typeof generationBatches.$inferInsert, "id" | "createdAt">): Promise<GenerationBatch>;
+  getGenerationBatch(id: string): Promise<GenerationBatch | undefined>;
+  getGenerationBatchesByUser(userId: string): Promise<GenerationBatch[]>;
+  updateGenerationBatchRows(id: string, rows: GenerationBatchRow[]): Promise<GenerationBatch | undefined>;
+  deleteGenerationBatch(id: string): Promise<boolean>;
+  getHookGenerationsByBatch(batchId: string): Promise<HookGeneration[]>;
+
   // Favorite hooks operations
   createFavoriteHook(favorite: InsertFavoriteHook): Promise<FavoriteHook>;
   getFavoriteHooksByUser(userId: string): Promise<FavoriteHook[]>;
+  getFavoriteHook(id: string): Promise<FavoriteHook | undefined>;
   deleteFavoriteHook(id: string): Promise<boolean>;
 
+  // Hook outcomes - real post metrics per generated hook
+  getHookOutcomesByGeneration(generationId: string): Promise<HookOutcome[]>;
+  upsertHookOutcome(outcome: typeof hookOutcomes.$inferInsert): Promise<HookOutcome>;
+  deleteHookOutcome(generationId: string, hookIndex: number): Promise<boolean>;
+  getHookOutcomeReport(userId: string): Promise<HookOutcomeReport>;
+  getCalibrationOutcomes(scope: { userId: string } | { brandId: string }, limit: number): Promise<HookOutcome[]>;
+
+  // Hook scripts - versioned short-form scripts built from a generated hook
+  getHookScriptVersions(generationId: string, hookIndex: number): Promise<HookScript[]>;
+  getHookScript(generationId: string, hookIndex: number, version?: number): Promise<HookScript | undefined>;
+  createHookScriptVersion(script: Omit<typeof hookScripts.$inferInsert, "version">): Promise<HookScript>;
+
+  // Hook taxonomy - editable formulas; every change publishes a new numbered version of the whole taxonomy
+  getHookFormulas(): Promise<HookFormula[]>;
+  getHookFormula(id: string): Promise<HookFormula | undefined>;
+  createHookFormula(formula: Omit<typeof hookFormulas.$inferInsert, "createdAt" | "updatedAt">, changeNote: string): Promise<{ formula: HookFormula; version: number } | undefined>;
+  updateHookFormula(id: string, changes: Omit<UpdateHookFormula, "changeNote"> & { updatedBy: string }, changeNote: string): Promise<{ formula: HookFormula; version: number } | undefined>;
+  getLatestHookTaxonomy(): Promise<HookTaxonomyVersion | undefined>;
+  getHookTaxonomyVersion(version: number): Promise<HookTaxonomyVersion | undefined>;
+  getHookTaxonomyVersions(): Promise<Omit<HookTaxonomyVersion, "formulas">[]>;
+  seedHookTaxonomy(formulas: HookFormulaSnapshot[]): Promise<HookTaxonomyVersion>;
+
   // Recent hooks for novelty checking
   addRecentHook(recentHook: InsertUserRecentHook): Promise<UserRecentHook>;
   getRecentHooksByUser(userId: string): Promise<UserRecentHook[]>;
   cleanupOldRecentHooks(userId: string): Promise<void>;
+  getNoveltyCorpus(userId: string, since: Date): Promise<string[]>;
+
+  // Analytics ingestion - events already resent under the same dedupe key are skipped
+  insertAnalyticsEvents(events: (typeof analyticsEvents.$inferInsert)[]): Promise<number>;
+  createPerformanceViolation(violation: Omit<typeof performanceViolations.$inferInsert, "id" | "createdAt">): Promise<void>;
+  getExistingUserIds(ids: string[]): Promise<Set<string>>;
+
+  // A/B tests - one participant row per test and session, holding the variant the session was first shown
+  getAbTests(): Promise<AbTest[]>;
+  getAbTest(id: string): Promise<AbTest | undefined>;
+  getAbTestByName(testName: string): Promise<AbTest | undefined>;
+  createAbTest(test: Omit<typeof abTests.$inferInsert, "id" | "createdAt" | "updatedAt">): Promise<AbTest>;
+  updateAbTest(id: string, changes: Partial<Omit<typeof abTests.$inferInsert, "id" | "createdAt" | "createdBy">>): Promise<AbTest | undefined>;
+  getAbTestParticipant(testId: string, sessionId: string): Promise<AbTestParticipant | undefined>;
+  recordAbTestExposure(participant: Pick<typeof abTestParticipants.$inferInsert, "testId" | "sessionId" | "userId" | "variantId">): Promise<AbTestParticipant>;
+  recordAbTestConversion(testId: string, sessionId: string, value: number): Promise<AbTestParticipant | undefined>;
+  getAbTestVariantStats(testId: string): Promise<{ variantId: string; participants: number; conversions: number; conversionValue: number }[]>;
+
+  // Conversion funnels - funnel_events holds each session's progress through a funnel, rebuilt from analytics_events
+  getConversionFunnels(): Promise<ConversionFunnel[]>;
+  getConversionFunnel(id: string): Promise<ConversionFunnel | undefined>;
+  createConversionFunnel(funnel: Omit<typeof conversionFunnels.$inferInsert, "id" | "createdAt" | "updatedAt">): Promise<ConversionFunnel>;
+  updateConversionFunnel(id: string, changes: Partial<Omit<typeof conversionFunnels.$inferInsert, "id" | "createdAt" | "createdBy">>): Promise<ConversionFunnel | undefined>;
+  deleteConversionFunnel(id: string): Promise<boolean>;
+  setFunnelProcessedThrough(id: string, processedThrough: Date, ifUpdatedAt: Date | null): Promise<boolean>;
+  getSessionsWithNewAnalyticsEvents(eventTypes: string[], after: Date | null, until: Date, limit: number): Promise<{ sessionId: string; lastReceivedAt: Date }[]>;
+  getAnalyticsEventsForSessions(sessionIds: string[], eventTypes: string[]): Promise<(typeof analyticsEvents.$inferSelect)[]>;
+  replaceFunnelEvents(funnelId: string, sessionIds: string[], events: Omit<typeof funnelEvents.$inferInsert, "id" | "funnelId">[]): Promise<void>;
+  markAbandonedFunnelSessions(funnelId: string, idleSince: Date): Promise<number>;
+  getFunnelStepStats(funnelId: string, from: Date, to: Date): Promise<{ stepIndex: number; sessions: number; abandoned: number; medianTimeFromPrevious: number | null }[]>;
+  getFunnelStepBreakdown(funnelId: string, dimension: string, from: Date, to: Date): Promise<{ value: string; stepIndex: number; sessions: number }[]>;
+
+  // Monitoring alerts - at most one unresolved alert per dedupe key; repeats update it
+  getMonitoringAlerts(query: MonitoringAlertQuery): Promise<MonitoringAlert[]>;
+  getMonitoringAlert(id: string): Promise<MonitoringAlert | undefined>;
+  getLatestMonitoringAlert(dedupeKey: string): Promise<MonitoringAlert | undefined>;
+  createMonitoringAlert(alert: Pick<typeof monitoringAlerts.$inferInsert, "type" | "severity" | "dedupeKey" | "message" | "threshold" | "currentValue">): Promise<MonitoringAlert | undefined>;
+  recordMonitoringAlertRepeat(id: string, repeat: Pick<typeof monitoringAlerts.$inferInsert, "severity" | "message" | "threshold" | "currentValue">): Promise<MonitoringAlert | undefined>;
+  recordMonitoringAlertDeliveries(id: string, deliveries: AlertDelivery[], notifiedAt: Date): Promise<MonitoringAlert | undefined>;
+  acknowledgeMonitoringAlert(id: string, userId: string): Promise<MonitoringAlert | undefined>;
+  resolveMonitoringAlert(id: string, userId: string | null): Promise<MonitoringAlert | undefined>;
+
+  // Privacy requests - the audit trail of consent changes, exports and account deletions
+  getUserConsent(userId: string): Promise<UserConsent | undefined>;
+  createPrivacyRequest(request: Pick<typeof privacyRequests.$inferInsert, "userId" | "type" | "status" | "details" | "ipAddress" | "scheduledFor" | "completedAt">): Promise<PrivacyRequest | undefined>;
+  getPrivacyRequestsByUser(userId: string, limit?: number): Promise<PrivacyRequest[]>;
+  getPendingAccountDeletion(userId: string): Promise<PrivacyRequest | undefined>;
+  cancelAccountDeletion(userId: string): Promise<PrivacyRequest | undefined>;
+  claimDueAccountDeletion(staleAfterMs: number): Promise<PrivacyRequest | undefined>;
+  updatePrivacyRequest(id: string, changes: Partial<Pick<typeof privacyRequests.$inferInsert, "status" | "details" | "error" | "scheduledFor" | "completedAt">>): Promise<PrivacyRequest | undefined>;
 
   // Stripe operations
   updateStripeCustomerId(userId: string, customerId: string): Promise<User | null>;
   updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }): Promise<User | null>;
   updateUserSubscriptionStatus(userId: string, status: { status: string; currentPeriodEnd: number; cancelAtPeriodEnd: boolean }): Promise<User | null>;
   getUserByStripeCustomerId(customerId: string): Promise<User | null>;
+  claimStripeEvent(event: { id: string; type: string; payload: unknown }): Promise<boolean>;
+  completeStripeEvent(id: string, error?: string): Promise<void>;
 
   // Optimized batch operations to reduce N+1 queries
   getUsersWithGenerationsCount(userIds: string[]): Promise<Array<User & { generationsCount: number }>>;
@@ -169,39 +395,46 @@ export class DatabaseStorage implements IStorage {
 
 
 
-  // New generation tracking system implementation
-  async incrementUserGenerations(userId: string, modelType: "gpt-4o" | "gpt-4o-mini"): Promise<User | undefined> {
-    const user = await this.getUser(userId);
-    if (!user) return undefined;
+  // Usage ledger implementation
+  private async getUsageInPeriod(executor: Pick<typeof db, "select">, scope: { userId: string } | { workspaceId: string }, period: { start: Date; end: Date }): Promise<{ proUsed: number; draftUsed: number; overageUsed: number }> {
+    const staleBefore = new Date(Date.now() - USAGE_RESERVATION_TTL_MS);
+    const rows = await executor
+      .select({
+        modelType: usageEvents.modelType,
+        used: sql<number>`coalesce(sum(${usageEvents.quantity}), 0)`.mapWith(Number),
+        overage: sql<number>`coalesce(sum(case when ${usageEvents.overage} then ${usageEvents.quantity} else 0 end), 0)`.mapWith(Number)
+      })
+      .from(usageEvents)
+      .where(and(
+        // A workspace pool counts every member's usage; personal quota ignores usage drawn from a pool
+        "workspaceId" in scope
+          ? eq(usageEvents.workspaceId, scope.workspaceId)
+          : and(eq(usageEvents.userId, scope.userId), isNull(usageEvents.workspaceId)),
+        gte(usageEvents.createdAt, period.start),
+        lt(usageEvents.createdAt, period.end),
+        // Committed usage plus reservations that are still in flight: recent ones, and any held by an unfinished job
+        or(
+          eq(usageEvents.status, "committed"),
+          and(eq(usageEvents.status, "reserved"), or(
+            gte(usageEvents.createdAt, staleBefore),
+            sql`EXISTS (SELECT 1 FROM generation_jobs WHERE generation_jobs.reservation_id = ${usageEvents.id} AND generation_jobs.status IN ('queued', 'running'))`
+          ))
+        )
+      ))
+      .groupBy(usageEvents.modelType);
 
-    if (modelType === "gpt-4o") {
-      const currentUsed = user.proGenerationsUsed || 0;
-      return this.updateUser(userId, { proGenerationsUsed: currentUsed + 1 });
-    } else {
-      const currentUsed = user.draftGenerationsUsed || 0;
-      return this.updateUser(userId, { draftGenerationsUsed: currentUsed + 1 });
-    }
+    return {
+      proUsed: rows.find(row => row.modelType === "gpt-4o")?.used ?? 0,
+      draftUsed: rows.find(row => row.modelType === "gpt-4o-mini")?.used ?? 0,
+      overageUsed: rows.reduce((total, row) => total + row.overage, 0)
+    };
   }
 
-  async checkUserCanGenerateWithModel(userId: string, modelType: "gpt-4o" | "gpt-4o-mini"): Promise<{
-    canGenerate: boolean;
-    reason?: string;
-    remainingProGenerations: number;
-    remainingDraftGenerations: number;
-    planLimits: any;
-  }> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      return {
-        canGenerate: false,
-        reason: "User not found",
-        remainingProGenerations: 0,
-        remainingDraftGenerations: 0,
-        planLimits: null
-      };
-    }
-
-    const plan = user.subscriptionPlan || "free";
+  private async evaluateQuota(executor: Pick<typeof db, "select">, user: User, modelType: ModelType, membership: WorkspaceMembership | undefined): Promise<GenerationQuotaStatus> {
+    // Members of a Teams workspace draw from the owner's plan, billing period and pool
+    const pool = isPooledWorkspace(membership) ? membership : undefined;
+    const billingUser = pool ? pool.owner : user;
+    const plan = billingUser.subscriptionPlan || "free";
     const { SUBSCRIPTION_PLANS } = await import("./services/stripe");
     const planKey = plan.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS;
     const planLimits = SUBSCRIPTION_PLANS[planKey]?.limits;
@@ -212,12 +445,21 @@ export class DatabaseStorage implements IStorage {
         reason: "Invalid subscription plan",
         remainingProGenerations: 0,
         remainingDraftGenerations: 0,
-        planLimits: null
+        planLimits: null,
+        periodStart: null,
+        periodEnd: null,
+        workspaceId: null,
+        isOverage: false,
+        overage: null
       };
     }
 
-    const proUsed = user.proGenerationsUsed || 0;
-    const draftUsed = user.draftGenerationsUsed || 0;
+    const period = getUsagePeriod(billingUser);
+    const { proUsed, draftUsed, overageUsed } = await this.getUsageInPeriod(
+      executor,
+      pool ? { workspaceId: pool.workspace.id } : { userId: user.id },
+      period
+    );
 
     // Calculate remaining generations based on plan
     let remainingProGenerations = 0;
@@ -225,20 +467,7 @@ export class DatabaseStorage implements IStorage {
 
     if (plan === "free") {
       // Free tier: 20 draft generations per week, no pro generations
-      const weeklyReset = new Date(user.weeklyDraftReset || user.createdAt || new Date());
-      const weeksSinceReset = Math.floor((Date.now() - weeklyReset.getTime()) / (7 * 24 * 60 * 60 * 1000));
-      
-      if (weeksSinceReset >= 1) {
-        // Reset weekly count
-        await this.updateUser(userId, { 
-          draftGenerationsUsed: 0, 
-          weeklyDraftReset: new Date() 
-        });
-        remainingDraftGenerations = 20;
-      } else {
-        remainingDraftGenerations = Math.max(0, 20 - draftUsed);
-      }
-      
+      remainingDraftGenerations = Math.max(0, FREE_WEEKLY_DRAFT_LIMIT - draftUsed);
       remainingProGenerations = 0;
     } else {
       // Paid plans
@@ -255,8 +484,20 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Overage is billed to whoever pays for the plan - the workspace owner for pooled usage
+    const overage: OverageStatus | null = plan !== "free" && "overageRate" in planLimits
+      ? {
+          enabled: !!billingUser.overageEnabled && !!billingUser.stripeSubscriptionId,
+          capCents: billingUser.overageCapCents ?? null,
+          unitCents: planLimits.overageRate,
+          units: overageUsed,
+          accruedCents: overageUsed * planLimits.overageRate
+        }
+      : null;
+
     // Check if user can generate with requested model
     let canGenerate = false;
+    let isOverage = false;
     let reason: string | undefined;
 
     if (modelType === "gpt-4o") {
@@ -265,7 +506,14 @@ export class DatabaseStorage implements IStorage {
         reason = "Pro generations require a paid subscription";
       } else {
         canGenerate = remainingProGenerations > 0;
-        if (!canGenerate) {
+        if (!canGenerate && overage?.enabled) {
+          // Past the limit - allowed as metered overage until the next unit would cross the spending cap
+          isOverage = overage.accruedCents + overage.unitCents <= (overage.capCents ?? 0);
+          canGenerate = isOverage;
+          if (!canGenerate) {
+            reason = `Overage spending cap reached ($${((overage.capCents ?? 0) / 100).toFixed(2)} this period)`;
+          }
+        } else if (!canGenerate) {
           reason = `Pro generation limit reached (${planLimits.proGenerationsPerMonth}/month)`;
         }
       }
@@ -274,7 +522,7 @@ export class DatabaseStorage implements IStorage {
       if (plan === "free") {
         canGenerate = remainingDraftGenerations > 0;
         if (!canGenerate) {
-          reason = "Weekly draft generation limit reached (20/week)";
+          reason = `Weekly draft generation limit reached (${FREE_WEEKLY_DRAFT_LIMIT}/week)`;
         }
       } else {
         canGenerate = remainingDraftGenerations > 0;
@@ -284,20 +532,363 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Viewers can browse the workspace but not spend its pool
+    if (pool?.role === "viewer") {
+      canGenerate = false;
+      isOverage = false;
+      reason = "Viewers can't generate hooks in this workspace";
+    }
+
     return {
       canGenerate,
-      reason,
+      ...(reason ? { reason } : {}),
       remainingProGenerations,
       remainingDraftGenerations,
-      planLimits
+      planLimits,
+      periodStart: period.start,
+      periodEnd: period.end,
+      workspaceId: pool ? pool.workspace.id : null,
+      isOverage,
+      overage
     };
   }
 
-  async resetUserGenerationCounts(userId: string): Promise<User | undefined> {
-    return this.updateUser(userId, { 
-      proGenerationsUsed: 0, 
-      draftGenerationsUsed: 0,
-      weeklyDraftReset: new Date()
+  async checkUserCanGenerateWithModel(userId: string, modelType: ModelType): Promise<GenerationQuotaStatus> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return {
+        canGenerate: false,
+        reason: "User not found",
+        remainingProGenerations: 0,
+        remainingDraftGenerations: 0,
+        planLimits: null,
+        periodStart: null,
+        periodEnd: null,
+        workspaceId: null,
+        isOverage: false,
+        overage: null
+      };
+    }
+
+    const membership = await this.findWorkspaceMembership(db, userId);
+    return this.evaluateQuota(db, user, modelType, membership);
+  }
+
+  async reserveGeneration(userId: string, modelType: ModelType): Promise<{ status: GenerationQuotaStatus; reservation?: UsageEvent }> {
+    return await db.transaction(async (tx) => {
+      // Lock the user row so concurrent reservations for the same user are checked one at a time
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        return {
+          status: {
+            canGenerate: false,
+            reason: "User not found",
+            remainingProGenerations: 0,
+            remainingDraftGenerations: 0,
+            planLimits: null,
+            periodStart: null,
+            periodEnd: null,
+            workspaceId: null,
+            isOverage: false,
+            overage: null
+          }
+        };
+      }
+
+      // Pooled usage is shared by every member, so also serialize on the workspace row (always user first, then workspace)
+      const membership = await this.findWorkspaceMembership(tx, userId);
+      if (isPooledWorkspace(membership)) {
+        await tx.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.id, membership.workspace.id)).for("update");
+      }
+
+      const status = await this.evaluateQuota(tx, user, modelType, membership);
+      if (!status.canGenerate) {
+        return { status };
+      }
+
+      const [reservation] = await tx
+        .insert(usageEvents)
+        .values({ userId, modelType, workspaceId: status.workspaceId, overage: status.isOverage })
+        .returning();
+      return { status, reservation: reservation! };
+    });
+  }
+
+  async getUsageEvent(id: string): Promise<UsageEvent | undefined> {
+    const [event] = await db.select().from(usageEvents).where(eq(usageEvents.id, id));
+    return event || undefined;
+  }
+
+  async markOverageReported(id: string): Promise<void> {
+    await db
+      .update(usageEvents)
+      .set({ overageReportedAt: new Date() })
+      .where(eq(usageEvents.id, id));
+  }
+
+  async commitUsage(reservationId: string, generationId: string): Promise<boolean> {
+    const result = await db
+      .update(usageEvents)
+      .set({ status: "committed", generationId, resolvedAt: new Date() })
+      .where(and(eq(usageEvents.id, reservationId), eq(usageEvents.status, "reserved")))
+      .returning({ id: usageEvents.id });
+    return result.length > 0;
+  }
+
+  async refundUsage(reservationId: string, reason: string): Promise<boolean> {
+    const result = await db
+      .update(usageEvents)
+      .set({ status: "refunded", refundReason: reason, resolvedAt: new Date() })
+      .where(and(eq(usageEvents.id, reservationId), eq(usageEvents.status, "reserved")))
+      .returning({ id: usageEvents.id });
+    return result.length > 0;
+  }
+
+  // Brand profiles are always scoped by owner so one user can never read or edit another's brands
+  async getBrandProfilesByUser(userId: string): Promise<BrandProfile[]> {
+    return await db
+      .select()
+      .from(brandProfiles)
+      .where(eq(brandProfiles.userId, userId))
+      .orderBy(brandProfiles.createdAt);
+  }
+
+  async getBrandProfile(id: string, userId: string): Promise<BrandProfile | undefined> {
+    const [brand] = await db
+      .select()
+      .from(brandProfiles)
+      .where(and(eq(brandProfiles.id, id), eq(brandProfiles.userId, userId)));
+    return brand || undefined;
+  }
+
+  async createBrandProfile(userId: string, insertBrand: InsertBrandProfile): Promise<BrandProfile> {
+    const [brand] = await db
+      .insert(brandProfiles)
+      .values({
+        ...insertBrand,
+        userId,
+        bannedTerms: insertBrand.bannedTerms ?? [],
+      })
+      .returning();
+    return brand!;
+  }
+
+  async updateBrandProfile(id: string, userId: string, updates: UpdateBrandProfile): Promise<BrandProfile | undefined> {
+    const [brand] = await db
+      .update(brandProfiles)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(brandProfiles.id, id), eq(brandProfiles.userId, userId)))
+      .returning();
+    return brand || undefined;
+  }
+
+  async deleteBrandProfile(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(brandProfiles)
+      .where(and(eq(brandProfiles.id, id), eq(brandProfiles.userId, userId)))
+      .returning({ id: brandProfiles.id });
+
+    if (result.length === 0) {
+      return false;
+    }
+
+    // Clear the active brand pointer if it referenced the deleted profile
+    await db
+      .update(users)
+      .set({ activeBrandId: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), eq(users.activeBrandId, id)));
+    return true;
+  }
+
+  async setActiveBrand(userId: string, brandId: string | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ activeBrandId: brandId, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  // Team workspaces - membership is looked up per request so role changes and removals apply immediately
+  private async findWorkspaceMembership(executor: Pick<typeof db, "select">, userId: string): Promise<WorkspaceMembership | undefined> {
+    const [row] = await executor
+      .select({ workspace: workspaces, role: workspaceMembers.role, owner: users })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .innerJoin(users, eq(workspaces.ownerId, users.id))
+      .where(eq(workspaceMembers.userId, userId));
+    return row ? { workspace: row.workspace, role: row.role as WorkspaceRole, owner: row.owner } : undefined;
+  }
+
+  async getWorkspaceMembership(userId: string): Promise<WorkspaceMembership | undefined> {
+    return this.findWorkspaceMembership(db, userId);
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async createWorkspace(ownerId: string, insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    return await db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .insert(workspaces)
+        .values({ ...insertWorkspace, ownerId })
+        .returning();
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: workspace!.id, userId: ownerId, role: "owner" });
+      return workspace!;
+    });
+  }
+
+  async updateWorkspace(id: string, updates: InsertWorkspace): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .update(workspaces)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return workspace || undefined;
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    // Members and invitations cascade; shared generations and favorites stay with their authors
+    const result = await db
+      .delete(workspaces)
+      .where(eq(workspaces.id, id))
+      .returning({ id: workspaces.id });
+    return result.length > 0;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: workspaceMembers,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl
+        }
+      })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.createdAt);
+    return rows.map(row => ({ ...row.member, user: row.user }));
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: Exclude<WorkspaceRole, "owner">): Promise<WorkspaceMember | undefined> {
+    // The owner's role is fixed - ownership is tied to the Teams subscription
+    const [member] = await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId),
+        ne(workspaceMembers.role, "owner")
+      ))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(workspaceMembers)
+      .where(and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId),
+        ne(workspaceMembers.role, "owner")
+      ))
+      .returning({ id: workspaceMembers.id });
+    return result.length > 0;
+  }
+
+  async getPendingWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    return await db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        eq(workspaceInvitations.status, "pending"),
+        gt(workspaceInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(workspaceInvitations.createdAt));
+  }
+
+  // Seats in use: members plus invitations that can still be accepted
+  async countWorkspaceSeats(workspaceId: string): Promise<number> {
+    const [[members], [invitations]] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(workspaceMembers)
+        .where(eq(workspaceMembers.workspaceId, workspaceId)),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(workspaceInvitations)
+        .where(and(
+          eq(workspaceInvitations.workspaceId, workspaceId),
+          eq(workspaceInvitations.status, "pending"),
+          gt(workspaceInvitations.expiresAt, new Date())
+        ))
+    ]);
+    return (members?.count ?? 0) + (invitations?.count ?? 0);
+  }
+
+  async createWorkspaceInvitation(invitation: typeof workspaceInvitations.$inferInsert): Promise<WorkspaceInvitation> {
+    const [created] = await db
+      .insert(workspaceInvitations)
+      .values(invitation)
+      .returning();
+    return created!;
+  }
+
+  async getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(workspaceInvitations)
+      .where(eq(workspaceInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  async revokeWorkspaceInvitation(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .update(workspaceInvitations)
+      .set({ status: "revoked" })
+      .where(and(
+        eq(workspaceInvitations.id, id),
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        eq(workspaceInvitations.status, "pending")
+      ))
+      .returning({ id: workspaceInvitations.id });
+    return result.length > 0;
+  }
+
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<WorkspaceMember | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claim the invitation first so it can only ever be accepted once
+      const claimed = await tx
+        .update(workspaceInvitations)
+        .set({ status: "accepted", acceptedAt: new Date() })
+        .where(and(
+          eq(workspaceInvitations.id, invitation.id),
+          eq(workspaceInvitations.status, "pending"),
+          gt(workspaceInvitations.expiresAt, new Date())
+        ))
+        .returning({ id: workspaceInvitations.id });
+      if (claimed.length === 0) {
+        return undefined;
+      }
+
+      const [member] = await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+        .returning();
+      return member!;
     });
   }
 
@@ -313,11 +904,15 @@ export class DatabaseStorage implements IStorage {
     return generation;
   }
 
+  // Includes generations shared with the user's workspace
   async getHookGenerationsByUser(userId: string): Promise<HookGeneration[]> {
+    const membership = await this.findWorkspaceMembership(db, userId);
     return await db
       .select()
       .from(hookGenerations)
-      .where(eq(hookGenerations.userId, userId))
+      .where(membership
+        ? or(eq(hookGenerations.userId, userId), eq(hookGenerations.workspaceId, membership.workspace.id))
+        : eq(hookGenerations.userId, userId))
       .orderBy(desc(hookGenerations.createdAt));
   }
 
@@ -340,6 +935,190 @@ export class DatabaseStorage implements IStorage {
     return generation || undefined;
   }
 
+  async createGenerationJob(job: Pick<typeof generationJobs.$inferInsert, "userId" | "batchId" | "input" | "reservationId" | "maxAttempts">): Promise<GenerationJob> {
+    const [created] = await db
+      .insert(generationJobs)
+      .values(job)
+      .returning();
+    return created!;
+  }
+
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job || undefined;
+  }
+
+  async getGenerationJobsByBatches(batchIds: string[]): Promise<GenerationJob[]> {
+    if (batchIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(generationJobs)
+      .where(inArray(generationJobs.batchId, batchIds))
+      .orderBy(generationJobs.createdAt);
+  }
+
+  // Claims the oldest job that's due - queued, or running past its lease because its worker died - with attempts left.
+  // Single generations go ahead of batch rows, and a batch never has more than batchConcurrency rows running,
+  // so one big batch can't hold up everyone else. SKIP LOCKED lets several workers poll at once without claiming the same job.
+  async claimGenerationJob(claimToken: string, leaseMs: number, batchConcurrency: number): Promise<GenerationJob | undefined> {
+    const due = db
+      .select({ id: generationJobs.id })
+      .from(generationJobs)
+      .where(and(
+        or(
+          and(eq(generationJobs.status, "queued"), lte(generationJobs.runAfter, sql`now()`)),
+          and(eq(generationJobs.status, "running"), lt(generationJobs.lockedUntil, sql`now()`))
+        ),
+        lt(generationJobs.attempts, generationJobs.maxAttempts),
+        or(
+          isNull(generationJobs.batchId),
+          sql`(SELECT count(*) FROM generation_jobs AS sibling
+               WHERE sibling.batch_id = ${generationJobs.batchId}
+                 AND sibling.status = 'running' AND sibling.locked_until >= now()) < ${batchConcurrency}`
+        )
+      ))
+      .orderBy(sql`${generationJobs.batchId} IS NOT NULL`, generationJobs.runAfter)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await db
+      .update(generationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        hooks: [],
+        lockedBy: claimToken,
+        lockedUntil: sql`now() + ${`${leaseMs} milliseconds`}::interval`,
+        startedAt: sql`coalesce(${generationJobs.startedAt}, now())`
+      })
+      .where(inArray(generationJobs.id, due))
+      .returning();
+    return job || undefined;
+  }
+
+  // Heartbeat from the running attempt; false once another worker has taken the job over
+  async extendGenerationJobLease(id: string, claimToken: string, leaseMs: number): Promise<boolean> {
+    const result = await db
+      .update(generationJobs)
+      .set({ lockedUntil: sql`now() + ${`${leaseMs} milliseconds`}::interval` })
+      .where(this.heldGenerationJob(id, claimToken))
+      .returning({ id: generationJobs.id });
+    return result.length > 0;
+  }
+
+  async updateGenerationJobHooks(id: string, claimToken: string, hooks: GenerationJob["hooks"]): Promise<void> {
+    await db
+      .update(generationJobs)
+      .set({ hooks })
+      .where(this.heldGenerationJob(id, claimToken));
+  }
+
+  // Saves the job's generation and marks the job succeeded in one transaction. Nothing is saved once the claim is lost
+  // (the attempt timed out and was released, or another worker took over), so a late attempt can't race its retry
+  async completeGenerationJob(id: string, claimToken: string, insertGeneration: InsertHookGeneration): Promise<HookGeneration | undefined> {
+    return await db.transaction(async (tx) => {
+      const [job] = await tx
+        .select({ id: generationJobs.id })
+        .from(generationJobs)
+        .where(this.heldGenerationJob(id, claimToken))
+        .for("update");
+      if (!job) {
+        return undefined;
+      }
+
+      const [generation] = await tx
+        .insert(hookGenerations)
+        .values({
+          ...insertGeneration,
+          hooks: insertGeneration.hooks as any,
+          topThreeVariants: insertGeneration.topThreeVariants as any
+        })
+        .returning();
+      await tx
+        .update(generationJobs)
+        .set({ status: "succeeded", generationId: generation!.id, error: null, lockedBy: null, lockedUntil: null, finishedAt: new Date() })
+        .where(eq(generationJobs.id, id));
+      return generation;
+    });
+  }
+
+  // Ends a failed attempt: back in the queue until retryAt, or failed for good when retryAt is null
+  async releaseGenerationJob(id: string, claimToken: string, error: string, retryAt: Date | null): Promise<boolean> {
+    const result = await db
+      .update(generationJobs)
+      .set(retryAt
+        ? { status: "queued", error, lockedBy: null, lockedUntil: null, runAfter: retryAt }
+        : { status: "failed", error, lockedBy: null, lockedUntil: null, finishedAt: new Date() })
+      .where(this.heldGenerationJob(id, claimToken))
+      .returning({ id: generationJobs.id });
+    return result.length > 0;
+  }
+
+  // Running jobs whose lease ran out on their last attempt are never claimed again - fail them so their reservations can be refunded
+  async failAbandonedGenerationJobs(): Promise<GenerationJob[]> {
+    return await db
+      .update(generationJobs)
+      .set({ status: "failed", error: "Generation stopped responding and ran out of retries", lockedBy: null, lockedUntil: null, finishedAt: new Date() })
+      .where(and(
+        eq(generationJobs.status, "running"),
+        lt(generationJobs.lockedUntil, sql`now()`),
+        gte(generationJobs.attempts, generationJobs.maxAttempts)
+      ))
+      .returning();
+  }
+
+  async createGenerationBatch(batch: Omit<typeof generationBatches.$inferInsert, "id" | "createdAt">): Promise<GenerationBatch> {
+    const [created] = await db
+      .insert(generationBatches)
+      .values(batch)
+      .returning();
+    return created!;
+  }
+
+  async getGenerationBatch(id: string): Promise<GenerationBatch | undefined> {
+    const [batch] = await db.select().from(generationBatches).where(eq(generationBatches.id, id));
+    return batch || undefined;
+  }
+
+  async getGenerationBatchesByUser(userId: string): Promise<GenerationBatch[]> {
+    return await db
+      .select()
+      .from(generationBatches)
+      .where(eq(generationBatches.userId, userId))
+      .orderBy(desc(generationBatches.createdAt));
+  }
+
+  async updateGenerationBatchRows(id: string, rows: GenerationBatchRow[]): Promise<GenerationBatch | undefined> {
+    const [batch] = await db
+      .update(generationBatches)
+      .set({ rows })
+      .where(eq(generationBatches.id, id))
+      .returning();
+    return batch || undefined;
+  }
+
+  async deleteGenerationBatch(id: string): Promise<boolean> {
+    const result = await db
+      .delete(generationBatches)
+      .where(eq(generationBatches.id, id))
+      .returning({ id: generationBatches.id });
+    return result.length > 0;
+  }
+
+  async getHookGenerationsByBatch(batchId: string): Promise<HookGeneration[]> {
+    return await db
+      .select()
+      .from(hookGenerations)
+      .where(eq(hookGenerations.batchId, batchId))
+      .orderBy(hookGenerations.createdAt);
+  }
+
+  private heldGenerationJob(id: string, claimToken: string): SQL | undefined {
+    return and(eq(generationJobs.id, id), eq(generationJobs.status, "running"), eq(generationJobs.lockedBy, claimToken));
+  }
+
 
 
   async createFavoriteHook(insertFavorite: InsertFavoriteHook): Promise<FavoriteHook> {
@@ -350,14 +1129,23 @@ export class DatabaseStorage implements IStorage {
     return favorite;
   }
 
+  // Includes favorites shared with the user's workspace
   async getFavoriteHooksByUser(userId: string): Promise<FavoriteHook[]> {
+    const membership = await this.findWorkspaceMembership(db, userId);
     return await db
       .select()
       .from(favoriteHooks)
-      .where(eq(favoriteHooks.userId, userId))
+      .where(membership
+        ? or(eq(favoriteHooks.userId, userId), eq(favoriteHooks.workspaceId, membership.workspace.id))
+        : eq(favoriteHooks.userId, userId))
       .orderBy(desc(favoriteHooks.createdAt));
   }
 
+  async getFavoriteHook(id: string): Promise<FavoriteHook | undefined> {
+    const [favorite] = await db.select().from(favoriteHooks).where(eq(favoriteHooks.id, id));
+    return favorite || undefined;
+  }
+
   async deleteFavoriteHook(id: string): Promise<boolean> {
     try {
       await db.delete(favoriteHooks).where(eq(favoriteHooks.id, id));
@@ -367,6 +1155,253 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getHookOutcomesByGeneration(generationId: string): Promise<HookOutcome[]> {
+    return await db
+      .select()
+      .from(hookOutcomes)
+      .where(eq(hookOutcomes.generationId, generationId))
+      .orderBy(hookOutcomes.hookIndex);
+  }
+
+  // Recording metrics for a hook again replaces the earlier numbers
+  async upsertHookOutcome(outcome: typeof hookOutcomes.$inferInsert): Promise<HookOutcome> {
+    const { generationId, hookIndex, ...metrics } = outcome;
+    const [saved] = await db
+      .insert(hookOutcomes)
+      .values(outcome)
+      .onConflictDoUpdate({
+        target: [hookOutcomes.generationId, hookOutcomes.hookIndex],
+        set: { ...metrics, updatedAt: new Date() }
+      })
+      .returning();
+    return saved!;
+  }
+
+  async deleteHookOutcome(generationId: string, hookIndex: number): Promise<boolean> {
+    const result = await db
+      .delete(hookOutcomes)
+      .where(and(eq(hookOutcomes.generationId, generationId), eq(hookOutcomes.hookIndex, hookIndex)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Outcomes on every generation the user can see (their own plus their workspace's), grouped by framework and driver
+  async getHookOutcomeReport(userId: string): Promise<HookOutcomeReport> {
+    const membership = await this.findWorkspaceMembership(db, userId);
+    const visible = membership
+      ? or(eq(hookGenerations.userId, userId), eq(hookGenerations.workspaceId, membership.workspace.id))!
+      : eq(hookGenerations.userId, userId);
+
+    const [overall, byFramework, byPsychologicalDriver] = await Promise.all([
+      this.summarizeHookOutcomes(visible),
+      this.summarizeHookOutcomes(visible, sql<string>`${hookOutcomes.framework}`),
+      this.summarizeHookOutcomes(visible, sql<string>`${hookOutcomes.psychologicalDriver}`)
+    ]);
+
+    return { overall: overall[0]!, byFramework, byPsychologicalDriver };
+  }
+
+  // Most recent outcomes on a user's own generations, or on every generation made with a brand
+  async getCalibrationOutcomes(scope: { userId: string } | { brandId: string }, limit: number): Promise<HookOutcome[]> {
+    const rows = await db
+      .select({ outcome: hookOutcomes })
+      .from(hookOutcomes)
+      .innerJoin(hookGenerations, eq(hookOutcomes.generationId, hookGenerations.id))
+      .where("brandId" in scope ? eq(hookGenerations.brandId, scope.brandId) : eq(hookGenerations.userId, scope.userId))
+      .orderBy(desc(hookOutcomes.updatedAt))
+      .limit(limit);
+    return rows.map(row => row.outcome);
+  }
+
+  // Newest version first
+  async getHookScriptVersions(generationId: string, hookIndex: number): Promise<HookScript[]> {
+    return await db
+      .select()
+      .from(hookScripts)
+      .where(and(eq(hookScripts.generationId, generationId), eq(hookScripts.hookIndex, hookIndex)))
+      .orderBy(desc(hookScripts.version));
+  }
+
+  // A specific version, or the latest when none is given
+  async getHookScript(generationId: string, hookIndex: number, version?: number): Promise<HookScript | undefined> {
+    const [script] = await db
+      .select()
+      .from(hookScripts)
+      .where(and(
+        eq(hookScripts.generationId, generationId),
+        eq(hookScripts.hookIndex, hookIndex),
+        ...(version !== undefined ? [eq(hookScripts.version, version)] : [])
+      ))
+      .orderBy(desc(hookScripts.version))
+      .limit(1);
+    return script || undefined;
+  }
+
+  // Versions are numbered in the insert itself; the unique index rejects a concurrent save of the same number
+  async createHookScriptVersion(script: Omit<typeof hookScripts.$inferInsert, "version">): Promise<HookScript> {
+    const [saved] = await db
+      .insert(hookScripts)
+      .values({
+        ...script,
+        version: sql<number>`(SELECT coalesce(max(${hookScripts.version}), 0) + 1 FROM ${hookScripts} WHERE ${hookScripts.generationId} = ${script.generationId} AND ${hookScripts.hookIndex} = ${script.hookIndex})`
+      })
+      .returning();
+    return saved!;
+  }
+
+  async getHookFormulas(): Promise<HookFormula[]> {
+    return await db
+      .select()
+      .from(hookFormulas)
+      .orderBy(hookFormulas.category, hookFormulas.sortOrder, hookFormulas.id);
+  }
+
+  async getHookFormula(id: string): Promise<HookFormula | undefined> {
+    const [formula] = await db.select().from(hookFormulas).where(eq(hookFormulas.id, id));
+    return formula || undefined;
+  }
+
+  // Undefined when the formula ID is already taken
+  async createHookFormula(formula: Omit<typeof hookFormulas.$inferInsert, "createdAt" | "updatedAt">, changeNote: string): Promise<{ formula: HookFormula; version: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.lockHookTaxonomy(tx);
+      const [created] = await tx
+        .insert(hookFormulas)
+        .values(formula)
+        .onConflictDoNothing({ target: hookFormulas.id })
+        .returning();
+      if (!created) {
+        return undefined;
+      }
+      const version = await this.publishHookTaxonomy(tx, changeNote, formula.updatedBy ?? null);
+      return { formula: created, version };
+    });
+  }
+
+  // Undefined when there's no such formula
+  async updateHookFormula(id: string, changes: Omit<UpdateHookFormula, "changeNote"> & { updatedBy: string }, changeNote: string): Promise<{ formula: HookFormula; version: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.lockHookTaxonomy(tx);
+      const [updated] = await tx
+        .update(hookFormulas)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(hookFormulas.id, id))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+      const version = await this.publishHookTaxonomy(tx, changeNote, changes.updatedBy);
+      return { formula: updated, version };
+    });
+  }
+
+  async getLatestHookTaxonomy(): Promise<HookTaxonomyVersion | undefined> {
+    const [latest] = await db
+      .select()
+      .from(hookTaxonomyVersions)
+      .orderBy(desc(hookTaxonomyVersions.version))
+      .limit(1);
+    return latest || undefined;
+  }
+
+  async getHookTaxonomyVersion(version: number): Promise<HookTaxonomyVersion | undefined> {
+    const [found] = await db.select().from(hookTaxonomyVersions).where(eq(hookTaxonomyVersions.version, version));
+    return found || undefined;
+  }
+
+  // Newest first, without the formula snapshots
+  async getHookTaxonomyVersions(): Promise<Omit<HookTaxonomyVersion, "formulas">[]> {
+    return await db
+      .select({
+        version: hookTaxonomyVersions.version,
+        changeNote: hookTaxonomyVersions.changeNote,
+        changedBy: hookTaxonomyVersions.changedBy,
+        createdAt: hookTaxonomyVersions.createdAt
+      })
+      .from(hookTaxonomyVersions)
+      .orderBy(desc(hookTaxonomyVersions.version));
+  }
+
+  // Publishes the built-in formulas as version 1 when no version exists yet; otherwise returns the latest version untouched
+  async seedHookTaxonomy(formulas: HookFormulaSnapshot[]): Promise<HookTaxonomyVersion> {
+    return await db.transaction(async (tx) => {
+      const latest = await this.lockHookTaxonomy(tx);
+      if (latest) {
+        const [existing] = await tx.select().from(hookTaxonomyVersions).where(eq(hookTaxonomyVersions.version, latest));
+        return existing!;
+      }
+      await tx
+        .insert(hookFormulas)
+        .values(formulas)
+        .onConflictDoNothing({ target: hookFormulas.id });
+      const version = await this.publishHookTaxonomy(tx, "Built-in taxonomy", null);
+      const [seeded] = await tx.select().from(hookTaxonomyVersions).where(eq(hookTaxonomyVersions.version, version));
+      return seeded!;
+    });
+  }
+
+  // Serializes taxonomy changes on the latest version row, so each publish snapshots every change committed before it.
+  // Two first-ever publishes can still race; the version primary key rejects the second.
+  private async lockHookTaxonomy(executor: Pick<typeof db, "select">): Promise<number | undefined> {
+    const [latest] = await executor
+      .select({ version: hookTaxonomyVersions.version })
+      .from(hookTaxonomyVersions)
+      .orderBy(desc(hookTaxonomyVersions.version))
+      .limit(1)
+      .for("update");
+    return latest?.version;
+  }
+
+  // Snapshot every formula, retired ones included, as the next taxonomy version
+  private async publishHookTaxonomy(executor: Pick<typeof db, "select" | "insert">, changeNote: string, changedBy: string | null): Promise<number> {
+    const formulas = await executor
+      .select()
+      .from(hookFormulas)
+      .orderBy(hookFormulas.category, hookFormulas.sortOrder, hookFormulas.id);
+    const [published] = await executor
+      .insert(hookTaxonomyVersions)
+      .values({
+        version: sql<number>`(SELECT coalesce(max(${hookTaxonomyVersions.version}), 0) + 1 FROM ${hookTaxonomyVersions})`,
+        formulas: formulas.map(({ id, category, formula, driver, template, risk, examples, contentTypes, sortOrder, status }): HookFormulaSnapshot => ({
+          id,
+          category,
+          formula,
+          driver,
+          template,
+          risk: risk as HookFormulaSnapshot["risk"],
+          examples,
+          contentTypes,
+          sortOrder,
+          status: status as HookFormulaSnapshot["status"]
+        })),
+        changeNote,
+        changedBy
+      })
+      .returning({ version: hookTaxonomyVersions.version });
+    return published!.version;
+  }
+
+  // One row per group key, or a single "all" row when ungrouped
+  private async summarizeHookOutcomes(where: SQL, groupBy?: SQL<string>): Promise<HookOutcomeReportRow[]> {
+    const query = db
+      .select({
+        key: groupBy ?? sql<string>`'all'`,
+        outcomes: sql<number>`count(*)::int`,
+        avgAiScore: sql<number>`coalesce(avg(${hookOutcomes.aiScore}), 0)::float8`,
+        avgViews: sql<number>`coalesce(avg(${hookOutcomes.views}), 0)::float8`,
+        avgThreeSecondRetention: sql<number>`coalesce(avg(${hookOutcomes.threeSecondRetention}), 0)::float8`,
+        avgWatchTimeSeconds: sql<number>`coalesce(avg(${hookOutcomes.avgWatchTimeSeconds}), 0)::float8`,
+        avgShares: sql<number>`coalesce(avg(${hookOutcomes.shares}), 0)::float8`,
+        avgSaves: sql<number>`coalesce(avg(${hookOutcomes.saves}), 0)::float8`,
+        scoreRetentionCorrelation: sql<number | null>`CASE WHEN count(*) >= 3 THEN corr(${hookOutcomes.aiScore}, ${hookOutcomes.threeSecondRetention}) END`
+      })
+      .from(hookOutcomes)
+      .innerJoin(hookGenerations, eq(hookOutcomes.generationId, hookGenerations.id))
+      .where(where)
+      .$dynamic();
+
+    return groupBy ? await query.groupBy(groupBy).orderBy(desc(sql`count(*)`)) : await query;
+  }
+
   async addRecentHook(insertRecentHook: InsertUserRecentHook): Promise<UserRecentHook> {
     // Add the new recent hook
     const [recentHook] = await db
@@ -406,6 +1441,458 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Verbal hooks a new generation shouldn't repeat: the user's generations since a date, favourites and recent hooks
+  async getNoveltyCorpus(userId: string, since: Date): Promise<string[]> {
+    const [generations, favorites, recentHooks] = await Promise.all([
+      db
+        .select({ hooks: hookGenerations.hooks })
+        .from(hookGenerations)
+        .where(and(eq(hookGenerations.userId, userId), gte(hookGenerations.createdAt, since)))
+        .orderBy(desc(hookGenerations.createdAt))
+        .limit(NOVELTY_GENERATION_LIMIT),
+      db
+        .select({ hook: favoriteHooks.hook, hookData: favoriteHooks.hookData })
+        .from(favoriteHooks)
+        .where(eq(favoriteHooks.userId, userId))
+        .orderBy(desc(favoriteHooks.createdAt))
+        .limit(NOVELTY_FAVORITE_LIMIT),
+      this.getRecentHooksByUser(userId)
+    ]);
+
+    return [
+      // Hooks saved before the tri-modal format only have the legacy "hook" text
+      ...generations.flatMap(generation => generation.hooks.map(hook => hook.verbalHook || (hook as { hook?: string }).hook)),
+      ...favorites.map(favorite => favorite.hookData?.verbalHook || favorite.hook),
+      ...recentHooks.map(recentHook => recentHook.hook)
+    ].filter((text): text is string => !!text);
+  }
+
+  async insertAnalyticsEvents(events: (typeof analyticsEvents.$inferInsert)[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+    const inserted = await db
+      .insert(analyticsEvents)
+      .values(events)
+      .onConflictDoNothing({ target: analyticsEvents.dedupeKey })
+      .returning({ id: analyticsEvents.id });
+    return inserted.length;
+  }
+
+  async createPerformanceViolation(violation: Omit<typeof performanceViolations.$inferInsert, "id" | "createdAt">): Promise<void> {
+    await db.insert(performanceViolations).values(violation);
+  }
+
+  async getExistingUserIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const rows = await db.select({ id: users.id }).from(users).where(inArray(users.id, ids));
+    return new Set(rows.map(row => row.id));
+  }
+
+  async getAbTests(): Promise<AbTest[]> {
+    return db.select().from(abTests).orderBy(desc(abTests.createdAt));
+  }
+
+  async getAbTest(id: string): Promise<AbTest | undefined> {
+    const [test] = await db.select().from(abTests).where(eq(abTests.id, id));
+    return test || undefined;
+  }
+
+  // The newest test under the name that isn't archived - names can be reused once a test is archived
+  async getAbTestByName(testName: string): Promise<AbTest | undefined> {
+    const [test] = await db
+      .select()
+      .from(abTests)
+      .where(and(eq(abTests.testName, testName), ne(abTests.status, "archived")))
+      .orderBy(desc(abTests.createdAt))
+      .limit(1);
+    return test || undefined;
+  }
+
+  async createAbTest(test: Omit<typeof abTests.$inferInsert, "id" | "createdAt" | "updatedAt">): Promise<AbTest> {
+    const [created] = await db.insert(abTests).values(test).returning();
+    return created!;
+  }
+
+  async updateAbTest(id: string, changes: Partial<Omit<typeof abTests.$inferInsert, "id" | "createdAt" | "createdBy">>): Promise<AbTest | undefined> {
+    const [updated] = await db
+      .update(abTests)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(abTests.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getAbTestParticipant(testId: string, sessionId: string): Promise<AbTestParticipant | undefined> {
+    const [participant] = await db
+      .select()
+      .from(abTestParticipants)
+      .where(and(eq(abTestParticipants.testId, testId), eq(abTestParticipants.sessionId, sessionId)));
+    return participant || undefined;
+  }
+
+  // Concurrent first exposures of a session both resolve to the row that won the insert
+  async recordAbTestExposure(participant: Pick<typeof abTestParticipants.$inferInsert, "testId" | "sessionId" | "userId" | "variantId">): Promise<AbTestParticipant> {
+    const [created] = await db
+      .insert(abTestParticipants)
+      .values(participant)
+      .onConflictDoNothing({ target: [abTestParticipants.testId, abTestParticipants.sessionId] })
+      .returning();
+    return created ?? (await this.getAbTestParticipant(participant.testId, participant.sessionId))!;
+  }
+
+  // Only the first conversion of a participant counts
+  async recordAbTestConversion(testId: string, sessionId: string, value: number): Promise<AbTestParticipant | undefined> {
+    const [converted] = await db
+      .update(abTestParticipants)
+      .set({ converted: true, conversionTime: new Date(), conversionValue: value })
+      .where(and(
+        eq(abTestParticipants.testId, testId),
+        eq(abTestParticipants.sessionId, sessionId),
+        eq(abTestParticipants.converted, false)
+      ))
+      .returning();
+    return converted || undefined;
+  }
+
+  async getAbTestVariantStats(testId: string): Promise<{ variantId: string; participants: number; conversions: number; conversionValue: number }[]> {
+    return db
+      .select({
+        variantId: abTestParticipants.variantId,
+        participants: sql<number>`count(*)::int`,
+        conversions: sql<number>`count(*) filter (where ${abTestParticipants.converted})::int`,
+        conversionValue: sql<number>`coalesce(sum(${abTestParticipants.conversionValue}) filter (where ${abTestParticipants.converted}), 0)::int`
+      })
+      .from(abTestParticipants)
+      .where(eq(abTestParticipants.testId, testId))
+      .groupBy(abTestParticipants.variantId);
+  }
+
+  async getConversionFunnels(): Promise<ConversionFunnel[]> {
+    return db.select().from(conversionFunnels).orderBy(desc(conversionFunnels.createdAt));
+  }
+
+  async getConversionFunnel(id: string): Promise<ConversionFunnel | undefined> {
+    const [funnel] = await db.select().from(conversionFunnels).where(eq(conversionFunnels.id, id));
+    return funnel || undefined;
+  }
+
+  async createConversionFunnel(funnel: Omit<typeof conversionFunnels.$inferInsert, "id" | "createdAt" | "updatedAt">): Promise<ConversionFunnel> {
+    const [created] = await db.insert(conversionFunnels).values(funnel).returning();
+    return created!;
+  }
+
+  async updateConversionFunnel(id: string, changes: Partial<Omit<typeof conversionFunnels.$inferInsert, "id" | "createdAt" | "createdBy">>): Promise<ConversionFunnel | undefined> {
+    const [updated] = await db
+      .update(conversionFunnels)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(conversionFunnels.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteConversionFunnel(id: string): Promise<boolean> {
+    const result = await db.delete(conversionFunnels).where(eq(conversionFunnels.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Skipped when the funnel was edited after the processor read it - its steps may have changed under the run
+  async setFunnelProcessedThrough(id: string, processedThrough: Date, ifUpdatedAt: Date | null): Promise<boolean> {
+    const result = await db
+      .update(conversionFunnels)
+      .set({ processedThrough })
+      .where(and(
+        eq(conversionFunnels.id, id),
+        ifUpdatedAt ? sql`date_trunc('milliseconds', ${conversionFunnels.updatedAt}) = ${ifUpdatedAt.toISOString()}` : isNull(conversionFunnels.updatedAt)
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Sessions with events of these types received in (after, until], oldest activity first
+  async getSessionsWithNewAnalyticsEvents(eventTypes: string[], after: Date | null, until: Date, limit: number): Promise<{ sessionId: string; lastReceivedAt: Date }[]> {
+    if (eventTypes.length === 0) {
+      return [];
+    }
+    const lastReceivedAt = sql<Date>`max(${analyticsEvents.receivedAt})`.mapWith(analyticsEvents.receivedAt);
+    return db
+      .select({ sessionId: analyticsEvents.sessionId, lastReceivedAt })
+      .from(analyticsEvents)
+      .where(and(
+        inArray(analyticsEvents.eventType, eventTypes),
+        after ? gt(analyticsEvents.receivedAt, after) : undefined,
+        lte(analyticsEvents.receivedAt, until)
+      ))
+      .groupBy(analyticsEvents.sessionId)
+      .orderBy(lastReceivedAt, analyticsEvents.sessionId)
+      .limit(limit);
+  }
+
+  async getAnalyticsEventsForSessions(sessionIds: string[], eventTypes: string[]): Promise<(typeof analyticsEvents.$inferSelect)[]> {
+    if (sessionIds.length === 0 || eventTypes.length === 0) {
+      return [];
+    }
+    return db
+      .select()
+      .from(analyticsEvents)
+      .where(and(inArray(analyticsEvents.sessionId, sessionIds), inArray(analyticsEvents.eventType, eventTypes)))
+      .orderBy(asc(analyticsEvents.createdAt), asc(analyticsEvents.receivedAt));
+  }
+
+  // A session's rows are rebuilt as a whole, so reprocessing a session never double counts it
+  async replaceFunnelEvents(funnelId: string, sessionIds: string[], events: Omit<typeof funnelEvents.$inferInsert, "id" | "funnelId">[]): Promise<void> {
+    if (sessionIds.length === 0) {
+      return;
+    }
+    await db.transaction(async (tx) => {
+      await tx.delete(funnelEvents).where(and(eq(funnelEvents.funnelId, funnelId), inArray(funnelEvents.sessionId, sessionIds)));
+      if (events.length > 0) {
+        await tx.insert(funnelEvents).values(events.map(event => ({ ...event, funnelId })));
+      }
+    });
+  }
+
+  // Flags the furthest step of every unfinished session with no analytics events since idleSince
+  async markAbandonedFunnelSessions(funnelId: string, idleSince: Date): Promise<number> {
+    const marked = await db.execute(sql`
+      update ${funnelEvents} as fe
+      set abandoned = true
+      where fe.funnel_id = ${funnelId}
+        and fe.abandoned = false
+        and fe.completed = false
+        and fe.step_index = (
+          select max(step_index) from ${funnelEvents} where funnel_id = ${funnelId} and session_id = fe.session_id
+        )
+        and (
+          select max(created_at) from ${analyticsEvents} where session_id = fe.session_id
+        ) < ${idleSince.toISOString()}
+    `);
+    return marked.rowCount ?? 0;
+  }
+
+  // The cohort is every session that entered the funnel (reached its first step) between from and to
+  async getFunnelStepStats(funnelId: string, from: Date, to: Date): Promise<{ stepIndex: number; sessions: number; abandoned: number; medianTimeFromPrevious: number | null }[]> {
+    return db
+      .select({
+        stepIndex: funnelEvents.stepIndex,
+        sessions: sql<number>`count(distinct ${funnelEvents.sessionId})::int`,
+        abandoned: sql<number>`count(distinct ${funnelEvents.sessionId}) filter (where ${funnelEvents.abandoned})::int`,
+        medianTimeFromPrevious: sql<number | null>`(percentile_cont(0.5) within group (order by ${funnelEvents.timeFromPrevious}))::float8`
+      })
+      .from(funnelEvents)
+      .where(and(eq(funnelEvents.funnelId, funnelId), inArray(funnelEvents.sessionId, this.funnelEntryCohort(funnelId, from, to))))
+      .groupBy(funnelEvents.stepIndex)
+      .orderBy(funnelEvents.stepIndex);
+  }
+
+  async getFunnelStepBreakdown(funnelId: string, dimension: string, from: Date, to: Date): Promise<{ value: string; stepIndex: number; sessions: number }[]> {
+    const value = sql<string>`coalesce(${funnelEvents.eventData}->>${dimension}, 'unknown')`;
+    return db
+      .select({
+        value,
+        stepIndex: funnelEvents.stepIndex,
+        sessions: sql<number>`count(distinct ${funnelEvents.sessionId})::int`
+      })
+      .from(funnelEvents)
+      .where(and(eq(funnelEvents.funnelId, funnelId), inArray(funnelEvents.sessionId, this.funnelEntryCohort(funnelId, from, to))))
+      .groupBy(value, funnelEvents.stepIndex)
+      .orderBy(value, funnelEvents.stepIndex);
+  }
+
+  private funnelEntryCohort(funnelId: string, from: Date, to: Date) {
+    return db
+      .select({ sessionId: funnelEvents.sessionId })
+      .from(funnelEvents)
+      .where(and(
+        eq(funnelEvents.funnelId, funnelId),
+        eq(funnelEvents.stepIndex, 0),
+        gte(funnelEvents.createdAt, from),
+        lt(funnelEvents.createdAt, to)
+      ));
+  }
+
+  async getMonitoringAlerts(query: MonitoringAlertQuery): Promise<MonitoringAlert[]> {
+    return db
+      .select()
+      .from(monitoringAlerts)
+      .where(and(
+        query.status ? eq(monitoringAlerts.status, query.status) : undefined,
+        query.type ? eq(monitoringAlerts.type, query.type) : undefined
+      ))
+      .orderBy(desc(monitoringAlerts.lastTriggeredAt))
+      .limit(query.limit);
+  }
+
+  async getMonitoringAlert(id: string): Promise<MonitoringAlert | undefined> {
+    const [alert] = await db.select().from(monitoringAlerts).where(eq(monitoringAlerts.id, id));
+    return alert || undefined;
+  }
+
+  // The unresolved alert for the key if there is one, else the most recently resolved
+  async getLatestMonitoringAlert(dedupeKey: string): Promise<MonitoringAlert | undefined> {
+    const [alert] = await db
+      .select()
+      .from(monitoringAlerts)
+      .where(eq(monitoringAlerts.dedupeKey, dedupeKey))
+      .orderBy(sql`${monitoringAlerts.status} = 'resolved'`, desc(monitoringAlerts.createdAt))
+      .limit(1);
+    return alert || undefined;
+  }
+
+  // Undefined when another instance opened an alert under the same key first
+  async createMonitoringAlert(alert: Pick<typeof monitoringAlerts.$inferInsert, "type" | "severity" | "dedupeKey" | "message" | "threshold" | "currentValue">): Promise<MonitoringAlert | undefined> {
+    const [created] = await db
+      .insert(monitoringAlerts)
+      .values(alert)
+      .onConflictDoNothing({ target: monitoringAlerts.dedupeKey, where: sql`${monitoringAlerts.status} <> 'resolved'` })
+      .returning();
+    return created || undefined;
+  }
+
+  async recordMonitoringAlertRepeat(id: string, repeat: Pick<typeof monitoringAlerts.$inferInsert, "severity" | "message" | "threshold" | "currentValue">): Promise<MonitoringAlert | undefined> {
+    const [updated] = await db
+      .update(monitoringAlerts)
+      .set({ ...repeat, occurrences: sql`${monitoringAlerts.occurrences} + 1`, lastTriggeredAt: new Date() })
+      .where(and(eq(monitoringAlerts.id, id), ne(monitoringAlerts.status, "resolved")))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Keeps the last 20 attempts
+  async recordMonitoringAlertDeliveries(id: string, deliveries: AlertDelivery[], notifiedAt: Date): Promise<MonitoringAlert | undefined> {
+    const [updated] = await db
+      .update(monitoringAlerts)
+      .set({
+        deliveries: sql`(
+          select coalesce(jsonb_agg(attempt order by position), '[]'::jsonb)
+          from (
+            select attempt, position
+            from jsonb_array_elements(${monitoringAlerts.deliveries} || ${JSON.stringify(deliveries)}::jsonb) with ordinality as attempts(attempt, position)
+            order by position desc
+            limit 20
+          ) as recent
+        )`,
+        lastNotifiedAt: notifiedAt
+      })
+      .where(eq(monitoringAlerts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async acknowledgeMonitoringAlert(id: string, userId: string): Promise<MonitoringAlert | undefined> {
+    const [updated] = await db
+      .update(monitoringAlerts)
+      .set({ status: "acknowledged", acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(and(eq(monitoringAlerts.id, id), eq(monitoringAlerts.status, "open")))
+      .returning();
+    return updated || undefined;
+  }
+
+  async resolveMonitoringAlert(id: string, userId: string | null): Promise<MonitoringAlert | undefined> {
+    const [updated] = await db
+      .update(monitoringAlerts)
+      .set({ status: "resolved", resolvedAt: new Date(), resolvedBy: userId })
+      .where(and(eq(monitoringAlerts.id, id), ne(monitoringAlerts.status, "resolved")))
+      .returning();
+    return updated || undefined;
+  }
+
+  // The account's most recently updated consent record
+  async getUserConsent(userId: string): Promise<UserConsent | undefined> {
+    const [consent] = await db
+      .select()
+      .from(userConsent)
+      .where(eq(userConsent.userId, userId))
+      .orderBy(desc(userConsent.updatedAt))
+      .limit(1);
+    return consent || undefined;
+  }
+
+  // Undefined when the account already has a deletion pending
+  async createPrivacyRequest(request: Pick<typeof privacyRequests.$inferInsert, "userId" | "type" | "status" | "details" | "ipAddress" | "scheduledFor" | "completedAt">): Promise<PrivacyRequest | undefined> {
+    const [created] = await db
+      .insert(privacyRequests)
+      .values(request)
+      .onConflictDoNothing({
+        target: privacyRequests.userId,
+        where: sql`${privacyRequests.type} = 'deletion' AND ${privacyRequests.status} IN ('scheduled', 'processing')`
+      })
+      .returning();
+    return created || undefined;
+  }
+
+  async getPrivacyRequestsByUser(userId: string, limit: number = 50): Promise<PrivacyRequest[]> {
+    return db
+      .select()
+      .from(privacyRequests)
+      .where(eq(privacyRequests.userId, userId))
+      .orderBy(desc(privacyRequests.createdAt))
+      .limit(limit);
+  }
+
+  async getPendingAccountDeletion(userId: string): Promise<PrivacyRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(privacyRequests)
+      .where(and(
+        eq(privacyRequests.userId, userId),
+        eq(privacyRequests.type, "deletion"),
+        inArray(privacyRequests.status, ["scheduled", "processing"])
+      ));
+    return request || undefined;
+  }
+
+  // Only while the grace period runs - a deletion already being processed can't be called back
+  async cancelAccountDeletion(userId: string): Promise<PrivacyRequest | undefined> {
+    const [cancelled] = await db
+      .update(privacyRequests)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(
+        eq(privacyRequests.userId, userId),
+        eq(privacyRequests.type, "deletion"),
+        eq(privacyRequests.status, "scheduled")
+      ))
+      .returning();
+    return cancelled || undefined;
+  }
+
+  /**
+   * Take the deletion whose grace period ended longest ago, or one left processing for staleAfterMs by an
+   * instance that stopped mid-way - every deletion step can safely run twice.
+   */
+  async claimDueAccountDeletion(staleAfterMs: number): Promise<PrivacyRequest | undefined> {
+    const due = db
+      .select({ id: privacyRequests.id })
+      .from(privacyRequests)
+      .where(and(
+        eq(privacyRequests.type, "deletion"),
+        or(
+          and(eq(privacyRequests.status, "scheduled"), lte(privacyRequests.scheduledFor, sql`now()`)),
+          and(eq(privacyRequests.status, "processing"), lt(privacyRequests.updatedAt, sql`now() - ${`${staleAfterMs} milliseconds`}::interval`))
+        )
+      ))
+      .orderBy(privacyRequests.scheduledFor)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [request] = await db
+      .update(privacyRequests)
+      .set({ status: "processing", attempts: sql`${privacyRequests.attempts} + 1`, updatedAt: sql`now()` })
+      .where(inArray(privacyRequests.id, due))
+      .returning();
+    return request || undefined;
+  }
+
+  async updatePrivacyRequest(id: string, changes: Partial<Pick<typeof privacyRequests.$inferInsert, "status" | "details" | "error" | "scheduledFor" | "completedAt">>): Promise<PrivacyRequest | undefined> {
+    const [updated] = await db
+      .update(privacyRequests)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(privacyRequests.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async resetUserCredits(userId: string): Promise<User | undefined> {
     const [user] = await db
       .update(users)
@@ -483,6 +1970,35 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Record a webhook event before handling it. Returns false when it was already processed
+  // (or another delivery is handling it right now); failed and abandoned events are claimed again.
+  async claimStripeEvent(event: { id: string; type: string; payload: unknown }): Promise<boolean> {
+    const [claimed] = await db
+      .insert(stripeEvents)
+      .values({ id: event.id, type: event.type, payload: event.payload })
+      .onConflictDoUpdate({
+        target: stripeEvents.id,
+        set: {
+          status: "processing",
+          error: null,
+          attempts: sql`${stripeEvents.attempts} + 1`,
+          lastAttemptAt: new Date()
+        },
+        setWhere: sql`${stripeEvents.status} = 'failed' OR (${stripeEvents.status} = 'processing' AND ${stripeEvents.lastAttemptAt} < ${new Date(Date.now() - STRIPE_EVENT_CLAIM_TTL_MS)})`
+      })
+      .returning({ id: stripeEvents.id });
+    return !!claimed;
+  }
+
+  async completeStripeEvent(id: string, error?: string): Promise<void> {
+    await db
+      .update(stripeEvents)
+      .set(error === undefined
+        ? { status: "processed", error: null, processedAt: new Date() }
+        : { status: "failed", error })
+      .where(eq(stripeEvents.id, id));
+  }
+
   // Optimized batch operations to reduce N+1 queries
   async getUsersWithGenerationsCount(userIds: string[]): Promise<Array<User & { generationsCount: number }>> {
     if (userIds.length === 0) return [];
@@ -1,8 +1,137 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, boolean, index, integer, serial, check, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, boolean, index, uniqueIndex, integer, real, serial, check, foreignKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Platforms hooks can be generated for (hook_generations.platform)
+export const GENERATION_PLATFORMS = ["tiktok", "instagram", "youtube", "linkedin", "twitter"] as const;
+export type GenerationPlatform = typeof GENERATION_PLATFORMS[number];
+
+// What a generation optimizes for (hook_generations.objective)
+export const GENERATION_OBJECTIVES = ["watch_time", "shares", "saves", "ctr", "engagement", "conversions"] as const;
+export type GenerationObjective = typeof GENERATION_OBJECTIVES[number];
+
+// Languages hooks can be generated in; a locale is one of these, optionally with a region (e.g. "pt-BR")
+export const HOOK_LANGUAGES = ["en", "es", "de", "pt", "fr", "it", "nl", "ja", "zh", "ko"] as const;
+export type HookLanguage = typeof HOOK_LANGUAGES[number];
+export const HOOK_LANGUAGE_NAMES: Record<HookLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  pt: "Portuguese",
+  fr: "French",
+  it: "Italian",
+  nl: "Dutch",
+  ja: "Japanese",
+  zh: "Chinese",
+  ko: "Korean",
+};
+
+// Content types the generator detects from a topic; each taxonomy formula lists the ones it's offered for
+export const HOOK_CONTENT_TYPES = ["educational", "storytelling", "mixed"] as const;
+export type HookContentType = typeof HOOK_CONTENT_TYPES[number];
+
+// Lifecycle of a queued generation (generation_jobs.status)
+export const GENERATION_JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type GenerationJobStatus = typeof GENERATION_JOB_STATUSES[number];
+
+// Batches are submitted as a CSV (topic, platform, objective, brand) or a pasted list with one topic per line
+export const GENERATION_BATCH_SOURCES = ["csv", "paste"] as const;
+export const GENERATION_BATCH_MAX_ROWS = 60;
+
+// One topic of a batch as submitted (generation_batches.rows)
+export interface GenerationBatchRow {
+  topic: string;
+  platform: GenerationPlatform;
+  objective: GenerationObjective;
+  brandId: string | null;                    // From the row's brand column, else the batch's brand
+  jobId: string | null;                      // Generation job running the row - null if it was rejected
+  error: string | null;                      // Why the row was rejected before generating, e.g. the quota ran out
+}
+
+// Download formats for /api/exports; each is gated by a plan limit (see server/services/exports)
+export const EXPORT_FORMATS = ["csv", "xlsx", "json", "markdown", "srt", "vtt"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Typed client events stored in analytics_events - the table's event_type check allows these and a few server-side types
+export const ANALYTICS_EVENT_TYPES = ["cta_click", "cta_view", "trust_signal_view", "urgency_indicator_view", "funnel_step", "ab_test_exposure", "error", "performance"] as const;
+export type AnalyticsEventType = typeof ANALYTICS_EVENT_TYPES[number];
+export const PERFORMANCE_VIOLATION_SEVERITIES = ["warning", "error", "critical"] as const;
+
+// Monitoring alerts - an alert stays open (or acknowledged) until resolved; repeats of an open alert update it in place
+export const ALERT_TYPES = ["performance", "conversion", "error", "ab_test"] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+export const ALERT_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+export type AlertStatus = typeof ALERT_STATUSES[number];
+export const ALERT_CHANNELS = ["webhook", "slack", "email"] as const;
+export type AlertChannel = typeof ALERT_CHANNELS[number];
+
+export interface AlertDelivery {
+  channel: AlertChannel;
+  status: "sent" | "failed";
+  error: string | null;
+  attemptedAt: string; // ISO timestamp
+}
+
+// Privacy requests made through /api/privacy - kept after the account is gone as the audit trail
+export const PRIVACY_REQUEST_TYPES = ["consent", "consent_withdrawal", "export", "deletion"] as const;
+export type PrivacyRequestType = typeof PRIVACY_REQUEST_TYPES[number];
+export const PRIVACY_REQUEST_STATUSES = ["scheduled", "processing", "completed", "failed", "cancelled"] as const;
+export type PrivacyRequestStatus = typeof PRIVACY_REQUEST_STATUSES[number];
+export const CONSENT_METHODS = ["explicit", "implicit", "essential"] as const;
+
+// A/B tests assign only while running; a completed test with a winner serves the winner to everyone
+export const AB_TEST_STATUSES = ["draft", "running", "paused", "completed", "archived"] as const;
+export type AbTestStatus = typeof AB_TEST_STATUSES[number];
+export const AB_TEST_DEVICE_TYPES = ["mobile", "tablet", "desktop"] as const;
+
+// A hook formula as frozen into a taxonomy version (hook_taxonomy_versions.formulas)
+export interface HookFormulaSnapshot {
+  id: string;                                // Formula code, e.g. "QH-01"
+  category: string;                          // e.g. "Question-Based"
+  formula: string;                           // e.g. "Direct Question"
+  driver: string;                            // Psychological driver, e.g. "Curiosity Gap / Engagement"
+  template: string;                          // e.g. "Did you know that {surprising_fact}?"
+  risk: "low" | "medium" | "high";
+  examples: string[];
+  contentTypes: HookContentType[];           // Content types the formula is offered for
+  sortOrder: number;                         // Lower first within its category
+  status: "active" | "retired";
+}
+
+// Normalised (0-1) inputs to a hook's composite score
+export interface HookScoreComponents {
+  length: number;    // Word count fit for the platform
+  framework: number; // Framework bonus
+  objective: number; // Platform/objective alignment
+}
+
+// A hook the brand safety gate rewrote or removed, and why
+export interface FilteredHook {
+  verbalHook: string;                        // The hook as the model wrote it
+  action: "repaired" | "dropped";
+  reasons: string[];                         // e.g. 'Banned term "crypto"', 'High-risk hook in family-friendly mode'
+  repairedHook?: string;                     // The rewritten hook that was kept
+}
+
+// One timed section of a short-form script
+export interface ScriptBeat {
+  type: "hook" | "rehook" | "value" | "cta";
+  startSeconds: number;
+  endSeconds: number;
+  voiceover: string;                         // What's said during the beat
+  onScreenText?: string;                     // Text cue shown during the beat
+}
+
+// A shot in a script's shot list, timed against its beats
+export interface ScriptShot {
+  beatIndex: number;                         // Position in the script's beats
+  startSeconds: number;
+  description: string;                       // What the camera shows - the first shot comes from the hook's visualHook
+}
+
 // Session storage table for Replit Auth
 export const sessions = pgTable(
   "sessions",
@@ -32,7 +161,7 @@ export const users = pgTable("users", {
   voice: text("voice"),
   bannedTerms: jsonb("banned_terms").$type<string[]>().default([]),
   safety: text("safety").default("standard"), // family-friendly, standard, edgy
-  // Generation tracking system
+  // Legacy generation counters - quota is now computed from the usage_events ledger
   proGenerationsUsed: integer("pro_generations_used").default(0), // GPT-4o generations used this period
   draftGenerationsUsed: integer("draft_generations_used").default(0), // GPT-4o-mini generations used this period
   weeklyDraftReset: timestamp("weekly_draft_reset").defaultNow(), // Reset date for free tier weekly limit
@@ -47,6 +176,11 @@ export const users = pgTable("users", {
   subscriptionPlan: varchar("subscription_plan").default("free"), // free, starter, creator, pro, teams
   currentPeriodEnd: timestamp("current_period_end"),
   cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false),
+  // Opt-in Pro overage - generations past the plan limit are billed as Stripe metered usage
+  overageEnabled: boolean("overage_enabled").default(false),
+  overageCapCents: integer("overage_cap_cents"), // Spending cap per billing period
+  // Multi-brand support - brand profile used when a generation doesn't name one
+  activeBrandId: varchar("active_brand_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -62,15 +196,91 @@ export const users = pgTable("users", {
   check("subscription_status_values", sql`${table.subscriptionStatus} IN ('free', 'active', 'canceled', 'past_due', 'trialing', 'unpaid')`),
   check("subscription_plan_values", sql`${table.subscriptionPlan} IN ('free', 'starter', 'creator', 'pro', 'teams')`),
   check("positive_generations", sql`${table.proGenerationsUsed} >= 0 AND ${table.draftGenerationsUsed} >= 0`),
-  check("positive_credits", sql`${table.freeCredits} >= 0 AND ${table.usedCredits} >= 0`)
+  check("positive_credits", sql`${table.freeCredits} >= 0 AND ${table.usedCredits} >= 0`),
+  check("positive_overage_cap", sql`${table.overageCapCents} IS NULL OR ${table.overageCapCents} >= 0`)
+]);
+
+// Brand profiles - one user (e.g. an agency) can keep several brand contexts
+export const brandProfiles = pgTable("brand_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Company / brand name
+  industry: text("industry"),
+  role: text("role"),
+  audience: text("audience"),
+  voice: text("voice"),
+  bannedTerms: jsonb("banned_terms").$type<string[]>().default([]),
+  safety: text("safety").default("standard"), // family-friendly, standard, edgy
+  locale: text("locale").default("en"), // Language hooks are written in unless a generation asks for another, e.g. "es", "pt-BR"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_brand_profiles_user_id").on(table.userId),
+  index("idx_brand_profiles_user_created").on(table.userId, table.createdAt),
+  // Data integrity constraints
+  check("brand_safety_values", sql`${table.safety} IN ('family-friendly', 'standard', 'edgy')`)
+]);
+
+// Team workspaces - a Teams subscriber owns a workspace and shares its pooled quota, history and favorites with members
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Billing user - their Teams subscription funds the pool
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_workspaces_owner_id").on(table.ownerId)
+]);
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("editor"), // owner, editor, viewer
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_workspace_members_workspace_id").on(table.workspaceId),
+  // A user belongs to at most one workspace, so quota and sharing are never ambiguous
+  uniqueIndex("idx_workspace_members_unique_user").on(table.userId),
+  // Data integrity constraints
+  check("workspace_role_values", sql`${table.role} IN ('owner', 'editor', 'viewer')`)
+]);
+
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull(),
+  role: text("role").notNull().default("editor"), // editor, viewer
+  token: varchar("token").notNull().unique(), // Secret sent in the invitation email link
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("pending"), // pending, accepted, revoked
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_workspace_invitations_workspace_status").on(table.workspaceId, table.status),
+  index("idx_workspace_invitations_email").on(table.email),
+  // Data integrity constraints
+  check("invitation_role_values", sql`${table.role} IN ('editor', 'viewer')`),
+  check("invitation_status_values", sql`${table.status} IN ('pending', 'accepted', 'revoked')`)
 ]);
 
 export const hookGenerations = pgTable("hook_generations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  platform: text("platform").notNull(), // tiktok, instagram, youtube
+  brandId: varchar("brand_id").references(() => brandProfiles.id, { onDelete: "set null" }), // Brand profile the hooks were made for
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "set null" }), // Shared with this team workspace
+  batchId: varchar("batch_id").references(() => generationBatches.id, { onDelete: "set null" }), // Batch the topic was submitted in
+  platform: text("platform").notNull(), // tiktok, instagram, youtube, linkedin, twitter
   objective: text("objective").notNull(), // watch_time, shares, saves, ctr
   topic: text("topic").notNull(),
+  locale: text("locale").notNull().default("en"), // Language the hooks were written in, e.g. "es", "pt-BR"
+  taxonomyVersion: integer("taxonomy_version"), // Hook taxonomy version the prompt was built from - null for older generations
+  formulaIds: jsonb("formula_ids").$type<string[]>().notNull().default([]), // Taxonomy formulas the hooks follow, e.g. ["QH-01", "ST-03"]
   modelType: text("model_type").notNull().default("gpt-4o"), // gpt-4o (pro), gpt-4o-mini (draft)
   hooks: jsonb("hooks").$type<{
     // Tri-modal hook architecture
@@ -82,6 +292,7 @@ export const hookGenerations = pgTable("hook_generations", {
     framework: string;            // Primary copywriting framework
     psychologicalDriver: string;  // Core psychological trigger (curiosity_gap, value_hit, etc.)
     hookCategory: string;         // Category from research taxonomy (Question-Based, Statement-Based, etc.)
+    formulaId?: string;           // Taxonomy formula the hook follows (QH-01, ST-03, etc.)
     riskFactor: "low" | "medium" | "high"; // Risk assessment
     
     // Performance metrics
@@ -99,12 +310,18 @@ export const hookGenerations = pgTable("hook_generations", {
       tiktokColdOpen?: string;    // TikTok visual cold-open suggestion
       instagramOverlay?: string;  // Instagram text overlay (≤24 chars)
       youtubeProofCue?: string;   // YouTube proof element
+      linkedinFoldLine?: string;  // LinkedIn opening shown above "...see more" (≤140 chars)
+      twitterPost?: string;       // X/Twitter post text within the 280-character budget
     };
     
     // Failure point mitigation
-    promiseContentMatch: boolean; // Ensures hook promise matches content capability
-    specificityScore: number;     // Measures concrete vs vague language (0-1)
+    promiseContentMatch: boolean | null; // Ensures hook promise matches content capability - null when not checked (non-English hooks)
+    promiseIssues?: string[];     // What the hook promises that the topic or outline doesn't back up
+    specificityScore: number | null; // Measures concrete vs vague language (0-1) - null when not checked (non-English hooks)
     freshnessScore: number;       // Novelty vs hook fatigue (0-1)
+
+    // Normalised (0-1) scoring inputs, kept so recorded outcomes can calibrate the weights
+    scoreComponents?: HookScoreComponents;
   }[]>().notNull(),
   topThreeVariants: jsonb("top_three_variants").$type<{
     // Enhanced top variants with full tri-modal data
@@ -118,6 +335,7 @@ export const hookGenerations = pgTable("hook_generations", {
     scoreBreakdown: string;
     reHookStrategy?: string;      // Strategy for sustaining momentum
   }[]>(),
+  filteredHooks: jsonb("filtered_hooks").$type<FilteredHook[]>(), // Hooks the brand safety gate rewrote or removed
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   // Performance indexes for frequent queries
@@ -126,16 +344,200 @@ export const hookGenerations = pgTable("hook_generations", {
   index("idx_hook_generations_platform").on(table.platform),
   index("idx_hook_generations_user_platform").on(table.userId, table.platform),
   index("idx_hook_generations_user_created").on(table.userId, table.createdAt),
+  index("idx_hook_generations_brand_id").on(table.brandId),
+  index("idx_hook_generations_workspace_created").on(table.workspaceId, table.createdAt),
+  index("idx_hook_generations_batch_id").on(table.batchId),
   // Data integrity constraints
   check("platform_values", sql`${table.platform} IN ('tiktok', 'instagram', 'youtube', 'twitter', 'linkedin')`),
   check("objective_values", sql`${table.objective} IN ('watch_time', 'shares', 'saves', 'ctr', 'engagement', 'conversions')`),
   check("model_type_values", sql`${table.modelType} IN ('gpt-4o', 'gpt-4o-mini')`)
 ]);
 
+// Usage ledger - every generation reserves a unit, then commits it once saved or refunds it on failure
+export const usageEvents = pgTable("usage_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id"), // Set when drawn from a team's pooled quota; no FK so it survives workspace deletion and never falls back onto personal quota
+  modelType: text("model_type").notNull(), // gpt-4o (pro), gpt-4o-mini (draft)
+  status: text("status").notNull().default("reserved"), // reserved, committed, refunded
+  quantity: integer("quantity").notNull().default(1),
+  overage: boolean("overage").notNull().default(false), // Past the plan's included Pro generations - billed as metered usage
+  overageReportedAt: timestamp("overage_reported_at"), // When the unit was sent to Stripe as a meter event
+  generationId: varchar("generation_id").references(() => hookGenerations.id, { onDelete: "set null" }),
+  refundReason: text("refund_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"), // When the reservation was committed or refunded
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_usage_events_user_created").on(table.userId, table.createdAt),
+  index("idx_usage_events_status").on(table.status),
+  index("idx_usage_events_workspace_created").on(table.workspaceId, table.createdAt),
+  // Data integrity constraints
+  check("usage_status_values", sql`${table.status} IN ('reserved', 'committed', 'refunded')`),
+  check("usage_model_type_values", sql`${table.modelType} IN ('gpt-4o', 'gpt-4o-mini')`),
+  check("positive_usage_quantity", sql`${table.quantity} > 0`)
+]);
+
+// Stripe webhook events we've received - the event ID makes redelivered events no-ops
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey(), // Stripe event ID (evt_...)
+  type: varchar("type").notNull(),
+  status: text("status").notNull().default("processing"), // processing, processed, failed
+  payload: jsonb("payload").notNull(), // Full event as delivered, kept for replays and debugging
+  error: text("error"), // Last handler error when status is failed
+  attempts: integer("attempts").notNull().default(1),
+  lastAttemptAt: timestamp("last_attempt_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_stripe_events_type").on(table.type),
+  index("idx_stripe_events_status").on(table.status),
+  // Data integrity constraints
+  check("stripe_event_status_values", sql`${table.status} IN ('processing', 'processed', 'failed')`)
+]);
+
+// Topics submitted together - each accepted row is queued as its own generation job and saved as its own generation
+export const generationBatches = pgTable("generation_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  source: text("source").notNull(), // csv, paste
+  locale: text("locale"), // Language for every row - null writes each in its brand's language
+  rows: jsonb("rows").$type<GenerationBatchRow[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_generation_batches_user_created").on(table.userId, table.createdAt),
+  // Data integrity constraints
+  check("generation_batch_source_values", sql`${table.source} IN ('csv', 'paste')`)
+]);
+
+// Hook generations run by the background worker; the request returns the job ID and the client polls it
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  batchId: varchar("batch_id").references(() => generationBatches.id, { onDelete: "cascade" }), // Set for the rows of a batch
+  status: text("status").notNull().default("queued"), // queued, running, succeeded, failed
+  input: jsonb("input").$type<Record<string, unknown>>().notNull(), // The prepared generation: request, brand context and quota reservation
+  reservationId: varchar("reservation_id").references(() => usageEvents.id, { onDelete: "set null" }), // Quota reservation held while the job is queued or running
+  attempts: integer("attempts").notNull().default(0), // Attempts started so far, including one in progress
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  error: text("error"), // Last attempt's error; kept on retry, final once failed
+  hooks: jsonb("hooks").$type<(typeof hookGenerations.$inferSelect)["hooks"]>().notNull().default([]), // Hooks scored so far by the current attempt
+  generationId: varchar("generation_id").references(() => hookGenerations.id, { onDelete: "set null" }), // Set once succeeded
+  lockedBy: text("locked_by"), // Claim token of the worker attempt running it
+  lockedUntil: timestamp("locked_until"), // Lease - a running job past this is assumed abandoned and picked up again
+  runAfter: timestamp("run_after").defaultNow().notNull(), // Not claimed before this - retries back off
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_generation_jobs_status_run_after").on(table.status, table.runAfter),
+  index("idx_generation_jobs_user_created").on(table.userId, table.createdAt),
+  index("idx_generation_jobs_batch_id").on(table.batchId),
+  index("idx_generation_jobs_reservation_id").on(table.reservationId),
+  // Data integrity constraints
+  check("generation_job_status_values", sql`${table.status} IN ('queued', 'running', 'succeeded', 'failed')`),
+  check("generation_job_attempts_range", sql`${table.attempts} >= 0 AND ${table.maxAttempts} > 0`)
+]);
+
+// Real post performance for a generated hook, entered once it's been published
+export const hookOutcomes = pgTable("hook_outcomes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  generationId: varchar("generation_id").notNull().references(() => hookGenerations.id, { onDelete: "cascade" }),
+  hookIndex: integer("hook_index").notNull(), // Position in hook_generations.hooks
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who recorded it
+  // Snapshot of the hook as generated, so reports can group without unpacking the hooks JSON
+  framework: text("framework").notNull(),
+  psychologicalDriver: text("psychological_driver").notNull(),
+  aiScore: real("ai_score").notNull(), // AI composite score (0-5) at generation time
+  scoreComponents: jsonb("score_components").$type<HookScoreComponents>(), // Null for hooks generated before components were recorded
+  // Post metrics
+  views: integer("views").notNull(),
+  threeSecondRetention: real("three_second_retention").notNull(), // % of viewers still watching at 3s (0-100)
+  avgWatchTimeSeconds: real("avg_watch_time_seconds").notNull(),
+  shares: integer("shares").notNull().default(0),
+  saves: integer("saves").notNull().default(0),
+  postUrl: text("post_url"),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // One outcome per hook
+  uniqueIndex("idx_hook_outcomes_generation_hook").on(table.generationId, table.hookIndex),
+  // Performance indexes for frequent queries
+  index("idx_hook_outcomes_user_id").on(table.userId),
+  // Data integrity constraints
+  check("hook_outcome_index_non_negative", sql`${table.hookIndex} >= 0`),
+  check("hook_outcome_metrics_non_negative", sql`${table.views} >= 0 AND ${table.avgWatchTimeSeconds} >= 0 AND ${table.shares} >= 0 AND ${table.saves} >= 0`),
+  check("hook_outcome_retention_range", sql`${table.threeSecondRetention} >= 0 AND ${table.threeSecondRetention} <= 100`)
+]);
+
+// Full short-form scripts built out from a generated hook - every edit saves a new version
+export const hookScripts = pgTable("hook_scripts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  generationId: varchar("generation_id").notNull().references(() => hookGenerations.id, { onDelete: "cascade" }),
+  hookIndex: integer("hook_index").notNull(), // Position in hook_generations.hooks
+  version: integer("version").notNull(), // 1 for the generated script, then one more per saved edit
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Who generated or edited this version
+  source: text("source").notNull().default("generated"), // generated, edited
+  durationSeconds: integer("duration_seconds").notNull(), // Target running time (30-60s)
+  beats: jsonb("beats").$type<ScriptBeat[]>().notNull(),
+  shots: jsonb("shots").$type<ScriptShot[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // One row per version of a hook's script
+  uniqueIndex("idx_hook_scripts_generation_hook_version").on(table.generationId, table.hookIndex, table.version),
+  // Performance indexes for frequent queries
+  index("idx_hook_scripts_user_id").on(table.userId),
+  // Data integrity constraints
+  check("hook_script_index_non_negative", sql`${table.hookIndex} >= 0`),
+  check("hook_script_version_positive", sql`${table.version} > 0`),
+  check("hook_script_source_values", sql`${table.source} IN ('generated', 'edited')`),
+  check("hook_script_duration_range", sql`${table.durationSeconds} >= 30 AND ${table.durationSeconds} <= 60`)
+]);
+
+// Hook formulas the generator offers the model - the current, editable taxonomy
+export const hookFormulas = pgTable("hook_formulas", {
+  id: varchar("id").primaryKey(), // Formula code, e.g. "QH-01" - never reused, so generations can refer to it
+  category: text("category").notNull(), // e.g. "Question-Based"
+  formula: text("formula").notNull(), // e.g. "Direct Question"
+  driver: text("driver").notNull(), // Psychological driver
+  template: text("template").notNull(), // Fill-in template, e.g. "Did you know that {surprising_fact}?"
+  risk: text("risk").notNull().default("low"), // low, medium, high
+  examples: jsonb("examples").$type<string[]>().notNull().default([]), // Example hooks shown to the model
+  contentTypes: jsonb("content_types").$type<HookContentType[]>().notNull(), // educational, storytelling, mixed
+  sortOrder: integer("sort_order").notNull().default(100), // Lower first within its category
+  status: text("status").notNull().default("active"), // active, retired - retired formulas are kept for older generations
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Performance indexes for frequent queries
+  index("idx_hook_formulas_category").on(table.category, table.sortOrder),
+  // Data integrity constraints
+  check("hook_formula_risk_values", sql`${table.risk} IN ('low', 'medium', 'high')`),
+  check("hook_formula_status_values", sql`${table.status} IN ('active', 'retired')`)
+]);
+
+// Every change to the taxonomy publishes a new version holding all formulas as they stood
+export const hookTaxonomyVersions = pgTable("hook_taxonomy_versions", {
+  version: integer("version").primaryKey(), // 1 for the built-in taxonomy, then one more per change
+  formulas: jsonb("formulas").$type<HookFormulaSnapshot[]>().notNull(),
+  changeNote: text("change_note").notNull(), // e.g. 'Added MB-01 "Myth Bust"'
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }), // Null for the built-in taxonomy
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  check("hook_taxonomy_version_positive", sql`${table.version} > 0`)
+]);
+
 export const favoriteHooks = pgTable("favorite_hooks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   generationId: varchar("generation_id").references(() => hookGenerations.id, { onDelete: "set null" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "set null" }), // Shared with this team workspace
   // Legacy single hook field (deprecated)
   hook: text("hook"),
   // New tri-modal hook data
@@ -154,6 +556,8 @@ export const favoriteHooks = pgTable("favorite_hooks", {
       tiktokColdOpen?: string;    // TikTok visual cold-open suggestion
       instagramOverlay?: string;  // Instagram text overlay (≤24 chars)
       youtubeProofCue?: string;   // YouTube proof element
+      linkedinFoldLine?: string;  // LinkedIn opening shown above "...see more" (≤140 chars)
+      twitterPost?: string;       // X/Twitter post text within the 280-character budget
     };
   }>(),
   framework: text("framework").notNull(),
@@ -167,6 +571,7 @@ export const favoriteHooks = pgTable("favorite_hooks", {
   index("idx_favorite_hooks_created_at").on(table.createdAt),
   index("idx_favorite_hooks_user_created").on(table.userId, table.createdAt),
   index("idx_favorite_hooks_generation_id").on(table.generationId),
+  index("idx_favorite_hooks_workspace_created").on(table.workspaceId, table.createdAt),
   // Prevent duplicate favorites for same generation
   index("idx_favorite_hooks_unique_user_generation").on(table.userId, table.generationId)
 ]);
@@ -219,9 +624,13 @@ export const analyticsEvents = pgTable("analytics_events", {
   }>().notNull(),
   ipAddress: varchar("ip_address"), // Nullable for privacy compliance
   userConsent: boolean("user_consent").default(false),
-  createdAt: timestamp("created_at").defaultNow(),
+  dedupeKey: varchar("dedupe_key"), // Hash of the session and the client's event ID, so a resent batch isn't stored twice
+  createdAt: timestamp("created_at").defaultNow(), // When the event happened, by the client's clock
+  receivedAt: timestamp("received_at").defaultNow(), // When it was stored - the funnel processor's watermark
 }, (table) => [
   // Performance indexes for analytics queries
+  uniqueIndex("idx_analytics_events_dedupe_key").on(table.dedupeKey),
+  index("idx_analytics_events_received_at").on(table.receivedAt),
   index("idx_analytics_events_session_id").on(table.sessionId),
   index("idx_analytics_events_user_id").on(table.userId),
   index("idx_analytics_events_event_type").on(table.eventType),
@@ -232,6 +641,52 @@ export const analyticsEvents = pgTable("analytics_events", {
   check("event_type_values", sql`${table.eventType} IN ('cta_click', 'cta_view', 'cta_hover', 'trust_signal_view', 'urgency_indicator_view', 'funnel_step', 'ab_test_exposure', 'error', 'performance', 'page_view', 'user_identified', 'session_reset', 'conversion')`),
 ]);
 
+// Performance budget violations reported by the client's budget monitor
+export const performanceViolations = pgTable("performance_violations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  metric: varchar("metric").notNull(), // e.g. "LCP", "bundle-size"
+  value: real("value").notNull(),
+  threshold: real("threshold").notNull(),
+  severity: varchar("severity").notNull(),
+  url: text("url").notNull(),
+  userAgent: text("user_agent"),
+  connectionType: varchar("connection_type"),
+  context: jsonb("context").$type<Record<string, unknown>>().notNull().default({}),
+  ipAddress: varchar("ip_address"), // Anonymized when ANONYMIZE_IPS is on
+  occurredAt: timestamp("occurred_at").notNull(), // Client clock, clamped to the time it was received
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_performance_violations_metric_created").on(table.metric, table.createdAt),
+  index("idx_performance_violations_created_at").on(table.createdAt),
+  check("performance_violation_severity_values", sql`${table.severity} IN ('warning', 'error', 'critical')`)
+]);
+
+export const monitoringAlerts = pgTable("monitoring_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type").notNull(),
+  severity: varchar("severity").notNull(),
+  dedupeKey: varchar("dedupe_key").notNull(), // What the alert is about, e.g. "error:rate" - at most one unresolved alert per key
+  message: text("message").notNull(),
+  threshold: real("threshold").notNull(),
+  currentValue: real("current_value").notNull(), // As of the latest trigger
+  status: varchar("status").notNull().default("open"),
+  occurrences: integer("occurrences").notNull().default(1),
+  lastTriggeredAt: timestamp("last_triggered_at").notNull().defaultNow(),
+  lastNotifiedAt: timestamp("last_notified_at"), // Repeats within the cool-down window after this aren't delivered again
+  deliveries: jsonb("deliveries").$type<AlertDelivery[]>().notNull().default([]), // Most recent delivery attempts, newest last
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_monitoring_alerts_unresolved_key").on(table.dedupeKey).where(sql`${table.status} <> 'resolved'`),
+  index("idx_monitoring_alerts_status_created").on(table.status, table.createdAt),
+  check("monitoring_alert_type_values", sql`${table.type} IN ('performance', 'conversion', 'error', 'ab_test')`),
+  check("monitoring_alert_severity_values", sql`${table.severity} IN ('low', 'medium', 'high', 'critical')`),
+  check("monitoring_alert_status_values", sql`${table.status} IN ('open', 'acknowledged', 'resolved')`)
+]);
+
 // A/B Testing Configuration Table
 export const abTests = pgTable("ab_tests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -292,7 +747,7 @@ export const abTestParticipants = pgTable("ab_test_participants", {
   index("idx_ab_test_participants_test_variant").on(table.testId, table.variantId),
   index("idx_ab_test_participants_converted").on(table.converted),
   // Unique constraint to prevent duplicate participation
-  index("idx_ab_test_participants_unique").on(table.testId, table.sessionId)
+  uniqueIndex("idx_ab_test_participants_unique").on(table.testId, table.sessionId)
 ]);
 
 // Conversion Funnels Table
@@ -308,6 +763,7 @@ export const conversionFunnels = pgTable("conversion_funnels", {
     optional: boolean;
   }>>().notNull(),
   isActive: boolean("is_active").default(true),
+  processedThrough: timestamp("processed_through"), // analytics_events received up to here are mapped; null re-maps everything
   createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -330,10 +786,11 @@ export const funnelEvents = pgTable("funnel_events", {
   timeFromPrevious: integer("time_from_previous"), // in milliseconds
   abandoned: boolean("abandoned").default(false),
   completed: boolean("completed").default(false),
-  eventData: jsonb("event_data").$type<Record<string, any>>().default({}),
-  createdAt: timestamp("created_at").defaultNow(),
+  eventData: jsonb("event_data").$type<Record<string, any>>().default({}), // Session breakdowns: device, platform, referrer
+  createdAt: timestamp("created_at").defaultNow(), // When the session reached the step
 }, (table) => [
   // Performance indexes
+  index("idx_funnel_events_funnel_step_created").on(table.funnelId, table.stepIndex, table.createdAt),
   index("idx_funnel_events_funnel_id").on(table.funnelId),
   index("idx_funnel_events_session_id").on(table.sessionId),
   index("idx_funnel_events_user_id").on(table.userId),
@@ -360,7 +817,7 @@ export const userConsent = pgTable("user_consent", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   // Performance indexes
-  index("idx_user_consent_session_id").on(table.sessionId),
+  uniqueIndex("idx_user_consent_session_id").on(table.sessionId), // One consent record per session, updated in place
   index("idx_user_consent_user_id").on(table.userId),
   index("idx_user_consent_analytics").on(table.analyticsConsent),
   index("idx_user_consent_created_at").on(table.createdAt),
@@ -368,6 +825,37 @@ export const userConsent = pgTable("user_consent", {
   check("consent_method_values", sql`${table.consentMethod} IN ('explicit', 'implicit', 'essential')`)
 ]);
 
+// Audit trail of consent changes, data exports and account deletions
+export const privacyRequests = pgTable("privacy_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Null once the account is deleted
+  type: varchar("type").notNull(), // consent, consent_withdrawal, export, deletion
+  status: varchar("status").notNull().default("scheduled"),
+  details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}), // What was consented to, exported or cleaned up
+  ipAddress: varchar("ip_address"), // Anonymized when ANONYMIZE_IPS is on
+  scheduledFor: timestamp("scheduled_for"), // Deletions run once their grace period ends
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"), // Last failure
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_privacy_requests_user_created").on(table.userId, table.createdAt),
+  index("idx_privacy_requests_status_scheduled").on(table.status, table.scheduledFor),
+  // At most one pending deletion per account
+  uniqueIndex("idx_privacy_requests_pending_deletion").on(table.userId).where(sql`${table.type} = 'deletion' AND ${table.status} IN ('scheduled', 'processing')`),
+  check("privacy_request_type_values", sql`${table.type} IN ('consent', 'consent_withdrawal', 'export', 'deletion')`),
+  check("privacy_request_status_values", sql`${table.status} IN ('scheduled', 'processing', 'completed', 'failed', 'cancelled')`)
+]);
+
+// A supported language, optionally with a region: "es", "pt-BR"
+export const localeSchema = z.string()
+  .trim()
+  .regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Locale must look like \"es\" or \"pt-BR\"")
+  .refine(locale => (HOOK_LANGUAGES as readonly string[]).includes(locale.slice(0, 2)), {
+    message: `Language must be one of: ${HOOK_LANGUAGES.join(", ")}`
+  });
+
 // Auth schemas
 export const registerSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -403,6 +891,372 @@ export const upsertUserSchema = createInsertSchema(users).pick({
   profileImageUrl: true,
 });
 
+export const insertBrandProfileSchema = createInsertSchema(brandProfiles).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Brand name is required").max(120),
+  bannedTerms: z.array(z.string().trim().min(1)).max(100).optional(),
+  safety: z.enum(["family-friendly", "standard", "edgy"]).optional(),
+  locale: localeSchema.optional(),
+});
+
+export const updateBrandProfileSchema = insertBrandProfileSchema.partial();
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(120),
+});
+
+export const insertWorkspaceInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  role: z.enum(["editor", "viewer"]).default("editor"),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(["editor", "viewer"]),
+});
+
+export const updateOverageSettingsSchema = z.object({
+  enabled: z.boolean(),
+  capCents: z.number().int().min(100, "Spending cap must be at least $1").max(100000, "Spending cap can't exceed $1,000"),
+});
+
+export const changePlanSchema = z.object({
+  plan: z.enum(["starter", "creator", "pro", "teams"]),
+  prorationDate: z.number().int().positive().optional(), // From the preview, so the charge matches what was shown
+});
+
+export const recordHookOutcomeSchema = z.object({
+  views: z.number().int().min(0),
+  threeSecondRetention: z.number().min(0).max(100, "3-second retention is a percentage (0-100)"),
+  avgWatchTimeSeconds: z.number().min(0),
+  shares: z.number().int().min(0).default(0),
+  saves: z.number().int().min(0).default(0),
+  postUrl: z.string().url().nullable().optional(),
+  postedAt: z.coerce.date().nullable().optional(),
+});
+
+export const localizeHookSchema = z.object({
+  locale: localeSchema,
+});
+
+// The CSV or pasted list is parsed server-side; platform and objective fill in rows that leave them out
+export const createGenerationBatchSchema = z.object({
+  name: z.string().trim().max(120).optional(),
+  source: z.enum(GENERATION_BATCH_SOURCES),
+  content: z.string().trim().min(1, "Add at least one topic").max(100_000, "That's too much text for one batch"),
+  platform: z.enum(GENERATION_PLATFORMS),
+  objective: z.enum(GENERATION_OBJECTIVES),
+  brandId: z.string().nullable().optional(),
+  locale: localeSchema.optional(),
+});
+
+// Export one generation or a whole batch; captions are per video, so hookIndex picks the hook (default: the top pick)
+export const createExportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  generationId: z.string().min(1).optional(),
+  batchId: z.string().min(1).optional(),
+  hookIndex: z.number().int().min(0).optional(),
+}).refine(request => !!request.generationId !== !!request.batchId, {
+  message: "Export either a generationId or a batchId",
+  path: ["generationId"],
+});
+
+// Analytics events as sent by client/src/lib/analytics.ts; each event in a batch is validated on its own
+const analyticsEventBase = {
+  eventId: z.string().min(1).max(100).optional(), // Client-generated, used to drop resent events
+  timestamp: z.number(),
+  sessionId: z.string().min(1).max(100),
+  userId: z.string().max(100).optional(),
+  deviceInfo: z.object({
+    userAgent: z.string(),
+    platform: z.enum(["desktop", "mobile", "tablet"]),
+    screenResolution: z.tuple([z.number(), z.number()]),
+    colorDepth: z.number(),
+    timezone: z.string(),
+    language: z.string(),
+  }),
+  pageInfo: z.object({
+    url: z.string().url(),
+    referrer: z.string(),
+    title: z.string(),
+    path: z.string(),
+    queryParams: z.record(z.string()),
+  }),
+};
+
+export const analyticsEventSchema = z.discriminatedUnion("eventType", [
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("cta_click"),
+    properties: z.object({
+      ctaId: z.string(),
+      ctaVariant: z.string(),
+      ctaText: z.string(),
+      ctaPosition: z.string(),
+      platform: z.string().optional(),
+      testVariant: z.string().optional(),
+      conversionValue: z.number().optional(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("cta_view"),
+    properties: z.object({
+      ctaId: z.string(),
+      ctaVariant: z.string(),
+      viewDuration: z.number(),
+      scrollDepth: z.number(),
+      inViewport: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("trust_signal_view"),
+    properties: z.object({
+      signalType: z.string(),
+      signalVariant: z.string(),
+      viewDuration: z.number(),
+      interacted: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("urgency_indicator_view"),
+    properties: z.object({
+      indicatorType: z.string(),
+      urgencyLevel: z.string(),
+      timeRemaining: z.number().optional(),
+      triggered: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("funnel_step"),
+    properties: z.object({
+      funnelId: z.string(),
+      stepIndex: z.number().int().min(0),
+      stepName: z.string(),
+      previousStep: z.string().optional(),
+      timeFromPrevious: z.number().optional(),
+      abandoned: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("ab_test_exposure"),
+    properties: z.object({
+      testId: z.string(),
+      variantId: z.string(),
+      exposureTime: z.number(),
+      eligible: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("error"),
+    properties: z.object({
+      errorType: z.string(),
+      errorMessage: z.string(),
+      stackTrace: z.string(),
+      componentName: z.string(),
+      recoverable: z.boolean(),
+      errorBoundary: z.boolean(),
+    }),
+  }),
+  z.object({
+    ...analyticsEventBase,
+    eventType: z.literal("performance"),
+    properties: z.object({
+      metricName: z.string(),
+      metricValue: z.number(),
+      metricUnit: z.string(),
+      componentName: z.string(),
+      renderTime: z.number().optional(),
+    }),
+  }),
+]);
+
+export const analyticsBatchSchema = z.object({
+  events: z.array(z.unknown()),
+  timestamp: z.number().optional(),
+});
+
+export const performanceViolationSchema = z.object({
+  metric: z.string().min(1).max(100),
+  value: z.number().finite(),
+  threshold: z.number().finite(),
+  severity: z.enum(PERFORMANCE_VIOLATION_SEVERITIES),
+  timestamp: z.number(),
+  url: z.string().max(2000),
+  userAgent: z.string().max(1000).optional(),
+  connectionType: z.string().max(50).optional(),
+  context: z.record(z.unknown()).optional(),
+});
+
+const abTestVariantsSchema = z.record(z.object({
+  weight: z.number().min(0),
+  config: z.record(z.unknown()).default({}),
+})).refine(variants => Object.keys(variants).length >= 2, { message: "A test needs at least two variants" })
+  .refine(variants => Object.values(variants).some(variant => variant.weight > 0), { message: "At least one variant needs a weight above zero" });
+
+const abTestTargetingSchema = z.object({
+  userSegments: z.array(z.string()).optional(),
+  geoTargeting: z.array(z.string().length(2).toUpperCase()).optional(),
+  deviceTypes: z.array(z.enum(AB_TEST_DEVICE_TYPES)).optional(),
+  customRules: z.record(z.unknown()).optional(),
+});
+
+// Variant IDs are the keys of variants; "control" is the baseline the others are tested against
+export const createAbTestSchema = z.object({
+  testName: z.string().trim().min(1).max(100).regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, numbers and dashes"),
+  testDescription: z.string().max(1000).optional(),
+  variants: abTestVariantsSchema,
+  trafficAllocation: z.number().int().min(0).max(100).default(100),
+  targetingRules: abTestTargetingSchema.optional(),
+  minSampleSize: z.number().int().min(1).default(100),
+  significanceLevel: z.number().int().min(90).max(99).default(95),
+  primaryMetric: z.string().max(100).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+export const updateAbTestSchema = z.object({
+  status: z.enum(AB_TEST_STATUSES).optional(),
+  testDescription: z.string().max(1000).optional(),
+  variants: abTestVariantsSchema.optional(),
+  trafficAllocation: z.number().int().min(0).max(100).optional(),
+  targetingRules: abTestTargetingSchema.nullable().optional(),
+  minSampleSize: z.number().int().min(1).optional(),
+  significanceLevel: z.number().int().min(90).max(99).optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  winnerVariant: z.string().nullable().optional(),
+});
+
+export const abTestAssignmentSchema = z.object({
+  sessionId: z.string().min(1).max(100),
+  deviceType: z.enum(AB_TEST_DEVICE_TYPES).optional(),
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(), // Matched against customRules
+});
+
+export const abTestConversionSchema = z.object({
+  sessionId: z.string().min(1).max(100),
+  value: z.number().int().min(0).optional(),
+});
+
+// A step's requiredEvent is an analytics event type, optionally narrowed after a colon:
+// "funnel_step:onboarding_started" (step name), "cta_click:hero-start" (CTA ID) or "cta_view:/pricing" (page path)
+const funnelStepSchema = z.object({
+  stepName: z.string().trim().min(1).max(100),
+  stepType: z.string().trim().max(50).default("event"),
+  requiredEvent: z.string().trim().regex(new RegExp(`^(${ANALYTICS_EVENT_TYPES.join("|")})(:.+)?$`), `Must be an analytics event type (${ANALYTICS_EVENT_TYPES.join(", ")}), optionally followed by ":" and a step name, CTA ID or page path`),
+  optional: z.boolean().default(false),
+});
+
+export const createConversionFunnelSchema = z.object({
+  funnelName: z.string().trim().min(1).max(100),
+  funnelDescription: z.string().max(1000).optional(),
+  steps: z.array(funnelStepSchema).min(2, "A funnel needs at least two steps").max(20)
+    .refine(steps => !steps[0]?.optional, { message: "The first step can't be optional" }),
+  isActive: z.boolean().default(true),
+});
+
+export const updateConversionFunnelSchema = z.object({
+  funnelName: z.string().trim().min(1).max(100).optional(),
+  funnelDescription: z.string().max(1000).nullable().optional(),
+  steps: z.array(funnelStepSchema).min(2, "A funnel needs at least two steps").max(20)
+    .refine(steps => !steps[0]?.optional, { message: "The first step can't be optional" })
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Entry cohort for a funnel report - sessions that reached the first step in [from, to)
+export const funnelReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(range => !range.from || !range.to || range.from < range.to, { message: "from must be before to", path: ["from"] });
+
+export const monitoringAlertQuerySchema = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  type: z.enum(ALERT_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const recordConsentSchema = z.object({
+  sessionId: z.string().min(1).max(255),
+  analyticsConsent: z.boolean(),
+  marketingConsent: z.boolean().default(false),
+  personalizationConsent: z.boolean().default(false),
+  consentVersion: z.string().min(1).max(20).default("1.0"),
+  consentMethod: z.enum(CONSENT_METHODS).default("explicit"),
+});
+
+// Without a session ID every consent record of the account is withdrawn
+export const withdrawConsentSchema = z.object({
+  sessionId: z.string().min(1).max(255).optional(),
+});
+
+// The account's email address, typed again to confirm
+export const requestAccountDeletionSchema = z.object({
+  confirmEmail: z.string().trim().email("Please enter a valid email address"),
+});
+
+export const SCRIPT_DURATION_RANGE = [30, 60] as const;
+
+export const buildHookScriptSchema = z.object({
+  durationSeconds: z.number().int().min(SCRIPT_DURATION_RANGE[0]).max(SCRIPT_DURATION_RANGE[1]).default(45),
+});
+
+const scriptBeatSchema = z.object({
+  type: z.enum(["hook", "rehook", "value", "cta"]),
+  startSeconds: z.number().min(0),
+  endSeconds: z.number().min(0),
+  voiceover: z.string().trim().min(1, "Every beat needs voiceover").max(1000),
+  onScreenText: z.string().trim().max(200).optional(),
+}).refine(beat => beat.endSeconds > beat.startSeconds, { message: "A beat must end after it starts", path: ["endSeconds"] });
+
+// An edited script, saved as a new version
+export const saveHookScriptSchema = z.object({
+  durationSeconds: z.number().int().min(SCRIPT_DURATION_RANGE[0]).max(SCRIPT_DURATION_RANGE[1]),
+  beats: z.array(scriptBeatSchema).min(1).max(20),
+  shots: z.array(z.object({
+    beatIndex: z.number().int().min(0),
+    startSeconds: z.number().min(0),
+    description: z.string().trim().min(1).max(500),
+  })).max(40),
+}).refine(script => script.shots.every(shot => shot.beatIndex < script.beats.length), {
+  message: "Every shot must belong to one of the script's beats",
+  path: ["shots"],
+});
+
+const hookFormulaFields = {
+  category: z.string().trim().min(1, "Category is required").max(60),
+  formula: z.string().trim().min(1, "Formula name is required").max(120),
+  driver: z.string().trim().min(1, "Driver is required").max(120),
+  template: z.string().trim().min(1, "Template is required").max(300),
+  risk: z.enum(["low", "medium", "high"]),
+  examples: z.array(z.string().trim().min(1).max(300)).max(10),
+  contentTypes: z.array(z.enum(HOOK_CONTENT_TYPES)).min(1, "Offer the formula for at least one content type"),
+  sortOrder: z.number().int().min(0).max(1000),
+  changeNote: z.string().trim().max(300).optional(), // Recorded on the taxonomy version the change publishes
+};
+
+export const insertHookFormulaSchema = z.object({
+  ...hookFormulaFields,
+  id: z.string().trim().regex(/^[A-Z]{2,4}-\d{2,3}$/, "Formula IDs look like QH-01 or MB-01"),
+  risk: hookFormulaFields.risk.default("low"),
+  examples: hookFormulaFields.examples.default([]),
+  sortOrder: hookFormulaFields.sortOrder.default(100),
+});
+
+// Retiring a formula is an update to its status
+export const updateHookFormulaSchema = z.object({
+  ...hookFormulaFields,
+  status: z.enum(["active", "retired"]),
+}).partial();
+
 export const insertHookGenerationSchema = createInsertSchema(hookGenerations).omit({
   id: true,
   createdAt: true,
@@ -410,6 +1264,7 @@ export const insertHookGenerationSchema = createInsertSchema(hookGenerations).om
 
 export const insertFavoriteHookSchema = z.object({
   userId: z.string(),
+  workspaceId: z.string().nullable().optional(), // Set by the server from the user's workspace, never by clients
   hook: z.string().optional(),
   generationId: z.string().optional(),
   framework: z.string(),
@@ -431,6 +1286,8 @@ export const insertFavoriteHookSchema = z.object({
       tiktokColdOpen: z.string().optional(),
       instagramOverlay: z.string().optional(),
       youtubeProofCue: z.string().optional(),
+      linkedinFoldLine: z.string().optional(),
+      twitterPost: z.string().optional(),
     }).optional(),
   }).optional()
 });
@@ -445,9 +1302,53 @@ export type LoginData = z.infer<typeof loginSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UsageEvent = typeof usageEvents.$inferSelect;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type InsertBrandProfile = z.infer<typeof insertBrandProfileSchema>;
+export type UpdateBrandProfile = z.infer<typeof updateBrandProfileSchema>;
+export type BrandProfile = typeof brandProfiles.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type InsertWorkspaceInvitation = z.infer<typeof insertWorkspaceInvitationSchema>;
+export type UpdateOverageSettings = z.infer<typeof updateOverageSettingsSchema>;
+export type ChangePlan = z.infer<typeof changePlanSchema>;
 export type InsertHookGeneration = z.infer<typeof insertHookGenerationSchema>;
 export type HookGeneration = typeof hookGenerations.$inferSelect;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type GenerationBatch = typeof generationBatches.$inferSelect;
+export type CreateExport = z.infer<typeof createExportSchema>;
+export type TrackedAnalyticsEvent = z.infer<typeof analyticsEventSchema>;
+export type PerformanceViolation = typeof performanceViolations.$inferSelect;
+export type AbTest = typeof abTests.$inferSelect;
+export type AbTestParticipant = typeof abTestParticipants.$inferSelect;
+export type CreateAbTest = z.infer<typeof createAbTestSchema>;
+export type UpdateAbTest = z.infer<typeof updateAbTestSchema>;
+export type AbTestAssignmentRequest = z.infer<typeof abTestAssignmentSchema>;
+export type MonitoringAlert = typeof monitoringAlerts.$inferSelect;
+export type MonitoringAlertQuery = z.infer<typeof monitoringAlertQuerySchema>;
+export type PrivacyRequest = typeof privacyRequests.$inferSelect;
+export type UserConsent = typeof userConsent.$inferSelect;
+export type RecordConsent = z.infer<typeof recordConsentSchema>;
+export type ConversionFunnel = typeof conversionFunnels.$inferSelect;
+export type FunnelEvent = typeof funnelEvents.$inferSelect;
+export type CreateConversionFunnel = z.infer<typeof createConversionFunnelSchema>;
+export type UpdateConversionFunnel = z.infer<typeof updateConversionFunnelSchema>;
+export type ReportPerformanceViolation = z.infer<typeof performanceViolationSchema>;
+export type CreateGenerationBatch = z.infer<typeof createGenerationBatchSchema>;
 export type InsertFavoriteHook = z.infer<typeof insertFavoriteHookSchema>;
 export type FavoriteHook = typeof favoriteHooks.$inferSelect;
+export type HookOutcome = typeof hookOutcomes.$inferSelect;
+export type RecordHookOutcome = z.infer<typeof recordHookOutcomeSchema>;
+export type HookScript = typeof hookScripts.$inferSelect;
+export type BuildHookScript = z.infer<typeof buildHookScriptSchema>;
+export type SaveHookScript = z.infer<typeof saveHookScriptSchema>;
+export type LocalizeHook = z.infer<typeof localizeHookSchema>;
+export type HookFormula = typeof hookFormulas.$inferSelect;
+export type InsertHookFormula = z.infer<typeof insertHookFormulaSchema>;
+export type UpdateHookFormula = z.infer<typeof updateHookFormulaSchema>;
+export type HookTaxonomyVersion = typeof hookTaxonomyVersions.$inferSelect;
 export type InsertUserRecentHook = z.infer<typeof insertUserRecentHookSchema>;
 export type UserRecentHook = typeof userRecentHooks.$inferSelect;